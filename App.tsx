@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect, lazy, Suspense } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo, lazy, Suspense } from 'react';
 import { Map as AtlasMap } from './components/Map';
 import { SearchPanel } from './components/SearchPanel';
 import { SearchFABs } from './components/SearchFABs';
@@ -22,15 +22,50 @@ const BuildingEditorModal = lazy(() =>
 const CommentModal = lazy(() => 
   import('./components/CommentModal').then(module => ({ default: module.CommentModal }))
 );
-import { AdminToggle } from './components/AdminToggle';
-import { Building, Coordinates } from './types';
+const LoginModal = lazy(() => 
+  import('./components/LoginModal').then(module => ({ default: module.LoginModal }))
+);
+const DedupeReviewModal = lazy(() => 
+  import('./components/DedupeReviewModal').then(module => ({ default: module.DedupeReviewModal }))
+);
+const DeletedBuildingsModal = lazy(() => 
+  import('./components/DeletedBuildingsModal').then(module => ({ default: module.DeletedBuildingsModal }))
+);
+const OutboxModal = lazy(() => 
+  import('./components/OutboxModal').then(module => ({ default: module.OutboxModal }))
+);
+const OfflineRegionsModal = lazy(() => 
+  import('./components/OfflineRegionsModal').then(module => ({ default: module.OfflineRegionsModal }))
+);
+const AiBudgetModal = lazy(() => 
+  import('./components/AiBudgetModal').then(module => ({ default: module.AiBudgetModal }))
+);
+import { AccountControls } from './components/AccountControls';
+import { AuthUser, Building, Comment, Coordinates, OutboxEntry } from './types';
+import { getCurrentUser, hasRole, logout, refreshSession } from './services/authService';
+import { purgeCaches, registerServiceWorker } from './services/serviceWorkerService';
+import { isTryLaterError } from './services/serviceErrors';
+import { presentError } from './utils/errorPresenter';
 import { fetchLairs, geocodeLocation, fetchImageForBuilding, isPOIQuery, searchPOIByName, checkPOIStyleCriteria } from './services/geminiService';
-import { fetchAllBuildings, fetchBuildingsNearLocation, fetchBuildingByName, updateBuildingInBaserow, dedupeBaserowBuildings, saveBuildingToBaserow, hideBuildingInBaserow, toggleFavouriteInBaserow, addCommentToBuilding, updateCommentInBuilding, deleteCommentFromBuilding } from './services/baserowService';
-import { DEFAULT_COORDINATES, TARGET_NEAREST_SEARCH_RADIUS } from './constants';
+import { fetchAllBuildings, fetchBuildingChanges, mergeBuildingChanges, getSyncCursor, fetchBuildingsNearLocation, fetchBuildingByName, updateBuildingInBaserow, planDedupe, applyDedupeGroup, saveBuildingToBaserow, fetchBuildingComments, buildCommentThreads, fetchBuildingByRowId, fetchBuildingRevisions, restoreBuildingRevision, DedupeGroup } from './services/baserowService';
+import { DEFAULT_COORDINATES, FULL_SYNC_INTERVAL_MS, MAP_TILE_URL_DARK, MAP_TILE_URL_LIGHT, TARGET_NEAREST_SEARCH_RADIUS } from './constants';
 import { AlertTriangle, Info, Heart, Scan, X } from 'lucide-react';
 import { PrimaryButton } from './ui/atoms';
 import { typography, getThemeColors, fontFamily } from './ui/theme';
-import { loadBuildingsFromIndexedDB, saveBuildingsToIndexedDB } from './utils/indexedDB';
+import { loadBuildingsFromIndexedDB, saveBuildingsToIndexedDB, applyBuildingChangesToIndexedDB, loadSyncState, saveSyncState } from './utils/indexedDB';
+import { getDistance } from './utils/geo';
+import { submitMutation, subscribeToOutbox, replayOutbox, retryOutboxEntry, discardOutboxEntry, updateQueuedCreate, discardQueuedCreate, applyQueuedComments, QueueReason } from './services/outboxService';
+import { createBuildingIndex, createSpatialIndex, SpatialIndex } from './utils/spatialIndex';
+import { createDuplicateMatcher, matchableFromBuilding, normalizeName } from './utils/duplicateMatching';
+
+const duplicateMatcher = createDuplicateMatcher();
+
+// Status line for an edit that went into the outbox - only "Offline" when it really is
+const queuedStatus = (reason: QueueReason, subject: string, offlineMessage: string) => {
+  if (reason === 'held_back') return `${subject} is waiting behind a held-back edit - see Outbox`;
+  if (reason === 'waiting') return `${subject} will sync after earlier edits`;
+  return offlineMessage;
+};
 
 function App() {
   const [center, setCenter] = useState<Coordinates>(DEFAULT_COORDINATES);
@@ -67,12 +102,22 @@ function App() {
   const [poiConfirmationBuilding, setPOIConfirmationBuilding] = useState<Building | null>(null);
   const [buildingToDelete, setBuildingToDelete] = useState<Building | null>(null);
   const [adminModeEnabled, setAdminModeEnabled] = useState(false);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(() => getCurrentUser());
+  const [showLoginModal, setShowLoginModal] = useState(false);
+  const [showDeletedModal, setShowDeletedModal] = useState(false);
+  const [showAiBudgetModal, setShowAiBudgetModal] = useState(false);
+  const [dedupePlan, setDedupePlan] = useState<DedupeGroup[] | null>(null);
   const [showEditorModal, setShowEditorModal] = useState(false);
   const [editingBuilding, setEditingBuilding] = useState<Building | null>(null);
   const [clickedCoordinates, setClickedCoordinates] = useState<Coordinates | null>(null);
   const [buttonsVisible, setButtonsVisible] = useState(false);
   const [showCommentModal, setShowCommentModal] = useState(false);
-  const [editingCommentIndex, setEditingCommentIndex] = useState<number | null>(null);
+  const [editingComment, setEditingComment] = useState<Comment | null>(null);
+  const [replyingToComment, setReplyingToComment] = useState<Comment | null>(null);
+  const [selectedComments, setSelectedComments] = useState<Comment[]>([]);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [showOutboxModal, setShowOutboxModal] = useState(false);
+  const [showOfflineRegionsModal, setShowOfflineRegionsModal] = useState(false);
   const [blacklistedBuildingIds, setBlacklistedBuildingIds] = useState<Set<number>>(() => {
     // Load blacklisted IDs from localStorage
     if (typeof window !== 'undefined') {
@@ -115,6 +160,183 @@ function App() {
     }
   }, [theme]);
 
+  // Role gates (the proxy enforces the same rules server-side)
+  const canContribute = hasRole(currentUser, 'contributor');
+  const isCurator = hasRole(currentUser, 'curator');
+
+  // Re-validate a stored session on load (expired tokens sign you out)
+  useEffect(() => {
+    refreshSession().then(setCurrentUser);
+  }, []);
+
+  // Admin mode is only available to contributors and curators
+  useEffect(() => {
+    if (!canContribute && adminModeEnabled) {
+      setAdminModeEnabled(false);
+    }
+  }, [canContribute, adminModeEnabled]);
+
+  // Authors can change their own comments, curators anyone's (mirrors server/lib/comments.js)
+  const canEditComment = useCallback(
+    (comment: Comment) => isCurator || (!!currentUser && currentUser.username === comment.author),
+    [isCurator, currentUser]
+  );
+
+  // Comment threads for the open building (only stored buildings have comments)
+  const selectedRowId = selectedBuilding && /^baserow-\d+$/.test(selectedBuilding.id)
+    ? parseInt(selectedBuilding.id.replace('baserow-', ''), 10)
+    : null;
+
+  // Buildings the comment editor can link to
+  const linkableBuildings = useMemo(
+    () =>
+      allBaserowBuildings
+        .filter((b) => /^baserow-\d+$/.test(b.id))
+        .map((b) => ({ rowId: parseInt(b.id.replace('baserow-', ''), 10), name: b.name, city: b.city })),
+    [allBaserowBuildings]
+  );
+
+  // Follow a building link in a comment: open that building and centre the map on it
+  const handleOpenLinkedBuilding = useCallback(async (rowId: number) => {
+    try {
+      const building =
+        allBaserowBuildings.find((b) => b.id === `baserow-${rowId}`) || (await fetchBuildingByRowId(rowId));
+      if (!building) {
+        setStatusMessage('That building is no longer on the map');
+        setTimeout(() => setStatusMessage(null), 3000);
+        return;
+      }
+      setSelectedBuilding(building);
+      setCenter(building.coordinates);
+    } catch (err) {
+      console.error(`Failed to open linked building ${rowId}:`, err);
+      setError(presentError(err, 'Could not open the linked building'));
+    }
+  }, [allBaserowBuildings]);
+
+  const reloadSelectedComments = useCallback(async (rowId: number) => {
+    setSelectedComments(await fetchBuildingComments(rowId));
+  }, []);
+
+  useEffect(() => {
+    setSelectedComments([]);
+    if (selectedRowId === null) return;
+    let cancelled = false;
+    fetchBuildingComments(selectedRowId)
+      .then((comments) => {
+        if (!cancelled) setSelectedComments(comments);
+      })
+      .catch((err) => console.error('Failed to load comments:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRowId]);
+
+  // Threads for the details panel, including comment edits still waiting in the outbox
+  const selectedCommentThreads = useMemo(
+    () => buildCommentThreads(selectedRowId === null ? [] : applyQueuedComments(selectedComments, outboxEntries, selectedRowId)),
+    [selectedComments, outboxEntries, selectedRowId]
+  );
+
+  // Swap a building in every list it appears in (e.g. an optimistic edit for the saved version)
+  const replaceBuilding = useCallback((id: string, building: Building | null) => {
+    const swap = (list: Building[]) =>
+      building ? list.map((b) => (b.id === id ? building : b)) : list.filter((b) => b.id !== id);
+    setBuildings(swap);
+    setAllBaserowBuildings(swap);
+    setSelectedBuilding((prev) => (prev && prev.id === id ? building : prev));
+  }, []);
+
+  const selectedRowIdRef = useRef(selectedRowId);
+  selectedRowIdRef.current = selectedRowId;
+
+  // Offline outbox: track queued edits, and when one reaches the server swap the optimistic
+  // version for the saved one. Replays whenever the browser comes back online, and retries
+  // every 30s while anything is pending (navigator.onLine can't see a dead API server).
+  useEffect(() => {
+    const unsubscribe = subscribeToOutbox((event) => {
+      if (event.type === 'changed') {
+        setOutboxEntries(event.entries);
+        return;
+      }
+      const { mutation } = event.entry;
+      if (mutation.kind === 'createBuilding') {
+        replaceBuilding(mutation.tempId, event.result as Building);
+      } else if (mutation.kind === 'updateBuilding') {
+        replaceBuilding(`baserow-${mutation.rowId}`, event.result as Building);
+      } else if (mutation.kind === 'addComment' || mutation.kind === 'updateComment' || mutation.kind === 'deleteComment') {
+        if (selectedRowIdRef.current === mutation.rowId) {
+          fetchBuildingComments(mutation.rowId)
+            .then(setSelectedComments)
+            .catch((err) => console.error('Failed to reload comments:', err));
+        }
+      }
+    });
+
+    const handleOnline = () => {
+      console.log('🌐 Back online - syncing queued edits');
+      void replayOutbox();
+    };
+    window.addEventListener('online', handleOnline);
+    void replayOutbox();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [replaceBuilding]);
+
+  const hasPendingEdits = outboxEntries.some((entry) => entry.status === 'pending');
+  useEffect(() => {
+    if (!hasPendingEdits) return;
+    const timer = setInterval(() => void replayOutbox(), 30000);
+    return () => clearInterval(timer);
+  }, [hasPendingEdits]);
+
+  // Admin "purge caches": drop every cached building response and reload from the server
+  const handlePurgeCaches = useCallback(async () => {
+    setStatusMessage('Purging caches...');
+    try {
+      await purgeCaches();
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to purge caches:', error);
+      setStatusMessage('Failed to purge caches');
+    }
+  }, []);
+
+  // Throw away a held-back edit and put back what the server has
+  const handleDiscardOutboxEntry = useCallback(async (entry: OutboxEntry) => {
+    await discardOutboxEntry(entry);
+    const { mutation } = entry;
+    if (mutation.kind === 'createBuilding') {
+      replaceBuilding(mutation.tempId, null);
+      return;
+    }
+    if (mutation.kind === 'addComment' || mutation.kind === 'updateComment' || mutation.kind === 'deleteComment') {
+      if (selectedRowIdRef.current === mutation.rowId) {
+        setSelectedComments(await fetchBuildingComments(mutation.rowId));
+      }
+      return;
+    }
+    const id = `baserow-${mutation.rowId}`;
+    const serverBuilding = await fetchBuildingByRowId(mutation.rowId);
+    if (serverBuilding) {
+      setBuildings((prev) => mergeBuildings(prev.filter((b) => b.id !== id), [serverBuilding]));
+      setAllBaserowBuildings((prev) => mergeBuildings(prev.filter((b) => b.id !== id), [serverBuilding]));
+      setSelectedBuilding((prev) => (prev && prev.id === id ? serverBuilding : prev));
+    } else {
+      replaceBuilding(id, null);
+    }
+  }, [replaceBuilding]);
+
+  const handleSignOut = useCallback(() => {
+    logout();
+    setCurrentUser(null);
+    setStatusMessage('Signed out');
+    setTimeout(() => setStatusMessage(null), 3000);
+  }, []);
+
   // Keyboard handler for H key to toggle button visibility
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -134,49 +356,9 @@ function App() {
   }, []);
 
 
-  // Helper to normalize names for fuzzy matching
-  const normalizeName = (name: string): string => {
-    return name.toLowerCase()
-      .replace(/[^\w\s]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-  };
-
-  // Helper to calculate similarity between two normalized names (simple Levenshtein-like)
-  const nameSimilarity = (name1: string, name2: string): number => {
-    const norm1 = normalizeName(name1);
-    const norm2 = normalizeName(name2);
-    
-    // Exact match after normalization
-    if (norm1 === norm2) return 1.0;
-    
-    // One contains the other (high similarity)
-    if (norm1.includes(norm2) || norm2.includes(norm1)) {
-      const shorter = Math.min(norm1.length, norm2.length);
-      const longer = Math.max(norm1.length, norm2.length);
-      return shorter / longer;
-    }
-    
-    // Calculate word overlap
-    const words1 = new Set(norm1.split(' ').filter(w => w.length > 2));
-    const words2 = new Set(norm2.split(' ').filter(w => w.length > 2));
-    if (words1.size === 0 || words2.size === 0) return 0;
-    
-    const intersection = [...words1].filter(w => words2.has(w)).length;
-    const union = new Set([...words1, ...words2]).size;
-    return intersection / union;
-  };
-
-  // Helper to check if two buildings are likely the same (fuzzy match)
-  const areLikelySame = (b1: Building, b2: Building): boolean => {
-    // Check name similarity
-    const nameSim = nameSimilarity(b1.name, b2.name);
-    if (nameSim < 0.6) return false; // Names too different
-    
-    // Check if coordinates are close (within 500m)
-    const distance = getDistance(b1.coordinates, b2.coordinates);
-    return distance < 500;
-  };
+  // Helper to check if two buildings are likely the same (shared rules in utils/duplicateMatching)
+  const areLikelySame = (b1: Building, b2: Building): boolean =>
+    duplicateMatcher.isDuplicate(matchableFromBuilding(b1), matchableFromBuilding(b2));
 
   // Helper to score building quality (prefer ones with Google Place ID and images)
   const getBuildingScore = (b: Building): number => {
@@ -189,14 +371,47 @@ function App() {
   };
 
   // Merge helper to keep markers persistent without duplicates (with fuzzy matching)
+  // Fuzzy candidates come from a spatial index plus Place ID and name lookups, so each incoming
+  // building is only compared against buildings the matcher could consider duplicates instead
+  // of the whole list - including the same place recorded far apart, or without coordinates
   const mergeBuildings = (existing: Building[], incoming: Building[]): Building[] => {
     const byId = new Map<string, Building>();
     const processed = new Set<string>();
+    const insertionOrder = new Map<string, number>();
+    // `place:<id>` / `name:<normalized name>` -> map keys of the buildings that have it
+    const idsByMatchKey = new Map<string, Set<string>>();
+
+    const matchKeys = (b: Building): string[] => {
+      const { placeId } = matchableFromBuilding(b);
+      const name = normalizeName(b.name);
+      return [...(placeId ? [`place:${placeId}`] : []), ...(name ? [`name:${name}`] : [])];
+    };
+    const addMatchKeys = (id: string, b: Building) => {
+      matchKeys(b).forEach((key) => {
+        if (!idsByMatchKey.has(key)) idsByMatchKey.set(key, new Set());
+        idsByMatchKey.get(key)!.add(id);
+      });
+    };
     
     // First, add all existing buildings
     existing.forEach((b) => {
+      if (!insertionOrder.has(b.id)) insertionOrder.set(b.id, insertionOrder.size);
       byId.set(b.id, b);
+      addMatchKeys(b.id, b);
     });
+    // Indexed by map key - a fuzzy merge can store a building under another building's id
+    const index = createSpatialIndex<[string, Building]>(
+      Array.from(byId.entries()),
+      ([id]) => id,
+      ([, b]) => b.coordinates
+    );
+
+    const setBuilding = (id: string, b: Building) => {
+      if (!insertionOrder.has(id)) insertionOrder.set(id, insertionOrder.size);
+      byId.set(id, b);
+      index.insert([id, b]);
+      addMatchKeys(id, b);
+    };
     
     // Process incoming buildings
     incoming.forEach((incomingB) => {
@@ -205,27 +420,36 @@ function App() {
         const existingB = byId.get(incomingB.id)!;
         // Prefer building with higher score (Google Place ID, images, etc.)
         if (getBuildingScore(incomingB) > getBuildingScore(existingB)) {
-          byId.set(incomingB.id, { ...existingB, ...incomingB });
+          setBuilding(incomingB.id, { ...existingB, ...incomingB });
         } else {
           // Merge properties, keeping existing building as base
-          byId.set(incomingB.id, { ...incomingB, ...existingB });
+          setBuilding(incomingB.id, { ...incomingB, ...existingB });
         }
         processed.add(incomingB.id);
         return;
       }
       
-      // Check for fuzzy match with existing buildings
-      let fuzzyMatch: Building | null = null;
+      // Check for fuzzy match with buildings sharing its Place ID or name, or nearby
+      // (in the order they were added)
+      let fuzzyMatch: [string, Building] | null = null;
       let bestScore = 0;
+      const candidateIds = new Set(matchKeys(incomingB).flatMap((key) => Array.from(idsByMatchKey.get(key) || [])));
+      const { coordinates } = matchableFromBuilding(incomingB);
+      if (coordinates) {
+        index.queryRadius(coordinates, duplicateMatcher.thresholds.sameAreaMeters).forEach(([id]) => candidateIds.add(id));
+      }
+      const candidates = Array.from(candidateIds)
+        .sort((a, b) => insertionOrder.get(a)! - insertionOrder.get(b)!)
+        .map((id): [string, Building] => [id, byId.get(id)!]);
       
-      for (const [id, existingB] of byId.entries()) {
+      for (const [id, existingB] of candidates) {
         if (areLikelySame(existingB, incomingB)) {
           const incomingScore = getBuildingScore(incomingB);
           const existingScore = getBuildingScore(existingB);
           
           // Prefer the building with higher score
           if (incomingScore > existingScore || (incomingScore === existingScore && !processed.has(id))) {
-            fuzzyMatch = existingB;
+            fuzzyMatch = [id, existingB];
             bestScore = Math.max(incomingScore, existingScore);
           }
         }
@@ -233,20 +457,20 @@ function App() {
       
       if (fuzzyMatch) {
         // Merge into the existing building, preferring higher-scored properties
-        const existingB = fuzzyMatch;
+        const [id, existingB] = fuzzyMatch;
         const incomingScore = getBuildingScore(incomingB);
         const existingScore = getBuildingScore(existingB);
         
         if (incomingScore >= existingScore) {
-          byId.set(existingB.id, { ...existingB, ...incomingB });
+          setBuilding(id, { ...existingB, ...incomingB });
         } else {
           // Keep existing but merge in any missing properties
-          byId.set(existingB.id, { ...incomingB, ...existingB });
+          setBuilding(id, { ...incomingB, ...existingB });
         }
-        processed.add(existingB.id);
+        processed.add(id);
       } else {
         // New building, add it
-        byId.set(incomingB.id, incomingB);
+        setBuilding(incomingB.id, incomingB);
       }
     });
     
@@ -265,43 +489,17 @@ function App() {
     });
   }, [blacklistedBuildingIds]);
 
-  // Helper to get nearby Baserow buildings, preferring in-memory cache
-  // Helper to check if building is in bounding box (faster than distance calculation)
-  const isInBoundingBox = useCallback((center: Coordinates, radiusMeters: number, building: Building): boolean => {
-    if (!building.coordinates || 
-        isNaN(building.coordinates.lat) || 
-        isNaN(building.coordinates.lng) ||
-        building.coordinates.lat === 0 && building.coordinates.lng === 0) {
-      return false;
-    }
-    
-    // Approximate bounding box: ~111km per degree latitude
-    const latRange = radiusMeters / 111000;
-    // Longitude range varies by latitude
-    const lngRange = radiusMeters / (111000 * Math.cos(center.lat * Math.PI / 180));
-    
-    return building.coordinates.lat >= center.lat - latRange &&
-           building.coordinates.lat <= center.lat + latRange &&
-           building.coordinates.lng >= center.lng - lngRange &&
-           building.coordinates.lng <= center.lng + lngRange;
-  }, []);
+  // Spatial index over the in-memory Baserow cache (rebuilt whenever the cache changes)
+  const baserowIndex = useMemo(() => createBuildingIndex(allBaserowBuildings), [allBaserowBuildings]);
 
+  // Helper to get nearby Baserow buildings, preferring in-memory cache
   const getBaserowBuildingsNear = useCallback(
     async (center: Coordinates, radiusMeters: number) => {
       let results: Building[] = [];
       
       if (allBaserowBuildings.length > 0) {
-        // Filter by distance and validate coordinates
-        // Use bounding box check first for performance
-        results = allBaserowBuildings.filter((b) => {
-          // Quick bounding box check first (much faster than distance calculation)
-          if (!isInBoundingBox(center, radiusMeters, b)) {
-            return false;
-          }
-          // Then precise distance check
-          const distance = getDistance(center, b.coordinates);
-          return distance <= radiusMeters;
-        });
+        // Only the grid cells around the center are scanned (invalid coordinates are never indexed)
+        results = baserowIndex.queryRadius(center, radiusMeters);
         
         // If no results found in cache, fetch from API for this area
         if (results.length === 0) {
@@ -365,7 +563,7 @@ function App() {
       // Return results immediately without waiting for image enrichment
       return results;
     },
-    [allBaserowBuildings, filterBlacklistedBuildings, isInBoundingBox]
+    [allBaserowBuildings, baserowIndex, filterBlacklistedBuildings]
   );
 
   // Track if user has manually moved the map (via search) to prevent auto-centering
@@ -468,20 +666,14 @@ function App() {
 
   // Register service worker for Baserow API caching (production only)
   useEffect(() => {
-    if ('serviceWorker' in navigator && (import.meta as any).env?.PROD) {
-      navigator.serviceWorker
-        .register('/sw.js')
-        .then((registration) => {
-          console.log('Service Worker registered:', registration);
-        })
-        .catch((error) => {
-          console.warn('Service Worker registration failed:', error);
-        });
+    if ((import.meta as any).env?.PROD) {
+      registerServiceWorker();
     }
   }, []);
 
   // Initial load of all Baserow buildings for caching and display on map
-  // Uses IndexedDB cache for instant loading, then refreshes in background
+  // Uses IndexedDB cache for instant loading, then either merges in what changed since the
+  // last visit (delta sync) or, without a usable sync cursor, refreshes everything in background
   useEffect(() => {
     const loadInitialBaserow = async () => {
       try {
@@ -501,8 +693,23 @@ function App() {
           console.log(`⚡ Loaded ${validCachedBuildings.length} buildings from cache`);
         }
         
-        // Phase 2: Load from API (first page for immediate render, then all pages)
-        const initialBuildings = await fetchAllBuildings(1); // Limit to first page only
+        // Phase 2a: Returning visitors only fetch rows created, changed, hidden or deleted since the last sync
+        let syncedBuildings: Building[] | null = null;
+        const syncState = cachedBuildings.length > 0 ? await loadSyncState() : null;
+        if (syncState && Date.now() - new Date(syncState.lastFullSyncAt).getTime() < FULL_SYNC_INTERVAL_MS) {
+          try {
+            const changes = await fetchBuildingChanges(syncState.cursor);
+            syncedBuildings = mergeBuildingChanges(cachedBuildings, changes);
+            await applyBuildingChangesToIndexedDB(changes.updated, changes.removedIds);
+            await saveSyncState({ ...syncState, cursor: changes.cursor });
+            console.log(`🔄 Delta sync: ${changes.updated.length} changed, ${changes.removedIds.length} removed`);
+          } catch (err) {
+            console.warn('Delta sync failed, reloading all buildings:', err);
+          }
+        }
+
+        // Phase 2b: Otherwise load from API (first page for immediate render, then all pages)
+        const initialBuildings = syncedBuildings || await fetchAllBuildings(1); // Limit to first page only
         // Filter out buildings with invalid coordinates
         const validInitialBuildings = initialBuildings.filter((b) => 
           b.coordinates && 
@@ -543,8 +750,10 @@ function App() {
             );
             // Update with complete dataset
             setAllBaserowBuildings(validAllBuildings);
-            // Save to IndexedDB for next time
+            // Save to IndexedDB for next time, along with where the next delta sync starts
             await saveBuildingsToIndexedDB(validAllBuildings);
+            const cursor = getSyncCursor(allBuildings);
+            await saveSyncState(cursor ? { cursor, lastFullSyncAt: new Date().toISOString() } : null);
             
             // Update buildings in view if any new ones are in viewport
             const updatedBuildingsInView = validAllBuildings.filter((b) => {
@@ -569,12 +778,15 @@ function App() {
         };
         
         // Defer remaining building loads using requestIdleCallback or setTimeout
-        if ('requestIdleCallback' in window) {
-          requestIdleCallback(() => {
-            setTimeout(loadRemainingBuildings, 100); // Small delay to ensure initial render completes
-          }, { timeout: 2000 });
-        } else {
-          setTimeout(loadRemainingBuildings, 500); // Fallback for browsers without requestIdleCallback
+        // (skipped after a delta sync - the merged cache is already the complete table)
+        if (!syncedBuildings) {
+          if ('requestIdleCallback' in window) {
+            requestIdleCallback(() => {
+              setTimeout(loadRemainingBuildings, 100); // Small delay to ensure initial render completes
+            }, { timeout: 2000 });
+          } else {
+            setTimeout(loadRemainingBuildings, 500); // Fallback for browsers without requestIdleCallback
+          }
         }
         
         // Enrich buildings with images if they have google_place_id but no imageUrl
@@ -627,22 +839,6 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [blacklistedBuildingIds]);
 
-  // Helper to calculate distance in meters
-  const getDistance = (coord1: Coordinates, coord2: Coordinates) => {
-    const R = 6371e3; // Earth radius in meters
-    const φ1 = (coord1.lat * Math.PI) / 180;
-    const φ2 = (coord2.lat * Math.PI) / 180;
-    const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
-    const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
-
   // Handler for intro sequence - immediately goes to map view
   const handleStartScan = useCallback(() => {
     setIntroState('complete');
@@ -700,12 +896,7 @@ function App() {
                geminiNewCount = geminiResults.filter(b => !baserowIds.has(b.id)).length;
                console.log(`Added ${geminiNewCount} new buildings from Gemini`);
              } catch (geminiErr: any) {
-               // Check if it's a rate limit error
-               const isGeminiRateLimit = geminiErr?.isRateLimit || 
-                                        geminiErr?.message?.includes('rate limit') || 
-                                        geminiErr?.message?.includes('quota');
-               
-               if (isGeminiRateLimit) {
+               if (isTryLaterError(geminiErr)) {
                  console.warn("Gemini API rate limit reached, using Baserow results only");
                } else {
                  console.warn("Gemini search failed, using Baserow results only:", geminiErr);
@@ -776,11 +967,7 @@ function App() {
              setStatusMessage(statusMsg);
            }
          } catch (err: any) {
-           if (err?.isRateLimit || err?.message?.includes('rate limit') || err?.message?.includes('quota')) {
-             setError("Too many new searches a day will alert the authorities! Wait until midnight to search some more, or browse buildings already visible");
-           } else {
-           setError("Systems failed to identify structures in this sector.");
-           }
+           setError(presentError(err, "Systems failed to identify structures in this sector."));
          } finally {
            setLoading(false);
            setSearchStatus('idle');
@@ -797,31 +984,18 @@ function App() {
      );
    }, [locationPermissionDenied]);
 
-  // Helper function to find nearest building from a list
-  const findNearestBuilding = useCallback((location: Coordinates, buildingsList: Building[]) => {
-    let nearest: Building | null = null;
-    let minDistance = Infinity;
+  // Helper function to find nearest building in a spatial index
+  const findNearestBuilding = useCallback((location: Coordinates, index: SpatialIndex<Building>) => {
+    // Skip "Nick" - it's a person entry, not a building
+    const nearest = index.findNearest(location, (b) => b.name !== "Nick");
 
-    // Filter out "Nick" - it's a person entry, not a building
-    const buildingsOnly = buildingsList.filter((b) => b.name !== "Nick");
-
-    if (buildingsOnly.length === 0) {
+    if (!nearest) {
       setError("No buildings available. Only person entries found.");
       return;
     }
 
-    buildingsOnly.forEach((b) => {
-        const dist = getDistance(location, b.coordinates);
-        if (dist < minDistance) {
-          minDistance = dist;
-          nearest = b;
-        }
-      });
-
-      if (nearest) {
-        setSelectedBuilding(nearest);
-      setCenter(nearest.coordinates);
-    }
+    setSelectedBuilding(nearest);
+    setCenter(nearest.coordinates);
   }, []);
 
   // Helper function to search and then find nearest
@@ -848,18 +1022,14 @@ function App() {
       if (sortedResults.length > 0) {
         setCenter(location);
         // Automatically find nearest from the loaded results
-        findNearestBuilding(location, sortedResults);
+        findNearestBuilding(location, createBuildingIndex(sortedResults));
       } else {
         // Cheeky error message when no results within the (large) nearest radius
         setError("No ominous structures detected within 100km. Perhaps relocate to a more architecturally menacing location?");
       }
     } catch (err: any) {
       console.error(err);
-      if (err?.isRateLimit || err?.message?.includes('rate limit') || err?.message?.includes('quota')) {
-        setError("SYSTEM ALERT\nToo many new searches a day will alert the authorities! Wait until midnight to search some more, or browse buildings already visible");
-      } else {
-        setError("Systems failed to identify structures in this sector.");
-      }
+      setError(presentError(err, "Systems failed to identify structures in this sector."));
     } finally {
       setLoading(false);
       setSearchStatus('idle');
@@ -867,6 +1037,9 @@ function App() {
     }
   }, [findNearestBuilding]);
 
+  // Spatial index over the buildings currently on the map
+  const buildingsIndex = useMemo(() => createBuildingIndex(buildings), [buildings]);
+
   const handleFindNearest = useCallback(async () => {
     // If permission was previously denied, try again
     if (locationPermissionDenied) {
@@ -913,7 +1086,7 @@ function App() {
 
     // If buildings already exist, just find nearest
     const performFind = (location: Coordinates) => {
-      findNearestBuilding(location, buildings);
+      findNearestBuilding(location, buildingsIndex);
     };
 
     if (userLocation) {
@@ -941,7 +1114,7 @@ function App() {
          performFind(center);
       }
     }
-  }, [buildings, userLocation, center, searchAndFindNearest, findNearestBuilding, locationPermissionDenied]);
+  }, [buildings, buildingsIndex, userLocation, center, searchAndFindNearest, findNearestBuilding, locationPermissionDenied]);
 
   const handleSearch = async (query: string) => {
     // Store the query for force Gemini button
@@ -952,7 +1125,7 @@ function App() {
     setSelectedBuilding(null);
     setStatusMessage(null);
     
-    let rateLimitError = false;
+    let rateLimitError: unknown = null; // The Gemini error, kept for its reset time
     let geocodedCoords: Coordinates | null = null;
     let statusMessage: string | null = null;
     
@@ -1016,7 +1189,7 @@ function App() {
             setStatusMessage(`Added "${savedBuilding.name}" to database`);
           } catch (saveErr) {
             console.error(`Failed to save POI "${enrichedBuilding.name}":`, saveErr);
-            setError(`Found "${enrichedBuilding.name}" but failed to save`);
+            setError(presentError(saveErr, `Found "${enrichedBuilding.name}" but failed to save`));
             setLoading(false);
           }
         } else {
@@ -1063,13 +1236,8 @@ function App() {
           geminiNewCount = geminiResults.filter(b => !baserowIds.has(b.id)).length;
           console.log(`Added ${geminiNewCount} new buildings from Gemini`);
         } catch (geminiErr: any) {
-          // Check if it's a rate limit error
-          const isGeminiRateLimit = geminiErr?.isRateLimit || 
-                                   geminiErr?.message?.includes('rate limit') || 
-                                   geminiErr?.message?.includes('quota');
-          
-          if (isGeminiRateLimit) {
-            rateLimitError = true;
+          if (isTryLaterError(geminiErr)) {
+            rateLimitError = geminiErr;
             // Don't throw - we still want to show Baserow results and move the map
             console.warn("Gemini API rate limit reached, but continuing with available data");
           } else {
@@ -1141,7 +1309,7 @@ function App() {
       // Don't move map again - it's already at geocodedCoords
       // Show rate limit message if applicable
       if (rateLimitError) {
-        setError("Too many new searches a day will alert the authorities! Wait until midnight to search some more, or browse buildings already visible");
+        setError(presentError(rateLimitError, "Systems failed to identify structures in this sector."));
       } else if (sortedResults.length === 0) {
         setError("Nothing ominous here. Try a nearby city or zoom the map and use 'Search Area'.");
       }
@@ -1153,17 +1321,9 @@ function App() {
     } catch (err: any) {
        console.error(err);
        
-       // Check if it's a rate limit error
-       if (err?.isRateLimit || err?.message?.includes('rate limit') || err?.message?.includes('quota')) {
-         // Only show error if we haven't already moved the map and shown results
-         // If geocoding failed but we have results, don't show error here (it's already shown above)
-         if (!rateLimitError) {
-           setError("Too many new searches a day will alert the authorities! Wait until midnight to search some more, or browse buildings already visible");
-         }
-       } else if (err?.message?.includes('API Key')) {
-         setError("API configuration error. Please check your Gemini API key.");
-       } else {
-       setError("Connection to AN Atlas Archives failed.");
+       // A rate limit that was already reported above (with the results we did get) isn't shown twice
+       if (!(rateLimitError && isTryLaterError(err))) {
+         setError(presentError(err, "Connection to AN Atlas Archives failed."));
        }
     } finally {
       setLoading(false);
@@ -1225,12 +1385,7 @@ function App() {
            geminiNewCount = geminiResults.filter(b => !baserowIds.has(b.id)).length;
            console.log(`Added ${geminiNewCount} new buildings from Gemini`);
          } catch (geminiErr: any) {
-           // Check if it's a rate limit error
-           const isGeminiRateLimit = geminiErr?.isRateLimit || 
-                                    geminiErr?.message?.includes('rate limit') || 
-                                    geminiErr?.message?.includes('quota');
-           
-           if (isGeminiRateLimit) {
+           if (isTryLaterError(geminiErr)) {
              console.warn("Gemini API rate limit reached, using Baserow results only");
            } else {
              console.warn("Gemini search failed, using Baserow results only:", geminiErr);
@@ -1307,11 +1462,7 @@ function App() {
       }
     } catch (err: any) {
       console.error(err);
-      if (err?.isRateLimit || err?.message?.includes('rate limit') || err?.message?.includes('quota')) {
-        setError("SYSTEM ALERT\nToo many new searches a day will alert the authorities! Wait until midnight to search some more, or browse buildings already visible");
-      } else {
-        setError("Systems failed to identify structures in this sector.");
-      }
+      setError(presentError(err, "Systems failed to identify structures in this sector."));
     } finally {
       setLoading(false);
       setSearchStatus('idle');
@@ -1345,11 +1496,7 @@ function App() {
       }
     } catch (err: any) {
       console.error(err);
-      if (err?.isRateLimit || err?.message?.includes('rate limit') || err?.message?.includes('quota')) {
-        setError("SYSTEM ALERT\nToo many new searches a day will alert the authorities! Wait until midnight to search some more, or browse buildings already visible");
-      } else {
-        setError("Failed to retrieve target.");
-      }
+      setError(presentError(err, "Failed to retrieve target."));
     } finally {
       setLoading(false);
       setFirstLoad(false);
@@ -1376,12 +1523,17 @@ function App() {
     }
   }, [adminModeEnabled]);
 
-  // Long-press handler (3 seconds) to add new location - works for all users
+  // Long-press handler (3 seconds) to add new location - contributors and curators only
   const handleMapLongPress = useCallback((coordinates: Coordinates) => {
+    if (!canContribute) {
+      setStatusMessage('Sign in as a contributor to add locations');
+      setTimeout(() => setStatusMessage(null), 3000);
+      return;
+    }
     setClickedCoordinates(coordinates);
     setEditingBuilding(null);
     setShowEditorModal(true);
-  }, []);
+  }, [canContribute]);
 
   const handleEditBuilding = useCallback((building: Building) => {
     if (adminModeEnabled) {
@@ -1400,22 +1552,45 @@ function App() {
         const rowIdMatch = editingBuilding.id.match(/^baserow-(\d+)$/);
         
         if (rowIdMatch) {
-          // Update existing Baserow building
+          // Update existing Baserow building (queued in the outbox when offline)
           const rowId = parseInt(rowIdMatch[1], 10);
-          const updatedBuilding = await updateBuildingInBaserow(rowId, buildingData, imageFiles);
+          const submitted = await submitMutation(
+            { kind: 'updateBuilding', rowId, building: buildingData, imageFiles, baseUpdatedOn: editingBuilding.updatedOn },
+            `Edit "${buildingData.name}"`
+          );
+          const updatedBuilding = submitted.queued
+            ? { ...editingBuilding, ...buildingData, id: editingBuilding.id }
+            : submitted.result as Building;
           
           // Update local state
           setBuildings(prev => prev.map(b => b.id === editingBuilding.id ? updatedBuilding : b));
           setAllBaserowBuildings(prev => prev.map(b => b.id === editingBuilding.id ? updatedBuilding : b));
           
-          setStatusMessage(`Updated "${updatedBuilding.name}"`);
+          setStatusMessage(submitted.queued
+            ? queuedStatus(submitted.reason, `Edit to "${updatedBuilding.name}"`, `Offline - "${updatedBuilding.name}" will be updated when you reconnect`)
+            : `Updated "${updatedBuilding.name}"`);
           console.log(`✅ Updated building "${updatedBuilding.name}" in Baserow`);
+        } else if (editingBuilding.id.startsWith('offline-')) {
+          // Still waiting in the outbox - change what its queued create will add
+          await updateQueuedCreate(editingBuilding.id, buildingData, imageFiles);
+          const updatedBuilding = { ...editingBuilding, ...buildingData, id: editingBuilding.id };
+          
+          setBuildings(prev => prev.map(b => b.id === editingBuilding.id ? updatedBuilding : b));
+          setAllBaserowBuildings(prev => prev.map(b => b.id === editingBuilding.id ? updatedBuilding : b));
+          
+          setStatusMessage(`Offline - "${updatedBuilding.name}" will be saved with your changes when you reconnect`);
+          console.log(`📥 Updated queued building "${updatedBuilding.name}"`);
         } else {
           // Building doesn't have Baserow ID yet (e.g., from Gemini search)
           // Save it to Baserow first, then update local state with the new Baserow ID
-          const savedBuilding = await saveBuildingToBaserow(buildingData, imageFiles);
+          const tempId = `offline-${Date.now()}`;
+          const submitted = await submitMutation(
+            { kind: 'createBuilding', tempId, building: buildingData, imageFiles },
+            `Add "${buildingData.name}"`
+          );
+          const savedBuilding = submitted.queued ? { ...buildingData, id: tempId } : submitted.result as Building;
           
-          // Remove old building and add new one with Baserow ID
+          // Remove old building and add new one with Baserow ID (or a placeholder id until it syncs)
           setBuildings(prev => {
             const filtered = prev.filter(b => b.id !== editingBuilding.id);
             return mergeBuildings(filtered, [savedBuilding]);
@@ -1425,12 +1600,19 @@ function App() {
             return mergeBuildings(filtered, [savedBuilding]);
           });
           
-          setStatusMessage(`Saved "${savedBuilding.name}" to database`);
+          setStatusMessage(submitted.queued
+            ? queuedStatus(submitted.reason, `"${savedBuilding.name}"`, `Offline - "${savedBuilding.name}" will be saved when you reconnect`)
+            : `Saved "${savedBuilding.name}" to database`);
           console.log(`✅ Saved building "${savedBuilding.name}" to Baserow (was previously unsaved)`);
         }
       } else {
-        // Create new building
-        const savedBuilding = await saveBuildingToBaserow(buildingData, imageFiles);
+        // Create new building (with a placeholder id while it waits in the outbox)
+        const tempId = `offline-${Date.now()}`;
+        const submitted = await submitMutation(
+          { kind: 'createBuilding', tempId, building: buildingData, imageFiles },
+          `Add "${buildingData.name}"`
+        );
+        const savedBuilding = submitted.queued ? { ...buildingData, id: tempId } : submitted.result as Building;
         
         // Add to local state
         setBuildings(prev => mergeBuildings(prev, [savedBuilding]));
@@ -1439,7 +1621,9 @@ function App() {
         // Move map to new building
         setCenter(savedBuilding.coordinates);
         
-        setStatusMessage(`Added "${savedBuilding.name}" to database`);
+        setStatusMessage(submitted.queued
+          ? queuedStatus(submitted.reason, `"${savedBuilding.name}"`, `Offline - "${savedBuilding.name}" will be added when you reconnect`)
+          : `Added "${savedBuilding.name}" to database`);
         console.log(`✅ Added building "${savedBuilding.name}" to Baserow`);
       }
       
@@ -1460,8 +1644,9 @@ function App() {
     setShowFallingHearts(true);
   }, []);
 
-  // Handler for dedupe button double-click
+  // Handler for dedupe button double-click (curators only)
   const handleDedupeButtonClick = useCallback(async () => {
+    if (!isCurator) return;
     dedupeClickCountRef.current += 1;
     
     // Clear existing timer
@@ -1475,40 +1660,24 @@ function App() {
       
       try {
         setLoading(true);
-        setStatusMessage("Running dedupe...");
-        console.log("🔍 Starting dedupe process...");
+        setStatusMessage("Checking for duplicates...");
+        console.log("🔍 Starting dedupe dry run...");
         
-        const deletedIds = await dedupeBaserowBuildings();
-        
-        if (deletedIds.length > 0) {
-          // Add deleted IDs to blacklist
-          setBlacklistedBuildingIds((prev) => {
-            const updated = new Set(prev);
-            deletedIds.forEach(id => updated.add(id));
-            
-            // Save to localStorage
-            if (typeof window !== 'undefined') {
-              window.localStorage.setItem('evil-atlas-blacklisted-ids', JSON.stringify(Array.from(updated)));
-            }
-            
-            return updated;
-          });
-          
-          // Filter out blacklisted buildings from current view
-          setBuildings((prev) => filterBlacklistedBuildings(prev));
-          setAllBaserowBuildings((prev) => filterBlacklistedBuildings(prev));
-          
-          setStatusMessage(`Dedupe complete! Removed ${deletedIds.length} duplicates.`);
-          console.log(`✅ Dedupe complete. Blacklisted ${deletedIds.length} IDs.`);
+        // Dry run only - the curator reviews the plan before anything is written
+        const plan = await planDedupe();
+        if (plan.length > 0) {
+          setDedupePlan(plan);
+          setStatusMessage(null);
         } else {
           setStatusMessage("No duplicates found.");
+          setTimeout(() => setStatusMessage(null), 3000);
         }
       } catch (error: any) {
         console.error("Dedupe error:", error);
-        setError(`Dedupe failed: ${error.message || 'Unknown error'}`);
+        setError(presentError(error, 'Dedupe failed'));
+        setStatusMessage(null);
       } finally {
         setLoading(false);
-        setTimeout(() => setStatusMessage(null), 3000);
       }
     } else {
       // Reset counter after 1 second if no more clicks
@@ -1516,7 +1685,59 @@ function App() {
         dedupeClickCountRef.current = 0;
       }, 1000);
     }
-  }, [filterBlacklistedBuildings]);
+  }, [isCurator]);
+
+  // Apply the dedupe groups approved in the review modal
+  const handleApplyDedupe = useCallback(async (groups: DedupeGroup[]) => {
+    setDedupePlan(null);
+    if (!isCurator || groups.length === 0) return;
+    
+    try {
+      setLoading(true);
+      setStatusMessage(`Merging ${groups.length} duplicate group${groups.length === 1 ? '' : 's'}...`);
+      
+      const deletedIds: number[] = [];
+      const keptBuildings: Building[] = [];
+      for (const group of groups) {
+        const result = await applyDedupeGroup(group);
+        deletedIds.push(...result.deletedIds);
+        keptBuildings.push(result.keep);
+      }
+      
+      // Show merged data on the kept buildings straight away
+      const keptById = new Map(keptBuildings.map(b => [b.id, b]));
+      const withMerges = (prev: Building[]) => prev.map(b => keptById.get(b.id) || b);
+      
+      if (deletedIds.length > 0) {
+        // Add deleted IDs to blacklist
+        setBlacklistedBuildingIds((prev) => {
+          const updated = new Set(prev);
+          deletedIds.forEach(id => updated.add(id));
+          
+          // Save to localStorage
+          if (typeof window !== 'undefined') {
+            window.localStorage.setItem('evil-atlas-blacklisted-ids', JSON.stringify(Array.from(updated)));
+          }
+          
+          return updated;
+        });
+      }
+      
+      // Filter out deleted buildings from current view
+      const deleted = new Set(deletedIds.map(id => `baserow-${id}`));
+      setBuildings((prev) => withMerges(prev).filter(b => !deleted.has(b.id)));
+      setAllBaserowBuildings((prev) => withMerges(prev).filter(b => !deleted.has(b.id)));
+      
+      setStatusMessage(`Dedupe complete! Removed ${deletedIds.length} duplicates.`);
+      console.log(`✅ Dedupe complete. Blacklisted ${deletedIds.length} IDs.`);
+    } catch (error: any) {
+      console.error("Dedupe error:", error);
+      setError(presentError(error, 'Dedupe failed'));
+    } finally {
+      setLoading(false);
+      setTimeout(() => setStatusMessage(null), 3000);
+    }
+  }, [isCurator]);
 
   // Handler for force Gemini search button double-click - bypasses 5 building limit
   const handleForceGeminiSearchClick = useCallback(async () => {
@@ -1586,15 +1807,7 @@ function App() {
         }
       } catch (err: any) {
         console.error("Error in force Gemini search:", err);
-        const isRateLimit = err?.isRateLimit || 
-                           err?.message?.includes('rate limit') || 
-                           err?.message?.includes('quota');
-        
-        if (isRateLimit) {
-          setError("SYSTEM ALERT\nToo many new searches a day will alert the authorities! Wait until midnight to search some more, or browse buildings already visible");
-        } else {
-          setError(`Force Gemini search failed: ${err?.message || 'Unknown error'}`);
-        }
+        setError(presentError(err, 'Force Gemini search failed'));
       } finally {
         setLoading(false);
         setSearchStatus('idle');
@@ -1607,8 +1820,9 @@ function App() {
     }
   }, [center, buildings]);
 
-  // Handler for backfill images button double-click
+  // Handler for backfill images button double-click (curators only)
   const handleBackfillImagesButtonClick = useCallback(async () => {
+    if (!isCurator) return;
     backfillClickCountRef.current += 1;
     
     // Clear existing timer
@@ -1672,7 +1886,7 @@ function App() {
         for (const building of buildingsNeedingImages) {
           try {
             console.log(`🔍 Attempting to fetch image for "${building.name}" (place_id: ${building.googlePlaceId || 'MISSING'})`);
-            const enrichedBuilding = await fetchImageForBuilding(building);
+            const enrichedBuilding = await fetchImageForBuilding(building, 'admin');
             
             // If we got an image, update it in Baserow
             if (enrichedBuilding.imageUrl && enrichedBuilding.imageUrl !== building.imageUrl) {
@@ -1725,7 +1939,7 @@ function App() {
         console.log(`✅ Backfill complete. ${successCount} images added, ${failCount} skipped.`);
       } catch (error: any) {
         console.error("Backfill error:", error);
-        setError(`Backfill failed: ${error.message || 'Unknown error'}`);
+        setError(presentError(error, 'Backfill failed'));
       } finally {
         setLoading(false);
         setTimeout(() => setStatusMessage(null), 5000);
@@ -1736,7 +1950,7 @@ function App() {
         backfillClickCountRef.current = 0;
       }, 1000);
     }
-  }, [allBaserowBuildings]);
+  }, [allBaserowBuildings, isCurator]);
 
   const colors = getThemeColors(theme);
   
@@ -1777,14 +1991,14 @@ function App() {
             right: calc(1.5rem + 12px + 4px + 100px) !important; /* dedupe button width (12px) + gap (4px) + 100px offset */
           }
         }
-        .admin-toggle-button {
-          bottom: calc(1rem + 16px) !important;
-          right: calc(1rem + 12px + 4px + 12px + 4px + 12px + 4px + 100px) !important; /* force gemini (12px) + gap (4px) + backfill (12px) + gap (4px) + dedupe (12px) + gap (4px) + 100px offset */
+        .account-controls {
+          bottom: calc(1rem + 16px + 12px + 8px) !important;
+          right: calc(1rem + 100px) !important; /* above the subtle admin buttons, clear of the FABs */
         }
         @media (min-width: 768px) {
-          .admin-toggle-button {
-            bottom: calc(1.5rem + 16px) !important;
-            right: calc(1.5rem + 12px + 4px + 12px + 4px + 12px + 4px + 100px) !important; /* force gemini (12px) + gap (4px) + backfill (12px) + gap (4px) + dedupe (12px) + gap (4px) + 100px offset */
+          .account-controls {
+            bottom: calc(1.5rem + 16px + 12px + 8px) !important;
+            right: calc(1.5rem + 100px) !important;
           }
         }
       `}</style>
@@ -1863,6 +2077,7 @@ function App() {
           onLocateMe={handleLocateMe}
           onFindNearest={handleFindNearest}
           onSearchArea={handleSearchArea}
+          onOfflineRegions={() => setShowOfflineRegionsModal(true)}
           locationPermissionDenied={locationPermissionDenied}
         />
       )}
@@ -1875,12 +2090,12 @@ function App() {
             onClose={handleCloseDetails} 
             theme={theme}
             userLocation={userLocation}
-            onDelete={() => {
+            onDelete={isCurator ? () => {
               if (selectedBuilding) {
                 setBuildingToDelete(selectedBuilding);
               }
-            }}
-            onFavourite={async () => {
+            } : undefined}
+            onFavourite={canContribute ? async () => {
               if (!selectedBuilding) return;
               
               // Extract Baserow row ID from building.id (format: "baserow-{id}")
@@ -1895,8 +2110,11 @@ function App() {
               const newFavouriteStatus = !selectedBuilding.favourites;
               
               try {
-                // Toggle favourite in Baserow
-                await toggleFavouriteInBaserow(rowId, newFavouriteStatus);
+                // Toggle favourite in Baserow (queued in the outbox when offline)
+                const submitted = await submitMutation(
+                  { kind: 'setFavourite', rowId, isFavourite: newFavouriteStatus, baseUpdatedOn: selectedBuilding.updatedOn },
+                  `${newFavouriteStatus ? 'Favourite' : 'Unfavourite'} "${selectedBuilding.name}"`
+                );
                 console.log(`✅ ${newFavouriteStatus ? 'Added' : 'Removed'} "${selectedBuilding.name}" ${newFavouriteStatus ? 'to' : 'from'} favourites`);
                 
                 // Update building in local state (favourites also imply prioritized flag)
@@ -1909,54 +2127,65 @@ function App() {
                 setBuildings((prev) => prev.map(b => b.id === selectedBuilding.id ? updatedBuilding : b));
                 
                 // Show success message with prioritization info
-                if (newFavouriteStatus) {
+                if (submitted.queued) {
+                  setStatusMessage(queuedStatus(submitted.reason, 'Favourite', 'Offline - favourite will sync when you reconnect'));
+                } else if (newFavouriteStatus) {
                   setStatusMessage(`Added to favourites. "${selectedBuilding.name}" is now prioritized on the map.`);
                 } else {
                   setStatusMessage(`Removed "${selectedBuilding.name}" from favourites`);
                 }
               } catch (err) {
                 console.error(`Failed to toggle favourite for "${selectedBuilding.name}":`, err);
-                setError(`Failed to ${newFavouriteStatus ? 'add' : 'remove'} favourite`);
+                setError(presentError(err, `Failed to ${newFavouriteStatus ? 'add' : 'remove'} favourite`));
               }
-            }}
-            onAddComment={() => {
-              setEditingCommentIndex(null);
+            } : undefined}
+            comments={selectedCommentThreads}
+            onAddComment={canContribute && selectedRowId !== null ? () => {
+              setEditingComment(null);
+              setReplyingToComment(null);
               setShowCommentModal(true);
-            }}
-            onEditComment={(index) => {
-              setEditingCommentIndex(index);
+            } : undefined}
+            onReplyComment={canContribute && selectedRowId !== null ? (comment) => {
+              setEditingComment(null);
+              setReplyingToComment(comment);
               setShowCommentModal(true);
-            }}
-            onDeleteComment={async (index) => {
-              if (!selectedBuilding) return;
-              
-              const rowIdMatch = selectedBuilding.id.match(/^baserow-(\d+)$/);
-              if (!rowIdMatch) {
-                setError('Cannot delete comment: Invalid building ID format');
-                return;
+            } : undefined}
+            onEditComment={canContribute ? (comment) => {
+              setReplyingToComment(null);
+              setEditingComment(comment);
+              setShowCommentModal(true);
+            } : undefined}
+            canEditComment={canEditComment}
+            onOpenBuilding={handleOpenLinkedBuilding}
+            onEditLocation={canContribute ? () => {
+              if (selectedBuilding) {
+                handleEditBuilding(selectedBuilding);
               }
+            } : undefined}
+            onLoadHistory={canContribute && /^baserow-\d+$/.test(selectedBuilding.id) ? () => {
+              const rowId = parseInt(selectedBuilding.id.replace('baserow-', ''), 10);
+              return fetchBuildingRevisions(rowId);
+            } : undefined}
+            onRestoreRevision={isCurator ? async (revisionId) => {
+              const rowIdMatch = selectedBuilding.id.match(/^baserow-(\d+)$/);
+              if (!rowIdMatch) return;
               
               const rowId = parseInt(rowIdMatch[1], 10);
+              const restored = await restoreBuildingRevision(rowId, revisionId);
               
-              try {
-                setLoading(true);
-                const updatedBuilding = await deleteCommentFromBuilding(rowId, index);
-                setSelectedBuilding(updatedBuilding);
-                setBuildings((prev) => prev.map(b => b.id === selectedBuilding.id ? updatedBuilding : b));
-                setAllBaserowBuildings((prev) => prev.map(b => b.id === selectedBuilding.id ? updatedBuilding : b));
-                setStatusMessage('Comment deleted');
-              } catch (err) {
-                console.error('Failed to delete comment:', err);
-                setError('Failed to delete comment');
-              } finally {
-                setLoading(false);
-              }
-            }}
-            onEditLocation={() => {
-              if (selectedBuilding) {
-                handleEditBuilding(selectedBuilding);
+              // Restoring to a hidden version takes the building off the map
+              if (!restored) {
+                setBuildings((prev) => prev.filter(b => b.id !== selectedBuilding.id));
+                setAllBaserowBuildings((prev) => prev.filter(b => b.id !== selectedBuilding.id));
+                setSelectedBuilding(null);
+                setStatusMessage(`Restored a hidden version of "${selectedBuilding.name}"`);
+                return;
               }
-            }}
+              setSelectedBuilding(restored);
+              setBuildings((prev) => prev.map(b => b.id === restored.id ? restored : b));
+              setAllBaserowBuildings((prev) => prev.map(b => b.id === restored.id ? restored : b));
+              setStatusMessage(`Restored an earlier version of "${restored.name}"`);
+            } : undefined}
           />
         </Suspense>
       )}
@@ -2011,8 +2240,8 @@ function App() {
         </button>
       )}
 
-      {/* Subtle backfill images button - bottom right (left of dedupe) */}
-      {buttonsVisible && (
+      {/* Subtle backfill images button - bottom right (left of dedupe) - curators only */}
+      {buttonsVisible && isCurator && (
         <button
           onClick={handleBackfillImagesButtonClick}
           className="absolute z-10 cursor-pointer transition-opacity hover:opacity-20 backfill-button"
@@ -2028,8 +2257,8 @@ function App() {
         </button>
       )}
 
-      {/* Subtle dedupe button - bottom right (moved 100px left) */}
-      {buttonsVisible && (
+      {/* Subtle dedupe button - bottom right (moved 100px left) - curators only */}
+      {buttonsVisible && isCurator && (
         <button
           onClick={handleDedupeButtonClick}
           className="absolute z-10 cursor-pointer transition-opacity hover:opacity-20 dedupe-button"
@@ -2085,7 +2314,7 @@ function App() {
                 setStatusMessage(`Added "${savedBuilding.name}" to database`);
               } catch (err) {
                 console.error(`Failed to save POI "${building.name}":`, err);
-                setError(`Failed to save "${building.name}"`);
+                setError(presentError(err, `Failed to save "${building.name}"`));
                 setLoading(false);
               }
             }}
@@ -2114,8 +2343,11 @@ function App() {
                 const rowId = parseInt(rowIdMatch[1], 10);
                 
                 try {
-                  // Hide building in Baserow
-                  await hideBuildingInBaserow(rowId);
+                  // Hide building in Baserow (queued in the outbox when offline)
+                  const submitted = await submitMutation(
+                    { kind: 'hideBuilding', rowId, baseUpdatedOn: building.updatedOn },
+                    `Remove "${building.name}"`
+                  );
                   console.log(`✅ Hidden building "${building.name}" in Baserow`);
                   
                   // Remove building from local state
@@ -2125,16 +2357,23 @@ function App() {
                   setSelectedBuilding(null);
                   
                   // Show success message
-                  setStatusMessage(`Removed "${building.name}" from the map`);
+                  setStatusMessage(submitted.queued
+                    ? queuedStatus(submitted.reason, `Removing "${building.name}"`, `Offline - "${building.name}" will be removed when you reconnect`)
+                    : `Removed "${building.name}" from the map`);
                 } catch (err) {
                   console.error(`Failed to hide building "${building.name}":`, err);
-                  setError(`Failed to remove "${building.name}"`);
+                  setError(presentError(err, `Failed to remove "${building.name}"`));
                 }
               } else {
                 // Building doesn't have Baserow ID (e.g., from Gemini search, not saved yet)
-                // Just remove it from local state
+                // Remove it from local state, and drop its queued create if it was added offline
                 try {
+                  if (building.id.startsWith('offline-') && !(await discardQueuedCreate(building.id))) {
+                    setStatusMessage(`"${building.name}" has just been saved - open it again to remove it`);
+                    return;
+                  }
                   setBuildings((prev) => prev.filter(b => b.id !== building.id));
+                  setAllBaserowBuildings((prev) => prev.filter(b => b.id !== building.id));
                   
                   // Close the building details panel
                   setSelectedBuilding(null);
@@ -2144,7 +2383,7 @@ function App() {
                   console.log(`✅ Removed unsaved building "${building.name}" from local state`);
                 } catch (err) {
                   console.error(`Failed to remove building "${building.name}":`, err);
-                  setError(`Failed to remove "${building.name}"`);
+                  setError(presentError(err, `Failed to remove "${building.name}"`));
                 }
               }
             }}
@@ -2173,91 +2412,159 @@ function App() {
       )}
 
       {/* Comment Modal */}
-      {showCommentModal && selectedBuilding && (
+      {showCommentModal && selectedBuilding && selectedRowId !== null && (
         <Suspense fallback={null}>
           <CommentModal
-            comment={editingCommentIndex !== null && selectedBuilding.comments ? selectedBuilding.comments[editingCommentIndex] : null}
+            comment={editingComment}
+            replyTo={replyingToComment}
+            linkableBuildings={linkableBuildings}
             onSave={async (text) => {
-              if (!selectedBuilding) return;
-              
-              const rowIdMatch = selectedBuilding.id.match(/^baserow-(\d+)$/);
-              if (!rowIdMatch) {
-                setError('Cannot save comment: Invalid building ID format');
-                return;
-              }
-              
-              const rowId = parseInt(rowIdMatch[1], 10);
-              
               try {
                 setLoading(true);
-                let updatedBuilding: Building;
-                
-                if (editingCommentIndex !== null) {
-                  // Update existing comment
-                  updatedBuilding = await updateCommentInBuilding(rowId, editingCommentIndex, text);
-                } else {
-                  // Add new comment
-                  updatedBuilding = await addCommentToBuilding(rowId, text);
-                }
-                
-                setSelectedBuilding(updatedBuilding);
-                setBuildings((prev) => prev.map(b => b.id === selectedBuilding.id ? updatedBuilding : b));
-                setAllBaserowBuildings((prev) => prev.map(b => b.id === selectedBuilding.id ? updatedBuilding : b));
+                const submitted = editingComment
+                  ? await submitMutation(
+                      { kind: 'updateComment', rowId: selectedRowId, commentId: editingComment.id, text },
+                      `Edit comment on "${selectedBuilding.name}"`
+                    )
+                  : await submitMutation(
+                      { kind: 'addComment', rowId: selectedRowId, text, parentId: replyingToComment?.id },
+                      `${replyingToComment ? 'Reply' : 'Comment'} on "${selectedBuilding.name}"`
+                    );
+                if (!submitted.queued) await reloadSelectedComments(selectedRowId);
                 setShowCommentModal(false);
-                setEditingCommentIndex(null);
-                setStatusMessage(editingCommentIndex !== null ? 'Comment updated' : 'Comment added');
+                setStatusMessage(submitted.queued
+                  ? queuedStatus(submitted.reason, 'Comment', 'Offline - comment will be posted when you reconnect')
+                  : editingComment ? 'Comment updated' : replyingToComment ? 'Reply added' : 'Comment added');
+                setEditingComment(null);
+                setReplyingToComment(null);
               } catch (err) {
                 console.error('Failed to save comment:', err);
-                setError('Failed to save comment');
+                setError(presentError(err, 'Failed to save comment'));
               } finally {
                 setLoading(false);
               }
             }}
-            onDelete={async () => {
-              if (!selectedBuilding || editingCommentIndex === null) return;
-              
-              const rowIdMatch = selectedBuilding.id.match(/^baserow-(\d+)$/);
-              if (!rowIdMatch) {
-                setError('Cannot delete comment: Invalid building ID format');
-                return;
-              }
-              
-              const rowId = parseInt(rowIdMatch[1], 10);
-              
+            onDelete={editingComment && canEditComment(editingComment) ? async () => {
               try {
                 setLoading(true);
-                const updatedBuilding = await deleteCommentFromBuilding(rowId, editingCommentIndex);
-                setSelectedBuilding(updatedBuilding);
-                setBuildings((prev) => prev.map(b => b.id === selectedBuilding.id ? updatedBuilding : b));
-                setAllBaserowBuildings((prev) => prev.map(b => b.id === selectedBuilding.id ? updatedBuilding : b));
+                const submitted = await submitMutation(
+                  { kind: 'deleteComment', rowId: selectedRowId, commentId: editingComment.id },
+                  `Delete comment on "${selectedBuilding.name}"`
+                );
+                if (!submitted.queued) await reloadSelectedComments(selectedRowId);
                 setShowCommentModal(false);
-                setEditingCommentIndex(null);
-                setStatusMessage('Comment deleted');
+                setEditingComment(null);
+                setStatusMessage(submitted.queued
+                  ? queuedStatus(submitted.reason, 'Deleting the comment', 'Offline - comment will be deleted when you reconnect')
+                  : 'Comment deleted');
               } catch (err) {
                 console.error('Failed to delete comment:', err);
-                setError('Failed to delete comment');
+                setError(presentError(err, 'Failed to delete comment'));
               } finally {
                 setLoading(false);
               }
-            }}
+            } : undefined}
             onCancel={() => {
               setShowCommentModal(false);
-              setEditingCommentIndex(null);
+              setEditingComment(null);
+              setReplyingToComment(null);
             }}
             theme={theme}
           />
         </Suspense>
       )}
 
-      {/* Admin Toggle */}
-      {buttonsVisible && (
-        <AdminToggle
-          enabled={adminModeEnabled}
-          onToggle={setAdminModeEnabled}
-          theme={theme}
+      {/* Account: sign in/out and admin mode (role-gated) */}
+      {introState === 'complete' && (
+        <AccountControls
+          user={currentUser}
+          adminModeEnabled={adminModeEnabled}
+          onToggleAdminMode={setAdminModeEnabled}
+          onSignIn={() => setShowLoginModal(true)}
+          onSignOut={handleSignOut}
+          onShowDeleted={isCurator ? () => setShowDeletedModal(true) : undefined}
+          onPurgeCaches={isCurator ? handlePurgeCaches : undefined}
+          onShowAiBudget={() => setShowAiBudgetModal(true)}
+          outboxCount={outboxEntries.length}
+          hasOutboxConflicts={outboxEntries.some((entry) => entry.status !== 'pending')}
+          onShowOutbox={() => setShowOutboxModal(true)}
         />
       )}
 
+      {/* Dedupe Review Modal (curators) */}
+      {dedupePlan && (
+        <Suspense fallback={null}>
+          <DedupeReviewModal
+            groups={dedupePlan}
+            theme={theme}
+            onApply={handleApplyDedupe}
+            onCancel={() => setDedupePlan(null)}
+          />
+        </Suspense>
+      )}
+
+      {/* Deleted Buildings Modal (curators) */}
+      {showDeletedModal && (
+        <Suspense fallback={null}>
+          <DeletedBuildingsModal
+            onRestored={(building) => {
+              setBuildings((prev) => mergeBuildings(prev, [building]));
+              setAllBaserowBuildings((prev) => mergeBuildings(prev, [building]));
+              setStatusMessage(`Restored "${building.name}"`);
+            }}
+            onClose={() => setShowDeletedModal(false)}
+          />
+        </Suspense>
+      )}
+
+      {/* Daily AI budget (reserving is for curators) */}
+      {showAiBudgetModal && (
+        <Suspense fallback={null}>
+          <AiBudgetModal canReserve={isCurator} onClose={() => setShowAiBudgetModal(false)} />
+        </Suspense>
+      )}
+
+      {/* Offline edits (outbox) */}
+      {showOutboxModal && (
+        <Suspense fallback={null}>
+          <OutboxModal
+            entries={outboxEntries}
+            onSyncNow={replayOutbox}
+            onKeepMine={retryOutboxEntry}
+            onDiscard={handleDiscardOutboxEntry}
+            onClose={() => setShowOutboxModal(false)}
+          />
+        </Suspense>
+      )}
+
+      {/* Offline maps (saved regions) */}
+      {showOfflineRegionsModal && (
+        <Suspense fallback={null}>
+          <OfflineRegionsModal
+            bounds={getMapBoundsRef.current?.() ?? null}
+            tileUrlTemplate={theme === 'dark' ? MAP_TILE_URL_DARK : MAP_TILE_URL_LIGHT}
+            theme={theme}
+            onClose={() => setShowOfflineRegionsModal(false)}
+          />
+        </Suspense>
+      )}
+
+      {/* Login Modal */}
+      {showLoginModal && (
+        <Suspense fallback={null}>
+          <LoginModal
+            theme={theme}
+            onSuccess={(user) => {
+              setCurrentUser(user);
+              setShowLoginModal(false);
+              setStatusMessage(`Signed in as ${user.username} (${user.role})`);
+              setTimeout(() => setStatusMessage(null), 3000);
+            }}
+            onCancel={() => setShowLoginModal(false)}
+          />
+        </Suspense>
+      )}
+
       {/* Branding overlay (bottom right) - Removed for clean aesthetic */}
     </div>
     </>
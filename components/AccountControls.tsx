@@ -0,0 +1,114 @@
+import React from 'react';
+import { CloudOff, DatabaseZap, Gauge, LogIn, LogOut, Settings, Trash2 } from 'lucide-react';
+import { AuthUser } from '../types';
+import { hasRole } from '../services/authService';
+import { typography } from '../ui/theme';
+
+interface AccountControlsProps {
+  user: AuthUser | null;
+  adminModeEnabled: boolean;
+  onToggleAdminMode: (enabled: boolean) => void;
+  onSignIn: () => void;
+  onSignOut: () => void;
+  onShowDeleted?: () => void;
+  onPurgeCaches?: () => void;
+  onShowAiBudget?: () => void;
+  outboxCount?: number; // Offline edits not yet synced
+  hasOutboxConflicts?: boolean; // Some of them need the user to decide
+  onShowOutbox?: () => void;
+}
+
+// Sign in / sign out, plus the admin mode switch for contributors and curators,
+// the deleted buildings list and cache purge for curators, today's AI budget and the offline edits waiting to sync
+export const AccountControls: React.FC<AccountControlsProps> = ({
+  user,
+  adminModeEnabled,
+  onToggleAdminMode,
+  onSignIn,
+  onSignOut,
+  onShowDeleted,
+  onPurgeCaches,
+  onShowAiBudget,
+  outboxCount = 0,
+  hasOutboxConflicts = false,
+  onShowOutbox,
+}) => {
+  const buttonClassName = `flex items-center gap-1.5 px-2.5 py-1.5 rounded-full bg-[#282C55]/80 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors ${typography.label.badge}`;
+
+  if (!user) {
+    return (
+      <div className="absolute z-10 account-controls">
+        <button onClick={onSignIn} className={buttonClassName} title="Sign in" aria-label="Sign in">
+          <LogIn size={12} aria-hidden="true" />
+          Sign in
+        </button>
+      </div>
+    );
+  }
+
+  const canUseAdminMode = hasRole(user, 'contributor');
+
+  return (
+    <div className="absolute z-10 account-controls flex items-center gap-2">
+      <span className={`${typography.label.badge} text-[#BAB2CF]`} title={`Signed in as ${user.username}`}>
+        {user.username} · {user.role}
+      </span>
+      {canUseAdminMode && (
+        <button
+          onClick={() => onToggleAdminMode(!adminModeEnabled)}
+          className={`${buttonClassName} ${adminModeEnabled ? '!text-[#FF5D88]' : ''}`}
+          title={adminModeEnabled ? 'Admin mode enabled (click to disable)' : 'Enable admin mode'}
+          aria-label={adminModeEnabled ? 'Disable admin mode' : 'Enable admin mode'}
+          aria-pressed={adminModeEnabled}
+        >
+          <Settings size={12} aria-hidden="true" />
+          Admin
+        </button>
+      )}
+      {onShowDeleted && hasRole(user, 'curator') && (
+        <button
+          onClick={onShowDeleted}
+          className={buttonClassName}
+          title="Deleted buildings"
+          aria-label="Show deleted buildings"
+        >
+          <Trash2 size={12} aria-hidden="true" />
+        </button>
+      )}
+      {onPurgeCaches && hasRole(user, 'curator') && (
+        <button
+          onClick={onPurgeCaches}
+          className={buttonClassName}
+          title="Purge cached buildings and reload"
+          aria-label="Purge caches"
+        >
+          <DatabaseZap size={12} aria-hidden="true" />
+        </button>
+      )}
+      {onShowAiBudget && (
+        <button
+          onClick={onShowAiBudget}
+          className={buttonClassName}
+          title="Daily AI budget"
+          aria-label="Show daily AI budget"
+        >
+          <Gauge size={12} aria-hidden="true" />
+        </button>
+      )}
+      {onShowOutbox && outboxCount > 0 && (
+        <button
+          onClick={onShowOutbox}
+          className={`${buttonClassName} ${hasOutboxConflicts ? '!text-[#FF5D88]' : ''}`}
+          title={hasOutboxConflicts ? 'Some offline edits need your attention' : 'Offline edits waiting to sync'}
+          aria-label={`${outboxCount} offline edit${outboxCount === 1 ? '' : 's'} waiting to sync`}
+        >
+          <CloudOff size={12} aria-hidden="true" />
+          {outboxCount}
+        </button>
+      )}
+      <button onClick={onSignOut} className={buttonClassName} title="Sign out" aria-label="Sign out">
+        <LogOut size={12} aria-hidden="true" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { AiBudgetService, AiBudgetStatus } from '../types';
+import { formatResetCountdown, getAiBudgetStatus, reserveAiBudget } from '../services/aiBudgetService';
+import { typography, fontFamily } from '../ui/theme';
+
+interface AiBudgetModalProps {
+  canReserve: boolean; // Curators can set budget aside for admin tasks
+  onClose: () => void;
+}
+
+const SERVICE_LABELS: Record<AiBudgetService, string> = {
+  gemini: 'Gemini (discovery)',
+  places: 'Google Places (photos and details)',
+};
+
+// Today's Gemini and Places usage against the daily budget, with a live countdown to the reset
+export const AiBudgetModal: React.FC<AiBudgetModalProps> = ({ canReserve, onClose }) => {
+  const [status, setStatus] = useState<AiBudgetStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [reserveInputs, setReserveInputs] = useState<Partial<Record<AiBudgetService, string>>>({});
+  const [savingService, setSavingService] = useState<AiBudgetService | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAiBudgetStatus()
+      .then((result) => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch((err) => {
+        console.error('Failed to load AI budget:', err);
+        if (!cancelled) setError(err?.message || 'Could not load the AI budget');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Tick the countdown; once the day rolls over, load the fresh counts
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+  const resetPassed = !!status && new Date(status.resetAt).getTime() <= now;
+  useEffect(() => {
+    if (!resetPassed) return;
+    getAiBudgetStatus().then(setStatus).catch((err) => console.warn('Failed to refresh AI budget:', err));
+  }, [resetPassed]);
+
+  const handleReserve = async (service: AiBudgetService) => {
+    const units = Number(reserveInputs[service]);
+    if (!Number.isInteger(units) || units < 0) {
+      setError('Reserve must be a whole number');
+      return;
+    }
+    setSavingService(service);
+    setError(null);
+    try {
+      const budget = await reserveAiBudget(service, units);
+      setStatus((prev) => (prev ? { ...prev, services: { ...prev.services, [service]: budget } } : prev));
+      setReserveInputs((prev) => ({ ...prev, [service]: undefined }));
+    } catch (err: any) {
+      console.error(`Failed to reserve ${service} budget:`, err);
+      setError(err?.message || 'Failed to reserve budget');
+    } finally {
+      setSavingService(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-[#010E36]/90 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="ai-budget-title"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        className="max-w-md w-full max-h-[80vh] flex flex-col bg-[#282C55] shadow-xl relative rounded-[32px] overflow-hidden"
+        style={{ padding: '32px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors opacity-60 hover:opacity-100"
+          aria-label="Close modal"
+          title="Close"
+        >
+          <X size={18} strokeWidth={2} aria-hidden="true" />
+        </button>
+
+        <h2 id="ai-budget-title" className={`${fontFamily.heading} text-[#FDFEFF] text-2xl mb-2`}>
+          Daily AI budget
+        </h2>
+        {status && (
+          <p className={`${typography.body.sm} text-[#BAB2CF] mb-6`}>
+            Resets in {formatResetCountdown(status.resetAt, now)} (
+            {new Date(status.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})
+          </p>
+        )}
+
+        {error && (
+          <p className={`${typography.body.sm} text-[#FF5D88] mb-4`} role="alert">
+            {error}
+          </p>
+        )}
+        {!status && !error && <p className={`${typography.body.sm} text-[#BAB2CF]`}>Loading...</p>}
+
+        {status && (
+          <ul className="space-y-3 overflow-y-auto">
+            {(Object.keys(SERVICE_LABELS) as AiBudgetService[]).map((service) => {
+              const budget = status.services[service];
+              if (!budget) return null;
+              const percent = (value: number) => (budget.hardLimit > 0 ? Math.min(100, (value / budget.hardLimit) * 100) : 100);
+              return (
+                <li key={service} className="bg-[#1A1D3A]/40 rounded-[12px] p-3">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <span className="text-white text-sm">{SERVICE_LABELS[service]}</span>
+                    <span className="text-[#BAB2CF] text-[10px]">
+                      {budget.used} / {budget.hardLimit} used
+                    </span>
+                  </div>
+                  {/* Usage bar: the marker is the soft limit, where background work stops */}
+                  <div
+                    className="relative h-1.5 mt-2 rounded-full bg-[#010E36]/60 overflow-hidden"
+                    role="meter"
+                    aria-label={`${SERVICE_LABELS[service]} usage`}
+                    aria-valuemin={0}
+                    aria-valuemax={budget.hardLimit}
+                    aria-valuenow={budget.used}
+                  >
+                    <div
+                      className={`h-full ${budget.remaining === 0 ? 'bg-[#FF5D88]' : 'bg-[#BAB2CF]'}`}
+                      style={{ width: `${percent(budget.used)}%` }}
+                    />
+                    <div className="absolute top-0 h-full w-px bg-[#FDFEFF]" style={{ left: `${percent(budget.softLimit)}%` }} />
+                  </div>
+                  <div className="text-[#BAB2CF] text-[10px] mt-1">
+                    {budget.remaining} left for searches · background stops at {budget.softLimit}
+                    {budget.reserved > 0 ? ` · ${budget.reserved} reserved for admin tasks` : ''}
+                  </div>
+
+                  {canReserve && (
+                    <form
+                      className="flex items-center gap-2 mt-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        void handleReserve(service);
+                      }}
+                    >
+                      <label htmlFor={`reserve-${service}`} className="text-[#BAB2CF] text-[10px]">
+                        Reserve for admin
+                      </label>
+                      <input
+                        id={`reserve-${service}`}
+                        type="number"
+                        min={0}
+                        max={budget.hardLimit}
+                        value={reserveInputs[service] ?? String(budget.reserved)}
+                        onChange={(e) => setReserveInputs((prev) => ({ ...prev, [service]: e.target.value }))}
+                        className="w-20 px-2 py-1 rounded-md bg-[#010E36]/60 text-[#FDFEFF] text-xs border border-[#BAB2CF]/30 focus:border-[#FF5D88] focus:outline-none"
+                      />
+                      <button
+                        type="submit"
+                        disabled={savingService !== null || reserveInputs[service] === undefined}
+                        className="px-2 py-1 rounded-md text-xs text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50"
+                      >
+                        {savingService === service ? 'Saving...' : 'Save'}
+                      </button>
+                    </form>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
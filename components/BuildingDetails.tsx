@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
-import { Building, Coordinates, Comment } from '../types';
+import { Building, BuildingImage, BuildingRevision, Coordinates, Comment, CommentThread } from '../types';
 import { X, MapPin, Navigation, ImageOff, User, MessageCircle, ThumbsDown, Bookmark, MessageSquare, Edit } from 'lucide-react';
 import { GENRE_COLORS, normalizeStyles, getPrimaryStyleColor } from '../constants';
 import { typography, fontFamily } from '../ui/theme';
 import { ImageGallery } from './ImageGallery';
+import { RevisionHistory } from './RevisionHistory';
+import { CommentThreads } from './CommentThreads';
+import { isPlacesPhotoUrl } from '../utils/placesPhoto';
 
 interface BuildingDetailsProps {
   building: Building | null;
@@ -12,10 +15,15 @@ interface BuildingDetailsProps {
   userLocation?: Coordinates | null;
   onDelete?: () => void;
   onFavourite?: () => void;
+  comments?: CommentThread[];
   onAddComment?: () => void;
-  onEditComment?: (index: number) => void;
-  onDeleteComment?: (index: number) => void;
+  onReplyComment?: (comment: Comment) => void;
+  onEditComment?: (comment: Comment) => void;
+  canEditComment?: (comment: Comment) => boolean;
+  onOpenBuilding?: (rowId: number) => void;
   onEditLocation?: () => void;
+  onLoadHistory?: () => Promise<BuildingRevision[]>;
+  onRestoreRevision?: (revisionId: number) => Promise<void>;
 }
 
 // Helper function to extract URL from markdown link format [text](url) or just return URL if already plain
@@ -57,7 +65,7 @@ const formatDistance = (meters: number): string => {
   return `${(meters / 1000).toFixed(1)}km`;
 };
 
-export const BuildingDetails: React.FC<BuildingDetailsProps> = ({ building, onClose, theme, userLocation, onDelete, onFavourite, onAddComment, onEditComment, onDeleteComment, onEditLocation }) => {
+export const BuildingDetails: React.FC<BuildingDetailsProps> = ({ building, onClose, theme, userLocation, onDelete, onFavourite, comments, onAddComment, onReplyComment, onEditComment, canEditComment, onOpenBuilding, onEditLocation, onLoadHistory, onRestoreRevision }) => {
   const [imgError, setImgError] = useState(false);
 
   // Reset error state when building changes
@@ -67,10 +75,13 @@ export const BuildingDetails: React.FC<BuildingDetailsProps> = ({ building, onCl
 
   if (!building) return null;
 
-  // Get images - prefer imageUrls array, fallback to legacy imageUrl
-  const images = building.imageUrls && building.imageUrls.length > 0
-    ? building.imageUrls
-    : (building.imageUrl ? [extractUrlFromMarkdown(building.imageUrl)].filter(Boolean) as string[] : []);
+  // Get images - the building's collection, or the single imageUrl from a Places/Gemini lookup
+  const lookupImageUrl = building.imageUrl ? extractUrlFromMarkdown(building.imageUrl) : undefined;
+  // (images still waiting in the offline outbox have no URL yet)
+  const storedImages = (building.images || []).filter((image) => image.url);
+  const images: BuildingImage[] = storedImages.length > 0
+    ? storedImages
+    : (lookupImageUrl ? [{ url: lookupImageUrl, source: isPlacesPhotoUrl(lookupImageUrl) ? 'google_places' : 'web' }] : []);
 
   // Parse multiple styles (comma-separated) and get primary style color
   const styles = building.style ? normalizeStyles(building.style) : ['Other'];
@@ -167,41 +178,15 @@ export const BuildingDetails: React.FC<BuildingDetailsProps> = ({ building, onCl
         </div>
 
         {/* Comments Section */}
-        {building.comments && building.comments.length > 0 && (
+        {comments && comments.length > 0 && (
           <div className="mb-8">
-            <div className="space-y-4">
-              {building.comments.map((comment, index) => {
-                const date = new Date(comment.createdAt);
-                const formattedDate = date.toLocaleDateString('en-US', { 
-                  year: 'numeric', 
-                  month: 'short', 
-                  day: 'numeric',
-                  hour: '2-digit',
-                  minute: '2-digit'
-                });
-                
-                return (
-                  <div 
-                    key={index} 
-                    onClick={() => onEditComment && onEditComment(index)}
-                    className={`bg-[#1A1D3A]/40 rounded-[16px] p-4 cursor-pointer hover:bg-[#1A1D3A]/50 transition-colors ${onEditComment ? '' : 'cursor-default'}`}
-                  >
-                    <div className="mb-2">
-                      <div 
-                        className="text-white text-sm leading-relaxed"
-                        dangerouslySetInnerHTML={{ __html: comment.text }}
-                      />
-                    </div>
-                    <div className="text-[#BAB2CF] text-[10px] mt-2">
-                      {formattedDate}
-                      {comment.updatedAt && comment.updatedAt !== comment.createdAt && (
-                        <span className="ml-2">(edited)</span>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
+            <CommentThreads
+              threads={comments}
+              onReply={onReplyComment}
+              onEdit={onEditComment}
+              canEdit={canEditComment}
+              onOpenBuilding={onOpenBuilding}
+            />
           </div>
         )}
 
@@ -332,6 +317,15 @@ export const BuildingDetails: React.FC<BuildingDetailsProps> = ({ building, onCl
              <span>Lng: {building.coordinates.lng.toFixed(4)}</span>
           </div>
         </div>
+
+        {/* Revision History */}
+        {onLoadHistory && (
+          <RevisionHistory
+            key={building.id}
+            onLoadHistory={onLoadHistory}
+            onRestoreRevision={onRestoreRevision}
+          />
+        )}
       </div>
     </aside>
   );
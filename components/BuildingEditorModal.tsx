@@ -1,9 +1,37 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Building, ArchitecturalStyle, Coordinates } from '../types';
-import { X, Upload, Image as ImageIcon, Bold, Italic, Underline } from 'lucide-react';
+import { Building, ArchitecturalStyle, BuildingImage, Coordinates } from '../types';
+import { X, Upload, Bold, Italic, Underline, GripVertical, ChevronUp, ChevronDown, Star } from 'lucide-react';
 import { PrimaryButton } from '../ui/atoms';
 import { typography, getThemeColors, fontFamily } from '../ui/theme';
 import { reverseGeocode } from '../services/geocodingService';
+import { pickImageUrl } from '../utils/responsiveImage';
+
+// One image in the editor: already stored, or a new file that's uploaded when the building is saved
+interface EditorImage {
+  key: string;
+  image: BuildingImage;
+  file?: File;
+  preview: string; // Stored URL, or a data URL for new files
+}
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5MB
+
+const SOURCE_LABELS: Record<BuildingImage['source'], string> = {
+  upload: 'Upload',
+  google_places: 'Google Places',
+  web: 'Web',
+};
+
+const toEditorImages = (images: BuildingImage[] = []): EditorImage[] =>
+  images.map((image, index) => ({ key: `stored-${index}-${image.url}`, image, preview: pickImageUrl(image, 200) }));
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
 interface BuildingEditorModalProps {
   building: Building | null; // null = add mode, Building = edit mode
@@ -35,11 +63,11 @@ export const BuildingEditorModal: React.FC<BuildingEditorModalProps> = ({
     building?.coordinates || coordinates || { lat: 0, lng: 0 }
   );
   
-  // Multiple image upload state (up to 3 images)
-  const [imageFiles, setImageFiles] = useState<(File | null)[]>([null, null, null]);
-  const [imagePreviews, setImagePreviews] = useState<(string | null)[]>([null, null, null]);
-  const [imageFileErrors, setImageFileErrors] = useState<(string | null)[]>([null, null, null]);
-  const fileInputRefs = [useRef<HTMLInputElement>(null), useRef<HTMLInputElement>(null), useRef<HTMLInputElement>(null)];
+  // Ordered image collection (first = cover); new files are uploaded on save
+  const [images, setImages] = useState<EditorImage[]>(() => toEditorImages(building?.images));
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Loading state
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
@@ -87,14 +115,7 @@ export const BuildingEditorModal: React.FC<BuildingEditorModalProps> = ({
       }
       
       // Load existing images if editing
-      if (building.imageUrls && building.imageUrls.length > 0) {
-        // Set previews from existing URLs (for display only, not for re-upload)
-        const previews: (string | null)[] = [null, null, null];
-        building.imageUrls.slice(0, 3).forEach((url, index) => {
-          previews[index] = url;
-        });
-        setImagePreviews(previews);
-      }
+      setImages(toEditorImages(building.images));
 
       // Initialize rich text editor with existing notes
       if (notesEditorRef.current && building.description) {
@@ -110,62 +131,47 @@ export const BuildingEditorModal: React.FC<BuildingEditorModalProps> = ({
     }
   }, []);
   
-  // Handle file upload for a specific slot
-  const handleFileChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      const newErrors = [...imageFileErrors];
-      newErrors[index] = 'Please select an image file';
-      setImageFileErrors(newErrors);
-      return;
-    }
-    
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSize) {
-      const newErrors = [...imageFileErrors];
-      newErrors[index] = 'File size must be less than 5MB';
-      setImageFileErrors(newErrors);
-      return;
-    }
-    
-    // Clear error
-    const newErrors = [...imageFileErrors];
-    newErrors[index] = null;
-    setImageFileErrors(newErrors);
-    
-    // Set file
-    const newFiles = [...imageFiles];
-    newFiles[index] = file;
-    setImageFiles(newFiles);
-    
-    // Create preview
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const newPreviews = [...imagePreviews];
-      newPreviews[index] = reader.result as string;
-      setImagePreviews(newPreviews);
-    };
-    reader.readAsDataURL(file);
+  // Add newly picked files to the end of the collection
+  const handleFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const rejected = files.filter((file) => !file.type.startsWith('image/') || file.size > MAX_IMAGE_BYTES);
+    setImageError(rejected.length > 0
+      ? `Skipped ${rejected.map((file) => file.name).join(', ')} - only image files under 5MB can be added`
+      : null);
+
+    const added = await Promise.all(
+      files
+        .filter((file) => !rejected.includes(file))
+        .map(async (file, index): Promise<EditorImage> => ({
+          key: `new-${Date.now()}-${index}`,
+          image: { url: '', source: 'upload' },
+          file,
+          preview: await readAsDataUrl(file),
+        }))
+    );
+    setImages((prev) => [...prev, ...added]);
   };
-  
-  // Clear image at specific slot
-  const clearImage = (index: number) => {
-    const newFiles = [...imageFiles];
-    const newPreviews = [...imagePreviews];
-    const newErrors = [...imageFileErrors];
-    newFiles[index] = null;
-    newPreviews[index] = null;
-    newErrors[index] = null;
-    setImageFiles(newFiles);
-    setImagePreviews(newPreviews);
-    setImageFileErrors(newErrors);
-    if (fileInputRefs[index].current) {
-      fileInputRefs[index].current!.value = '';
-    }
+
+  const updateImage = (index: number, changes: Partial<BuildingImage>) => {
+    setImages((prev) => prev.map((item, i) => (i === index ? { ...item, image: { ...item.image, ...changes } } : item)));
+  };
+
+  // Move an image to a new position (position 0 makes it the cover)
+  const moveImage = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return;
+    setImages((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const removeImage = (index: number) => {
+    setImages((prev) => prev.filter((_, i) => i !== index));
   };
   
   // Handle form submission
@@ -196,8 +202,19 @@ export const BuildingEditorModal: React.FC<BuildingEditorModalProps> = ({
     setIsSaving(true);
     
     try {
-      // Collect files that are actually provided
-      const filesToUpload = imageFiles.filter((file): file is File => file !== null);
+      // New files are uploaded in order; their images point at them until the upload is done
+      const filesToUpload: File[] = [];
+      const buildingImages: BuildingImage[] = images.map(({ image, file }) => {
+        const cleaned: BuildingImage = {
+          ...image,
+          caption: image.caption?.trim() || undefined,
+          credit: image.credit?.trim() || undefined,
+        };
+        if (!file) return cleaned;
+        filesToUpload.push(file);
+        return { ...cleaned, url: '', pendingUpload: filesToUpload.length - 1 };
+      });
+      const storedUrls = buildingImages.filter((image) => image.url).map((image) => image.url);
       
       // Get rich text content from editor
       const notesHtml = notesEditorRef.current?.innerHTML || notes;
@@ -210,6 +227,9 @@ export const BuildingEditorModal: React.FC<BuildingEditorModalProps> = ({
         coordinates: formCoordinates,
         style: style.trim() || undefined,
         architect: architect.trim() || undefined,
+        images: buildingImages,
+        imageUrls: storedUrls.length > 0 ? storedUrls : undefined,
+        imageUrl: storedUrls[0],
         city: building?.city,
         country: building?.country,
         googlePlaceId: building?.googlePlaceId,
@@ -474,72 +494,140 @@ export const BuildingEditorModal: React.FC<BuildingEditorModalProps> = ({
             />
           </div>
 
-          {/* Images - Up to 3 File Uploads */}
+          {/* Images - ordered collection, first one is the cover */}
           <div>
             <label className={`${typography.label.default} text-[#FDFEFF] block mb-2`}>
-              Images (up to 3)
+              Images
             </label>
-            <div className="space-y-4">
-              {[0, 1, 2].map((index) => (
-                <div key={index} className="space-y-2">
-                  <div className="flex items-center gap-2">
-                    <span className={`${typography.label.badge} text-[#BAB2CF] w-20`}>
-                      Image {index + 1}:
-                    </span>
-                    <input
-                      ref={fileInputRefs[index]}
-                      type="file"
-                      accept="image/*"
-                      onChange={handleFileChange(index)}
-                      className="hidden"
-                      disabled={isSaving}
-                    />
+            {images.length > 0 && (
+              <p className="mb-2 text-xs text-[#BAB2CF]">
+                Drag to reorder. The first image is the cover.
+              </p>
+            )}
+            <ul className="space-y-3">
+              {images.map((item, index) => (
+                <li
+                  key={item.key}
+                  draggable={!isSaving}
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (dragIndex !== null) moveImage(dragIndex, index);
+                    setDragIndex(null);
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={`flex gap-3 p-2 bg-[#1A1D3A] border rounded-md ${
+                    dragIndex === index ? 'border-[#FF5D88] opacity-60' : 'border-[#BAB2CF]/20'
+                  }`}
+                >
+                  <div className="flex flex-col items-center justify-between text-[#BAB2CF]">
                     <button
                       type="button"
-                      onClick={() => fileInputRefs[index].current?.click()}
-                      className={`flex-1 px-4 py-2 rounded-md transition-colors flex items-center gap-2 ${
-                        imageFiles[index]
-                          ? 'bg-[#1A1D3A] text-[#BAB2CF] border border-[#BAB2CF]/20'
-                          : 'bg-[#1A1D3A] text-[#FDFEFF] border border-[#BAB2CF]/20 hover:border-[#FF5D88]'
-                      }`}
-                      disabled={isSaving}
+                      onClick={() => moveImage(index, index - 1)}
+                      className="p-0.5 hover:text-[#FDFEFF] disabled:opacity-30"
+                      aria-label={`Move image ${index + 1} up`}
+                      disabled={isSaving || index === 0}
                     >
-                      <Upload size={16} />
-                      {imageFiles[index] ? 'Change Image' : 'Upload Image'}
+                      <ChevronUp size={14} />
+                    </button>
+                    <GripVertical size={14} className="cursor-grab" aria-hidden="true" />
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, index + 1)}
+                      className="p-0.5 hover:text-[#FDFEFF] disabled:opacity-30"
+                      aria-label={`Move image ${index + 1} down`}
+                      disabled={isSaving || index === images.length - 1}
+                    >
+                      <ChevronDown size={14} />
                     </button>
-                    {imageFiles[index] && (
-                      <button
-                        type="button"
-                        onClick={() => clearImage(index)}
-                        className="px-3 py-2 text-[#BAB2CF] hover:text-[#FDFEFF] text-sm"
-                        disabled={isSaving}
-                      >
-                        Clear
-                      </button>
-                    )}
                   </div>
-                  
-                  {/* Error message */}
-                  {imageFileErrors[index] && (
-                    <p className="text-sm text-[#FF5D88] ml-24">{imageFileErrors[index]}</p>
-                  )}
-                  
-                  {/* Preview */}
-                  {imagePreviews[index] && (
-                    <div className="ml-24 mt-2 rounded-lg overflow-hidden border border-[#BAB2CF]/20">
-                      <img
-                        src={imagePreviews[index]!}
-                        alt={`Preview ${index + 1}`}
-                        className="w-full h-48 object-cover"
-                        onError={(e) => {
-                          (e.target as HTMLImageElement).style.display = 'none';
-                        }}
-                      />
+                  <img
+                    src={item.preview}
+                    alt={item.image.caption || `Image ${index + 1}`}
+                    className="w-24 h-24 object-cover rounded shrink-0"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).style.visibility = 'hidden';
+                    }}
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className={`${typography.label.badge} text-[#BAB2CF]`}>
+                        {index === 0 ? 'Cover' : `Image ${index + 1}`} · {item.file ? 'New upload' : SOURCE_LABELS[item.image.source]}
+                      </span>
+                      <div className="ml-auto flex items-center gap-1">
+                        {index > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => moveImage(index, 0)}
+                            className="p-1 text-[#BAB2CF] hover:text-[#FDFEFF]"
+                            title="Make cover image"
+                            aria-label={`Make image ${index + 1} the cover`}
+                            disabled={isSaving}
+                          >
+                            <Star size={14} />
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => removeImage(index)}
+                          className="p-1 text-[#BAB2CF] hover:text-[#FDFEFF]"
+                          title="Remove image"
+                          aria-label={`Remove image ${index + 1}`}
+                          disabled={isSaving}
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
                     </div>
-                  )}
-                </div>
+                    <input
+                      type="text"
+                      value={item.image.caption || ''}
+                      onChange={(e) => updateImage(index, { caption: e.target.value })}
+                      placeholder="Caption"
+                      aria-label={`Caption for image ${index + 1}`}
+                      className="w-full px-3 py-1.5 bg-[#282C55] border border-[#BAB2CF]/20 rounded-md text-[#FDFEFF] text-sm focus:outline-none focus:border-[#FF5D88] focus:ring-1 focus:ring-[#FF5D88]"
+                      disabled={isSaving}
+                    />
+                    <input
+                      type="text"
+                      value={item.image.credit || ''}
+                      onChange={(e) => updateImage(index, { credit: e.target.value })}
+                      placeholder="Photographer / credit"
+                      aria-label={`Credit for image ${index + 1}`}
+                      className="w-full px-3 py-1.5 bg-[#282C55] border border-[#BAB2CF]/20 rounded-md text-[#FDFEFF] text-sm focus:outline-none focus:border-[#FF5D88] focus:ring-1 focus:ring-[#FF5D88]"
+                      disabled={isSaving}
+                    />
+                    {item.image.attributions && item.image.attributions.length > 0 && (
+                      <p className="text-[#BAB2CF] text-xs">
+                        Google attribution (kept with the photo): {item.image.attributions.map((a) => a.name).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </li>
               ))}
-            </div>
+            </ul>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFilesChange}
+              className="hidden"
+              disabled={isSaving}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="mt-3 w-full px-4 py-2 rounded-md transition-colors flex items-center gap-2 bg-[#1A1D3A] text-[#FDFEFF] border border-[#BAB2CF]/20 hover:border-[#FF5D88]"
+              disabled={isSaving}
+            >
+              <Upload size={16} />
+              {images.length > 0 ? 'Add More Images' : 'Upload Images'}
+            </button>
+            {imageError && (
+              <p className="mt-1 text-sm text-[#FF5D88]">{imageError}</p>
+            )}
           </div>
 
           {/* Architect */}
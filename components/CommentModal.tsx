@@ -1,19 +1,36 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Bold, Italic, Underline, Trash2 } from 'lucide-react';
+import { X, Bold, Italic, Underline, Trash2, AtSign, Building2 } from 'lucide-react';
 import { PrimaryButton } from '../ui/atoms';
 import { typography, getThemeColors, fontFamily } from '../ui/theme';
 import { Comment } from '../types';
+import { fetchCollaborators } from '../services/authService';
+import { buildingLinkHtml, linkMentions, mentionHtml, richTextToPlainText, sanitizeRichText } from '../utils/richText';
+
+// A building that can be linked from a comment
+export interface LinkableBuilding {
+  rowId: number;
+  name: string;
+  city?: string;
+}
 
 interface CommentModalProps {
   comment?: Comment | null; // null = add mode, Comment = edit mode
+  replyTo?: Comment | null; // Comment being replied to (add mode only)
+  linkableBuildings?: LinkableBuilding[];
   onSave: (text: string) => void;
   onDelete?: () => void;
   onCancel: () => void;
   theme: 'dark' | 'light';
 }
 
+type Picker = 'mention' | 'building' | null;
+
+const MAX_PICKER_RESULTS = 8;
+
 export const CommentModal: React.FC<CommentModalProps> = ({
   comment,
+  replyTo,
+  linkableBuildings = [],
   onSave,
   onDelete,
   onCancel,
@@ -21,13 +38,31 @@ export const CommentModal: React.FC<CommentModalProps> = ({
 }) => {
   const colors = getThemeColors(theme);
   const isEditMode = comment !== null && comment !== undefined;
-  const [commentText, setCommentText] = useState(comment?.text || '');
+  const isReply = !isEditMode && !!replyTo;
+  const edits = comment?.edits || [];
+  const [commentText, setCommentText] = useState(sanitizeRichText(comment?.text));
   const editorRef = useRef<HTMLDivElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [collaborators, setCollaborators] = useState<string[]>([]);
+  const [picker, setPicker] = useState<Picker>(null);
+  const [pickerQuery, setPickerQuery] = useState('');
+  // Caret position in the editor, kept while the picker's search box has focus
+  const savedRangeRef = useRef<Range | null>(null);
+
+  // Collaborators for @-mentions (empty when the list isn't available)
+  useEffect(() => {
+    let cancelled = false;
+    fetchCollaborators().then((users) => {
+      if (!cancelled) setCollaborators(users.map((user) => user.username));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  const modalTitleId = `comment-modal-title-${comment ? 'edit' : 'new'}`;
-  const modalDescriptionId = `comment-modal-description-${comment ? 'edit' : 'new'}`;
+  const modalTitleId = `comment-modal-title-${comment ? 'edit' : isReply ? 'reply' : 'new'}`;
+  const modalDescriptionId = `comment-modal-description-${comment ? 'edit' : isReply ? 'reply' : 'new'}`;
 
   // Focus management: focus the editor when modal opens
   useEffect(() => {
@@ -44,12 +79,47 @@ export const CommentModal: React.FC<CommentModalProps> = ({
   }, []);
 
   const handleSave = () => {
-    const text = editorRef.current?.innerHTML || '';
-    if (text.trim()) {
+    // Typed "@name" for a known collaborator becomes a mention; the result is sanitised again on save
+    const text = linkMentions(editorRef.current?.innerHTML || '', collaborators);
+    if (richTextToPlainText(text)) {
       onSave(text);
     }
   };
 
+  const openPicker = (next: Picker) => {
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode)) {
+      savedRangeRef.current = selection.getRangeAt(0).cloneRange();
+    }
+    setPickerQuery('');
+    setPicker(picker === next ? null : next);
+  };
+
+  // Insert a mention / building link where the caret was when the picker opened
+  const insertAtCaret = (html: string) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.focus();
+    const selection = window.getSelection();
+    if (selection && savedRangeRef.current) {
+      selection.removeAllRanges();
+      selection.addRange(savedRangeRef.current);
+    }
+    document.execCommand('insertHTML', false, `${html}&nbsp;`);
+    setCommentText(editor.innerHTML);
+    setPicker(null);
+  };
+
+  const query = pickerQuery.trim().toLowerCase();
+  const mentionResults = collaborators
+    .filter((username) => username.toLowerCase().includes(query))
+    .slice(0, MAX_PICKER_RESULTS);
+  const buildingResults = query
+    ? linkableBuildings
+        .filter((building) => building.name.toLowerCase().includes(query))
+        .slice(0, MAX_PICKER_RESULTS)
+    : [];
+
   const handleFormat = (command: string, value?: string) => {
     document.execCommand(command, false, value);
     editorRef.current?.focus();
@@ -99,12 +169,20 @@ export const CommentModal: React.FC<CommentModalProps> = ({
           </button>
 
           <h2 id={modalTitleId} className={`${fontFamily.heading} text-[#FDFEFF] text-2xl mb-6`}>
-            {isEditMode ? 'Edit Comment' : 'Add Comment'}
+            {isEditMode ? 'Edit Comment' : isReply ? 'Reply' : 'Add Comment'}
           </h2>
           <p id={modalDescriptionId} className="sr-only">
-            {isEditMode ? 'Edit your comment' : 'Add a new comment to this location'}
+            {isEditMode ? 'Edit your comment' : isReply ? `Reply to ${replyTo!.author}` : 'Add a new comment to this location'}
           </p>
 
+          {/* Comment being replied to */}
+          {isReply && (
+            <blockquote className="mb-4 pl-3 border-l-2 border-[#FF5D88]/60">
+              <div className="text-[#BAB2CF] text-[10px] mb-1">{replyTo!.author} wrote:</div>
+              <p className={`${typography.body.sm} text-white line-clamp-3`}>{richTextToPlainText(replyTo!.text)}</p>
+            </blockquote>
+          )}
+
           {/* Rich text formatting toolbar */}
           <div className="flex gap-2 mb-4 p-2 bg-[#1A1D3A] rounded-md border border-[#BAB2CF]/20">
             <button
@@ -134,14 +212,86 @@ export const CommentModal: React.FC<CommentModalProps> = ({
             >
               <Underline size={16} className="text-[#FDFEFF]" />
             </button>
+            {collaborators.length > 0 && (
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openPicker('mention')}
+                className={`p-2 hover:bg-[#3A3F6B] rounded transition-colors ${picker === 'mention' ? 'bg-[#3A3F6B]' : ''}`}
+                title="Mention a collaborator"
+                aria-label="Mention a collaborator"
+                aria-expanded={picker === 'mention'}
+              >
+                <AtSign size={16} className="text-[#FDFEFF]" />
+              </button>
+            )}
+            {linkableBuildings.length > 0 && (
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openPicker('building')}
+                className={`p-2 hover:bg-[#3A3F6B] rounded transition-colors ${picker === 'building' ? 'bg-[#3A3F6B]' : ''}`}
+                title="Link another building"
+                aria-label="Link another building"
+                aria-expanded={picker === 'building'}
+              >
+                <Building2 size={16} className="text-[#FDFEFF]" />
+              </button>
+            )}
           </div>
 
+          {/* Mention / building link picker */}
+          {picker && (
+            <div className="mb-4 p-3 bg-[#1A1D3A] rounded-md border border-[#BAB2CF]/20">
+              <input
+                type="text"
+                value={pickerQuery}
+                onChange={(e) => setPickerQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setPicker(null);
+                }}
+                placeholder={picker === 'mention' ? 'Search collaborators' : 'Search buildings by name'}
+                aria-label={picker === 'mention' ? 'Search collaborators' : 'Search buildings by name'}
+                className="w-full px-3 py-2 bg-[#282C55] border border-[#BAB2CF]/20 rounded-md text-[#FDFEFF] text-sm focus:outline-none focus:border-[#FF5D88]"
+                autoFocus
+              />
+              <ul className="mt-2 max-h-40 overflow-y-auto">
+                {picker === 'mention' && mentionResults.map((username) => (
+                  <li key={username}>
+                    <button
+                      type="button"
+                      onClick={() => insertAtCaret(mentionHtml(username))}
+                      className="w-full text-left px-2 py-1.5 text-sm text-white hover:bg-[#3A3F6B] rounded"
+                    >
+                      @{username}
+                    </button>
+                  </li>
+                ))}
+                {picker === 'building' && buildingResults.map((building) => (
+                  <li key={building.rowId}>
+                    <button
+                      type="button"
+                      onClick={() => insertAtCaret(buildingLinkHtml(building.rowId, building.name))}
+                      className="w-full text-left px-2 py-1.5 text-sm text-white hover:bg-[#3A3F6B] rounded truncate"
+                    >
+                      {building.name}
+                      {building.city && <span className="text-[#BAB2CF]"> · {building.city}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {picker === 'building' && query && buildingResults.length === 0 && (
+                <p className={`${typography.body.sm} text-[#BAB2CF] mt-2`}>No matching buildings</p>
+              )}
+            </div>
+          )}
+
           {/* Rich text editor */}
           <div
             ref={editorRef}
             contentEditable
             onInput={handleInput}
-            className="w-full min-h-[200px] px-4 py-3 bg-[#1A1D3A] border border-[#BAB2CF]/20 rounded-md text-[#FDFEFF] focus:outline-none focus:border-[#FF5D88] focus:ring-1 focus:ring-[#FF5D88] mb-6"
+            className="rich-text w-full min-h-[200px] px-4 py-3 bg-[#1A1D3A] border border-[#BAB2CF]/20 rounded-md text-[#FDFEFF] focus:outline-none focus:border-[#FF5D88] focus:ring-1 focus:ring-[#FF5D88] mb-6"
             style={{
               fontFamily: 'Inter, sans-serif',
               fontSize: '14px',
@@ -151,6 +301,26 @@ export const CommentModal: React.FC<CommentModalProps> = ({
             aria-label="Comment text"
           />
 
+          {/* Earlier versions of the comment being edited */}
+          {isEditMode && edits.length > 0 && (
+            <details className="mb-6">
+              <summary className={`${typography.label.default} text-[#BAB2CF] cursor-pointer hover:text-[#FDFEFF]`}>
+                Edit history ({edits.length})
+              </summary>
+              <ol className="mt-3 space-y-3 max-h-48 overflow-y-auto">
+                {[...edits].reverse().map((edit, index) => (
+                  <li key={`${edit.editedAt}-${index}`} className="bg-[#1A1D3A]/40 rounded-[12px] p-3">
+                    <div className="text-[#BAB2CF] text-[10px] mb-1">
+                      Replaced by {edit.editedBy} on{' '}
+                      {new Date(edit.editedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </div>
+                    <div className={`rich-text ${typography.body.sm} text-white`} dangerouslySetInnerHTML={{ __html: sanitizeRichText(edit.text) }} />
+                  </li>
+                ))}
+              </ol>
+            </details>
+          )}
+
           {/* Buttons */}
           <div className="flex gap-3">
             <PrimaryButton
@@ -158,7 +328,7 @@ export const CommentModal: React.FC<CommentModalProps> = ({
               onClick={handleSave}
               className="flex-1"
             >
-              {isEditMode ? 'Save Changes' : 'Add Comment'}
+              {isEditMode ? 'Save Changes' : isReply ? 'Post Reply' : 'Add Comment'}
             </PrimaryButton>
             {isEditMode && onDelete && (
               <button
@@ -203,7 +373,7 @@ export const CommentModal: React.FC<CommentModalProps> = ({
               Delete Comment?
             </h2>
             <p className={`${typography.body.default} text-[#BAB2CF] mb-6`}>
-              Are you sure you want to delete this comment? This action cannot be undone.
+              Are you sure you want to delete this comment? Replies to it stay in the thread.
             </p>
             <div className="flex gap-3">
               <button
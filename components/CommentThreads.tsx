@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { CornerDownRight, Pencil } from 'lucide-react';
+import { Comment, CommentThread } from '../types';
+import { typography } from '../ui/theme';
+import { sanitizeRichText } from '../utils/richText';
+
+interface CommentThreadsProps {
+  threads: CommentThread[];
+  onReply?: (comment: Comment) => void;
+  onEdit?: (comment: Comment) => void;
+  canEdit?: (comment: Comment) => boolean; // Author or curator
+  onOpenBuilding?: (rowId: number) => void; // Building links inside comments
+}
+
+// Deeper replies stop indenting so long discussions stay readable in the side panel
+const MAX_INDENT_DEPTH = 3;
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+interface CommentItemProps extends Omit<CommentThreadsProps, 'threads' | 'onOpenBuilding'> {
+  thread: CommentThread;
+  depth: number;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ thread, depth, onReply, onEdit, canEdit }) => {
+  const [showEdits, setShowEdits] = useState(false);
+  const edits = thread.edits || [];
+  // Comments still waiting in the offline outbox can't be replied to or edited until they sync
+  const editable = !thread.isDeleted && !thread.isPending && !!onEdit && (!canEdit || canEdit(thread));
+
+  return (
+    <li>
+      <div className="bg-[#1A1D3A]/40 rounded-[16px] p-4">
+        {thread.isDeleted ? (
+          <p className="text-[#BAB2CF] text-sm italic">Comment deleted</p>
+        ) : (
+          <div
+            className="rich-text text-white text-sm leading-relaxed"
+            dangerouslySetInnerHTML={{ __html: sanitizeRichText(thread.text) }}
+          />
+        )}
+
+        <div className="flex items-center justify-between gap-2 mt-2">
+          <div className="text-[#BAB2CF] text-[10px]">
+            {!thread.isDeleted && <span className="font-medium">{thread.author} · </span>}
+            {formatDate(thread.createdAt)}
+            {thread.isPending && <span className="ml-2 italic">waiting to sync</span>}
+            {edits.length > 0 && (
+              <button
+                onClick={() => setShowEdits(!showEdits)}
+                className="ml-2 underline hover:text-[#FDFEFF] transition-colors"
+                aria-expanded={showEdits}
+              >
+                (edited {edits.length === 1 ? 'once' : `${edits.length} times`})
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            {!thread.isDeleted && !thread.isPending && onReply && (
+              <button
+                onClick={() => onReply(thread)}
+                className="p-1 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors"
+                title="Reply"
+                aria-label={`Reply to ${thread.author}`}
+              >
+                <CornerDownRight size={14} aria-hidden="true" />
+              </button>
+            )}
+            {editable && (
+              <button
+                onClick={() => onEdit!(thread)}
+                className="p-1 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors"
+                title="Edit comment"
+                aria-label="Edit comment"
+              >
+                <Pencil size={14} aria-hidden="true" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {showEdits && (
+          <ol className="mt-3 pt-3 border-t border-white/10 space-y-2">
+            {[...edits].reverse().map((edit, index) => (
+              <li key={`${edit.editedAt}-${index}`}>
+                <div className="text-[#BAB2CF] text-[10px] mb-1">
+                  Replaced by {edit.editedBy} on {formatDate(edit.editedAt)}
+                </div>
+                <div
+                  className={`rich-text ${typography.body.sm} text-white opacity-70`}
+                  dangerouslySetInnerHTML={{ __html: sanitizeRichText(edit.text) }}
+                />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {thread.replies.length > 0 && (
+        <ul className={`mt-2 space-y-2 ${depth < MAX_INDENT_DEPTH ? 'pl-4 border-l border-white/10' : ''}`}>
+          {thread.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              thread={reply}
+              depth={depth + 1}
+              onReply={onReply}
+              onEdit={onEdit}
+              canEdit={canEdit}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// Threaded discussion for the details panel: top-level comments with their replies nested below.
+// Comment HTML is sanitised again here, so rows written before the format existed are safe to show.
+export const CommentThreads: React.FC<CommentThreadsProps> = ({ threads, onReply, onEdit, canEdit, onOpenBuilding }) => {
+  // Building links are plain anchors in the HTML, so catch their clicks here
+  const handleClick = (e: React.MouseEvent<HTMLUListElement>) => {
+    const link = (e.target as HTMLElement).closest<HTMLAnchorElement>('a[data-building]');
+    if (!link) return;
+    e.preventDefault();
+    onOpenBuilding?.(Number(link.dataset.building));
+  };
+
+  return (
+    <ul className="space-y-4" onClick={handleClick}>
+      {threads.map((thread) => (
+        <CommentItem key={thread.id} thread={thread} depth={0} onReply={onReply} onEdit={onEdit} canEdit={canEdit} />
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { DedupeCandidate, DedupeGroup, planDedupeGroup } from '../services/baserowService';
+import { typography, getThemeColors, fontFamily } from '../ui/theme';
+
+interface DedupeReviewModalProps {
+  groups: DedupeGroup[];
+  onApply: (groups: DedupeGroup[]) => void;
+  onCancel: () => void;
+  theme: 'dark' | 'light';
+}
+
+// Curator decisions for one proposed group
+interface GroupDecision {
+  approved: boolean;
+  keepRowId: number;
+  excludedRowIds: Set<number>; // Split out of the group - left untouched
+}
+
+// Re-plan a group from the curator's choices; null when fewer than two rows remain
+const applyDecision = (group: DedupeGroup, decision: GroupDecision): DedupeGroup | null => {
+  const members = [group.keep, ...group.duplicates].filter((m) => !decision.excludedRowIds.has(m.rowId));
+  const keep = members.find((m) => m.rowId === decision.keepRowId);
+  if (!keep || members.length < 2) return null;
+  return planDedupeGroup(keep, members.filter((m) => m !== keep));
+};
+
+// Review the dry-run dedupe plan: approve, split or reject each group before anything is written
+export const DedupeReviewModal: React.FC<DedupeReviewModalProps> = ({ groups, onApply, onCancel, theme }) => {
+  const colors = getThemeColors(theme);
+  const [decisions, setDecisions] = useState<GroupDecision[]>(() =>
+    groups.map((group) => ({ approved: true, keepRowId: group.keep.rowId, excludedRowIds: new Set() }))
+  );
+
+  const plannedGroups = useMemo(
+    () => groups.map((group, index) => applyDecision(group, decisions[index])),
+    [groups, decisions]
+  );
+
+  const updateDecision = (index: number, update: (decision: GroupDecision) => GroupDecision) => {
+    setDecisions((prev) => prev.map((decision, i) => (i === index ? update(decision) : decision)));
+  };
+
+  const toggleMember = (index: number, member: DedupeCandidate) => {
+    updateDecision(index, (decision) => {
+      const excludedRowIds = new Set(decision.excludedRowIds);
+      if (excludedRowIds.has(member.rowId)) {
+        excludedRowIds.delete(member.rowId);
+      } else {
+        excludedRowIds.add(member.rowId);
+      }
+      return { ...decision, excludedRowIds };
+    });
+  };
+
+  const approvedGroups = plannedGroups.filter(
+    (group, index): group is DedupeGroup => !!group && decisions[index].approved
+  );
+  const deleteCount = approvedGroups.reduce((total, group) => total + group.duplicates.length, 0);
+
+  return (
+    <div
+      className="fixed inset-0 bg-[#010E36]/90 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="dedupe-review-title"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onCancel();
+        }
+      }}
+    >
+      <div
+        className="max-w-2xl w-full max-h-[85vh] flex flex-col bg-[#282C55] shadow-xl relative rounded-[32px] overflow-hidden"
+        style={{ padding: '32px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close button */}
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors opacity-60 hover:opacity-100"
+          aria-label="Close modal"
+          title="Close"
+        >
+          <X size={18} strokeWidth={2} aria-hidden="true" />
+        </button>
+
+        <h2 id="dedupe-review-title" className={`${fontFamily.heading} text-[#FDFEFF] text-2xl mb-2`}>
+          Review duplicates
+        </h2>
+        <p className={`${typography.body.sm} text-[#BAB2CF] mb-6`}>
+          {groups.length} group{groups.length === 1 ? '' : 's'} found. Pick the row to keep, untick rows that aren't
+          duplicates, or reject a group. Comments on deleted rows move to the kept row. Nothing is changed until you apply.
+        </p>
+
+        <div className="space-y-4 overflow-y-auto pr-1">
+          {groups.map((group, index) => {
+            const decision = decisions[index];
+            const planned = plannedGroups[index];
+            const members = [group.keep, ...group.duplicates];
+
+            return (
+              <section
+                key={group.keep.rowId}
+                className={`bg-[#1A1D3A]/40 rounded-[16px] p-4 ${decision.approved ? '' : 'opacity-50'}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <span className={`${typography.label.default} text-[#FDFEFF]`}>Group {index + 1}</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => updateDecision(index, (d) => ({ ...d, approved: true }))}
+                      className={`px-3 py-1 rounded-full ${typography.label.badge} ${decision.approved ? 'bg-[#FF5D88] text-white' : 'text-[#BAB2CF] border border-[#BAB2CF]/30'}`}
+                      aria-pressed={decision.approved}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => updateDecision(index, (d) => ({ ...d, approved: false }))}
+                      className={`px-3 py-1 rounded-full ${typography.label.badge} ${!decision.approved ? 'bg-[#BAB2CF] text-[#282C55]' : 'text-[#BAB2CF] border border-[#BAB2CF]/30'}`}
+                      aria-pressed={!decision.approved}
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+
+                <ul className="space-y-2">
+                  {members.map((member) => {
+                    const included = !decision.excludedRowIds.has(member.rowId);
+                    const isKeeper = decision.keepRowId === member.rowId;
+                    return (
+                      <li key={member.rowId} className="flex items-center gap-3 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={included}
+                          onChange={() => toggleMember(index, member)}
+                          disabled={!decision.approved}
+                          aria-label={`Include "${member.building.name}" in this group`}
+                        />
+                        <input
+                          type="radio"
+                          name={`dedupe-keep-${group.keep.rowId}`}
+                          checked={isKeeper}
+                          onChange={() => updateDecision(index, (d) => ({ ...d, keepRowId: member.rowId }))}
+                          disabled={!decision.approved || !included}
+                          aria-label={`Keep "${member.building.name}"`}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className={`truncate ${included ? 'text-white' : 'text-[#BAB2CF] line-through'}`}>
+                            {member.building.name}
+                            <span className="text-[#BAB2CF]"> · #{member.rowId} · score {member.score.toFixed(1)}</span>
+                          </div>
+                          <div className="text-[#BAB2CF] text-[10px] truncate">{member.building.location}</div>
+                        </div>
+                        <span className={`${typography.label.badge} ${isKeeper ? 'text-[#FF5D88]' : 'text-[#BAB2CF]'}`}>
+                          {!included ? 'split out' : isKeeper ? 'keep' : 'delete'}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+
+                {decision.approved && planned && planned.merges.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-white/10">
+                    <div className={`${typography.label.badge} text-[#BAB2CF] mb-1`}>Merged into the kept row</div>
+                    <ul className={`${typography.mono.sm} text-white space-y-1`}>
+                      {planned.merges.map((merge) => (
+                        <li key={merge.field} className="truncate">
+                          {merge.label}: {merge.value} <span className="text-[#BAB2CF]">(from #{merge.fromRowId})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {decision.approved && !planned && (
+                  <p className={`${typography.body.sm} text-[#BAB2CF] mt-3`}>Fewer than two rows left - nothing to merge</p>
+                )}
+              </section>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={() => onApply(approvedGroups)}
+            disabled={approvedGroups.length === 0}
+            className="flex-1 px-6 py-3 rounded-md transition-colors bg-[#FF5D88] text-white hover:opacity-90 font-medium disabled:opacity-50"
+          >
+            Apply {approvedGroups.length} group{approvedGroups.length === 1 ? '' : 's'} ({deleteCount} deletion{deleteCount === 1 ? '' : 's'})
+          </button>
+          <button
+            onClick={onCancel}
+            className={`flex-1 px-6 py-3 rounded-md transition-colors ${colors.accent.bgHover} text-[#BAB2CF] hover:text-[#FDFEFF] border border-[#BAB2CF]/30 hover:border-[#BAB2CF]/50`}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { Building, DeletedBuilding } from '../types';
+import { fetchDeletedBuildings, restoreDeletedBuilding } from '../services/baserowService';
+import { typography, fontFamily } from '../ui/theme';
+
+interface DeletedBuildingsModalProps {
+  onRestored: (building: Building) => void;
+  onClose: () => void;
+}
+
+// Curator view of deleted buildings (including ones removed by dedupe) with a way to bring them back
+export const DeletedBuildingsModal: React.FC<DeletedBuildingsModalProps> = ({ onRestored, onClose }) => {
+  const [deleted, setDeleted] = useState<DeletedBuilding[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDeletedBuildings()
+      .then((results) => {
+        if (!cancelled) setDeleted(results);
+      })
+      .catch((err) => {
+        console.error('Failed to load deleted buildings:', err);
+        if (!cancelled) setError(err?.message || 'Could not load deleted buildings');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRestore = async (entry: DeletedBuilding) => {
+    setRestoringId(entry.revisionId);
+    setError(null);
+    try {
+      const building = await restoreDeletedBuilding(entry.revisionId);
+      setDeleted((prev) => prev?.filter((d) => d.revisionId !== entry.revisionId) ?? null);
+      onRestored(building);
+    } catch (err: any) {
+      console.error(`Failed to restore "${entry.building.name}":`, err);
+      setError(`Failed to restore "${entry.building.name}"`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-[#010E36]/90 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="deleted-buildings-title"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        className="max-w-md w-full max-h-[80vh] flex flex-col bg-[#282C55] shadow-xl relative rounded-[32px] overflow-hidden"
+        style={{ padding: '32px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors opacity-60 hover:opacity-100"
+          aria-label="Close modal"
+          title="Close"
+        >
+          <X size={18} strokeWidth={2} aria-hidden="true" />
+        </button>
+
+        <h2 id="deleted-buildings-title" className={`${fontFamily.heading} text-[#FDFEFF] text-2xl mb-6`}>
+          Deleted buildings
+        </h2>
+
+        {error && (
+          <p className={`${typography.body.sm} text-[#FF5D88] mb-4`} role="alert">
+            {error}
+          </p>
+        )}
+        {!deleted && !error && <p className={`${typography.body.sm} text-[#BAB2CF]`}>Loading...</p>}
+        {deleted && deleted.length === 0 && (
+          <p className={`${typography.body.sm} text-[#BAB2CF]`}>Nothing has been deleted</p>
+        )}
+
+        {deleted && deleted.length > 0 && (
+          <ul className="space-y-2 overflow-y-auto">
+            {deleted.map((entry) => (
+              <li key={entry.revisionId} className="flex items-center justify-between gap-3 bg-[#1A1D3A]/40 rounded-[12px] p-3">
+                <div className="min-w-0">
+                  <div className="text-white text-sm truncate">{entry.building.name || 'Unnamed building'}</div>
+                  <div className="text-[#BAB2CF] text-[10px] mt-1">
+                    {entry.building.city || entry.building.location || '—'} · deleted by {entry.deletedBy} on{' '}
+                    {new Date(entry.deletedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRestore(entry)}
+                  disabled={restoringId !== null}
+                  className="p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50"
+                  title="Restore building"
+                  aria-label={`Restore ${entry.building.name}`}
+                >
+                  <RotateCcw size={16} aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
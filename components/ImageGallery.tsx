@@ -1,11 +1,22 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { BuildingImage } from '../types';
+import { buildSrcSet, PICTURE_FORMATS } from '../utils/responsiveImage';
 
 interface ImageGalleryProps {
-  images: string[];
+  images: BuildingImage[];
   buildingName: string;
 }
 
+// The gallery fills the details panel: full width on phones, 384px (w-96) from md up
+const GALLERY_SIZES = '(min-width: 768px) 384px, 100vw';
+
+const SOURCE_LABELS: Record<BuildingImage['source'], string> = {
+  upload: 'Uploaded',
+  google_places: 'Google',
+  web: 'Web',
+};
+
 export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, buildingName }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
@@ -83,6 +94,13 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, buildingName
   // Update container height based on current image's aspect ratio
   const updateContainerHeight = useCallback((index: number) => {
     const img = imageRefs.current[index];
+    const known = images[index];
+    // Processed uploads know their size up front, so the height is right before the image loads
+    if (containerRef.current && known?.width && known?.height && (!img || !img.complete)) {
+      const containerWidth = containerRef.current.clientWidth || 800;
+      setContainerHeight(Math.max(200, Math.min(containerWidth * (known.height / known.width), 512)));
+      return;
+    }
     if (!img || !containerRef.current) {
       // If image not loaded yet, use default height
       if (!containerHeight) {
@@ -109,7 +127,7 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, buildingName
     const constrainedHeight = Math.max(200, Math.min(renderedHeight, 512));
     
     setContainerHeight(constrainedHeight);
-  }, [containerHeight]);
+  }, [containerHeight, images]);
 
   // Update height when current image changes
   useEffect(() => {
@@ -136,6 +154,8 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, buildingName
 
   if (images.length === 0) return null;
 
+  const current = images[Math.min(currentIndex, images.length - 1)];
+
   return (
     <div 
       className="relative w-full overflow-hidden bg-[#020716] group"
@@ -152,43 +172,98 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, buildingName
           maxHeight: '512px'
         }}
       >
-        {images.map((imageUrl, index) => (
+        {images.map((image, index) => (
           <div
             key={index}
             className={`absolute inset-0 transition-opacity duration-500 ${
               index === currentIndex ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'
             }`}
           >
-            <img
-              ref={(el) => {
-                if (el) {
-                  imageRefs.current[index] = el;
-                  // If image is already loaded, calculate height immediately
-                  if (el.complete) {
-                    handleImageLoad(index, el);
+            {/* Blurred placeholder until the image itself has loaded */}
+            {image.placeholder && (
+              <div
+                className="absolute inset-0 bg-cover bg-center scale-110"
+                style={{ backgroundImage: `url(${image.placeholder})`, filter: 'blur(16px)' }}
+                aria-hidden="true"
+              />
+            )}
+            <picture>
+              {PICTURE_FORMATS.map(({ format, type }) => {
+                const srcSet = buildSrcSet(image, format);
+                return srcSet ? <source key={format} type={type} srcSet={srcSet} sizes={GALLERY_SIZES} /> : null;
+              })}
+              <img
+                ref={(el) => {
+                  if (el) {
+                    imageRefs.current[index] = el;
+                    // If image is already loaded, calculate height immediately
+                    if (el.complete) {
+                      handleImageLoad(index, el);
+                    }
                   }
-                }
-              }}
-              src={imageUrl}
-              alt={`${buildingName} - Image ${index + 1}`}
-              className="w-full h-full object-cover transition-opacity duration-300"
-              style={{ opacity: 0 }}
-              loading={index === 0 ? "eager" : "lazy"}
-              decoding="async"
-              onLoad={(e) => {
-                const img = e.currentTarget;
-                img.style.opacity = '1';
-                handleImageLoad(index, img);
-              }}
-              onError={(e) => {
-                console.warn(`Image ${index + 1} failed to load for "${buildingName}"`);
-                (e.target as HTMLImageElement).style.display = 'none';
-              }}
-            />
+                }}
+                src={image.url}
+                srcSet={buildSrcSet(image, 'jpeg')}
+                sizes={GALLERY_SIZES}
+                width={image.width}
+                height={image.height}
+                alt={image.caption || `${buildingName} - Image ${index + 1}`}
+                className="relative w-full h-full object-cover transition-opacity duration-300"
+                style={{ opacity: 0 }}
+                loading={index === 0 ? "eager" : "lazy"}
+                decoding="async"
+                onLoad={(e) => {
+                  const img = e.currentTarget;
+                  img.style.opacity = '1';
+                  handleImageLoad(index, img);
+                }}
+                onError={(e) => {
+                  console.warn(`Image ${index + 1} failed to load for "${buildingName}"`);
+                  (e.target as HTMLImageElement).style.display = 'none';
+                }}
+              />
+            </picture>
           </div>
         ))}
       </div>
 
+      {/* Caption and credit for the current image. Google Places photos always show their
+          attributions (linked to the contributor's profile) - Google's terms require it */}
+      {(current.caption || current.credit || current.source === 'google_places') && (
+        <div
+          className={`absolute inset-x-0 bottom-0 z-20 px-4 pt-8 bg-gradient-to-t from-[#010E36]/90 to-transparent pointer-events-none ${
+            images.length > 1 ? 'pb-10' : 'pb-3'
+          }`}
+        >
+          {current.caption && <p className="text-white text-sm leading-snug">{current.caption}</p>}
+          {(current.credit || current.source === 'google_places') && (
+            <p className="text-[#BAB2CF] text-[10px] mt-1 pointer-events-auto">
+              {current.attributions && current.attributions.length > 0 ? (
+                <>
+                  Photo:{' '}
+                  {current.attributions.map((attribution, index) => (
+                    <React.Fragment key={index}>
+                      {index > 0 && ', '}
+                      {attribution.url ? (
+                        <a href={attribution.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">
+                          {attribution.name}
+                        </a>
+                      ) : (
+                        attribution.name
+                      )}
+                    </React.Fragment>
+                  ))}
+                  {' · '}
+                </>
+              ) : current.credit ? (
+                <>Photo: {current.credit} · </>
+              ) : null}
+              {SOURCE_LABELS[current.source]}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Navigation arrows (only show if multiple images) */}
       {images.length > 1 && (
         <>
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { AuthUser } from '../types';
+import { login } from '../services/authService';
+import { typography, getThemeColors, fontFamily } from '../ui/theme';
+
+interface LoginModalProps {
+  onSuccess: (user: AuthUser) => void;
+  onCancel: () => void;
+  theme: 'dark' | 'light';
+}
+
+export const LoginModal: React.FC<LoginModalProps> = ({ onSuccess, onCancel, theme }) => {
+  const colors = getThemeColors(theme);
+  const usernameRef = useRef<HTMLInputElement>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Focus management: focus the username field when the modal opens
+  useEffect(() => {
+    usernameRef.current?.focus();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setError('Enter your username and password');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const user = await login(username.trim(), password);
+      onSuccess(user);
+    } catch (err: any) {
+      console.error('Sign-in failed:', err);
+      setError(err?.message || 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName = `w-full px-4 py-3 rounded-md bg-[#010E36]/60 text-[#FDFEFF] border border-[#BAB2CF]/30 focus:border-[#FF5D88] focus:outline-none ${typography.body.default}`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-[#010E36]/90 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="login-modal-title"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onCancel();
+        }
+      }}
+    >
+      <div
+        className="max-w-md w-full bg-[#282C55] shadow-xl relative rounded-[32px] overflow-hidden"
+        style={{ padding: '32px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close button */}
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors opacity-60 hover:opacity-100"
+          aria-label="Close modal"
+          title="Close"
+        >
+          <X size={18} strokeWidth={2} aria-hidden="true" />
+        </button>
+
+        <h2 id="login-modal-title" className={`${fontFamily.heading} text-[#FDFEFF] text-2xl mb-6`}>
+          Identify yourself
+        </h2>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <label className="flex flex-col gap-2">
+            <span className={`${typography.label.default} text-[#BAB2CF]`}>Username</span>
+            <input
+              ref={usernameRef}
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={inputClassName}
+              disabled={submitting}
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className={`${typography.label.default} text-[#BAB2CF]`}>Password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName}
+              disabled={submitting}
+            />
+          </label>
+
+          {error && (
+            <p className={`${typography.body.sm} text-[#FF5D88]`} role="alert">
+              {error}
+            </p>
+          )}
+
+          <div className="flex gap-3 mt-2">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 px-6 py-3 rounded-md transition-colors bg-[#FF5D88] text-white hover:opacity-90 font-medium disabled:opacity-50"
+            >
+              {submitting ? 'Signing in...' : 'Sign in'}
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className={`flex-1 px-6 py-3 rounded-md transition-colors ${colors.accent.bgHover} text-[#BAB2CF] hover:text-[#FDFEFF] border border-[#BAB2CF]/30 hover:border-[#BAB2CF]/50`}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
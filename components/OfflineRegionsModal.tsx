@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, RefreshCw, Trash2, Download } from 'lucide-react';
+import { GeoBounds, OfflineRegion } from '../types';
+import {
+  countRegionTiles,
+  deleteOfflineRegion,
+  listOfflineRegions,
+  MAX_REGION_ZOOM,
+  maxRegionTiles,
+  refreshOfflineRegion,
+  RegionDownloadProgress,
+  saveOfflineRegion,
+} from '../services/offlineRegionService';
+import { PrimaryButton } from '../ui/atoms';
+import { Theme, typography, fontFamily } from '../ui/theme';
+
+interface OfflineRegionsModalProps {
+  bounds: GeoBounds | null; // Current map view (null if the map isn't ready)
+  tileUrlTemplate: string; // Tile set currently shown (dark or light)
+  theme: Theme;
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = Array.from({ length: MAX_REGION_ZOOM + 1 }, (_, zoom) => zoom);
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Save the current map view for offline use, and manage previously saved areas
+export const OfflineRegionsModal: React.FC<OfflineRegionsModalProps> = ({ bounds, tileUrlTemplate, theme, onClose }) => {
+  const [regions, setRegions] = useState<OfflineRegion[] | null>(null);
+  const [name, setName] = useState('');
+  const [minZoom, setMinZoom] = useState(10);
+  const [maxZoom, setMaxZoom] = useState(16);
+  const [busyId, setBusyId] = useState<string | null>(null); // 'new' while saving the current view
+  const [progress, setProgress] = useState<RegionDownloadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listOfflineRegions()
+      .then((results) => {
+        if (!cancelled) setRegions(results);
+      })
+      .catch((err) => {
+        console.error('Failed to load offline regions:', err);
+        if (!cancelled) setError('Could not load saved areas');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const tileCount = useMemo(
+    () => (bounds && minZoom <= maxZoom ? countRegionTiles(bounds, minZoom, maxZoom) : 0),
+    [bounds, minZoom, maxZoom]
+  );
+  const tileLimit = maxRegionTiles(tileUrlTemplate);
+  const tooManyTiles = tileCount > tileLimit;
+
+  const runDownload = async (id: string, download: () => Promise<OfflineRegion>) => {
+    setBusyId(id);
+    setProgress(null);
+    setError(null);
+    try {
+      const region = await download();
+      setRegions((prev) => [region, ...(prev || []).filter((r) => r.id !== region.id)]);
+      if (id === 'new') setName('');
+    } catch (err: any) {
+      console.error('Offline download failed:', err);
+      setError(err?.message || 'Download failed');
+    } finally {
+      setBusyId(null);
+      setProgress(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!bounds) return;
+    runDownload('new', () => saveOfflineRegion({ name, bounds, minZoom, maxZoom, tileUrlTemplate }, setProgress));
+  };
+
+  const handleDelete = async (region: OfflineRegion) => {
+    setBusyId(region.id);
+    setError(null);
+    try {
+      await deleteOfflineRegion(region);
+      setRegions((prev) => prev?.filter((r) => r.id !== region.id) ?? null);
+    } catch (err) {
+      console.error(`Failed to delete offline region "${region.name}":`, err);
+      setError(`Failed to delete "${region.name}"`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const selectClassName = 'px-3 py-2 bg-[#1A1D3A] border border-[#BAB2CF]/20 rounded-md text-[#FDFEFF] focus:outline-none focus:border-[#FF5D88]';
+
+  return (
+    <div
+      className="fixed inset-0 bg-[#010E36]/90 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="offline-regions-title"
+      onClick={(e) => {
+        if (e.target === e.currentTarget && busyId === null) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        className="max-w-md w-full max-h-[85vh] flex flex-col bg-[#282C55] shadow-xl relative rounded-[32px] overflow-hidden"
+        style={{ padding: '32px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          disabled={busyId !== null}
+          className="absolute top-4 right-4 p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors opacity-60 hover:opacity-100 disabled:opacity-30"
+          aria-label="Close modal"
+          title="Close"
+        >
+          <X size={18} strokeWidth={2} aria-hidden="true" />
+        </button>
+
+        <h2 id="offline-regions-title" className={`${fontFamily.heading} text-[#FDFEFF] text-2xl mb-6`}>
+          Offline maps
+        </h2>
+
+        {/* Save the current view */}
+        <div className="space-y-3 mb-6">
+          <label className={`${typography.label.default} text-[#FDFEFF] block`} htmlFor="offline-region-name">
+            Save this area
+          </label>
+          <input
+            id="offline-region-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (e.g. Berlin trip)"
+            className="w-full px-4 py-2 bg-[#1A1D3A] border border-[#BAB2CF]/20 rounded-md text-[#FDFEFF] focus:outline-none focus:border-[#FF5D88]"
+            disabled={busyId !== null}
+          />
+          <div className={`flex items-center gap-2 ${typography.body.sm} text-[#BAB2CF]`}>
+            <span>Zoom</span>
+            <select
+              value={minZoom}
+              onChange={(e) => setMinZoom(Number(e.target.value))}
+              className={selectClassName}
+              aria-label="Lowest zoom level"
+              disabled={busyId !== null}
+            >
+              {ZOOM_LEVELS.map((zoom) => <option key={zoom} value={zoom}>{zoom}</option>)}
+            </select>
+            <span>to</span>
+            <select
+              value={maxZoom}
+              onChange={(e) => setMaxZoom(Number(e.target.value))}
+              className={selectClassName}
+              aria-label="Highest zoom level"
+              disabled={busyId !== null}
+            >
+              {ZOOM_LEVELS.map((zoom) => <option key={zoom} value={zoom}>{zoom}</option>)}
+            </select>
+          </div>
+          <p className={`${typography.body.sm} ${tooManyTiles ? 'text-[#FF5D88]' : 'text-[#BAB2CF]'}`}>
+            {!bounds
+              ? 'The map is still loading'
+              : minZoom > maxZoom
+                ? 'The lowest zoom must not be above the highest'
+                : `${tileCount.toLocaleString()} map tiles${tooManyTiles ? ` - the limit is ${tileLimit.toLocaleString()}, zoom in or lower the max zoom` : ''}, plus the buildings and their images`}
+          </p>
+          <PrimaryButton
+            theme={theme}
+            onClick={handleSave}
+            disabled={!bounds || busyId !== null || minZoom > maxZoom || tooManyTiles}
+            className="flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download size={16} aria-hidden="true" />
+            {busyId === 'new' ? 'Saving...' : 'Save for offline'}
+          </PrimaryButton>
+        </div>
+
+        {progress && (
+          <div className="mb-4" role="status">
+            <div className="h-1.5 rounded-full bg-[#1A1D3A] overflow-hidden">
+              <div
+                className="h-full bg-[#FF5D88] transition-all"
+                style={{ width: `${Math.round((progress.done / Math.max(1, progress.total)) * 100)}%` }}
+              />
+            </div>
+            <p className="text-[#BAB2CF] text-[10px] mt-1">
+              {progress.done.toLocaleString()} of {progress.total.toLocaleString()} files
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <p className={`${typography.body.sm} text-[#FF5D88] mb-4`} role="alert">
+            {error}
+          </p>
+        )}
+
+        {/* Saved areas */}
+        {!regions && !error && <p className={`${typography.body.sm} text-[#BAB2CF]`}>Loading...</p>}
+        {regions && regions.length === 0 && (
+          <p className={`${typography.body.sm} text-[#BAB2CF]`}>No areas saved yet</p>
+        )}
+        {regions && regions.length > 0 && (
+          <ul className="space-y-2 overflow-y-auto">
+            {regions.map((region) => (
+              <li key={region.id} className="flex items-center justify-between gap-3 bg-[#1A1D3A]/40 rounded-[12px] p-3">
+                <div className="min-w-0">
+                  <div className="text-white text-sm truncate">{region.name}</div>
+                  <div className="text-[#BAB2CF] text-[10px] mt-1">
+                    {formatBytes(region.bytes)} · {region.tileCount.toLocaleString()} tiles (zoom {region.minZoom}-{region.maxZoom}) ·{' '}
+                    {region.buildingCount} buildings · saved{' '}
+                    {new Date(region.savedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                  </div>
+                  {region.failedCount > 0 && (
+                    <div className="text-[#FF5D88] text-[10px] mt-1">
+                      {region.failedCount} file{region.failedCount === 1 ? '' : 's'} failed to download - refresh to retry
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => runDownload(region.id, () => refreshOfflineRegion(region, setProgress))}
+                    disabled={busyId !== null}
+                    className="p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50"
+                    title="Download again"
+                    aria-label={`Refresh ${region.name}`}
+                  >
+                    <RefreshCw size={16} className={busyId === region.id ? 'animate-spin' : ''} aria-hidden="true" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(region)}
+                    disabled={busyId !== null}
+                    className="p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50"
+                    title="Delete saved area"
+                    aria-label={`Delete ${region.name}`}
+                  >
+                    <Trash2 size={16} aria-hidden="true" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
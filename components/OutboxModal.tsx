@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { X, RefreshCw, Check, Trash2 } from 'lucide-react';
+import { OutboxEntry } from '../types';
+import { typography, fontFamily } from '../ui/theme';
+
+interface OutboxModalProps {
+  entries: OutboxEntry[];
+  onSyncNow: () => Promise<void>;
+  onKeepMine: (entry: OutboxEntry) => Promise<void>; // Replay without the conflict check
+  onDiscard: (entry: OutboxEntry) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<OutboxEntry['status'], string> = {
+  pending: 'Waiting to sync',
+  conflict: 'Conflict',
+  failed: 'Rejected by the server',
+};
+
+// Edits made offline that haven't reached the server yet, with a way to settle the ones held back
+export const OutboxModal: React.FC<OutboxModalProps> = ({ entries, onSyncNow, onKeepMine, onDiscard, onClose }) => {
+  const [busyId, setBusyId] = useState<number | 'sync' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (id: number | 'sync', action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error('Outbox action failed:', err);
+      setError(err?.message || 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-[#010E36]/90 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="outbox-title"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        className="max-w-md w-full max-h-[80vh] flex flex-col bg-[#282C55] shadow-xl relative rounded-[32px] overflow-hidden"
+        style={{ padding: '32px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors opacity-60 hover:opacity-100"
+          aria-label="Close modal"
+          title="Close"
+        >
+          <X size={18} strokeWidth={2} aria-hidden="true" />
+        </button>
+
+        <h2 id="outbox-title" className={`${fontFamily.heading} text-[#FDFEFF] text-2xl mb-2`}>
+          Offline edits
+        </h2>
+        <p className={`${typography.body.sm} text-[#BAB2CF] mb-6`}>
+          These changes were made without a connection and sync in order once you're back online.
+        </p>
+
+        {error && (
+          <p className={`${typography.body.sm} text-[#FF5D88] mb-4`} role="alert">
+            {error}
+          </p>
+        )}
+        {entries.length === 0 && (
+          <p className={`${typography.body.sm} text-[#BAB2CF]`}>Everything is synced</p>
+        )}
+
+        {entries.length > 0 && (
+          <ul className="space-y-2 overflow-y-auto">
+            {entries.map((entry) => (
+              <li key={entry.id} className="bg-[#1A1D3A]/40 rounded-[12px] p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-white text-sm truncate">{entry.label}</div>
+                    <div className={`text-[10px] mt-1 ${entry.status === 'pending' ? 'text-[#BAB2CF]' : 'text-[#FF5D88]'}`}>
+                      {STATUS_LABELS[entry.status]} ·{' '}
+                      {new Date(entry.queuedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </div>
+                  </div>
+                  {entry.status !== 'pending' && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => run(entry.id, () => onKeepMine(entry))}
+                        disabled={busyId !== null}
+                        className="p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50"
+                        title="Keep mine (apply my edit anyway)"
+                        aria-label={`Keep my version: ${entry.label}`}
+                      >
+                        <Check size={16} aria-hidden="true" />
+                      </button>
+                      <button
+                        onClick={() => run(entry.id, () => onDiscard(entry))}
+                        disabled={busyId !== null}
+                        className="p-2 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50"
+                        title="Discard my edit"
+                        aria-label={`Discard: ${entry.label}`}
+                      >
+                        <Trash2 size={16} aria-hidden="true" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {entry.error && <p className="text-[#BAB2CF] text-xs mt-2">{entry.error}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {entries.some((entry) => entry.status === 'pending') && (
+          <button
+            onClick={() => run('sync', onSyncNow)}
+            disabled={busyId !== null}
+            className={`mt-6 self-start flex items-center gap-1.5 px-3 py-2 rounded-full bg-[#1A1D3A] text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50 ${typography.label.badge}`}
+          >
+            <RefreshCw size={12} className={busyId === 'sync' ? 'animate-spin' : ''} aria-hidden="true" />
+            Sync now
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { History, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { BuildingRevision, RevisionAction } from '../types';
+import { typography } from '../ui/theme';
+
+interface RevisionHistoryProps {
+  onLoadHistory: () => Promise<BuildingRevision[]>;
+  onRestoreRevision?: (revisionId: number) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  hide: 'Hidden',
+  unhide: 'Unhidden',
+  comment: 'Comments changed',
+  delete: 'Deleted',
+  restore: 'Restored',
+};
+
+// Short, readable version of a field value for the diff list
+const formatValue = (value: unknown, field?: string): string => {
+  if (value === null || value === undefined) return '—';
+  // The image collection is stored as JSON - show how many images rather than the raw text
+  if (field === 'images' && typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return `${parsed.length} image${parsed.length === 1 ? '' : 's'}`;
+    } catch {
+      // Fall through to the plain text version
+    }
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) return `${value.length} file${value.length === 1 ? '' : 's'}`;
+  const text = String(value).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text || '—';
+};
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Collapsible revision history for the details panel. History is only fetched once opened.
+// Rendered with key={building.id} so switching buildings starts from a clean state.
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ onLoadHistory, onRestoreRevision }) => {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<BuildingRevision[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRevisions(await onLoadHistory());
+    } catch (err) {
+      console.error('Failed to load revision history:', err);
+      setError('Could not load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    const nextOpen = !open;
+    setOpen(nextOpen);
+    if (nextOpen && !revisions && !loading) loadHistory();
+  };
+
+  const handleRestore = async (revisionId: number) => {
+    if (!onRestoreRevision) return;
+    setRestoringId(revisionId);
+    setError(null);
+    try {
+      await onRestoreRevision(revisionId);
+      await loadHistory(); // Reload so the restore itself shows up
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      setError('Could not restore this version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-white/20">
+      <button
+        onClick={handleToggle}
+        className={`flex items-center gap-2 ${typography.label.default} text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors`}
+        aria-expanded={open}
+      >
+        <History size={14} aria-hidden="true" />
+        History
+        {open ? <ChevronDown size={14} aria-hidden="true" /> : <ChevronRight size={14} aria-hidden="true" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-2">
+          {loading && <p className={`${typography.body.sm} text-[#BAB2CF]`}>Loading history...</p>}
+          {error && (
+            <p className={`${typography.body.sm} text-[#FF5D88]`} role="alert">
+              {error}
+            </p>
+          )}
+          {revisions && revisions.length === 0 && (
+            <p className={`${typography.body.sm} text-[#BAB2CF]`}>No recorded changes yet</p>
+          )}
+          {revisions?.map((revision, index) => {
+            const fields = Object.keys(revision.changes);
+            const expanded = expandedId === revision.id;
+            // The newest revision is the current state, so there's nothing to restore;
+            // comment revisions are about a comment, not a version of the building
+            const canRestore =
+              !!onRestoreRevision && index > 0 && revision.action !== 'delete' && revision.action !== 'comment';
+
+            return (
+              <div key={revision.id} className="bg-[#1A1D3A]/40 rounded-[12px] p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : revision.id)}
+                    className="flex-1 text-left"
+                    aria-expanded={expanded}
+                  >
+                    <div className="text-white text-sm">
+                      {ACTION_LABELS[revision.action] || revision.action}
+                      {fields.length > 0 && (
+                        <span className="text-[#BAB2CF]"> · {fields.length} field{fields.length === 1 ? '' : 's'}</span>
+                      )}
+                    </div>
+                    <div className="text-[#BAB2CF] text-[10px] mt-1">
+                      {revision.username} · {formatDate(revision.createdAt)}
+                    </div>
+                  </button>
+                  {canRestore && (
+                    <button
+                      onClick={() => handleRestore(revision.id)}
+                      disabled={restoringId !== null}
+                      className="p-1.5 text-[#BAB2CF] hover:text-[#FDFEFF] transition-colors disabled:opacity-50"
+                      title="Restore this version"
+                      aria-label="Restore this version"
+                    >
+                      <RotateCcw size={14} aria-hidden="true" />
+                    </button>
+                  )}
+                </div>
+
+                {expanded && fields.length > 0 && (
+                  <dl className={`mt-3 space-y-2 ${typography.mono.sm}`}>
+                    {fields.map((field) => (
+                      <div key={field}>
+                        <dt className="text-[#BAB2CF]">{field}</dt>
+                        <dd className="text-white break-words">
+                          <span className="line-through opacity-60">{formatValue(revision.changes[field].from, field)}</span>
+                          {' → '}
+                          <span>{formatValue(revision.changes[field].to, field)}</span>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,11 @@
 import React from 'react';
-import { Locate, Crosshair, Binoculars } from 'lucide-react';
+import { Locate, Crosshair, Binoculars, Download } from 'lucide-react';
 
 interface SearchFABsProps {
   onLocateMe: () => void;
   onFindNearest: () => void;
   onSearchArea: () => void;
+  onOfflineRegions?: () => void;
   locationPermissionDenied?: boolean;
 }
 
@@ -12,6 +13,7 @@ export const SearchFABs: React.FC<SearchFABsProps> = ({
   onLocateMe,
   onFindNearest,
   onSearchArea,
+  onOfflineRegions,
   locationPermissionDenied = false,
 }) => {
   const isDisabled = locationPermissionDenied && !navigator.geolocation;
@@ -64,6 +66,16 @@ export const SearchFABs: React.FC<SearchFABsProps> = ({
         ariaLabel="Scan current area"
         icon={<Binoculars size={24} className="text-[#C7B3FF]" aria-hidden="true" />}
       />
+
+      {/* Offline Maps FAB */}
+      {onOfflineRegions && (
+        <FABButton
+          onClick={onOfflineRegions}
+          title="Save this area for offline use"
+          ariaLabel="Save this area for offline use"
+          icon={<Download size={24} className="text-[#C7B3FF]" aria-hidden="true" />}
+        />
+      )}
     </div>
   );
 };
@@ -10,6 +10,12 @@ export const MAP_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/co
 export const DEFAULT_COORDINATES: Coordinates = { lat: 51.5074, lng: -0.1278 }; // London (classic villain hub)
 export const DEFAULT_ZOOM = 13;
 export const TARGET_NEAREST_SEARCH_RADIUS = 2000000; // 2000km in meters (Baserow-only for Nearest)
+// Returning visitors fetch only changed rows, but still re-download the whole table this often
+// to pick up rows deleted directly in Baserow (delta sync only sees deletions made through the API)
+export const FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Service worker cache version (public/sw.js is registered with ?v=<this>). Bump it whenever the
+// shape of cached API rows changes so old cached responses are thrown away on the next visit.
+export const DATA_CACHE_VERSION = 2;
 
 // Helper function to parse comma-separated styles into an array
 export const parseStyles = (style: string | undefined): string[] => {
@@ -70,6 +76,11 @@ export const normalizeStyle = (style: string | undefined): string => {
   if (normalized.includes('cyberpunk') || normalized.includes('dystopian')) return normalized.includes('cyberpunk') ? 'Cyberpunk' : 'Dystopian';
   if (normalized.includes('disgusting')) return 'Disgusting';
   
+  // Synonyms the prompts invite (utils/promptLibrary.js) that don't name a style above
+  if (normalized.includes('raw concrete') || normalized.includes('béton brut') || normalized.includes('beton brut')) return 'Concrete Brutalism';
+  if (normalized.includes('moderne')) return 'Streamlined Moderne';
+  if (normalized.includes('constructivis')) return 'Soviet Modernism';
+  
   // Return original if no match (allows for new styles)
   return style;
 };
@@ -0,0 +1,66 @@
+// Netlify serverless function for the daily AI call budget (/api/ai-budget)
+import { handleAiBudgetRequest } from '../../server/lib/aiBudget.js';
+import { getUserFromAuthHeader } from '../../server/lib/auth.js';
+
+export const handler = async (event, context) => {
+  // Get allowed origin from environment or default to wildcard (should be restricted in production)
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+  // Handle CORS
+  const headers = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // The path arrives either as /api/ai-budget/... or /.netlify/functions/ai-budget/... depending on routing
+  const path = (event.path || '').replace(/^.*?\/(?:api|\.netlify\/functions)\/ai-budget/, '');
+
+  let body;
+  try {
+    if (event.body) {
+      body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body);
+    }
+  } catch (error) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Invalid JSON body' }),
+    };
+  }
+
+  try {
+    // Without BASEROW_AI_BUDGET_TABLE_ID each warm instance keeps its own count
+    const { statusCode, body: responseBody } = await handleAiBudgetRequest({
+      method: event.httpMethod,
+      path,
+      body,
+      user: getUserFromAuthHeader(event.headers?.authorization || event.headers?.Authorization),
+    });
+    return {
+      statusCode,
+      headers,
+      body: JSON.stringify(responseBody),
+    };
+  } catch (error) {
+    console.error('Error handling AI budget request:', error);
+    return {
+      statusCode: error.statusCode || 500,
+      headers,
+      body: JSON.stringify({
+        error: 'AI budget request failed',
+        message: error.message,
+      }),
+    };
+  }
+};
@@ -0,0 +1,63 @@
+// Netlify serverless function for the shared Gemini response cache (/api/ai-cache)
+import { handleAiCacheRequest } from '../../server/lib/aiCache.js';
+import { getUserFromAuthHeader } from '../../server/lib/auth.js';
+
+export const handler = async (event, context) => {
+  // Get allowed origin from environment or default to wildcard (should be restricted in production)
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+  // Handle CORS
+  const headers = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  let body;
+  try {
+    if (event.body) {
+      body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body);
+    }
+  } catch (error) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Invalid JSON body' }),
+    };
+  }
+
+  try {
+    // Entries are also kept at module level, so warm invocations skip the Baserow lookup
+    const { statusCode, body: responseBody } = await handleAiCacheRequest({
+      method: event.httpMethod,
+      query: event.queryStringParameters || {},
+      body,
+      user: getUserFromAuthHeader(event.headers?.authorization || event.headers?.Authorization),
+    });
+    return {
+      statusCode,
+      headers,
+      body: JSON.stringify(responseBody),
+    };
+  } catch (error) {
+    console.error('Error handling AI cache request:', error);
+    return {
+      statusCode: error.statusCode || 500,
+      headers,
+      body: JSON.stringify({
+        error: 'AI cache request failed',
+        message: error.message,
+      }),
+    };
+  }
+};
@@ -0,0 +1,62 @@
+// Netlify serverless function for sign-in, session lookup and collaborators (/api/auth/login, /api/auth/me, /api/auth/users)
+import { handleAuthRequest } from '../../server/lib/auth.js';
+
+export const handler = async (event, context) => {
+  // Get allowed origin from environment or default to wildcard (should be restricted in production)
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+  // Handle CORS
+  const headers = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // The path arrives either as /api/auth/... or /.netlify/functions/auth/... depending on routing
+  const path = (event.path || '').replace(/^.*?\/(?:api|\.netlify\/functions)\/auth/, '');
+
+  let body;
+  try {
+    body = event.body ? JSON.parse(event.body) : undefined;
+  } catch (error) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Invalid JSON body' }),
+    };
+  }
+
+  try {
+    const { statusCode, body: responseBody } = await handleAuthRequest({
+      method: event.httpMethod,
+      path,
+      body,
+      authorization: event.headers?.authorization || event.headers?.Authorization,
+    });
+    return {
+      statusCode,
+      headers,
+      body: JSON.stringify(responseBody),
+    };
+  } catch (error) {
+    console.error('Error handling auth request:', error);
+    return {
+      statusCode: error.statusCode || 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Authentication failed',
+        message: error.message,
+      }),
+    };
+  }
+};
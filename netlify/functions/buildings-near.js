@@ -0,0 +1,53 @@
+// Netlify serverless function for geo queries against the cached buildings table
+import { handleBuildingsNear } from '../../server/lib/buildingsNear.js';
+
+export const handler = async (event, context) => {
+  // Get allowed origin from environment or default to wildcard (should be restricted in production)
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+  // Handle CORS
+  const headers = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // Only allow GET requests
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // The index is cached at module level, so warm invocations reuse it
+    const { statusCode, body } = await handleBuildingsNear(event.queryStringParameters || {});
+    return {
+      statusCode,
+      headers,
+      body: JSON.stringify(body),
+    };
+  } catch (error) {
+    console.error('Error querying nearby buildings:', error);
+    return {
+      statusCode: error.statusCode || 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to query buildings',
+        message: error.message,
+      }),
+    };
+  }
+};
@@ -0,0 +1,71 @@
+// Netlify serverless function proxying building reads/writes to Baserow (token stays server-side)
+import { handleBuildingsRequest } from '../../server/lib/buildingsApi.js';
+import { getUserFromAuthHeader } from '../../server/lib/auth.js';
+
+export const handler = async (event, context) => {
+  // Get allowed origin from environment or default to wildcard (should be restricted in production)
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+  // Handle CORS
+  const headers = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // The path arrives either as /api/buildings/... or /.netlify/functions/buildings/... depending on routing
+  const path = (event.path || '').replace(/^.*?\/(?:api|\.netlify\/functions)\/buildings/, '');
+  const contentType = event.headers?.['content-type'] || event.headers?.['Content-Type'];
+  const authorization = event.headers?.authorization || event.headers?.Authorization;
+
+  let body;
+  try {
+    if (['/upload', '/images'].includes(path.replace(/\/$/, ''))) {
+      body = event.body ? Buffer.from(event.body, event.isBase64Encoded ? 'base64' : 'binary') : undefined;
+    } else if (event.body) {
+      body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body);
+    }
+  } catch (error) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Invalid JSON body' }),
+    };
+  }
+
+  try {
+    const { statusCode, body: responseBody } = await handleBuildingsRequest({
+      method: event.httpMethod,
+      path,
+      query: event.queryStringParameters || {},
+      body,
+      contentType,
+      user: getUserFromAuthHeader(authorization),
+    });
+    return {
+      statusCode,
+      headers,
+      body: JSON.stringify(responseBody),
+    };
+  } catch (error) {
+    console.error('Error proxying Baserow request:', error);
+    return {
+      statusCode: error.statusCode || 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Baserow request failed',
+        message: error.message,
+      }),
+    };
+  }
+};
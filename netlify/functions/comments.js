@@ -0,0 +1,66 @@
+// Netlify serverless function for building comment threads (/api/comments)
+import { handleCommentsRequest } from '../../server/lib/comments.js';
+import { getUserFromAuthHeader } from '../../server/lib/auth.js';
+
+export const handler = async (event, context) => {
+  // Get allowed origin from environment or default to wildcard (should be restricted in production)
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+  // Handle CORS
+  const headers = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // The path arrives either as /api/comments/... or /.netlify/functions/comments/... depending on routing
+  const path = (event.path || '').replace(/^.*?\/(?:api|\.netlify\/functions)\/comments/, '');
+
+  let body;
+  try {
+    if (event.body) {
+      body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body);
+    }
+  } catch (error) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Invalid JSON body' }),
+    };
+  }
+
+  try {
+    const { statusCode, body: responseBody } = await handleCommentsRequest({
+      method: event.httpMethod,
+      path,
+      query: event.queryStringParameters || {},
+      body,
+      user: getUserFromAuthHeader(event.headers?.authorization || event.headers?.Authorization),
+    });
+    return {
+      statusCode,
+      headers,
+      body: JSON.stringify(responseBody),
+    };
+  } catch (error) {
+    console.error('Error handling comments request:', error);
+    return {
+      statusCode: error.statusCode || 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Comments request failed',
+        message: error.message,
+      }),
+    };
+  }
+};
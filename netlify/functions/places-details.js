@@ -1,4 +1,7 @@
 // Netlify serverless function for Google Places API - Place Details
+import { consumeAiBudget } from '../../server/lib/aiBudget.js';
+import { getUserFromAuthHeader } from '../../server/lib/auth.js';
+
 export const handler = async (event, context) => {
   // Get allowed origin from environment or default to wildcard (should be restricted in production)
   const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
@@ -6,7 +9,7 @@ export const handler = async (event, context) => {
   // Handle CORS
   const headers = {
     'Access-Control-Allow-Origin': allowedOrigin,
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     'Access-Control-Allow-Methods': 'GET, OPTIONS',
     'Content-Type': 'application/json',
   };
@@ -43,7 +46,7 @@ export const handler = async (event, context) => {
   }
 
   // Get query parameters
-  const { place_id, fields } = event.queryStringParameters || {};
+  const { place_id, fields, purpose } = event.queryStringParameters || {};
 
   // Input validation
   if (!place_id) {
@@ -74,6 +77,19 @@ export const handler = async (event, context) => {
   }
 
   try {
+    // Counts against the daily Places budget; purpose=background|admin for enrichment and backfills
+    const budget = await consumeAiBudget('places', {
+      purpose: purpose || 'search',
+      user: getUserFromAuthHeader(event.headers?.authorization || event.headers?.Authorization),
+    });
+    if (budget.statusCode !== 200) {
+      return {
+        statusCode: budget.statusCode,
+        headers,
+        body: JSON.stringify(budget.body),
+      };
+    }
+
     const url = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${encodeURIComponent(place_id)}&fields=${encodeURIComponent(fieldsParam)}&key=${apiKey}`;
     
     const response = await fetch(url);
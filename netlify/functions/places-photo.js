@@ -0,0 +1,61 @@
+// Netlify serverless function for Google Places photos (keeps the Maps API key server-side)
+import { handlePlacesPhoto, PLACES_PHOTO_CACHE_CONTROL } from '../../server/lib/placesPhoto.js';
+
+export const handler = async (event, context) => {
+  // Get allowed origin from environment or default to wildcard (should be restricted in production)
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+  // Handle CORS
+  const headers = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // Only allow GET requests
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // Photos are cached at module level, so warm invocations reuse them
+    const { statusCode, body, contentType } = await handlePlacesPhoto(event.queryStringParameters || {});
+    if (!contentType) {
+      return {
+        statusCode,
+        headers,
+        body: JSON.stringify(body),
+      };
+    }
+    return {
+      statusCode,
+      headers: { ...headers, 'Content-Type': contentType, 'Cache-Control': PLACES_PHOTO_CACHE_CONTROL },
+      body: body.toString('base64'),
+      isBase64Encoded: true,
+    };
+  } catch (error) {
+    console.error('Error proxying Places photo request:', error);
+    return {
+      statusCode: error.statusCode || 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to fetch place photo',
+        message: error.message,
+      }),
+    };
+  }
+};
@@ -1,6 +1,109 @@
-// Service Worker for caching Baserow API responses
-const CACHE_NAME = 'evil-atlas-v1';
-const BASEROW_API_BASE = 'https://api.baserow.io/api/database/rows/table';
+// Service Worker for caching building API responses (Baserow rows served via the /api/buildings proxy)
+
+// The app registers /sw.js?v=<DATA_CACHE_VERSION> (constants.ts). Bumping that version when the
+// row format changes installs a fresh worker, and activate drops the caches of older versions.
+const DATA_CACHE_VERSION = new URL(self.location.href).searchParams.get('v') || '1';
+const CACHE_NAME = `evil-atlas-data-v${DATA_CACHE_VERSION}`;
+const BUILDINGS_API_PATH = '/api/buildings';
+// Map tiles and building images saved by the "save this area for offline" action
+// (services/offlineRegionService.ts). Only the app adds or removes entries here.
+const OFFLINE_REGIONS_CACHE = 'evil-atlas-offline-regions';
+
+// Row reads that are safe to serve stale-while-revalidate: the table pages, single rows,
+// name search and geo queries. Delta sync (/changes), revision history and the deleted
+// list must always be fresh, so they go straight to the network, as do reads the app marks
+// with ?fresh=1 (the outbox's conflict checks, which must not compare against a cached row).
+const ROW_PATH = /^\/api\/buildings\/(\d+)$/;
+const COLLECTION_PATHS = [BUILDINGS_API_PATH, `${BUILDINGS_API_PATH}/search`, `${BUILDINGS_API_PATH}/near`];
+const isCacheableRead = (url) =>
+  !url.searchParams.has('fresh') && (COLLECTION_PATHS.includes(url.pathname) || ROW_PATH.test(url.pathname));
+
+// Tiles are cached under the "a" subdomain whichever one Leaflet asked for
+// (keep in sync with normalizeTileUrl in services/offlineRegionService.ts)
+const normalizeTileUrl = (url) =>
+  url.replace(/^(https?:\/\/)[a-d]\.(basemaps\.cartocdn\.com|tile\.openstreetmap\.org)\//, '$1a.$2/');
+
+// Cache updates from app messages run one at a time; reads wait for them so a request
+// made straight after a write never sees the response the write made stale
+let cacheUpdates = Promise.resolve();
+// Background revalidations started before the latest write may carry old rows - don't store them
+let lastWriteAt = 0;
+
+const queueCacheUpdate = (update) => {
+  cacheUpdates = cacheUpdates.then(update).catch((error) => {
+    console.warn('[SW] Cache update failed:', error);
+  });
+  return cacheUpdates;
+};
+
+const jsonResponse = (body, original) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', 'Date': original.headers.get('Date') || new Date().toUTCString() },
+  });
+
+// Bring cached responses in line with rows the app just wrote:
+// - single-row responses are replaced (or dropped for deleted rows)
+// - rows inside cached pages, searches and geo queries are replaced in place; hidden rows
+//   leave geo queries that don't ask for them, deleted rows leave every collection
+// - a created row can't be placed in a cached collection, so those are dropped instead
+const patchCachedRows = async ({ rows = [], deletedIds = [], created = false }) => {
+  lastWriteAt = Date.now();
+  const changed = new Map(rows.map((row) => [row.id, row]));
+  const deleted = new Set(deletedIds);
+  const cache = await caches.open(CACHE_NAME);
+  const requests = await cache.keys();
+  let patched = 0;
+  let dropped = 0;
+
+  await Promise.all(requests.map(async (request) => {
+    const url = new URL(request.url);
+    const rowMatch = url.pathname.match(ROW_PATH);
+
+    if (rowMatch) {
+      const rowId = Number(rowMatch[1]);
+      if (deleted.has(rowId)) {
+        await cache.delete(request);
+        dropped++;
+      } else if (changed.has(rowId)) {
+        const cached = await cache.match(request);
+        await cache.put(request, jsonResponse(changed.get(rowId), cached || new Response()));
+        patched++;
+      }
+      return;
+    }
+
+    if (created) {
+      await cache.delete(request);
+      dropped++;
+      return;
+    }
+
+    const cached = await cache.match(request);
+    if (!cached) return;
+    const body = await cached.json().catch(() => null);
+    if (!body || !Array.isArray(body.results)) return;
+
+    const dropHidden = url.pathname === `${BUILDINGS_API_PATH}/near` && url.searchParams.get('includeHidden') !== 'true';
+    let touched = false;
+    const results = body.results.flatMap((row) => {
+      if (deleted.has(row.id)) {
+        touched = true;
+        return [];
+      }
+      const update = changed.get(row.id);
+      if (!update) return [row];
+      touched = true;
+      return dropHidden && update.is_hidden ? [] : [update];
+    });
+    if (touched) {
+      await cache.put(request, jsonResponse({ ...body, results }, cached));
+      patched++;
+    }
+  }));
+
+  console.log(`[SW] Rows changed: patched ${patched}, dropped ${dropped} cached response(s)`);
+};
 
 // Install event - cache static assets
 self.addEventListener('install', (event) => {
@@ -15,7 +118,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name !== CACHE_NAME)
+          .filter((name) => name !== CACHE_NAME && name !== OFFLINE_REGIONS_CACHE)
           .map((name) => caches.delete(name))
       );
     })
@@ -23,48 +126,76 @@ self.addEventListener('activate', (event) => {
   return self.clients.claim();
 });
 
-// Fetch event - intercept Baserow API requests
+// Messages from the app (services/serviceWorkerService.ts):
+// - ROWS_CHANGED { rows, deletedIds, created } after a write succeeds
+// - PURGE_CACHES from the admin "purge caches" command (saved offline areas are kept)
+// Replies on the message port (if one was sent) once the caches are updated.
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  const reply = (result) => event.ports[0]?.postMessage(result);
+  let update;
+
+  if (message.type === 'ROWS_CHANGED') {
+    update = queueCacheUpdate(() => patchCachedRows(message));
+  } else if (message.type === 'PURGE_CACHES') {
+    update = queueCacheUpdate(async () => {
+      lastWriteAt = Date.now();
+      const cacheNames = (await caches.keys()).filter((name) => name !== OFFLINE_REGIONS_CACHE);
+      await Promise.all(cacheNames.map((name) => caches.delete(name)));
+      console.log('[SW] Purged caches:', cacheNames);
+    });
+  } else {
+    return;
+  }
+
+  event.waitUntil(update.then(() => reply({ ok: true })));
+});
+
+// Fetch event - intercept building API reads
 self.addEventListener('fetch', (event) => {
   const url = new URL(event.request.url);
-  
-  // Only cache Baserow API requests
-  if (url.origin === 'https://api.baserow.io' && url.pathname.includes('/database/rows/table/')) {
+
+  // Only cache GET requests to the buildings proxy (writes must always hit the network)
+  if (event.request.method === 'GET' && url.origin === self.location.origin && isCacheableRead(url)) {
     event.respondWith(
-      caches.match(event.request).then((cachedResponse) => {
+      cacheUpdates.then(() => caches.match(event.request, { cacheName: CACHE_NAME })).then((cachedResponse) => {
+        const requestedAt = Date.now();
+        const store = (response) => {
+          if (!response.ok || requestedAt < lastWriteAt) return;
+          const responseClone = response.clone();
+          caches.open(CACHE_NAME).then((cache) => {
+            cache.put(event.request, responseClone);
+            console.log('[SW] Cache updated:', event.request.url);
+          });
+        };
+
         // Return cached response if available
         if (cachedResponse) {
           console.log('[SW] Serving from cache:', event.request.url);
           // Also fetch fresh data in background to update cache
           fetch(event.request)
-            .then((response) => {
-              if (response.ok) {
-                const responseClone = response.clone();
-                caches.open(CACHE_NAME).then((cache) => {
-                  cache.put(event.request, responseClone);
-                  console.log('[SW] Cache updated:', event.request.url);
-                });
-              }
-            })
+            .then(store)
             .catch(() => {
               // Ignore errors in background fetch
             });
           return cachedResponse;
         }
-        
-        // If not cached, fetch and cache
+
+        // If not cached, fetch and cache (only successful responses)
         return fetch(event.request).then((response) => {
-          // Only cache successful responses
-          if (response.ok) {
-            const responseClone = response.clone();
-            caches.open(CACHE_NAME).then((cache) => {
-              cache.put(event.request, responseClone);
-              console.log('[SW] Cached new response:', event.request.url);
-            });
-          }
+          store(response);
           return response;
         });
       })
     );
   }
-});
 
+  // Map tiles and building images: use the saved offline regions first, then the network
+  if (event.request.method === 'GET' && event.request.destination === 'image') {
+    event.respondWith(
+      caches.open(OFFLINE_REGIONS_CACHE)
+        .then((cache) => cache.match(normalizeTileUrl(event.request.url)))
+        .then((savedResponse) => savedResponse || fetch(event.request))
+    );
+  }
+});
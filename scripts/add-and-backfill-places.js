@@ -14,6 +14,7 @@
 //     GOOGLE_MAPS_API_KEY=...   (or REACT_APP_GOOGLE_MAPS_API_KEY)
 
 import dotenv from "dotenv";
+import { placesPhotoUrl } from "../utils/placesPhoto.js";
 dotenv.config({ path: ".env.local" });
 
 const BASEROW_BASE = "https://api.baserow.io/api/database/rows/table";
@@ -372,9 +373,7 @@ async function fetchPlaceDetailsForNameAndCity(name, city) {
   if (result.photos && result.photos.length > 0) {
     const photoRef = result.photos[0].photo_reference;
     if (photoRef) {
-      imageUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-        photoRef
-      )}&key=${MAPS_KEY}`;
+      imageUrl = placesPhotoUrl(photoRef);
     }
   }
 
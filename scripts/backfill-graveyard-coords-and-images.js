@@ -11,6 +11,7 @@
 //   BASEROW_TOKEN="..." BASEROW_TABLE_ID="772747" GOOGLE_MAPS_API_KEY="..." node scripts/backfill-graveyard-coords-and-images.js
 
 import dotenv from "dotenv";
+import { placesPhotoUrl, isPlacesPhotoUrl } from "../utils/placesPhoto.js";
 dotenv.config({ path: ".env.local" });
 
 const BASEROW_BASE = "https://api.baserow.io/api/database/rows/table";
@@ -33,7 +34,7 @@ function sleep(ms) {
 // Helper to check if an image URL is from Google Places
 function isGooglePlacesImage(imageUrl) {
   if (!imageUrl || typeof imageUrl !== "string") return false;
-  return imageUrl.includes("maps.googleapis.com/maps/api/place/photo");
+  return isPlacesPhotoUrl(imageUrl);
 }
 
 // Fetch all rows from Baserow with pagination
@@ -101,9 +102,7 @@ async function getPlaceDetails(placeId) {
   if (Array.isArray(photos) && photos.length > 0) {
     const photoRef = photos[0].photo_reference;
     if (photoRef) {
-      photoUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-        photoRef
-      )}&key=${MAPS_KEY}`;
+      photoUrl = placesPhotoUrl(photoRef);
     }
   }
 
@@ -9,6 +9,7 @@
 //   BASEROW_TOKEN="..." BASEROW_TABLE_ID="772747" GOOGLE_MAPS_API_KEY="..." node scripts/backfill-images-only.js
 
 import dotenv from "dotenv";
+import { placesPhotoUrl, isPlacesPhotoUrl } from "../utils/placesPhoto.js";
 dotenv.config({ path: ".env.local" });
 
 const BASEROW_BASE = "https://api.baserow.io/api/database/rows/table";
@@ -88,7 +89,7 @@ function isGooglePlacesImage(imageUrl) {
   if (!imageUrl) return false;
   const url = String(imageUrl).toLowerCase();
   return (
-    url.includes("maps.googleapis.com/maps/api/place/photo") ||
+    isPlacesPhotoUrl(url) ||
     url.includes("lh3.googleusercontent.com")
   );
 }
@@ -117,9 +118,7 @@ async function getPlacePhoto(placeId) {
   if (Array.isArray(photos) && photos.length > 0) {
     const photoRef = photos[0].photo_reference;
     if (photoRef) {
-      return `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-        photoRef
-      )}&key=${MAPS_KEY}`;
+      return placesPhotoUrl(photoRef);
     }
   }
 
@@ -4,6 +4,7 @@
 //   BASEROW_TOKEN="..." BASEROW_TABLE_ID="772747" GOOGLE_MAPS_API_KEY="..." node scripts/backfill-images.js
 
 import dotenv from "dotenv";
+import { placesPhotoUrl, isPlacesPhotoUrl } from "../utils/placesPhoto.js";
 dotenv.config({ path: ".env.local" });
 
 const BASEROW_BASE = "https://api.baserow.io/api/database/rows/table";
@@ -69,9 +70,7 @@ async function getPhotoUrlForPlaceId(placeId) {
   if (!photoRef) return null;
 
   // Construct photo URL (Google will redirect; fine for <img src="...">)
-  const photoUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-    photoRef
-  )}&key=${MAPS_KEY}`;
+  const photoUrl = placesPhotoUrl(photoRef);
 
   return photoUrl;
 }
@@ -119,7 +118,7 @@ async function main() {
 
         // If we previously had a non-Google image URL (e.g., Wikimedia) that may not work,
         // clear it so the frontend shows the fallback state instead of a broken image.
-        if (imageUrl && !String(imageUrl).includes("maps.googleapis.com/maps/api/place/photo")) {
+        if (imageUrl && !isPlacesPhotoUrl(String(imageUrl))) {
           const cleared = await updateRowImage(rowId, "");
           if (cleared) {
             console.log(`  ⛔ Cleared non-Google image_url for row ${rowId}`);
@@ -9,6 +9,7 @@
 //   BASEROW_TOKEN="..." BASEROW_TABLE_ID="772747" GOOGLE_MAPS_API_KEY="..." node scripts/backfill-recent-gemini-images.js
 
 import dotenv from "dotenv";
+import { placesPhotoUrl, isPlacesPhotoUrl } from "../utils/placesPhoto.js";
 dotenv.config({ path: ".env.local" });
 
 const BASEROW_BASE = "https://api.baserow.io/api/database/rows/table";
@@ -36,7 +37,7 @@ function sleep(ms) {
 // Helper to check if an image URL is from Google Places
 function isGooglePlacesImage(imageUrl) {
   if (!imageUrl || typeof imageUrl !== "string") return false;
-  return imageUrl.includes("maps.googleapis.com/maps/api/place/photo");
+  return isPlacesPhotoUrl(imageUrl);
 }
 
 // Fetch all rows from Baserow
@@ -94,9 +95,7 @@ async function getPlacePhoto(placeId) {
   if (!photoRef) return null;
 
   // Construct photo URL
-  const photoUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-    photoRef
-  )}&key=${MAPS_KEY}`;
+  const photoUrl = placesPhotoUrl(photoRef);
 
   return photoUrl;
 }
@@ -9,6 +9,7 @@
 //   BASEROW_TOKEN="..." BASEROW_TABLE_ID="772747" GOOGLE_MAPS_API_KEY="..." node scripts/backfill-specific-buildings.js
 
 import dotenv from "dotenv";
+import { placesPhotoUrl } from "../utils/placesPhoto.js";
 dotenv.config({ path: ".env.local" });
 
 const BASEROW_BASE = "https://api.baserow.io/api/database/rows/table";
@@ -112,9 +113,7 @@ async function getPlaceData(placeId) {
   if (Array.isArray(photos) && photos.length > 0) {
     const photoRef = photos[0].photo_reference;
     if (photoRef) {
-      photoUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-        photoRef
-      )}&key=${MAPS_KEY}`;
+      photoUrl = placesPhotoUrl(photoRef);
     }
   }
 
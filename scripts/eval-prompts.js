@@ -0,0 +1,236 @@
+/**
+ * Score prompt versions against a golden set of buildings before a prompt change ships
+ *
+ * The golden set (scripts/evals/golden-buildings.json) lists buildings that clearly belong in
+ * the atlas ("match") and ones that clearly don't ("reject").
+ *   - evaluate_poi prompts are asked about every golden building; "matches": true is a positive.
+ *   - discover prompts are asked about every golden city; a building in the answer is a positive.
+ * Known-good buildings answered positively are true positives, known-bad ones false positives,
+ * and known-good ones missed false negatives. Buildings the golden set doesn't know about are
+ * listed but not scored.
+ *
+ * Answers are recorded per prompt version in scripts/evals/recordings/<prompt id>.json, so scoring
+ * runs offline and gives the same numbers every time. A prompt version without a recording is
+ * skipped with the command that records it; commit the recording to give it a score. With
+ * --min-precision or --min-recall an unscored version fails instead, so a gate never passes on
+ * nothing.
+ *
+ * Usage:
+ *   npm run eval:prompts                                       # active discover + evaluate_poi prompts
+ *   npm run eval:prompts -- --prompt evaluate_poi@2            # one version (repeat for more)
+ *   npm run eval:prompts -- --prompt discover@2 --record       # ask Gemini and save its answers first
+ *   npm run eval:prompts -- --min-precision 0.9 --min-recall 0.8   # exit 1 below these
+ *
+ * --record needs VITE_GEMINI_API_KEY (e.g. in .env.local). It calls Gemini directly, outside the
+ * app's daily AI budget, once per golden building or city.
+ */
+
+import dotenv from 'dotenv';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI } from '@google/genai';
+import { ACTIVE_PROMPTS, getPrompt, PROMPTS } from '../utils/promptLibrary.js';
+import { parseModelJsonArray, parseModelJsonObject } from '../utils/modelJson.js';
+import { nameSimilarity } from '../utils/duplicateMatching.js';
+
+dotenv.config({ path: '.env.local' });
+
+const EVALS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'evals');
+const GOLDEN_SET_PATH = path.join(EVALS_DIR, 'golden-buildings.json');
+const RECORDINGS_DIR = path.join(EVALS_DIR, 'recordings');
+// How alike a returned name must be to a golden one to count as the same building
+const NAME_MATCH_SCORE = 0.7;
+const SCORED_TASKS = ['discover', 'evaluate_poi'];
+
+const args = process.argv.slice(2);
+const record = args.includes('--record');
+const optionValues = (name) => args.flatMap((arg, i) => (arg === name && args[i + 1] ? [args[i + 1]] : []));
+const optionNumber = (name) => {
+  const [value] = optionValues(name);
+  return value === undefined ? null : Number(value);
+};
+const minPrecision = optionNumber('--min-precision');
+const minRecall = optionNumber('--min-recall');
+const hasThresholds = minPrecision !== null || minRecall !== null;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A returned name is a golden building when it's close enough to its name or one of its aliases
+const isSameBuilding = (name, building) =>
+  [building.name, ...(building.aliases || [])].some((known) => nameSimilarity(name, known) >= NAME_MATCH_SCORE);
+
+const recordingPath = (prompt) => path.join(RECORDINGS_DIR, `${prompt.id}.json`);
+
+const loadRecording = (prompt) => {
+  const file = recordingPath(prompt);
+  if (!existsSync(file)) return { prompt: prompt.id, model: prompt.model, responses: {} };
+  return JSON.parse(readFileSync(file, 'utf8'));
+};
+
+// What each prompt is asked: one case per building (evaluate_poi) or per city (discover)
+const casesFor = (prompt, buildings) => {
+  if (prompt.task === 'evaluate_poi') {
+    return buildings.map((building) => ({
+      subject: building.name,
+      text: prompt.render({ name: building.name, location: `${building.city}, ${building.country}` }),
+      golden: [building],
+    }));
+  }
+  const cities = new Map();
+  for (const building of buildings) {
+    const query = `${building.city}, ${building.country}`;
+    cities.set(query, [...(cities.get(query) || []), building]);
+  }
+  return [...cities].map(([query, golden]) => ({ subject: query, text: prompt.render({ locationQuery: query }), golden }));
+};
+
+const recordAnswers = async (prompt, cases) => {
+  const apiKey = process.env.VITE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error('Missing VITE_GEMINI_API_KEY (needed for --record)');
+    process.exit(1);
+  }
+  const ai = new GoogleGenAI({ apiKey });
+  const recording = loadRecording(prompt);
+  recording.model = prompt.model;
+
+  for (const { subject, text } of cases) {
+    try {
+      const response = await ai.models.generateContent({
+        model: prompt.model,
+        contents: text,
+        config: {
+          systemInstruction: prompt.systemInstruction,
+          // Discovery is grounded like it is in the app (without the map centre)
+          ...(prompt.task === 'discover' ? { tools: [{ googleMaps: {}, googleSearch: {} }] } : {}),
+        },
+      });
+      recording.responses[subject] = { text: response.text || '', recordedAt: new Date().toISOString() };
+      console.log(`  🎙️ Recorded ${prompt.id} for "${subject}"`);
+    } catch (error) {
+      console.error(`  ❌ ${prompt.id} failed for "${subject}":`, error.message);
+    }
+    await sleep(1000); // Stay under Gemini's per-minute quota
+  }
+
+  mkdirSync(RECORDINGS_DIR, { recursive: true });
+  writeFileSync(recordingPath(prompt), `${JSON.stringify(recording, null, 2)}\n`);
+};
+
+// Names of the buildings a recorded answer says belong in the atlas
+const positivesIn = (prompt, text) => {
+  if (prompt.task === 'evaluate_poi') {
+    const answer = parseModelJsonObject(text);
+    return answer?.matches === true ? [null] : []; // The question was about one building, so no name needed
+  }
+  return (parseModelJsonArray(text) || [])
+    .map((item) => (item && typeof item.name === 'string' ? item.name : null))
+    .filter(Boolean);
+};
+
+const ratio = (hits, total) => (total === 0 ? null : hits / total);
+const formatRatio = (value, hits, total) => (value === null ? 'n/a' : `${value.toFixed(2)} (${hits}/${total})`);
+
+const scorePrompt = (prompt, cases) => {
+  const { responses } = loadRecording(prompt);
+  const score = { truePositives: 0, falsePositives: 0, falseNegatives: 0, missing: 0, unlabelled: 0 };
+
+  for (const { subject, golden } of cases) {
+    const response = responses[subject];
+    if (!response) {
+      score.missing += 1;
+      console.log(`  ⚠️ Not recorded: "${subject}"`);
+      continue;
+    }
+
+    const positives = positivesIn(prompt, response.text);
+    for (const building of golden) {
+      const found = positives.some((name) => name === null || isSameBuilding(name, building));
+      if (found && building.expected === 'match') score.truePositives += 1;
+      if (found && building.expected === 'reject') {
+        score.falsePositives += 1;
+        console.log(`  ❌ False positive: "${building.name}" (${building.city}) - ${building.why}`);
+      }
+      if (!found && building.expected === 'match') {
+        score.falseNegatives += 1;
+        console.log(`  ❌ Missed: "${building.name}" (${building.city}) - ${building.why}`);
+      }
+    }
+
+    // Discovery also returns buildings the golden set doesn't cover - shown for review, not scored
+    const unlabelled = positives.filter(
+      (name) => name !== null && !golden.some((building) => isSameBuilding(name, building))
+    );
+    score.unlabelled += unlabelled.length;
+    if (unlabelled.length > 0) console.log(`  ℹ️ Not in the golden set (${subject}): ${unlabelled.join(', ')}`);
+  }
+
+  const flagged = score.truePositives + score.falsePositives;
+  const expected = score.truePositives + score.falseNegatives;
+  return {
+    ...score,
+    scored: cases.length - score.missing,
+    precision: ratio(score.truePositives, flagged),
+    recall: ratio(score.truePositives, expected),
+    flagged,
+    expected,
+  };
+};
+
+const main = async () => {
+  const { buildings } = JSON.parse(readFileSync(GOLDEN_SET_PATH, 'utf8'));
+  const requested = optionValues('--prompt');
+  const promptIds = requested.length > 0 ? requested : SCORED_TASKS.map((task) => ACTIVE_PROMPTS[task]);
+
+  let failed = false;
+  for (const id of promptIds) {
+    const template = PROMPTS[id];
+    if (!template || !SCORED_TASKS.includes(template.task)) {
+      console.error(`❌ "${id}" isn't a discover or evaluate_poi prompt (known: ${Object.keys(PROMPTS).join(', ')})`);
+      failed = true;
+      continue;
+    }
+    const prompt = getPrompt(template.task, id);
+    const cases = casesFor(prompt, buildings);
+
+    console.log(`\n📋 ${prompt.id} (${prompt.model}) - ${prompt.description}`);
+    if (record) await recordAnswers(prompt, cases);
+
+    if (Object.keys(loadRecording(prompt).responses).length === 0) {
+      const where = path.relative(process.cwd(), recordingPath(prompt));
+      console.log(hasThresholds ? `  🛑 No recorded answers in ${where}` : `  ⏭️ Skipped - no recorded answers in ${where}`);
+      console.log(`     Record them (needs VITE_GEMINI_API_KEY): npm run eval:prompts -- --prompt ${prompt.id} --record`);
+      if (hasThresholds) failed = true;
+      continue;
+    }
+
+    const score = scorePrompt(prompt, cases);
+    console.log(
+      `  Precision ${formatRatio(score.precision, score.truePositives, score.flagged)} · ` +
+        `Recall ${formatRatio(score.recall, score.truePositives, score.expected)} · ` +
+        `${score.scored}/${cases.length} cases recorded` +
+        (score.unlabelled > 0 ? ` · ${score.unlabelled} unlabelled` : '')
+    );
+
+    if (hasThresholds && score.scored === 0) {
+      console.log('  🛑 None of the golden cases have a recorded answer');
+      failed = true;
+    }
+    if (minPrecision !== null && (score.precision ?? 0) < minPrecision) {
+      console.log(`  🛑 Precision is below ${minPrecision}`);
+      failed = true;
+    }
+    if (minRecall !== null && (score.recall ?? 0) < minRecall) {
+      console.log(`  🛑 Recall is below ${minRecall}`);
+      failed = true;
+    }
+  }
+
+  if (failed) process.exit(1);
+};
+
+main().catch((error) => {
+  console.error('Prompt evaluation failed:', error);
+  process.exit(1);
+});
@@ -1,11 +1,12 @@
 // scripts/fuzzy-dedupe-baserow.js
-// Scan Baserow for duplicates using fuzzy matching logic
+// Scan Baserow for duplicates using the shared matching rules (utils/duplicateMatching.js)
 // Removes duplicates, preferring buildings with Google Place IDs and images
 //
 // Usage:
 //   BASEROW_TOKEN="..." BASEROW_TABLE_ID="772747" node scripts/fuzzy-dedupe-baserow.js
 
 import dotenv from "dotenv";
+import { groupDuplicates, matchableFromRow } from "../utils/duplicateMatching.js";
 const envResult = dotenv.config({ path: ".env.local" });
 if (envResult.error) {
   console.warn("Warning: Could not load .env.local:", envResult.error.message);
@@ -38,78 +39,6 @@ function sleep(ms) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-// Helper to normalize names for fuzzy matching
-const normalizeName = (name) => {
-  return (name || "")
-    .toLowerCase()
-    .replace(/[^\w\s]/g, "") // Remove punctuation
-    .replace(/\s+/g, " ") // Normalize whitespace
-    .trim();
-};
-
-// Helper to calculate similarity between two normalized names
-const nameSimilarity = (name1, name2) => {
-  const norm1 = normalizeName(name1);
-  const norm2 = normalizeName(name2);
-
-  if (!norm1 || !norm2) return 0;
-
-  // Exact match after normalization
-  if (norm1 === norm2) return 1.0;
-
-  // One contains the other (high similarity)
-  if (norm1.includes(norm2) || norm2.includes(norm1)) {
-    const shorter = Math.min(norm1.length, norm2.length);
-    const longer = Math.max(norm1.length, norm2.length);
-    return shorter / longer;
-  }
-
-  // Calculate word overlap
-  const words1 = new Set(norm1.split(" ").filter((w) => w.length > 2));
-  const words2 = new Set(norm2.split(" ").filter((w) => w.length > 2));
-  if (words1.size === 0 || words2.size === 0) return 0;
-
-  const intersection = [...words1].filter((w) => words2.has(w)).length;
-  const union = new Set([...words1, ...words2]).size;
-  return intersection / union;
-};
-
-// Helper to calculate distance in meters (Haversine formula)
-const getDistance = (coord1, coord2) => {
-  const R = 6371e3; // Earth radius in meters
-  const φ1 = (coord1.lat * Math.PI) / 180;
-  const φ2 = (coord2.lat * Math.PI) / 180;
-  const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
-  const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-};
-
-// Helper to check if two buildings are likely the same (fuzzy match)
-const areLikelySame = (b1, b2) => {
-  // Check name similarity
-  const nameSim = nameSimilarity(b1.name, b2.name);
-  if (nameSim < 0.6) return false; // Names too different
-
-  // Check if coordinates are close (within 500m)
-  const lat1 = parseFloat(b1.lat || "0");
-  const lng1 = parseFloat(b1.lng || "0");
-  const lat2 = parseFloat(b2.lat || "0");
-  const lng2 = parseFloat(b2.lng || "0");
-
-  if (isNaN(lat1) || isNaN(lng1) || isNaN(lat2) || isNaN(lng2)) return false;
-  if (lat1 === 0 && lng1 === 0) return false;
-  if (lat2 === 0 && lng2 === 0) return false;
-
-  const distance = getDistance({ lat: lat1, lng: lng1 }, { lat: lat2, lng: lng2 });
-  return distance < 500;
-};
-
 // Helper to score building quality (prefer ones with Google Place ID and images)
 const getBuildingScore = (row) => {
   let score = 0;
@@ -179,29 +108,8 @@ async function main() {
   const rows = await fetchAllRows();
   console.log(`✅ Found ${rows.length} total buildings\n`);
 
-  // Group duplicates using fuzzy matching
-  const duplicateGroups = [];
-  const processed = new Set();
-
-  for (let i = 0; i < rows.length; i++) {
-    if (processed.has(rows[i].id)) continue;
-
-    const group = [rows[i]];
-    processed.add(rows[i].id);
-
-    for (let j = i + 1; j < rows.length; j++) {
-      if (processed.has(rows[j].id)) continue;
-
-      if (areLikelySame(rows[i], rows[j])) {
-        group.push(rows[j]);
-        processed.add(rows[j].id);
-      }
-    }
-
-    if (group.length > 1) {
-      duplicateGroups.push(group);
-    }
-  }
+  // Group duplicates using the shared matching rules
+  const duplicateGroups = groupDuplicates(rows, matchableFromRow);
 
   console.log(`📋 Found ${duplicateGroups.length} duplicate groups\n`);
 
@@ -0,0 +1,21 @@
+/**
+ * Generate a password hash for an AUTH_USERS entry
+ *
+ * Usage:
+ *   node scripts/hash-password.js <password>
+ *
+ * Then add the user to AUTH_USERS in .env.local / Netlify, e.g.
+ *   AUTH_USERS='[{"username":"nick","password":"scrypt:...","role":"curator"}]'
+ */
+
+import { hashPassword, ROLES } from '../server/lib/auth.js';
+
+const password = process.argv[2];
+
+if (!password) {
+  console.error('Usage: node scripts/hash-password.js <password>');
+  process.exit(1);
+}
+
+console.log(hashPassword(password));
+console.log(`\nRoles: ${ROLES.join(', ')}`);
@@ -0,0 +1,15 @@
+/**
+ * Record or replay a script's Google calls (see server/lib/httpFixtures.js)
+ *
+ * Preload it with --import, no changes to the script needed:
+ *   HTTP_FIXTURES=record node --import ./scripts/http-fixtures.js scripts/backfill-images.js
+ *   HTTP_FIXTURES=replay node --import ./scripts/http-fixtures.js scripts/backfill-images.js
+ *
+ * Only Places and Gemini calls are covered by default. Add the Baserow host to run a script with
+ * no network at all (its reads and writes are then replayed too):
+ *   HTTP_FIXTURES_HOSTS=api.baserow.io
+ */
+
+import { installHttpFixtures } from '../server/lib/httpFixtures.js';
+
+installHttpFixtures();
@@ -0,0 +1,90 @@
+/**
+ * Move the old fixed comment_1..comment_6 fields into the comments table
+ *
+ * Each non-empty field becomes a top-level comment by "legacy" (keeping its original
+ * timestamps), then the field is cleared. Comments already migrated for a row are skipped,
+ * so the script can be re-run after a partial failure.
+ *
+ * Usage:
+ *   node scripts/migrate-comments.js            # migrate
+ *   node scripts/migrate-comments.js --dry-run  # only report what would be moved
+ *
+ * Needs BASEROW_API_TOKEN and BASEROW_COMMENTS_TABLE_ID (e.g. in .env.local).
+ */
+
+import dotenv from 'dotenv';
+import { fetchAllRows, updateRow } from '../server/lib/baserow.js';
+import { createComment, getCommentsTableId, listComments } from '../server/lib/comments.js';
+
+const envResult = dotenv.config({ path: '.env.local' });
+if (envResult.error) {
+  console.warn('Warning: Could not load .env.local:', envResult.error.message);
+}
+
+const LEGACY_FIELDS = ['comment_1', 'comment_2', 'comment_3', 'comment_4', 'comment_5', 'comment_6'];
+const LEGACY_AUTHOR = 'legacy';
+const dryRun = process.argv.includes('--dry-run');
+
+// Legacy fields were stored as <div data-timestamp="..." data-updated="...">html</div>
+const parseLegacyComment = (html) => {
+  const createdAt = html.match(/data-timestamp="([^"]+)"/)?.[1];
+  const updatedAt = html.match(/data-updated="([^"]+)"/)?.[1];
+  const wrapper = html.match(/<div[^>]*data-timestamp="[^"]*"[^>]*>([\s\S]*?)<\/div>$/);
+  return {
+    text: (wrapper ? wrapper[1] : html).trim(),
+    createdAt: createdAt || new Date().toISOString(),
+    updatedAt,
+  };
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const main = async () => {
+  if (!getCommentsTableId()) {
+    console.error('ERROR: BASEROW_COMMENTS_TABLE_ID is not set');
+    process.exit(1);
+  }
+
+  const rows = await fetchAllRows();
+  const rowsWithComments = rows.filter((row) => LEGACY_FIELDS.some((field) => row[field] && String(row[field]).trim()));
+  console.log(`🔍 ${rowsWithComments.length} of ${rows.length} rows have legacy comments${dryRun ? ' (dry run)' : ''}`);
+
+  let migrated = 0;
+  for (const row of rowsWithComments) {
+    const legacy = LEGACY_FIELDS.filter((field) => row[field] && String(row[field]).trim()).map((field) =>
+      parseLegacyComment(String(row[field]))
+    );
+
+    if (dryRun) {
+      console.log(`  📝 "${row.name}" (row ${row.id}): ${legacy.length} comment(s)`);
+      migrated += legacy.length;
+      continue;
+    }
+
+    try {
+      const existing = new Set(
+        (await listComments(row.id)).filter((c) => c.author === LEGACY_AUTHOR).map((c) => c.text)
+      );
+      for (const comment of legacy) {
+        if (existing.has(comment.text)) continue;
+        await createComment({ rowId: row.id, author: LEGACY_AUTHOR, ...comment });
+        migrated += 1;
+        await sleep(200); // Stay under Baserow rate limits
+      }
+      await updateRow(row.id, Object.fromEntries(LEGACY_FIELDS.map((field) => [field, ''])));
+      console.log(`  ✅ "${row.name}" (row ${row.id}): ${legacy.length} comment(s)`);
+    } catch (error) {
+      console.error(`  ❌ Failed to migrate comments for row ${row.id}:`, error.message);
+    }
+  }
+
+  console.log(`\n${dryRun ? 'Would migrate' : 'Migrated'} ${migrated} comment(s).`);
+  if (!dryRun) {
+    console.log('Once every row is migrated, the comment_1..comment_6 columns can be deleted in Baserow.');
+  }
+};
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * Replace Google Places photo URLs that carry the Maps API key with keyless proxy URLs
+ *
+ * Older rows stored `https://maps.googleapis.com/maps/api/place/photo?...&key=...` in image_url
+ * and in the `images` collection, which handed the key to every visitor. Each one is rewritten
+ * to `/api/places/photo?ref=...&w=...` (see utils/placesPhoto.js). Rows without such URLs are
+ * left alone, so the script can be re-run safely.
+ *
+ * Usage:
+ *   node scripts/migrate-places-photo-urls.js            # migrate
+ *   node scripts/migrate-places-photo-urls.js --dry-run  # only report what would change
+ *
+ * Needs BASEROW_API_TOKEN (e.g. in .env.local).
+ */
+
+import dotenv from 'dotenv';
+import { fetchAllRows, updateRow } from '../server/lib/baserow.js';
+import { keylessImageFields } from '../utils/placesPhoto.js';
+
+const envResult = dotenv.config({ path: '.env.local' });
+if (envResult.error) {
+  console.warn('Warning: Could not load .env.local:', envResult.error.message);
+}
+
+const dryRun = process.argv.includes('--dry-run');
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const main = async () => {
+  const rows = await fetchAllRows();
+  const changes = rows
+    .map((row) => ({ row, fields: keylessImageFields(row) }))
+    .filter(({ fields }) => Object.keys(fields).length > 0);
+  console.log(`🔍 ${changes.length} of ${rows.length} rows have keyed Places photo URLs${dryRun ? ' (dry run)' : ''}`);
+
+  let migrated = 0;
+  for (const { row, fields } of changes) {
+    if (dryRun) {
+      console.log(`  📝 "${row.name}" (row ${row.id}): ${Object.keys(fields).join(', ')}`);
+      migrated += 1;
+      continue;
+    }
+
+    try {
+      await updateRow(row.id, fields);
+      migrated += 1;
+      console.log(`  ✅ "${row.name}" (row ${row.id}): ${Object.keys(fields).join(', ')}`);
+      await sleep(200); // Stay under Baserow rate limits
+    } catch (error) {
+      console.error(`  ❌ Failed to update row ${row.id}:`, error.message);
+    }
+  }
+
+  console.log(`\n${dryRun ? 'Would migrate' : 'Migrated'} ${migrated} row(s).`);
+  if (!dryRun && migrated > 0) {
+    console.log('The old URLs are still in revision history - rotate the Maps API key once this is done.');
+  }
+};
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
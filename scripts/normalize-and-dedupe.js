@@ -1,6 +1,7 @@
 // scripts/normalize-and-dedupe.js
 // 1) Normalize city and country names across ALL Baserow rows.
-// 2) Detect duplicate rows by `name` and delete the ones with the least information.
+// 2) Detect duplicate rows (shared rules in utils/duplicateMatching.js) and delete the ones
+//    with the least information.
 //
 // Usage:
 //   node scripts/normalize-and-dedupe.js
@@ -10,6 +11,7 @@
 //   REACT_APP_BASEROW_TABLE_ID=772747
 
 import dotenv from "dotenv";
+import { groupDuplicates, matchableFromRow } from "../utils/duplicateMatching.js";
 dotenv.config({ path: ".env.local" });
 
 const BASEROW_BASE = "https://api.baserow.io/api/database/rows/table";
@@ -201,33 +203,23 @@ async function main() {
     }
   }
 
-  console.log("\nNormalization pass complete. Now checking for duplicates by name...");
+  console.log("\nNormalization pass complete. Now checking for duplicates...");
 
-  // 2) Identify and dedupe by name
-  const byName = new Map();
-  for (const row of rows) {
-    const name = (row.name || "").trim();
-    if (!name) continue;
-    if (!byName.has(name)) byName.set(name, []);
-    byName.get(name).push(row);
-  }
-
-  const duplicates = [];
-  for (const [name, group] of byName.entries()) {
-    if (group.length > 1) {
-      duplicates.push({ name, group });
-    }
-  }
+  // 2) Identify and dedupe with the shared matching rules
+  const duplicates = groupDuplicates(rows, matchableFromRow).map((group) => ({
+    name: group[0].name || "unnamed",
+    group,
+  }));
 
   if (!duplicates.length) {
-    console.log("No duplicate names found.");
+    console.log("No duplicates found.");
     return;
   }
 
-  console.log(`Found ${duplicates.length} name groups with duplicates.`);
+  console.log(`Found ${duplicates.length} duplicate groups.`);
 
   for (const { name, group } of duplicates) {
-    console.log(`\nDuplicate group for name="${name}" (count=${group.length})`);
+    console.log(`\nDuplicate group for "${name}" (count=${group.length})`);
 
     // Compute scores and select the best row to keep
     const scored = group.map((row) => ({
@@ -1,8 +1,9 @@
 // scripts/run-dedupe.js
-// Run the updated dedupe function with fuzzy matching (10km, name portion sharing)
+// Run the dedupe with the shared matching rules (utils/duplicateMatching.js)
 // Usage: node scripts/run-dedupe.js
 
 import dotenv from "dotenv";
+import { groupDuplicates, matchableFromRow } from "../utils/duplicateMatching.js";
 const envResult = dotenv.config({ path: ".env.local" });
 if (envResult.error) {
   console.warn("Warning: Could not load .env.local:", envResult.error.message);
@@ -27,83 +28,6 @@ function sleep(ms) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-// Helper to normalize names for fuzzy matching
-const normalizeNameForMatch = (name) => {
-  return (name || "")
-    .toLowerCase()
-    .replace(/[^\w\s]/g, "") // Remove punctuation
-    .replace(/\s+/g, " ") // Normalize whitespace
-    .trim();
-};
-
-// Helper to extract base name (before parentheses or other separators)
-const extractBaseName = (name) => {
-  const cleaned = (name || "")
-    .replace(/\s*\([^)]*\)/g, "") // Remove parentheses content
-    .replace(/\s*\[[^\]]*\]/g, "") // Remove bracket content
-    .replace(/\s*-\s*[^-]*$/g, "") // Remove content after dash
-    .trim();
-  return normalizeNameForMatch(cleaned);
-};
-
-// Helper to check if names share a significant portion
-const namesSharePortion = (name1, name2) => {
-  const base1 = extractBaseName(name1);
-  const base2 = extractBaseName(name2);
-  
-  // If base names are the same or one contains the other, they share a portion
-  if (base1 === base2) return true;
-  if (base1.length >= 5 && base2.length >= 5) {
-    // Check if one base name contains the other (for cases like "De Inktpot" in both names)
-    if (base1.includes(base2) || base2.includes(base1)) {
-      const shorter = Math.min(base1.length, base2.length);
-      const longer = Math.max(base1.length, base2.length);
-      // Require at least 60% overlap
-      return shorter / longer >= 0.6;
-    }
-  }
-  
-  return false;
-};
-
-// Helper to check if building is one of the Seven Sisters in Russia
-const isSevenSisters = (row) => {
-  const name = (row.name || "").toLowerCase();
-  const country = (row.country || "").toLowerCase();
-  const city = (row.city || "").toLowerCase();
-  
-  // Check if it's in Russia and matches Seven Sisters pattern
-  if (!country.includes("russia") && !country.includes("россия")) return false;
-  
-  // Seven Sisters are in Moscow
-  if (!city.includes("moscow") && !city.includes("москва")) return false;
-  
-  // Check for Seven Sisters building names
-  const sevenSistersKeywords = [
-    "ministry", "ministry of foreign affairs", "hotel ukraina", "hotel leningradskaya",
-    "kotelnicheskaya", "kudrinskaya", "red gates", "ministry of foreign affairs",
-    "seven sisters", "stalinist", "высотка", "сталинская"
-  ];
-  
-  return sevenSistersKeywords.some(keyword => name.includes(keyword));
-};
-
-// Helper to calculate distance in meters (Haversine formula)
-const getDistance = (coord1, coord2) => {
-  const R = 6371e3; // Earth radius in meters
-  const φ1 = (coord1.lat * Math.PI) / 180;
-  const φ2 = (coord2.lat * Math.PI) / 180;
-  const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
-  const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-};
-
 // Helper to score building quality (prefer ones with Google Place ID and images)
 const getBuildingScore = (row) => {
   let score = 0;
@@ -171,49 +95,8 @@ async function main() {
   const rows = await fetchAllRows();
   console.log(`✅ Found ${rows.length} total buildings\n`);
 
-  // Group duplicates using fuzzy matching (10km, name portion sharing)
-  const duplicateGroups = [];
-  const processed = new Set();
-
-  for (let i = 0; i < rows.length; i++) {
-    if (processed.has(rows[i].id)) continue;
-
-    const group = [rows[i]];
-    processed.add(rows[i].id);
-
-    for (let j = i + 1; j < rows.length; j++) {
-      if (processed.has(rows[j].id)) continue;
-
-      // Skip if either building is a Seven Sisters building (exception)
-      if (isSevenSisters(rows[i]) || isSevenSisters(rows[j])) {
-        continue;
-      }
-
-      const lat1 = parseFloat(rows[i].lat || "0");
-      const lng1 = parseFloat(rows[i].lng || "0");
-      const lat2 = parseFloat(rows[j].lat || "0");
-      const lng2 = parseFloat(rows[j].lng || "0");
-
-      if (isNaN(lat1) || isNaN(lng1) || isNaN(lat2) || isNaN(lng2)) continue;
-      if (lat1 === 0 && lng1 === 0) continue;
-      if (lat2 === 0 && lng2 === 0) continue;
-
-      const distance = getDistance({ lat: lat1, lng: lng1 }, { lat: lat2, lng: lng2 });
-      
-      // Check if within 10km and names share a portion
-      if (distance < 10000) { // 10km
-        // Check if names share a significant portion
-        if (namesSharePortion(rows[i].name || "", rows[j].name || "")) {
-          group.push(rows[j]);
-          processed.add(rows[j].id);
-        }
-      }
-    }
-
-    if (group.length > 1) {
-      duplicateGroups.push(group);
-    }
-  }
+  // Group duplicates using the shared matching rules
+  const duplicateGroups = groupDuplicates(rows, matchableFromRow);
 
   console.log(`📋 Found ${duplicateGroups.length} duplicate groups\n`);
 
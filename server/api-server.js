@@ -1,10 +1,21 @@
 import express from 'express';
 import dotenv from 'dotenv';
 import cors from 'cors';
+import { handleBuildingsNear } from './lib/buildingsNear.js';
+import { handlePlacesPhoto, PLACES_PHOTO_CACHE_CONTROL } from './lib/placesPhoto.js';
+import { handleBuildingsRequest } from './lib/buildingsApi.js';
+import { handleCommentsRequest } from './lib/comments.js';
+import { handleAiCacheRequest } from './lib/aiCache.js';
+import { handleAiBudgetRequest, consumeAiBudget } from './lib/aiBudget.js';
+import { handleAuthRequest, getUserFromAuthHeader, hasRole } from './lib/auth.js';
+import { getHttpFixtureMode, installHttpFixtures, isReplayingHttp } from './lib/httpFixtures.js';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
 
+// HTTP_FIXTURES=record|replay captures or serves the Places and Gemini calls made below
+installHttpFixtures();
+
 const app = express();
 const PORT = process.env.API_PORT || 3001;
 
@@ -41,11 +52,12 @@ app.use(cors({
 
 app.use(express.json());
 
-// Get Google Maps API key from environment
+// Get Google Maps API key from environment (not needed when replaying recorded calls)
 const getGoogleMapsApiKey = () => {
   return process.env.VITE_GOOGLE_MAPS_API_KEY || 
          process.env.GOOGLE_MAPS_API_KEY || 
-         process.env.REACT_APP_GOOGLE_MAPS_API_KEY;
+         process.env.REACT_APP_GOOGLE_MAPS_API_KEY ||
+         (isReplayingHttp() ? 'replay' : undefined);
 };
 
 // Proxy endpoint for Google Places API - Place Details
@@ -66,6 +78,13 @@ app.get('/api/places/details', async (req, res) => {
   }
 
   try {
+    // Counts against the daily Places budget; purpose=background|admin for enrichment and backfills
+    const budget = await consumeAiBudget('places', {
+      purpose: req.query.purpose || 'search',
+      user: getUserFromAuthHeader(req.get('authorization')),
+    });
+    if (budget.statusCode !== 200) return res.status(budget.statusCode).json(budget.body);
+
     const fieldsParam = fields || 'photos';
     const url = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${encodeURIComponent(place_id)}&fields=${encodeURIComponent(fieldsParam)}&key=${apiKey}`;
     
@@ -101,6 +120,12 @@ app.get('/api/places/find', async (req, res) => {
   }
 
   try {
+    const budget = await consumeAiBudget('places', {
+      purpose: req.query.purpose || 'search',
+      user: getUserFromAuthHeader(req.get('authorization')),
+    });
+    if (budget.statusCode !== 200) return res.status(budget.statusCode).json(budget.body);
+
     const inputtypeParam = inputtype || 'textquery';
     const fieldsParam = fields || 'place_id';
     const url = `https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=${encodeURIComponent(input)}&inputtype=${inputtypeParam}&fields=${encodeURIComponent(fieldsParam)}&key=${apiKey}`;
@@ -118,13 +143,191 @@ app.get('/api/places/find', async (req, res) => {
   }
 });
 
+// Proxy endpoint for Google Places photos - the app only stores keyless /api/places/photo URLs
+app.get('/api/places/photo', async (req, res) => {
+  try {
+    const { statusCode, body, contentType } = await handlePlacesPhoto(req.query);
+    if (!contentType) return res.status(statusCode).json(body);
+    res.status(statusCode).set({ 'Content-Type': contentType, 'Cache-Control': PLACES_PHOTO_CACHE_CONTROL }).send(body);
+  } catch (error) {
+    console.error('Error proxying Places photo request:', error);
+    res.status(error.statusCode || 500).json({
+      error: 'Failed to fetch place photo',
+      message: error.message
+    });
+  }
+});
+
+// Gemini pass-through for fixture mode only - the browser's Gemini client is pointed here
+// (VITE_GEMINI_VIA_API=true) so its calls can be recorded and replayed like the Places ones.
+// Recording spends the server's Gemini key, so it takes a signed-in contributor; replays cost nothing.
+// (Calls are already counted against the daily budget by the browser before they're made.)
+if (getHttpFixtureMode()) {
+  app.post('/api/gemini/*', async (req, res) => {
+    if (!isReplayingHttp()) {
+      const user = getUserFromAuthHeader(req.get('authorization'));
+      if (!hasRole(user, 'contributor')) {
+        return res.status(user ? 403 : 401).json({
+          error: user ? 'Recording Gemini calls requires the contributor role' : 'Sign in to record Gemini calls'
+        });
+      }
+    }
+    try {
+      const apiKey = process.env.VITE_GEMINI_API_KEY || process.env.GEMINI_API_KEY || '';
+      const url = `https://generativelanguage.googleapis.com/${req.params[0]}`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify(req.body),
+      });
+      res.status(response.status).type('application/json').send(await response.text());
+    } catch (error) {
+      console.error('Error proxying Gemini request:', error);
+      res.status(502).json({
+        error: 'Gemini request failed',
+        message: error.message
+      });
+    }
+  });
+}
+
+// Geo query endpoint - radius, bounding-box and nearest-N lookups against a cached, indexed copy of the table
+app.get('/api/buildings/near', async (req, res) => {
+  try {
+    const { statusCode, body } = await handleBuildingsNear(req.query);
+    res.status(statusCode).json(body);
+  } catch (error) {
+    console.error('Error querying nearby buildings:', error);
+    res.status(error.statusCode || 500).json({
+      error: 'Failed to query buildings',
+      message: error.message
+    });
+  }
+});
+
+// Baserow proxy - every building read/write goes through here so the token stays server-side
+const proxyBuildingsRequest = async (req, res) => {
+  try {
+    const { statusCode, body } = await handleBuildingsRequest({
+      method: req.method,
+      path: req.path.replace(/^\/api\/buildings/, ''),
+      query: req.query,
+      body: req.body,
+      contentType: req.get('content-type'),
+      user: getUserFromAuthHeader(req.get('authorization')),
+    });
+    res.status(statusCode).json(body);
+  } catch (error) {
+    console.error('Error proxying Baserow request:', error);
+    res.status(error.statusCode || 500).json({
+      error: 'Baserow request failed',
+      message: error.message
+    });
+  }
+};
+
+// File uploads arrive as the raw request body (plain files, and photos for the responsive image pipeline)
+app.post(['/api/buildings/upload', '/api/buildings/images'], express.raw({ type: '*/*', limit: '10mb' }), proxyBuildingsRequest);
+app.all(['/api/buildings', '/api/buildings/*'], proxyBuildingsRequest);
+
+// Comment threads (stored in their own Baserow table)
+app.all(['/api/comments', '/api/comments/*'], async (req, res) => {
+  try {
+    const { statusCode, body } = await handleCommentsRequest({
+      method: req.method,
+      path: req.path.replace(/^\/api\/comments/, ''),
+      query: req.query,
+      body: req.body,
+      user: getUserFromAuthHeader(req.get('authorization')),
+    });
+    res.status(statusCode).json(body);
+  } catch (error) {
+    console.error('Error handling comments request:', error);
+    res.status(error.statusCode || 500).json({
+      error: 'Comments request failed',
+      message: error.message
+    });
+  }
+});
+
+// Shared cache of Gemini responses (discovery and geocoding)
+app.all('/api/ai-cache', async (req, res) => {
+  try {
+    const { statusCode, body } = await handleAiCacheRequest({
+      method: req.method,
+      query: req.query,
+      body: req.body,
+      user: getUserFromAuthHeader(req.get('authorization')),
+    });
+    res.status(statusCode).json(body);
+  } catch (error) {
+    console.error('Error handling AI cache request:', error);
+    res.status(error.statusCode || 500).json({
+      error: 'AI cache request failed',
+      message: error.message
+    });
+  }
+});
+
+// Daily budget for Gemini and Places calls
+app.all(['/api/ai-budget', '/api/ai-budget/*'], async (req, res) => {
+  try {
+    const { statusCode, body } = await handleAiBudgetRequest({
+      method: req.method,
+      path: req.path.replace(/^\/api\/ai-budget/, ''),
+      body: req.body,
+      user: getUserFromAuthHeader(req.get('authorization')),
+    });
+    res.status(statusCode).json(body);
+  } catch (error) {
+    console.error('Error handling AI budget request:', error);
+    res.status(error.statusCode || 500).json({
+      error: 'AI budget request failed',
+      message: error.message
+    });
+  }
+});
+
+// Sign-in and session lookup
+app.all('/api/auth/*', async (req, res) => {
+  try {
+    const { statusCode, body } = await handleAuthRequest({
+      method: req.method,
+      path: req.path.replace(/^\/api\/auth/, ''),
+      body: req.body,
+      authorization: req.get('authorization'),
+    });
+    res.status(statusCode).json(body);
+  } catch (error) {
+    console.error('Error handling auth request:', error);
+    res.status(error.statusCode || 500).json({
+      error: 'Authentication failed',
+      message: error.message
+    });
+  }
+});
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-app.listen(PORT, () => {
+// In fixture mode the server can spend the Gemini key on others' behalf - keep it to this machine
+const HOST = getHttpFixtureMode() ? '127.0.0.1' : undefined;
+
+app.listen(PORT, HOST, () => {
   console.log(`🚀 API server running on http://localhost:${PORT}`);
   console.log(`   - Places API proxy: http://localhost:${PORT}/api/places/details`);
+  console.log(`   - Places photos: http://localhost:${PORT}/api/places/photo`);
+  console.log(`   - Buildings geo query: http://localhost:${PORT}/api/buildings/near`);
+  console.log(`   - Baserow proxy: http://localhost:${PORT}/api/buildings`);
+  console.log(`   - Comments: http://localhost:${PORT}/api/comments`);
+  console.log(`   - AI response cache: http://localhost:${PORT}/api/ai-cache`);
+  console.log(`   - AI call budget: http://localhost:${PORT}/api/ai-budget`);
+  console.log(`   - Auth: http://localhost:${PORT}/api/auth/login`);
+  if (getHttpFixtureMode()) {
+    console.log(`   - Gemini (fixture mode): http://localhost:${PORT}/api/gemini`);
+    console.log(`📼 HTTP fixtures: ${getHttpFixtureMode()} (${process.env.HTTP_FIXTURES_DIR || 'fixtures/http'})`);
+  }
 });
 
@@ -0,0 +1,271 @@
+// Daily budget for paid AI calls (Gemini and Google Places), shared by Express and Netlify.
+// Every call is counted here before it goes out, so the app stops at a limit we choose
+// instead of running into Google's quota errors part way through a search.
+//
+// Routes (path is relative to /api/ai-budget):
+//   GET  /         - today's usage, limits and reset time for every service
+//   POST /consume  - count { service, units, purpose } before calling out; 429 when over budget.
+//                    Only Gemini is consumed this way - it's called from the browser. Places calls
+//                    are counted by the /api/places proxies themselves.
+//   PUT  /reserve  - set today's reserve { service, units } for admin tasks (curators only)
+//
+// Purposes decide which limit applies:
+//   background - automatic work (e.g. image enrichment on load), stops at the soft limit
+//   search     - something a person asked for, stops at the hard limit minus the reserve
+//   admin      - curator tasks like backfills, may use the reserve (curators only)
+//
+// Limits come from the environment (per service: GEMINI, PLACES):
+//   AI_BUDGET_<SERVICE>_DAILY - hard limit per day
+//   AI_BUDGET_<SERVICE>_SOFT  - soft limit per day (default AI_BUDGET_SOFT_RATIO of the hard limit)
+//   AI_BUDGET_TIMEZONE        - when the day rolls over (default America/Los_Angeles, like Google's quotas)
+//
+// Counts are kept in memory and, when BASEROW_AI_BUDGET_TABLE_ID is set, in a Baserow table
+// so every server and function instance shares them: each call re-reads the row and writes back
+// the stored count plus its own units. Calls landing on two instances at the same moment can
+// still count from the same stored value, so the limit may be overshot by a call or two. Fields:
+//   day      (text)   - YYYY-MM-DD in AI_BUDGET_TIMEZONE
+//   service  (text)   - gemini | places
+//   used     (number) - calls counted so far
+//   reserved (number) - reserve left for admin tasks
+
+import { createRowInTable, fetchFilteredRows, updateRowInTable } from './baserow.js';
+import { hasRole } from './auth.js';
+
+export const AI_BUDGET_SERVICES = ['gemini', 'places'];
+const PURPOSES = new Set(['background', 'search', 'admin']);
+const DEFAULT_DAILY_LIMITS = { gemini: 500, places: 2000 };
+const DEFAULT_SOFT_RATIO = 0.8;
+const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+const MAX_UNITS_PER_CALL = 50;
+
+// `${day}:${service}` -> { used, reserved, rowId, loaded, queue } - the counts this instance last
+// saw. Updates to one counter run one after another (see withCounter).
+const counters = new Map();
+let warnedUnconfigured = false;
+
+export const getAiBudgetTableId = () => process.env.BASEROW_AI_BUDGET_TABLE_ID || null;
+
+const ok = (body, statusCode = 200) => ({ statusCode, body });
+const fail = (statusCode, message, extra = {}) => ({ statusCode, body: { error: message, ...extra } });
+
+const getTimeZone = () => process.env.AI_BUDGET_TIMEZONE || DEFAULT_TIMEZONE;
+
+const readLimit = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+};
+
+export const getLimits = (service) => {
+  const key = service.toUpperCase();
+  const hardLimit = readLimit(`AI_BUDGET_${key}_DAILY`, DEFAULT_DAILY_LIMITS[service]);
+  const ratio = Number(process.env.AI_BUDGET_SOFT_RATIO);
+  const softRatio = Number.isFinite(ratio) && ratio > 0 && ratio <= 1 ? ratio : DEFAULT_SOFT_RATIO;
+  const softLimit = Math.min(readLimit(`AI_BUDGET_${key}_SOFT`, Math.floor(hardLimit * softRatio)), hardLimit);
+  return { softLimit, hardLimit };
+};
+
+// Wall-clock parts of a moment in the budget's time zone
+const zonedParts = (date) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: getTimeZone(),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type) => parts.find((part) => part.type === type).value;
+  return { day: `${get('year')}-${get('month')}-${get('day')}`, hour: Number(get('hour')), minute: Number(get('minute')), second: Number(get('second')) };
+};
+
+export const budgetDay = (now = new Date()) => zonedParts(now).day;
+
+// The next midnight in the budget's time zone
+export const nextResetAt = (now = new Date()) => {
+  const { hour, minute, second } = zonedParts(now);
+  const sinceMidnightMs = ((hour * 60 + minute) * 60 + second) * 1000 + now.getMilliseconds();
+  let reset = new Date(now.getTime() - sinceMidnightMs + 24 * 60 * 60 * 1000);
+  // On daylight-saving days the day is 23 or 25 hours long, so land back on 00:00
+  const landed = zonedParts(reset).hour;
+  if (landed === 23) reset = new Date(reset.getTime() + 60 * 60 * 1000);
+  if (landed === 1) reset = new Date(reset.getTime() - 60 * 60 * 1000);
+  return reset;
+};
+
+const getCounter = (day, service) => {
+  const key = `${day}:${service}`;
+  if (!counters.has(key)) {
+    // Yesterday's counters are never needed again
+    for (const oldKey of counters.keys()) {
+      if (!oldKey.startsWith(`${day}:`)) counters.delete(oldKey);
+    }
+    counters.set(key, { used: 0, reserved: 0, rowId: null, loaded: false, queue: Promise.resolve() });
+  }
+  return counters.get(key);
+};
+
+// Bring the counter up to date with the shared row, so calls and reserves made on other
+// instances apply here too. Once loaded, a failed read carries on with the last counts seen.
+const refreshCounter = async (day, service, counter) => {
+  const tableId = getAiBudgetTableId();
+  if (!tableId) return;
+  try {
+    const [row] = await fetchFilteredRows(tableId, { filter__day__equal: day, filter__service__equal: service });
+    if (row) {
+      counter.rowId = row.id;
+      // A save of ours that failed may have left the row behind this instance's count
+      counter.used = Math.max(counter.used, Number(row.used) || 0);
+      counter.reserved = Number(row.reserved) || 0;
+    }
+    counter.loaded = true;
+  } catch (error) {
+    if (!counter.loaded) throw error;
+    console.warn(`Failed to refresh AI budget for ${service}:`, error.message);
+  }
+};
+
+// Refresh a day's counter and run `update` on it once earlier updates to it have finished,
+// so two calls on this instance never count from the same stored value
+const withCounter = (day, service, update) => {
+  const counter = getCounter(day, service);
+  const run = counter.queue.then(async () => {
+    await refreshCounter(day, service, counter);
+    return update(counter);
+  });
+  counter.queue = run.catch(() => {});
+  return run;
+};
+
+const saveCounter = async (day, service, counter) => {
+  const tableId = getAiBudgetTableId();
+  if (!tableId) {
+    if (!warnedUnconfigured) {
+      console.warn('⚠️ BASEROW_AI_BUDGET_TABLE_ID not set - AI budget is only counted per server instance');
+      warnedUnconfigured = true;
+    }
+    return;
+  }
+  const fields = { day, service, used: counter.used, reserved: counter.reserved };
+  try {
+    if (counter.rowId) {
+      await updateRowInTable(tableId, counter.rowId, fields);
+    } else {
+      // No row yet today (refreshCounter just looked) - the first save creates it
+      counter.rowId = (await createRowInTable(tableId, fields)).id;
+    }
+  } catch (error) {
+    // The call is still allowed - a missed write only makes the shared count a little low
+    console.warn(`Failed to save AI budget for ${service}:`, error.message);
+  }
+};
+
+const describe = (service, counter) => {
+  const { softLimit, hardLimit } = getLimits(service);
+  return {
+    used: counter.used,
+    softLimit,
+    hardLimit,
+    reserved: counter.reserved,
+    // What's left for searches; background work stops earlier, at the soft limit
+    remaining: Math.max(0, hardLimit - counter.reserved - counter.used),
+  };
+};
+
+/** Today's budget for every service, plus when it resets. */
+export const getAiBudgetStatus = async (now = new Date()) => {
+  const day = budgetDay(now);
+  const services = {};
+  for (const service of AI_BUDGET_SERVICES) {
+    services[service] = await withCounter(day, service, (counter) => describe(service, counter));
+  }
+  return { day, resetAt: nextResetAt(now).toISOString(), services };
+};
+
+/**
+ * Count `units` calls to `service` if the budget allows them.
+ * @returns {Promise<{ statusCode: number, body: object }>} 200 with the service's budget, or 429 with
+ *   `resetAt` when the call would go over the limit for its purpose.
+ */
+export const consumeAiBudget = async (service, { units = 1, purpose = 'search', user = null } = {}) => {
+  if (!AI_BUDGET_SERVICES.includes(service)) return fail(400, `service must be one of: ${AI_BUDGET_SERVICES.join(', ')}`);
+  if (!PURPOSES.has(purpose)) return fail(400, `purpose must be one of: ${[...PURPOSES].join(', ')}`);
+  if (!Number.isInteger(units) || units < 1 || units > MAX_UNITS_PER_CALL) {
+    return fail(400, `units must be an integer from 1 to ${MAX_UNITS_PER_CALL}`);
+  }
+  if (purpose === 'admin' && !hasRole(user, 'curator')) {
+    return user ? fail(403, 'Admin budget requires the curator role') : fail(401, 'Sign in to use the admin budget');
+  }
+
+  const now = new Date();
+  const day = budgetDay(now);
+  const resetAt = nextResetAt(now).toISOString();
+  const { softLimit, hardLimit } = getLimits(service);
+
+  return withCounter(day, service, async (counter) => {
+    const ceiling =
+      purpose === 'admin' ? hardLimit
+        : purpose === 'background' ? Math.min(softLimit, hardLimit - counter.reserved)
+          : hardLimit - counter.reserved;
+    if (counter.used + units > ceiling) {
+      console.warn(`🛑 ${service} budget exhausted for ${purpose} calls (${counter.used}/${hardLimit}, ${counter.reserved} reserved)`);
+      return fail(429, `Daily ${service} budget reached`, {
+        service,
+        limit: purpose === 'background' && ceiling === softLimit ? 'soft' : 'hard',
+        resetAt,
+        budget: describe(service, counter),
+      });
+    }
+
+    counter.used += units;
+    // Admin calls draw on the reserve first
+    if (purpose === 'admin') counter.reserved = Math.max(0, counter.reserved - units);
+    await saveCounter(day, service, counter);
+    return ok({ service, resetAt, budget: describe(service, counter) });
+  });
+};
+
+const reserveAiBudget = async (service, units) => {
+  const day = budgetDay();
+  const { hardLimit } = getLimits(service);
+  return withCounter(day, service, async (counter) => {
+    counter.reserved = Math.min(units, Math.max(0, hardLimit - counter.used));
+    await saveCounter(day, service, counter);
+    console.log(`📌 Reserved ${counter.reserved} ${service} calls for admin tasks today`);
+    return { service, resetAt: nextResetAt().toISOString(), budget: describe(service, counter) };
+  });
+};
+
+/**
+ * Handle a /api/ai-budget request.
+ * @param {{ method: string, path?: string, body: any, user?: object | null }} request
+ */
+export const handleAiBudgetRequest = async ({ method, path = '', body, user = null }) => {
+  const route = path.replace(/\/+$/, '');
+
+  if (method === 'GET' && route === '') {
+    return ok(await getAiBudgetStatus());
+  }
+
+  if (route === '/consume' || route === '/reserve') {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return fail(400, 'Request body must be a JSON object');
+  }
+
+  if (method === 'POST' && route === '/consume') {
+    // Places calls are counted where they're made (the /api/places proxies), not on the client's say-so
+    if (body.service !== 'gemini') return fail(400, 'Only gemini calls are counted through this endpoint');
+    return consumeAiBudget(body.service, { units: body.units ?? 1, purpose: body.purpose ?? 'search', user });
+  }
+
+  if (method === 'PUT' && route === '/reserve') {
+    if (!hasRole(user, 'curator')) {
+      return user ? fail(403, 'This action requires the curator role') : fail(401, 'Sign in to make changes');
+    }
+    if (!AI_BUDGET_SERVICES.includes(body.service)) return fail(400, `service must be one of: ${AI_BUDGET_SERVICES.join(', ')}`);
+    if (!Number.isInteger(body.units) || body.units < 0) return fail(400, 'units must be a non-negative integer');
+    return ok(await reserveAiBudget(body.service, body.units));
+  }
+
+  return fail(405, 'Method not allowed');
+};
@@ -0,0 +1,123 @@
+// Shared response cache for the app's Gemini calls (lair discovery and geocoding), used by
+// Express and Netlify. The model is called from the browser; this only remembers its answers,
+// so a city searched yesterday doesn't spend quota again today.
+//
+// Routes (path is relative to /api/ai-cache):
+//   GET  /?key=   - cached value for a key, 404 when missing or expired
+//   PUT  /        - store { key, kind, value, ttlMs } (contributors only, so visitors can't
+//                   plant results other people would see)
+//
+// Entries live in a Baserow table (BASEROW_AI_CACHE_TABLE_ID) with these fields:
+//   key        (text)      - normalised query, e.g. "lairs:berlin@52.5,13.4" (see services/aiCacheService.ts)
+//   kind       (text)      - geocode | lairs
+//   value      (long text) - JSON of the cached response
+//   created_at (text)      - ISO timestamp
+//   expires_at (text)      - ISO timestamp
+//
+// Without the table, entries are only kept in memory (per server / warm function instance).
+
+import { createRowInTable, fetchFilteredRows, updateRowInTable } from './baserow.js';
+import { hasRole } from './auth.js';
+
+const KINDS = new Set(['geocode', 'lairs']);
+const MAX_KEY_LENGTH = 300;
+const MAX_VALUE_BYTES = 256 * 1024; // 256KB of JSON
+const MAX_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_MEMORY_ENTRIES = 500;
+
+// Insertion-ordered, so the first entry is the oldest
+const memory = new Map();
+let warnedUnconfigured = false;
+
+export const getAiCacheTableId = () => process.env.BASEROW_AI_CACHE_TABLE_ID || null;
+
+const ok = (body, statusCode = 200) => ({ statusCode, body });
+const fail = (statusCode, message) => ({ statusCode, body: { error: message } });
+
+const remember = (key, entry) => {
+  memory.delete(key);
+  memory.set(key, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) memory.delete(memory.keys().next().value);
+};
+
+const isValidKey = (key) => typeof key === 'string' && key.length > 0 && key.length <= MAX_KEY_LENGTH;
+
+const readEntry = async (key) => {
+  const cached = memory.get(key);
+  if (cached && new Date(cached.expiresAt).getTime() > Date.now()) return cached;
+  // Expired here, but another instance may have stored a fresh answer since
+  if (cached) memory.delete(key);
+
+  const tableId = getAiCacheTableId();
+  if (!tableId) return null;
+  const [row] = await fetchFilteredRows(tableId, { filter__key__equal: key });
+  if (!row) return null;
+  try {
+    const entry = { kind: row.kind, value: JSON.parse(row.value), expiresAt: row.expires_at, rowId: row.id };
+    remember(key, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+};
+
+const writeEntry = async (key, kind, value, ttlMs) => {
+  const now = Date.now();
+  const entry = { kind, value, expiresAt: new Date(now + ttlMs).toISOString() };
+  const previous = memory.get(key);
+
+  const tableId = getAiCacheTableId();
+  if (!tableId) {
+    if (!warnedUnconfigured) {
+      console.warn('⚠️ BASEROW_AI_CACHE_TABLE_ID not set - Gemini responses are only cached in memory');
+      warnedUnconfigured = true;
+    }
+    remember(key, entry);
+    return entry;
+  }
+
+  const fields = {
+    key,
+    kind,
+    value: JSON.stringify(value),
+    created_at: new Date(now).toISOString(),
+    expires_at: entry.expiresAt,
+  };
+  // Expired entries are overwritten in place rather than piling up
+  const rowId = previous?.rowId || (await fetchFilteredRows(tableId, { filter__key__equal: key }))[0]?.id;
+  const row = rowId ? await updateRowInTable(tableId, rowId, fields) : await createRowInTable(tableId, fields);
+  const stored = { ...entry, rowId: row.id };
+  remember(key, stored);
+  return stored;
+};
+
+/**
+ * Handle a /api/ai-cache request.
+ * @param {{ method: string, query: object, body: any, user?: object | null }} request
+ */
+export const handleAiCacheRequest = async ({ method, query = {}, body, user = null }) => {
+  if (method === 'GET') {
+    if (!isValidKey(query.key)) return fail(400, `key parameter is required (max ${MAX_KEY_LENGTH} characters)`);
+    const entry = await readEntry(query.key);
+    if (!entry || new Date(entry.expiresAt).getTime() <= Date.now()) return fail(404, 'Not cached');
+    return ok({ key: query.key, kind: entry.kind, value: entry.value, expiresAt: entry.expiresAt });
+  }
+
+  if (method === 'PUT') {
+    if (!hasRole(user, 'contributor')) {
+      return user ? fail(403, 'This action requires the contributor role') : fail(401, 'Sign in to make changes');
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return fail(400, 'Request body must be a JSON object');
+    const { key, kind, value, ttlMs } = body;
+    if (!isValidKey(key)) return fail(400, `key is required (max ${MAX_KEY_LENGTH} characters)`);
+    if (!KINDS.has(kind)) return fail(400, `kind must be one of: ${[...KINDS].join(', ')}`);
+    if (value === undefined) return fail(400, 'value is required');
+    if (Buffer.byteLength(JSON.stringify(value)) > MAX_VALUE_BYTES) return fail(413, 'value too large (max 256KB)');
+    if (!Number.isInteger(ttlMs) || ttlMs < 1) return fail(400, 'ttlMs must be a positive integer');
+
+    const entry = await writeEntry(key, kind, value, Math.min(ttlMs, MAX_TTL_MS));
+    return ok({ key, kind, expiresAt: entry.expiresAt });
+  }
+
+  return fail(405, 'Method not allowed');
+};
@@ -0,0 +1,146 @@
+// Authentication and roles, shared by the Express API server and Netlify functions.
+//
+// Users come from the AUTH_USERS environment variable (JSON array):
+//   AUTH_USERS='[{"username":"nick","password":"scrypt:<salt>:<hash>","role":"curator"}]'
+// Generate password hashes with `node scripts/hash-password.js <password>`.
+//
+// Sessions are stateless signed tokens (HMAC-SHA256 with AUTH_SECRET), so they work
+// across serverless invocations without a session store.
+
+import crypto from 'crypto';
+
+// Ordered from least to most privileged
+export const ROLES = ['viewer', 'contributor', 'curator'];
+
+const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const authError = (statusCode, message) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const getAuthSecret = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw authError(500, 'Authentication not configured (set AUTH_SECRET)');
+  return secret;
+};
+
+const loadUsers = () => {
+  const raw = process.env.AUTH_USERS;
+  if (!raw) return [];
+  try {
+    const users = JSON.parse(raw);
+    return Array.isArray(users) ? users.filter((u) => u && u.username && u.password && ROLES.includes(u.role)) : [];
+  } catch (error) {
+    console.error('Failed to parse AUTH_USERS:', error.message);
+    return [];
+  }
+};
+
+export const hashPassword = (password, salt = crypto.randomBytes(16).toString('hex')) => {
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+};
+
+const verifyPassword = (password, stored) => {
+  if (stored.startsWith('scrypt:')) {
+    const [, salt, hash] = stored.split(':');
+    // A malformed entry never matches (rather than failing the login with a 500)
+    if (!salt || !hash || !/^(?:[0-9a-f]{2})+$/i.test(hash)) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+  }
+  // Plain-text passwords only with an explicit opt-in (local development) - the Netlify functions
+  // don't set NODE_ENV, so it can't be what keeps them out of production
+  if (process.env.AUTH_ALLOW_PLAINTEXT !== 'true') return false;
+  const expected = Buffer.from(stored);
+  const actual = Buffer.from(password);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const sign = (payload) => crypto.createHmac('sha256', getAuthSecret()).update(payload).digest('base64url');
+
+export const createToken = (user) => {
+  const payload = Buffer.from(JSON.stringify({
+    sub: user.username,
+    role: user.role,
+    exp: Date.now() + TOKEN_TTL_MS,
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// Returns { username, role } for a valid token, or null
+export const verifyToken = (token) => {
+  if (!token || typeof token !== 'string') return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { sub, role, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!sub || !ROLES.includes(role) || typeof exp !== 'number' || exp < Date.now()) return null;
+    return { username: sub, role };
+  } catch {
+    return null;
+  }
+};
+
+// Resolve the caller from an `Authorization: Bearer <token>` header (null = anonymous)
+export const getUserFromAuthHeader = (header) => {
+  if (!header || typeof header !== 'string' || !header.startsWith('Bearer ')) return null;
+  if (!process.env.AUTH_SECRET) return null;
+  return verifyToken(header.slice('Bearer '.length).trim());
+};
+
+export const hasRole = (user, role) => {
+  const userRank = user ? ROLES.indexOf(user.role) : 0; // Anonymous callers are viewers
+  return userRank >= ROLES.indexOf(role);
+};
+
+export const authenticate = (username, password) => {
+  if (typeof username !== 'string' || typeof password !== 'string') return null;
+  const user = loadUsers().find((u) => u.username.toLowerCase() === username.trim().toLowerCase());
+  if (!user || !verifyPassword(password, user.password)) return null;
+  return { username: user.username, role: user.role };
+};
+
+/**
+ * Handle a /api/auth request.
+ *   POST /login  { username, password } -> { token, user }
+ *   GET  /me                            -> { user } (user is null when anonymous)
+ *   GET  /users                         -> { users } usernames and roles, for @-mentions (contributors+)
+ */
+export const handleAuthRequest = async ({ method, path = '', body, authorization }) => {
+  const route = path.replace(/\/$/, '');
+
+  if (route === '/login') {
+    if (method !== 'POST') return { statusCode: 405, body: { error: 'Method not allowed' } };
+    getAuthSecret(); // Fail loudly if auth isn't configured
+    const user = authenticate(body?.username, body?.password);
+    if (!user) return { statusCode: 401, body: { error: 'Invalid username or password' } };
+    console.log(`🔐 ${user.username} signed in as ${user.role}`);
+    return { statusCode: 200, body: { token: createToken(user), user } };
+  }
+
+  if (route === '/me') {
+    if (method !== 'GET') return { statusCode: 405, body: { error: 'Method not allowed' } };
+    return { statusCode: 200, body: { user: getUserFromAuthHeader(authorization) } };
+  }
+
+  if (route === '/users') {
+    if (method !== 'GET') return { statusCode: 405, body: { error: 'Method not allowed' } };
+    const caller = getUserFromAuthHeader(authorization);
+    if (!hasRole(caller, 'contributor')) {
+      return { statusCode: caller ? 403 : 401, body: { error: 'Sign in as a contributor to list collaborators' } };
+    }
+    const users = loadUsers().map(({ username, role }) => ({ username, role }));
+    return { statusCode: 200, body: { users } };
+  }
+
+  return { statusCode: 404, body: { error: 'Not found' } };
+};
@@ -0,0 +1,251 @@
+// Server-side Baserow access shared by the Express API server and Netlify functions.
+// The token is read from the server environment only and never sent to the browser.
+
+const BASEROW_API_BASE = 'https://api.baserow.io/api/database/rows/table';
+const BASEROW_UPLOAD_URL = 'https://api.baserow.io/api/user-files/upload-file/';
+const PAGE_SIZE = 200;
+
+export const getBaserowConfig = () => {
+  const tableId =
+    process.env.BASEROW_TABLE_ID ||
+    process.env.VITE_BASEROW_TABLE_ID ||
+    process.env.REACT_APP_BASEROW_TABLE_ID ||
+    '772747';
+  // Deliberately no VITE_ fallback: Vite inlines every VITE_* variable into the client bundle
+  const token =
+    process.env.BASEROW_API_TOKEN ||
+    process.env.BASEROW_TOKEN ||
+    process.env.REACT_APP_BASEROW_API_TOKEN;
+  return { tableId, token };
+};
+
+const requireToken = () => {
+  const { tableId, token } = getBaserowConfig();
+  if (!token) {
+    const error = new Error('Baserow API token not configured (set BASEROW_API_TOKEN)');
+    error.statusCode = 500;
+    throw error;
+  }
+  return { tableId, token };
+};
+
+const authHeaders = (token) => ({
+  Authorization: `Token ${token}`,
+  'Content-Type': 'application/json',
+});
+
+// Surface Baserow failures with Baserow's own status for 4xx (e.g. 404 on a missing row), 502 otherwise
+const ensureOk = async (response) => {
+  if (response.ok) return;
+  const errorText = await response.text();
+  const error = new Error(`Baserow API error: ${response.status} - ${errorText}`);
+  error.statusCode = response.status >= 400 && response.status < 500 ? response.status : 502;
+  throw error;
+};
+
+// Fetch every row in the table (including hidden rows - callers decide what to filter)
+export const fetchAllRows = async () => {
+  const { tableId, token } = requireToken();
+  const rows = [];
+  let page = 1;
+
+  while (true) {
+    const response = await fetch(
+      `${BASEROW_API_BASE}/${tableId}/?user_field_names=true&page=${page}&size=${PAGE_SIZE}`,
+      {
+        headers: {
+          Authorization: `Token ${token}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = new Error(`Baserow API error: ${response.status}`);
+      error.statusCode = 502;
+      throw error;
+    }
+
+    const data = await response.json();
+    rows.push(...data.results);
+
+    if (!data.next) break; // no more pages
+    page += 1;
+  }
+
+  return rows;
+};
+
+// Fetch one page of rows (the frontend pages through these for progressive loading)
+export const fetchRowsPage = async (page = 1, size = PAGE_SIZE) => {
+  const { tableId, token } = requireToken();
+  const response = await fetch(
+    `${BASEROW_API_BASE}/${tableId}/?user_field_names=true&page=${page}&size=${size}`,
+    { headers: authHeaders(token) }
+  );
+  await ensureOk(response);
+  return response.json();
+};
+
+export const fetchRow = async (rowId) => {
+  const { tableId, token } = requireToken();
+  const response = await fetch(`${BASEROW_API_BASE}/${tableId}/${rowId}/?user_field_names=true`, {
+    headers: authHeaders(token),
+  });
+  await ensureOk(response);
+  return response.json();
+};
+
+export const searchRowsByName = async (name) => {
+  const { tableId, token } = requireToken();
+  const response = await fetch(
+    `${BASEROW_API_BASE}/${tableId}/?user_field_names=true&filter__name=${encodeURIComponent(name)}`,
+    { headers: authHeaders(token) }
+  );
+  await ensureOk(response);
+  const data = await response.json();
+  return data.results || [];
+};
+
+export const createRow = async (fields) => {
+  const { tableId, token } = requireToken();
+  const response = await fetch(`${BASEROW_API_BASE}/${tableId}/?user_field_names=true`, {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify(fields),
+  });
+  await ensureOk(response);
+  return response.json();
+};
+
+export const updateRow = async (rowId, fields) => {
+  const { tableId, token } = requireToken();
+  const response = await fetch(`${BASEROW_API_BASE}/${tableId}/${rowId}/?user_field_names=true`, {
+    method: 'PATCH',
+    headers: authHeaders(token),
+    body: JSON.stringify(fields),
+  });
+  await ensureOk(response);
+  return response.json();
+};
+
+export const deleteRow = async (rowId) => {
+  const { tableId, token } = requireToken();
+  const response = await fetch(`${BASEROW_API_BASE}/${tableId}/${rowId}/`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  });
+  await ensureOk(response);
+};
+
+// Upload a file to Baserow user files (returns Baserow's file object)
+export const uploadFile = async (buffer, fileName, mimeType) => {
+  const { token } = requireToken();
+  const formData = new FormData();
+  formData.append('file', new Blob([buffer], { type: mimeType || 'application/octet-stream' }), fileName);
+
+  const response = await fetch(BASEROW_UPLOAD_URL, {
+    method: 'POST',
+    headers: { Authorization: `Token ${token}` },
+    body: formData,
+  });
+  await ensureOk(response);
+  return response.json();
+};
+
+// Create a row in another table (e.g. the revisions table)
+export const createRowInTable = async (tableId, fields) => {
+  const { token } = requireToken();
+  const response = await fetch(`${BASEROW_API_BASE}/${tableId}/?user_field_names=true`, {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify(fields),
+  });
+  await ensureOk(response);
+  return response.json();
+};
+
+// Fetch every row in another table matching Baserow filters, e.g. { filter__row_id__equal: 12 }
+export const fetchFilteredRows = async (tableId, filters = {}) => {
+  const { token } = requireToken();
+  const query = new URLSearchParams(Object.entries(filters).map(([key, value]) => [key, String(value)]));
+  const rows = [];
+  let page = 1;
+
+  while (true) {
+    const response = await fetch(
+      `${BASEROW_API_BASE}/${tableId}/?user_field_names=true&page=${page}&size=${PAGE_SIZE}&${query}`,
+      { headers: authHeaders(token) }
+    );
+    await ensureOk(response);
+    const data = await response.json();
+    rows.push(...data.results);
+
+    if (!data.next) break; // no more pages
+    page += 1;
+  }
+
+  return rows;
+};
+
+export const fetchRowInTable = async (tableId, rowId) => {
+  const { token } = requireToken();
+  const response = await fetch(`${BASEROW_API_BASE}/${tableId}/${rowId}/?user_field_names=true`, {
+    headers: authHeaders(token),
+  });
+  await ensureOk(response);
+  return response.json();
+};
+
+export const updateRowInTable = async (tableId, rowId, fields) => {
+  const { token } = requireToken();
+  const response = await fetch(`${BASEROW_API_BASE}/${tableId}/${rowId}/?user_field_names=true`, {
+    method: 'PATCH',
+    headers: authHeaders(token),
+    body: JSON.stringify(fields),
+  });
+  await ensureOk(response);
+  return response.json();
+};
+
+// Name of the building table's "Last modified" field, used as the delta-sync watermark
+export const UPDATED_ON_FIELD = 'updated_on';
+
+// Rows (including hidden ones) modified at or after `since` (ISO timestamp), newest first.
+// Pages through the table ordered by the last-modified field and stops at the first older row,
+// so a sync only costs as many requests as there are changed rows.
+export const fetchRowsUpdatedSince = async (since) => {
+  const { tableId, token } = requireToken();
+  const sinceTime = new Date(since).getTime();
+  const rows = [];
+  let page = 1;
+
+  while (true) {
+    const response = await fetch(
+      `${BASEROW_API_BASE}/${tableId}/?user_field_names=true&page=${page}&size=${PAGE_SIZE}&order_by=-${UPDATED_ON_FIELD}`,
+      { headers: authHeaders(token) }
+    );
+    await ensureOk(response);
+    const data = await response.json();
+
+    if (page === 1 && data.results.length > 0 && !(UPDATED_ON_FIELD in data.results[0])) {
+      const error = new Error(`Delta sync needs a "Last modified" field named ${UPDATED_ON_FIELD} in the buildings table`);
+      error.statusCode = 501;
+      throw error;
+    }
+
+    let reachedOlderRows = false;
+    for (const row of data.results) {
+      if (new Date(row[UPDATED_ON_FIELD]).getTime() < sinceTime) {
+        reachedOlderRows = true;
+        break;
+      }
+      rows.push(row);
+    }
+
+    if (reachedOlderRows || !data.next) break;
+    page += 1;
+  }
+
+  return rows;
+};
@@ -0,0 +1,176 @@
+// Cached, grid-indexed copy of the buildings table for geo queries.
+// Rows are bucketed into fixed-size lat/lng cells so radius, bounding-box and
+// nearest-N lookups only touch the cells that can contain a match.
+
+import { fetchAllRows } from './baserow.js';
+
+const CELL_SIZE_DEG = 0.25; // ~28km of latitude per cell
+const LNG_CELLS = Math.round(360 / CELL_SIZE_DEG);
+const METERS_PER_DEG_LAT = 111000;
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Haversine distance in meters
+export const getDistance = (lat1, lng1, lat2, lng2) => {
+  const R = 6371e3; // Earth radius in meters
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+};
+
+const latCell = (lat) => Math.floor((lat + 90) / CELL_SIZE_DEG);
+// Wrap longitude cells so queries across the antimeridian still line up
+const lngCell = (lng) => ((Math.floor((lng + 180) / CELL_SIZE_DEG) % LNG_CELLS) + LNG_CELLS) % LNG_CELLS;
+const cellKey = (latIdx, lngIdx) => `${latIdx}:${lngIdx}`;
+
+const parseRowCoordinates = (row) => {
+  const lat = parseFloat(row.lat || '');
+  const lng = parseFloat(row.lng || '');
+  if (isNaN(lat) || isNaN(lng) || (lat === 0 && lng === 0)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return { lat, lng };
+};
+
+export const createBuildingIndex = (rows) => {
+  const cells = new Map();
+  let size = 0;
+
+  rows.forEach((row) => {
+    const coords = parseRowCoordinates(row);
+    if (!coords) return;
+    const key = cellKey(latCell(coords.lat), lngCell(coords.lng));
+    if (!cells.has(key)) cells.set(key, []);
+    cells.get(key).push({ row, lat: coords.lat, lng: coords.lng });
+    size += 1;
+  });
+
+  // Collect entries from every cell overlapping the lat/lng ranges.
+  // When the range spans more cells than are occupied, walk the occupied cells instead.
+  const collect = (south, north, west, east) => {
+    const minLat = latCell(Math.max(-90, south));
+    const maxLat = latCell(Math.min(90, north));
+    const crossesAntimeridian = west > east;
+    const lngSpan = crossesAntimeridian ? (180 - west) + (east + 180) : east - west;
+    const lngCellSpan = Math.min(LNG_CELLS, Math.ceil(lngSpan / CELL_SIZE_DEG) + 1);
+    const candidates = [];
+
+    if ((maxLat - minLat + 1) * lngCellSpan > cells.size) {
+      cells.forEach((entries) => candidates.push(...entries));
+      return candidates;
+    }
+
+    const firstLng = lngCell(west);
+    for (let latIdx = minLat; latIdx <= maxLat; latIdx++) {
+      for (let offset = 0; offset < lngCellSpan; offset++) {
+        const entries = cells.get(cellKey(latIdx, (firstLng + offset) % LNG_CELLS));
+        if (entries) candidates.push(...entries);
+      }
+    }
+    return candidates;
+  };
+
+  const visible = (entry, includeHidden) => includeHidden || !entry.row.is_hidden;
+
+  const inBounds = (entry, { north, south, east, west }) => {
+    if (entry.lat < south || entry.lat > north) return false;
+    return west <= east
+      ? entry.lng >= west && entry.lng <= east
+      : entry.lng >= west || entry.lng <= east;
+  };
+
+  const withinRadius = (lat, lng, radiusMeters, includeHidden) => {
+    const latRange = radiusMeters / METERS_PER_DEG_LAT;
+    const cosLat = Math.cos((lat * Math.PI) / 180);
+    // Near the poles a radius can cover every longitude
+    const lngRange = cosLat > 0.01 ? radiusMeters / (METERS_PER_DEG_LAT * cosLat) : 180;
+    const west = lngRange >= 180 ? -180 : ((lng - lngRange + 540) % 360) - 180;
+    const east = lngRange >= 180 ? 180 : ((lng + lngRange + 540) % 360) - 180;
+
+    return collect(lat - latRange, lat + latRange, west, east)
+      .filter((entry) => visible(entry, includeHidden))
+      .map((entry) => ({ entry, distance: getDistance(lat, lng, entry.lat, entry.lng) }))
+      .filter((match) => match.distance <= radiusMeters)
+      .sort((a, b) => a.distance - b.distance);
+  };
+
+  return {
+    size,
+
+    // All rows within radiusMeters of a point, nearest first
+    queryRadius(lat, lng, radiusMeters, { includeHidden = false } = {}) {
+      return withinRadius(lat, lng, radiusMeters, includeHidden).map((match) => match.entry.row);
+    },
+
+    // All rows inside a bounding box (west > east means the box crosses the antimeridian)
+    queryBounds(bounds, { includeHidden = false } = {}) {
+      return collect(bounds.south, bounds.north, bounds.west, bounds.east)
+        .filter((entry) => visible(entry, includeHidden) && inBounds(entry, bounds))
+        .map((entry) => entry.row);
+    },
+
+    // The N nearest rows, optionally capped at maxRadiusMeters.
+    // Grows the search radius until it holds N rows, so only nearby cells are scanned.
+    queryNearest(lat, lng, limit, { includeHidden = false, maxRadiusMeters = 20037508 } = {}) {
+      let radius = Math.min(10000, maxRadiusMeters);
+      while (true) {
+        const matches = withinRadius(lat, lng, radius, includeHidden);
+        if (matches.length >= limit || radius >= maxRadiusMeters) {
+          return matches.slice(0, limit).map((match) => match.entry.row);
+        }
+        radius = Math.min(radius * 2, maxRadiusMeters);
+      }
+    },
+  };
+};
+
+let cached = null; // { index, loadedAt }
+let refreshing = null;
+
+const getCacheTtl = () => {
+  const configured = parseInt(process.env.BUILDINGS_CACHE_TTL_MS || '', 10);
+  return isNaN(configured) ? DEFAULT_CACHE_TTL_MS : configured;
+};
+
+const refreshIndex = async () => {
+  if (!refreshing) {
+    refreshing = fetchAllRows()
+      .then((rows) => {
+        cached = { index: createBuildingIndex(rows), loadedAt: Date.now() };
+        console.log(`🗺️ Building index refreshed: ${cached.index.size} rows`);
+        return cached;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+// Get the cached index, reloading it from Baserow once the TTL has passed.
+// If a reload fails, keep serving the stale copy rather than failing the query.
+export const getBuildingIndex = async () => {
+  if (cached && Date.now() - cached.loadedAt < getCacheTtl()) {
+    return cached;
+  }
+  try {
+    return await refreshIndex();
+  } catch (error) {
+    if (cached) {
+      console.warn('Building index refresh failed, serving stale copy:', error.message);
+      return cached;
+    }
+    throw error;
+  }
+};
+
+// Drop the cached copy so the next query reloads from Baserow
+export const invalidateBuildingIndex = () => {
+  cached = null;
+};
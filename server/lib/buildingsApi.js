@@ -0,0 +1,290 @@
+// Baserow proxy for /api/buildings, shared by Express and Netlify.
+// The browser never sees the Baserow token - every read and write goes through here.
+//
+// Routes (path is relative to /api/buildings):
+//   GET    /                 - one page of rows (?page=&size=)
+//   GET    /search?name=     - rows whose name contains `name`
+//   GET    /changes?since=   - delta sync: rows modified since an ISO timestamp (hidden ones
+//                              included) plus ids of rows deleted since then
+//   GET    /:id              - a single row
+//   POST   /                 - create a row
+//   PATCH  /:id              - update a row
+//   DELETE /:id              - delete a row
+//   POST   /upload?name=     - upload a file (raw request body) to Baserow user files
+//   POST   /images?name=     - upload a photo (raw request body) as responsive variants (see imagePipeline.js)
+//   GET    /:id/revisions    - revision history for a row, newest first
+//   POST   /:id/revisions/:revisionId/restore - put a row back to an earlier revision
+//   GET    /deleted          - deleted rows that can still be restored
+//   POST   /deleted/:revisionId/restore       - recreate a deleted row from its last snapshot
+//
+// Roles (see server/lib/auth.js): anyone can read, contributors can create/edit rows,
+// upload files and browse history, curators can also hide (is_hidden), delete and restore rows.
+//
+// Every write is recorded in the revisions table (see server/lib/revisions.js).
+
+import {
+  fetchRowsPage,
+  fetchRowsUpdatedSince,
+  fetchRow,
+  searchRowsByName,
+  createRow,
+  updateRow,
+  deleteRow,
+  uploadFile,
+} from './baserow.js';
+import { invalidateBuildingIndex } from './buildingIndex.js';
+import { hasRole } from './auth.js';
+import { keylessImageFields } from '../../utils/placesPhoto.js';
+import {
+  recordRevision,
+  classifyUpdate,
+  diffRows,
+  toSnapshot,
+  listRevisions,
+  getRevision,
+  listDeletedRevisions,
+  findRestoreOf,
+  listDeletedRowIdsSince,
+} from './revisions.js';
+
+const MAX_PAGE_SIZE = 200;
+// Netlify caps a function's request body at 6MB and binary bodies arrive base64-encoded, which
+// leaves about 4.5MB of file - the browser shrinks photos to 2400px before sending them
+const MAX_UPLOAD_BYTES = 4 * 1024 * 1024; // 4MB
+
+// Fields the frontend is allowed to write (mirrors BaserowRow in services/buildingRepository.ts)
+const WRITABLE_FIELDS = new Set([
+  'name', 'city', 'country', 'lat', 'lng', 'google_place_id', 'Gmaps_url', 'image_url',
+  'image_1', 'image_2', 'image_3', 'images', 'notes', 'style', 'architect', 'location',
+  'is_prioritized', 'is_hidden', 'is_purple_heart', 'source', 'favourites', 'prompt_version',
+]);
+
+const ok = (body, statusCode = 200) => ({ statusCode, body });
+const fail = (statusCode, message) => ({ statusCode, body: { error: message } });
+
+// 401 for anonymous callers, 403 for signed-in users without the role; null when allowed
+const requireRole = (user, role) => {
+  if (hasRole(user, role)) return null;
+  return user
+    ? fail(403, `This action requires the ${role} role`)
+    : fail(401, 'Sign in to make changes');
+};
+
+const parseRowId = (value) => {
+  const rowId = Number(value);
+  return Number.isInteger(rowId) && rowId > 0 ? rowId : null;
+};
+
+// Drop anything that isn't a known column so the proxy can't be used to write arbitrary fields.
+// Google Places photo URLs carrying the Maps API key are stored as keyless proxy URLs instead.
+const pickWritableFields = (body) => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null;
+  const fields = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (WRITABLE_FIELDS.has(key)) fields[key] = value;
+  }
+  return { ...fields, ...keylessImageFields(fields) };
+};
+
+// Turn a revision snapshot back into writable fields. File fields are re-linked by their
+// Baserow file name - the files themselves are never deleted, so old snapshots stay valid.
+const snapshotToFields = (snapshot) => {
+  const fields = pickWritableFields(snapshot) || {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      fields[key] = value
+        .filter((file) => file && file.name)
+        .map((file) => ({ name: file.name, visible_name: file.visible_name }));
+    }
+  }
+  return fields;
+};
+
+const handleRevisionsRequest = async ({ method, rowId, segments, user }) => {
+  // GET /:id/revisions
+  if (segments.length === 0) {
+    if (method !== 'GET') return fail(405, 'Method not allowed');
+    const denied = requireRole(user, 'contributor');
+    if (denied) return denied;
+    return ok({ results: await listRevisions(rowId) });
+  }
+
+  // POST /:id/revisions/:revisionId/restore
+  const revisionId = parseRowId(segments[0]);
+  if (!revisionId || segments.length !== 2 || segments[1] !== 'restore') return fail(404, 'Not found');
+  if (method !== 'POST') return fail(405, 'Method not allowed');
+  const denied = requireRole(user, 'curator');
+  if (denied) return denied;
+
+  const revision = await getRevision(revisionId);
+  if (revision.rowId !== rowId) return fail(404, `Revision ${revisionId} does not belong to row ${rowId}`);
+  if (revision.action === 'delete') return fail(400, 'Use /deleted/:revisionId/restore to restore a deleted row');
+  if (revision.action === 'comment') return fail(400, 'Comment revisions record a comment, not a version of the building');
+
+  const before = await fetchRow(rowId);
+  const fields = snapshotToFields(revision.snapshot);
+  // Clear fields that were added after the revision so the row really matches it
+  for (const key of Object.keys(diffRows(toSnapshot(before), revision.snapshot))) {
+    if (!(key in fields) && WRITABLE_FIELDS.has(key)) fields[key] = Array.isArray(before[key]) ? [] : null;
+  }
+
+  const row = await updateRow(rowId, fields);
+  invalidateBuildingIndex();
+  await recordRevision({ rowId, action: 'restore', user, before, after: row });
+  return ok(row);
+};
+
+const handleDeletedRequest = async ({ method, segments, user }) => {
+  const denied = requireRole(user, 'curator');
+  if (denied) return denied;
+
+  // GET /deleted
+  if (segments.length === 0) {
+    if (method !== 'GET') return fail(405, 'Method not allowed');
+    return ok({ results: await listDeletedRevisions() });
+  }
+
+  // POST /deleted/:revisionId/restore
+  const revisionId = parseRowId(segments[0]);
+  if (!revisionId || segments.length !== 2 || segments[1] !== 'restore') return fail(404, 'Not found');
+  if (method !== 'POST') return fail(405, 'Method not allowed');
+
+  const revision = await getRevision(revisionId);
+  if (revision.action !== 'delete') return fail(400, `Revision ${revisionId} is not a deletion`);
+  const restore = await findRestoreOf(revisionId);
+  if (restore) return fail(409, `Revision ${revisionId} was already restored as row ${restore.rowId}`);
+
+  // Baserow doesn't reuse ids, so the restored building comes back as a new row
+  const row = await createRow(snapshotToFields(revision.snapshot));
+  invalidateBuildingIndex();
+  await recordRevision({ rowId: row.id, action: 'restore', user, before: null, after: row, restoredFrom: revisionId });
+  return ok(row, 201);
+};
+
+/**
+ * Handle a /api/buildings request.
+ * @param {{ method: string, path: string, query: object, body: any, contentType?: string, user?: object | null }} request
+ *   `path` is the part after /api/buildings (e.g. '', '/123', '/search').
+ *   `body` is parsed JSON for row writes and a Buffer for uploads.
+ *   `user` is the caller resolved from the Authorization header (null when anonymous).
+ */
+export const handleBuildingsRequest = async ({ method, path = '', query = {}, body, contentType, user = null }) => {
+  const segments = path.split('/').filter(Boolean);
+
+  if (segments.length === 0) {
+    if (method === 'GET') {
+      const page = Number(query.page || 1);
+      const size = Number(query.size || MAX_PAGE_SIZE);
+      if (!Number.isInteger(page) || page < 1) return fail(400, 'page must be a positive integer');
+      if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+        return fail(400, `size must be between 1 and ${MAX_PAGE_SIZE}`);
+      }
+      return ok(await fetchRowsPage(page, size));
+    }
+    if (method === 'POST') {
+      const denied = requireRole(user, 'contributor');
+      if (denied) return denied;
+      const fields = pickWritableFields(body);
+      if (!fields) return fail(400, 'Request body must be a JSON object');
+      const row = await createRow(fields);
+      invalidateBuildingIndex();
+      await recordRevision({ rowId: row.id, action: 'create', user, before: null, after: row });
+      return ok(row, 201);
+    }
+    return fail(405, 'Method not allowed');
+  }
+
+  if (segments.length === 1 && segments[0] === 'search') {
+    if (method !== 'GET') return fail(405, 'Method not allowed');
+    const { name } = query;
+    if (!name || typeof name !== 'string' || name.length > 500) {
+      return fail(400, 'name parameter is required (max 500 characters)');
+    }
+    return ok({ results: await searchRowsByName(name) });
+  }
+
+  if (segments.length === 1 && segments[0] === 'changes') {
+    if (method !== 'GET') return fail(405, 'Method not allowed');
+    const { since } = query;
+    if (!since || typeof since !== 'string' || isNaN(new Date(since).getTime())) {
+      return fail(400, 'since parameter must be an ISO timestamp');
+    }
+    const [results, deletedIds] = await Promise.all([fetchRowsUpdatedSince(since), listDeletedRowIdsSince(since)]);
+    return ok({ results, deletedIds });
+  }
+
+  if (segments[0] === 'deleted') {
+    return handleDeletedRequest({ method, segments: segments.slice(1), user });
+  }
+
+  if (segments.length === 1 && segments[0] === 'upload') {
+    if (method !== 'POST') return fail(405, 'Method not allowed');
+    const denied = requireRole(user, 'contributor');
+    if (denied) return denied;
+    const fileName = typeof query.name === 'string' && query.name ? query.name.slice(0, 255) : 'upload';
+    if (!body || !Buffer.isBuffer(body) || body.length === 0) return fail(400, 'File body is required');
+    if (body.length > MAX_UPLOAD_BYTES) return fail(413, 'File too large (max 4MB)');
+    return ok(await uploadFile(body, fileName, contentType));
+  }
+
+  if (segments.length === 1 && segments[0] === 'images') {
+    if (method !== 'POST') return fail(405, 'Method not allowed');
+    const denied = requireRole(user, 'contributor');
+    if (denied) return denied;
+    const fileName = typeof query.name === 'string' && query.name ? query.name.slice(0, 255) : 'image';
+    if (!body || !Buffer.isBuffer(body) || body.length === 0) return fail(400, 'File body is required');
+    if (body.length > MAX_UPLOAD_BYTES) return fail(413, 'File too large (max 4MB)');
+    // Loaded on demand so a host without sharp's native binary still serves every other route;
+    // the frontend falls back to a plain /upload when this returns 501
+    let pipeline;
+    try {
+      pipeline = await import('./imagePipeline.js');
+    } catch (error) {
+      console.error('Image pipeline unavailable:', error.message);
+      return fail(501, 'Image processing is not available on this server');
+    }
+    return ok(await pipeline.processAndStoreImage(body, fileName));
+  }
+
+  if (segments.length === 1) {
+    const rowId = parseRowId(segments[0]);
+    if (!rowId) return fail(404, 'Not found');
+
+    if (method === 'GET') {
+      return ok(await fetchRow(rowId));
+    }
+    if (method === 'PATCH') {
+      const fields = pickWritableFields(body);
+      if (!fields) return fail(400, 'Request body must be a JSON object');
+      // Hiding a row is a soft delete, so it needs the same role as deleting
+      const denied = requireRole(user, 'is_hidden' in fields ? 'curator' : 'contributor');
+      if (denied) return denied;
+      const before = await fetchRow(rowId);
+      const row = await updateRow(rowId, fields);
+      invalidateBuildingIndex();
+      const changes = diffRows(toSnapshot(before), toSnapshot(row));
+      if (Object.keys(changes).length > 0) {
+        await recordRevision({ rowId, action: classifyUpdate(changes), user, before, after: row });
+      }
+      return ok(row);
+    }
+    if (method === 'DELETE') {
+      const denied = requireRole(user, 'curator');
+      if (denied) return denied;
+      const before = await fetchRow(rowId);
+      await deleteRow(rowId);
+      invalidateBuildingIndex();
+      await recordRevision({ rowId, action: 'delete', user, before, after: null });
+      return ok({ deleted: rowId });
+    }
+    return fail(405, 'Method not allowed');
+  }
+
+  if (segments[1] === 'revisions') {
+    const rowId = parseRowId(segments[0]);
+    if (!rowId) return fail(404, 'Not found');
+    return handleRevisionsRequest({ method, rowId, segments: segments.slice(2), user });
+  }
+
+  return fail(404, 'Not found');
+};
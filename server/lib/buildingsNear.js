@@ -0,0 +1,89 @@
+// Geo query handler for /api/buildings/near, shared by Express and Netlify.
+//
+// Query parameters:
+//   lat, lng            - search center (required for radius / nearest queries)
+//   radius              - radius in meters (default 50000)
+//   nearest             - return only the N nearest rows (optionally capped by radius)
+//   north,south,east,west - bounding box query (takes precedence over lat/lng)
+//   includeHidden=true  - include soft-deleted rows (used for duplicate checks)
+
+import { getBuildingIndex } from './buildingIndex.js';
+
+const DEFAULT_RADIUS = 50000; // 50km
+const MAX_RADIUS = 20037508; // Half the Earth's circumference
+const MAX_NEAREST = 500;
+
+const parseNumber = (value) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+const badRequest = (message) => ({ statusCode: 400, body: { error: message } });
+
+export const handleBuildingsNear = async (query = {}) => {
+  const includeHidden = query.includeHidden === 'true';
+  const lat = parseNumber(query.lat);
+  const lng = parseNumber(query.lng);
+  const radius = parseNumber(query.radius);
+  const nearest = parseNumber(query.nearest);
+  const bounds = {
+    north: parseNumber(query.north),
+    south: parseNumber(query.south),
+    east: parseNumber(query.east),
+    west: parseNumber(query.west),
+  };
+  const hasBounds = Object.values(bounds).some((value) => value !== undefined);
+
+  // Validate inputs before touching the index
+  if (hasBounds) {
+    if (Object.values(bounds).some((value) => value === undefined || isNaN(value))) {
+      return badRequest('north, south, east and west must all be valid numbers');
+    }
+    if (bounds.south > bounds.north || bounds.south < -90 || bounds.north > 90 ||
+        bounds.west < -180 || bounds.west > 180 || bounds.east < -180 || bounds.east > 180) {
+      return badRequest('Invalid bounding box');
+    }
+  } else {
+    if (lat === undefined || lng === undefined || isNaN(lat) || isNaN(lng)) {
+      return badRequest('lat and lng parameters are required');
+    }
+    if (lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      return badRequest('lat must be within [-90, 90] and lng within [-180, 180]');
+    }
+  }
+  if (radius !== undefined && (isNaN(radius) || radius <= 0 || radius > MAX_RADIUS)) {
+    return badRequest(`radius must be between 0 and ${MAX_RADIUS} meters`);
+  }
+  if (nearest !== undefined && (isNaN(nearest) || !Number.isInteger(nearest) || nearest < 1 || nearest > MAX_NEAREST)) {
+    return badRequest(`nearest must be an integer between 1 and ${MAX_NEAREST}`);
+  }
+
+  const { index, loadedAt } = await getBuildingIndex();
+  let mode;
+  let results;
+
+  if (hasBounds) {
+    mode = 'bounds';
+    results = index.queryBounds(bounds, { includeHidden });
+  } else if (nearest !== undefined) {
+    mode = 'nearest';
+    results = index.queryNearest(lat, lng, nearest, {
+      includeHidden,
+      maxRadiusMeters: radius ?? MAX_RADIUS,
+    });
+  } else {
+    mode = 'radius';
+    results = index.queryRadius(lat, lng, radius ?? DEFAULT_RADIUS, { includeHidden });
+  }
+
+  return {
+    statusCode: 200,
+    body: {
+      mode,
+      count: results.length,
+      cachedAt: new Date(loadedAt).toISOString(),
+      results,
+    },
+  };
+};
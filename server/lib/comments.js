@@ -0,0 +1,244 @@
+// Comment threads on buildings, shared by the Express API server and Netlify functions.
+//
+// Comments live in their own Baserow table (BASEROW_COMMENTS_TABLE_ID), one row per comment:
+//   building_id (number)    - building row the comment belongs to
+//   parent_id   (number)    - comment this replies to (empty for top-level comments)
+//   author      (text)      - username of the author ('legacy' for migrated comment_N fields)
+//   body        (long text) - comment HTML, always in the allow-listed format of utils/richText.js
+//   created_at  (text)      - ISO timestamp
+//   updated_at  (text)      - ISO timestamp of the last edit (empty if never edited)
+//   edits       (long text) - JSON array of earlier versions, oldest first:
+//                             [{ text, editedAt, editedBy }] (when / by whom that version was replaced)
+//   is_deleted  (boolean)   - soft delete; the row (text and edits included) stays so replies keep
+//                             their parent and the comment can be brought back - readers never see it
+//
+// Routes (path is relative to /api/comments):
+//   GET    /?building=ID  - every comment on a building, oldest first
+//   POST   /              - add a comment or reply { buildingId, parentId?, text }
+//   PATCH  /:id           - edit a comment { text } (previous text is kept in `edits`)
+//   DELETE /:id           - soft-delete a comment
+// Adding, editing and deleting a comment is recorded in the building's revision history
+// (server/lib/revisions.js) as a 'comment' revision.
+//   POST   /move          - move every comment from one building to another { from, to } (dedupe)
+//
+// Roles (see server/lib/auth.js): anyone can read, contributors can comment and edit or
+// delete their own comments, curators can edit or delete any comment and move threads.
+
+import { createRowInTable, fetchFilteredRows, fetchRowInTable, updateRowInTable } from './baserow.js';
+import { hasRole } from './auth.js';
+import { recordRevision } from './revisions.js';
+import { richTextToPlainText, sanitizeRichText } from '../../utils/richText.js';
+
+const MAX_COMMENT_LENGTH = 20000;
+
+const ok = (body, statusCode = 200) => ({ statusCode, body });
+const fail = (statusCode, message) => ({ statusCode, body: { error: message } });
+
+// 401 for anonymous callers, 403 for signed-in users without the role; null when allowed
+const requireRole = (user, role) => {
+  if (hasRole(user, role)) return null;
+  return user
+    ? fail(403, `This action requires the ${role} role`)
+    : fail(401, 'Sign in to comment');
+};
+
+export const getCommentsTableId = () => process.env.BASEROW_COMMENTS_TABLE_ID || null;
+
+const commentError = (statusCode, message) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const requireCommentsTable = () => {
+  const tableId = getCommentsTableId();
+  if (!tableId) throw commentError(501, 'Comments not configured (set BASEROW_COMMENTS_TABLE_ID)');
+  return tableId;
+};
+
+const parsePositiveInt = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const parseEdits = (value) => {
+  if (!value) return [];
+  try {
+    const edits = JSON.parse(value);
+    return Array.isArray(edits) ? edits : [];
+  } catch {
+    return [];
+  }
+};
+
+export const toComment = (row) => ({
+  id: row.id,
+  rowId: Number(row.building_id),
+  parentId: row.parent_id ? Number(row.parent_id) : undefined,
+  author: row.author || 'anonymous',
+  text: row.is_deleted ? '' : row.body || '',
+  createdAt: row.created_at,
+  updatedAt: row.updated_at || undefined,
+  edits: row.is_deleted ? [] : parseEdits(row.edits),
+  isDeleted: !!row.is_deleted,
+});
+
+// Sanitise client HTML into the comment format; { error } when nothing usable is left
+const toCommentBody = (text) => {
+  if (typeof text !== 'string') return { error: 'text is required' };
+  const html = sanitizeRichText(text);
+  if (!richTextToPlainText(html)) return { error: 'text is required' };
+  if (html.length > MAX_COMMENT_LENGTH) return { error: `text must be at most ${MAX_COMMENT_LENGTH} characters` };
+  return { html };
+};
+
+const getCommentRow = async (tableId, commentId) => {
+  try {
+    return await fetchRowInTable(tableId, commentId);
+  } catch (error) {
+    if (error.statusCode === 404) throw commentError(404, `Comment ${commentId} not found`);
+    throw error;
+  }
+};
+
+// Every comment on a building (including soft-deleted ones, so threads keep their shape), oldest first
+export const listComments = async (rowId) => {
+  const tableId = requireCommentsTable();
+  const rows = await fetchFilteredRows(tableId, { filter__building_id__equal: rowId });
+  return rows.map(toComment).sort((a, b) => a.id - b.id);
+};
+
+const createCommentRow = async ({ rowId, parentId, author, text, createdAt, updatedAt }) => {
+  const tableId = requireCommentsTable();
+  return createRowInTable(tableId, {
+    building_id: rowId,
+    ...(parentId ? { parent_id: parentId } : {}),
+    author,
+    body: sanitizeRichText(text),
+    created_at: createdAt || new Date().toISOString(),
+    ...(updatedAt ? { updated_at: updatedAt } : {}),
+    edits: '[]',
+    is_deleted: false,
+  });
+};
+
+/**
+ * Create a comment row directly (used by the comment_N migration script - not recorded as a revision).
+ * @param {{ rowId: number, parentId?: number, author: string, text: string, createdAt?: string, updatedAt?: string }} comment
+ */
+export const createComment = async (comment) => toComment(await createCommentRow(comment));
+
+// Comment changes go into the building's history as 'comment' revisions. Snapshots are the comment
+// row (with its id as comment_id), so earlier text and edits stay on record.
+const recordCommentRevision = (user, before, after) => {
+  const asSnapshot = (row) => (row ? { ...row, comment_id: row.id } : null);
+  return recordRevision({
+    rowId: Number((after || before).building_id),
+    action: 'comment',
+    user,
+    before: asSnapshot(before),
+    after: asSnapshot(after),
+  });
+};
+
+// Reassign every comment on one building to another (replies keep their parents)
+export const moveComments = async (fromRowId, toRowId) => {
+  const tableId = requireCommentsTable();
+  const rows = await fetchFilteredRows(tableId, { filter__building_id__equal: fromRowId });
+  for (const row of rows) {
+    await updateRowInTable(tableId, row.id, { building_id: toRowId });
+  }
+  return rows.length;
+};
+
+const canModify = (user, comment) => hasRole(user, 'curator') || (!!user && user.username === comment.author);
+
+/**
+ * Handle a /api/comments request.
+ * @param {{ method: string, path: string, query: object, body: any, user?: object | null }} request
+ */
+export const handleCommentsRequest = async ({ method, path = '', query = {}, body, user = null }) => {
+  const segments = path.split('/').filter(Boolean);
+
+  if (segments.length === 0) {
+    if (method === 'GET') {
+      const rowId = parsePositiveInt(query.building);
+      if (!rowId) return fail(400, 'building parameter is required');
+      return ok({ results: await listComments(rowId) });
+    }
+    if (method === 'POST') {
+      const denied = requireRole(user, 'contributor');
+      if (denied) return denied;
+      const rowId = parsePositiveInt(body?.buildingId);
+      if (!rowId) return fail(400, 'buildingId is required');
+      const { html, error } = toCommentBody(body?.text);
+      if (error) return fail(400, error);
+
+      let parentId;
+      if (body.parentId !== undefined && body.parentId !== null) {
+        parentId = parsePositiveInt(body.parentId);
+        if (!parentId) return fail(400, 'parentId must be a comment id');
+        const parent = toComment(await getCommentRow(requireCommentsTable(), parentId));
+        if (parent.rowId !== rowId) return fail(400, `Comment ${parentId} belongs to another building`);
+      }
+
+      const row = await createCommentRow({ rowId, parentId, author: user.username, text: html });
+      await recordCommentRevision(user, null, row);
+      return ok(toComment(row), 201);
+    }
+    return fail(405, 'Method not allowed');
+  }
+
+  if (segments.length === 1 && segments[0] === 'move') {
+    if (method !== 'POST') return fail(405, 'Method not allowed');
+    const denied = requireRole(user, 'curator');
+    if (denied) return denied;
+    const from = parsePositiveInt(body?.from);
+    const to = parsePositiveInt(body?.to);
+    if (!from || !to || from === to) return fail(400, 'from and to must be two different building ids');
+    return ok({ moved: await moveComments(from, to) });
+  }
+
+  if (segments.length === 1) {
+    const commentId = parsePositiveInt(segments[0]);
+    if (!commentId) return fail(404, 'Not found');
+    const denied = requireRole(user, 'contributor');
+    if (denied) return denied;
+
+    const tableId = requireCommentsTable();
+    const row = await getCommentRow(tableId, commentId);
+    const comment = toComment(row);
+    if (comment.isDeleted) return fail(410, `Comment ${commentId} has been deleted`);
+    if (!canModify(user, comment)) return fail(403, 'Only the author or a curator can change this comment');
+
+    if (method === 'PATCH') {
+      const { html, error } = toCommentBody(body?.text);
+      if (error) return fail(400, error);
+      if (html === comment.text) return ok(comment);
+      const now = new Date().toISOString();
+      // Keep the version being replaced, with when and by whom it was replaced
+      const edits = [...comment.edits, { text: comment.text, editedAt: now, editedBy: user.username }];
+      const updated = await updateRowInTable(tableId, commentId, {
+        body: html,
+        updated_at: now,
+        edits: JSON.stringify(edits),
+      });
+      await recordCommentRevision(user, row, updated);
+      return ok(toComment(updated));
+    }
+
+    if (method === 'DELETE') {
+      // Only flag the row: replies still hang off it, and the text and edits are kept for curators
+      const updated = await updateRowInTable(tableId, commentId, {
+        is_deleted: true,
+        updated_at: new Date().toISOString(),
+      });
+      await recordCommentRevision(user, row, updated);
+      return ok(toComment(updated));
+    }
+
+    return fail(405, 'Method not allowed');
+  }
+
+  return fail(404, 'Not found');
+};
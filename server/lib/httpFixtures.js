@@ -0,0 +1,125 @@
+// Record-and-replay for outgoing HTTP calls to Google (Places, Places photos, Gemini).
+// With HTTP_FIXTURES=record every call to a fixture host is made for real and its response saved
+// under HTTP_FIXTURES_DIR; with HTTP_FIXTURES=replay the saved response is served instead and
+// nothing goes out, so flows that need Places or Gemini run the same way every time without
+// network or keys. Used by the API server and, via scripts/http-fixtures.js, by the Node scripts.
+//
+// Environment:
+//   HTTP_FIXTURES        - 'record' or 'replay' (anything else: off, calls go straight through)
+//   HTTP_FIXTURES_DIR    - where recordings live (default fixtures/http)
+//   HTTP_FIXTURES_HOSTS  - extra hosts to record/replay, comma-separated (e.g. api.baserow.io for scripts)
+//
+// A request is identified by its method, URL (without the API key, parameters sorted) and body, so
+// the same call with a different key replays the same response. Keys and headers are never saved.
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+const FIXTURE_HOSTS = ['maps.googleapis.com', 'generativelanguage.googleapis.com'];
+// Query parameters that carry credentials - dropped from the saved URL and the request's identity
+const SECRET_PARAMS = ['key'];
+
+export const getHttpFixtureMode = () => {
+  const mode = (process.env.HTTP_FIXTURES || '').toLowerCase().trim();
+  return mode === 'record' || mode === 'replay' ? mode : null;
+};
+
+// Replayed calls never reach Google, so the proxies don't need a real key for them
+export const isReplayingHttp = () => getHttpFixtureMode() === 'replay';
+
+const getFixtureDir = () => path.resolve(process.env.HTTP_FIXTURES_DIR || 'fixtures/http');
+
+const getFixtureHosts = () => [
+  ...FIXTURE_HOSTS,
+  ...(process.env.HTTP_FIXTURES_HOSTS || '').split(',').map((host) => host.trim()).filter(Boolean),
+];
+
+const withoutSecrets = (url) => {
+  const clean = new URL(url);
+  SECRET_PARAMS.forEach((param) => clean.searchParams.delete(param));
+  clean.searchParams.sort();
+  return clean;
+};
+
+// Readable file name for a request: host/<endpoint>-<hash of method, URL and body>.json,
+// e.g. maps.googleapis.com/details-1d189b271fbd11f1.json (Places paths end in /json, which is skipped)
+const fixturePath = (method, url, body) => {
+  const hash = createHash('sha256').update(`${method} ${url.href}\n`).update(body || '').digest('hex').slice(0, 16);
+  const segments = url.pathname.split('/').filter((segment) => segment && segment !== 'json');
+  const name = (segments.pop() || 'index').replace(/[^a-zA-Z0-9._-]+/g, '_').slice(0, 60);
+  return path.join(getFixtureDir(), url.host, `${name}-${hash}.json`);
+};
+
+const toBodyText = (body) => {
+  if (body === undefined || body === null) return '';
+  if (typeof body === 'string') return body;
+  if (body instanceof Uint8Array) return Buffer.from(body).toString('base64');
+  return null; // Streams, FormData etc. can't be compared - such calls aren't recorded
+};
+
+const isTextType = (contentType) => /^(text\/|application\/(json|javascript|xml))/i.test(contentType || '');
+
+const saveFixture = async (file, request, response) => {
+  const contentType = response.headers.get('content-type') || '';
+  const bytes = Buffer.from(await response.arrayBuffer());
+  const fixture = {
+    request,
+    response: {
+      status: response.status,
+      contentType,
+      ...(isTextType(contentType) ? { body: bytes.toString('utf8') } : { bodyBase64: bytes.toString('base64') }),
+    },
+    recordedAt: new Date().toISOString(),
+  };
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  return new Response(bytes, { status: response.status, headers: { 'Content-Type': contentType } });
+};
+
+const loadFixture = (file) => {
+  const { response } = JSON.parse(readFileSync(file, 'utf8'));
+  const body = response.bodyBase64 !== undefined ? Buffer.from(response.bodyBase64, 'base64') : response.body;
+  return new Response(body, { status: response.status, headers: { 'Content-Type': response.contentType } });
+};
+
+/**
+ * Wrap the global fetch so calls to fixture hosts are recorded or replayed (per HTTP_FIXTURES,
+ * read on every call so scripts that load .env.local afterwards still pick it up).
+ * Safe to call more than once.
+ */
+export const installHttpFixtures = () => {
+  if (globalThis.fetch.httpFixtures) return;
+  const realFetch = globalThis.fetch;
+
+  const fixtureFetch = async (input, init = {}) => {
+    const mode = getHttpFixtureMode();
+    const rawUrl = input instanceof Request ? input.url : String(input);
+    const host = new URL(rawUrl).host;
+    if (!mode || !getFixtureHosts().includes(host)) return realFetch(input, init);
+
+    const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const body = input instanceof Request ? await input.clone().text() : toBodyText(init.body);
+    if (body === null) return realFetch(input, init);
+
+    const url = withoutSecrets(rawUrl);
+    const file = fixturePath(method, url, body);
+
+    if (mode === 'replay') {
+      if (!existsSync(file)) {
+        throw new Error(`No recorded response for ${method} ${url.href} (run with HTTP_FIXTURES=record to capture it)`);
+      }
+      console.log(`📼 Replaying ${method} ${url.host}${url.pathname}`);
+      return loadFixture(file);
+    }
+
+    const response = await realFetch(input, init);
+    // Failures (quota, outages) aren't worth replaying - record again once the call succeeds
+    if (!response.ok) return response;
+    console.log(`🎙️ Recorded ${method} ${url.host}${url.pathname} → ${path.relative(process.cwd(), file)}`);
+    return saveFixture(file, { method, url: url.href, ...(body ? { body } : {}) }, response);
+  };
+
+  fixtureFetch.httpFixtures = true;
+  globalThis.fetch = fixtureFetch;
+};
@@ -0,0 +1,114 @@
+// Responsive image pipeline for building photo uploads (shared by server/api-server.js and the
+// buildings Netlify function). Each upload is resized to a few widths in AVIF, WebP and JPEG,
+// every variant is stored in Baserow user files, and the caller gets back a descriptor the
+// frontend can turn into <picture>/srcset markup - plus a tiny blurred placeholder to show
+// while the real image loads.
+
+import sharp from 'sharp';
+import { uploadFile } from './baserow.js';
+
+// Widths cover the details panel on phones and desktop, at 1x and 2x
+export const VARIANT_WIDTHS = [400, 800, 1600];
+const FORMATS = {
+  avif: { mimeType: 'image/avif', options: { quality: 50 } },
+  webp: { mimeType: 'image/webp', options: { quality: 75 } },
+  jpeg: { mimeType: 'image/jpeg', options: { quality: 80, mozjpeg: true } },
+};
+const PLACEHOLDER_WIDTH = 16;
+const UPLOAD_CONCURRENCY = 3;
+// Encoding (AVIF especially) is CPU-heavy - a function instance has about one core to spare
+const ENCODE_CONCURRENCY = 2;
+
+const baseName = (fileName) => fileName.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').slice(0, 80) || 'image';
+
+// Run async tasks a few at a time (Baserow rate-limits bursts of uploads, and encodes share the CPU)
+const runLimited = async (tasks, limit) => {
+  const results = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+};
+
+/**
+ * Resize one image into every width/format pair. Widths wider than the original are skipped
+ * (the original width is used instead when it's narrower than the smallest variant).
+ * @param {Buffer} buffer
+ * @returns {Promise<{ width: number, height: number, placeholder: string, variants: { format: string, width: number, mimeType: string, buffer: Buffer }[] }>}
+ */
+export const renderImageVariants = async (buffer) => {
+  // rotate() applies the EXIF orientation, so phone photos don't come out sideways
+  const source = sharp(buffer, { failOn: 'error' }).rotate();
+  const { width: rawWidth, height: rawHeight, orientation } = await source.metadata().catch(() => ({}));
+  if (!rawWidth || !rawHeight) {
+    const error = new Error('Not a readable image');
+    error.statusCode = 400;
+    throw error;
+  }
+  const sideways = orientation && orientation >= 5;
+  const width = sideways ? rawHeight : rawWidth;
+  const height = sideways ? rawWidth : rawHeight;
+
+  const widths = VARIANT_WIDTHS.filter((w) => w < width);
+  if (widths.length < VARIANT_WIDTHS.length) widths.push(Math.min(width, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]));
+
+  const variants = await runLimited(
+    widths.flatMap((variantWidth) =>
+      Object.entries(FORMATS).map(([format, { mimeType, options }]) => async () => ({
+        format,
+        width: variantWidth,
+        mimeType,
+        buffer: await source.clone().resize({ width: variantWidth }).toFormat(format, options).toBuffer(),
+      }))
+    ),
+    ENCODE_CONCURRENCY
+  );
+
+  const placeholderBuffer = await source.clone().resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer();
+
+  return {
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${placeholderBuffer.toString('base64')}`,
+    variants,
+  };
+};
+
+/**
+ * Process an upload and store every variant. The descriptor's `url` is the largest JPEG, which
+ * every browser can show, so code that only knows about plain URLs keeps working.
+ * @param {Buffer} buffer
+ * @param {string} fileName
+ */
+export const processAndStoreImage = async (buffer, fileName) => {
+  const started = Date.now();
+  const { width, height, placeholder, variants } = await renderImageVariants(buffer);
+  const name = baseName(fileName);
+
+  const stored = await runLimited(
+    variants.map((variant) => async () => {
+      const file = await uploadFile(variant.buffer, `${name}-${variant.width}.${variant.format === 'jpeg' ? 'jpg' : variant.format}`, variant.mimeType);
+      return { format: variant.format, width: variant.width, url: file.url, size: variant.buffer.length, storedName: file.name };
+    }),
+    UPLOAD_CONCURRENCY
+  );
+
+  const fallback = stored
+    .filter((variant) => variant.format === 'jpeg')
+    .reduce((largest, variant) => (variant.width > largest.width ? variant : largest));
+
+  console.log(`🖼️ Stored ${stored.length} variants of "${fileName}" (${width}x${height}) in ${Date.now() - started}ms`);
+  return {
+    url: fallback.url,
+    fileName: fallback.storedName, // Baserow's name for the file, like plain uploads
+    width,
+    height,
+    placeholder,
+    variants: stored.map(({ storedName, ...variant }) => variant),
+  };
+};
@@ -0,0 +1,115 @@
+// Google Places photo proxy for /api/places/photo, shared by Express and Netlify.
+// The browser only ever sees keyless URLs (see utils/placesPhoto.js); this adds the Maps API key,
+// fetches the photo and keeps recent ones in memory so repeat views don't cost a Places call.
+// Only fetches from Google count against the daily Places budget (server/lib/aiBudget.js).
+//
+// Query parameters:
+//   ref - the Places photo_reference (required)
+//   w   - wanted width in pixels (default 1200), rounded up to one of PHOTO_WIDTHS
+
+import { consumeAiBudget } from './aiBudget.js';
+import { isReplayingHttp } from './httpFixtures.js';
+
+const PHOTO_WIDTHS = [400, 800, 1200, 1600]; // 1600 is Google's maximum
+const PHOTO_REFERENCE_PATTERN = /^[A-Za-z0-9_-]{10,2000}$/;
+const MAX_CACHE_BYTES = 50 * 1024 * 1024; // 50MB
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// Browsers and the CDN can keep a photo for a week - the proxy URL for a reference never changes
+export const PLACES_PHOTO_CACHE_CONTROL = 'public, max-age=604800';
+
+// Insertion-ordered, so the first entry is always the least recently used
+const cache = new Map();
+let cacheBytes = 0;
+// Concurrent requests for the same photo share one upstream fetch
+const pending = new Map();
+
+const getGoogleMapsApiKey = () =>
+  process.env.VITE_GOOGLE_MAPS_API_KEY ||
+  process.env.GOOGLE_MAPS_API_KEY ||
+  process.env.REACT_APP_GOOGLE_MAPS_API_KEY ||
+  (isReplayingHttp() ? 'replay' : undefined); // Replayed photos never reach Google
+
+const fail = (statusCode, message) => ({ statusCode, body: { error: message } });
+
+const readCache = (key) => {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  cache.delete(key);
+  if (Date.now() - entry.fetchedAt > CACHE_TTL_MS) {
+    cacheBytes -= entry.body.length;
+    return null;
+  }
+  cache.set(key, entry);
+  return entry;
+};
+
+const writeCache = (key, entry) => {
+  if (entry.body.length > MAX_CACHE_BYTES) return;
+  cache.set(key, entry);
+  cacheBytes += entry.body.length;
+  for (const [oldKey, oldEntry] of cache) {
+    if (cacheBytes <= MAX_CACHE_BYTES) break;
+    cache.delete(oldKey);
+    cacheBytes -= oldEntry.body.length;
+  }
+};
+
+const fetchPhoto = async (reference, width, apiKey) => {
+  // Google answers with a redirect to the image itself, which fetch follows
+  const url = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=${width}&photo_reference=${encodeURIComponent(reference)}&key=${apiKey}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(15000) });
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.ok || !contentType.startsWith('image/')) {
+    const error = new Error(`Google Places photo request failed (${response.status})`);
+    // Expired or unknown references come back as 400/403/404
+    error.statusCode = response.status >= 400 && response.status < 500 ? 404 : 502;
+    throw error;
+  }
+  return { body: Buffer.from(await response.arrayBuffer()), contentType, fetchedAt: Date.now() };
+};
+
+/**
+ * Handle a /api/places/photo request.
+ * @returns {Promise<{ statusCode: number, body: Buffer | { error: string }, contentType?: string }>}
+ *   `body` is the image bytes when `contentType` is set, otherwise a JSON error.
+ */
+export const handlePlacesPhoto = async (query = {}) => {
+  const apiKey = getGoogleMapsApiKey();
+  if (!apiKey) return fail(500, 'Google Maps API key not configured');
+
+  const { ref } = query;
+  if (!ref || typeof ref !== 'string' || !PHOTO_REFERENCE_PATTERN.test(ref)) {
+    return fail(400, 'ref parameter must be a Places photo reference');
+  }
+  const requestedWidth = query.w === undefined || query.w === '' ? 1200 : Number(query.w);
+  if (!Number.isInteger(requestedWidth) || requestedWidth < 1) return fail(400, 'w must be a positive integer');
+  const width = PHOTO_WIDTHS.find((w) => w >= requestedWidth) || PHOTO_WIDTHS[PHOTO_WIDTHS.length - 1];
+
+  const key = `${width}:${ref}`;
+  const cached = readCache(key);
+  if (cached) return { statusCode: 200, body: cached.body, contentType: cached.contentType };
+
+  if (!pending.has(key)) {
+    const budget = await consumeAiBudget('places');
+    if (budget.statusCode !== 200) return budget;
+  }
+  // Another request may have started the same fetch while the budget was checked
+  if (!pending.has(key)) {
+    pending.set(
+      key,
+      fetchPhoto(ref, width, apiKey)
+        .then((entry) => {
+          writeCache(key, entry);
+          return entry;
+        })
+        .finally(() => pending.delete(key))
+    );
+  }
+  try {
+    const entry = await pending.get(key);
+    return { statusCode: 200, body: entry.body, contentType: entry.contentType };
+  } catch (error) {
+    if (error.statusCode === 404) return fail(404, 'Photo not found');
+    throw error;
+  }
+};
@@ -0,0 +1,180 @@
+// Audit log / revision history for building rows.
+//
+// Every write through the /api/buildings proxy, and every comment added, edited or deleted through
+// /api/comments, is recorded as a row in a second Baserow table (BASEROW_REVISIONS_TABLE_ID) with these fields:
+//   row_id        (number)    - building row the revision belongs to
+//   action        (text)      - create | update | hide | unhide | comment | delete | restore
+//   username      (text)      - who made the change ('anonymous' if not signed in)
+//   created_at    (text)      - ISO timestamp
+//   changes       (long text) - JSON field-level diff: { field: { from, to } }
+//   snapshot      (long text) - JSON of the full row as of this revision
+//                               (the row as it was *before* deletion for 'delete'; the comment row for 'comment')
+//   restored_from (number)    - for restores of deleted rows, the 'delete' revision restored
+//
+// Without BASEROW_REVISIONS_TABLE_ID writes still work, they just aren't recorded.
+
+import { createRowInTable, fetchFilteredRows, fetchRowInTable, UPDATED_ON_FIELD } from './baserow.js';
+
+// Baserow bookkeeping fields that aren't part of the building itself
+const IGNORED_FIELDS = new Set(['id', 'order', UPDATED_ON_FIELD]);
+
+let warnedUnconfigured = false;
+
+export const getRevisionsTableId = () => process.env.BASEROW_REVISIONS_TABLE_ID || null;
+
+const revisionError = (statusCode, message) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const requireRevisionsTable = () => {
+  const tableId = getRevisionsTableId();
+  if (!tableId) throw revisionError(501, 'Revision history not configured (set BASEROW_REVISIONS_TABLE_ID)');
+  return tableId;
+};
+
+// Treat empty strings, null and undefined as the same "no value"
+const normalizeValue = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+};
+
+// Strip Baserow bookkeeping fields so snapshots only hold building data
+export const toSnapshot = (row) => {
+  if (!row) return {};
+  const snapshot = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (!IGNORED_FIELDS.has(key)) snapshot[key] = value;
+  }
+  return snapshot;
+};
+
+// Field-level diff between two row states ({} / null for "no row")
+export const diffRows = (before, after) => {
+  const changes = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = normalizeValue(before?.[key]);
+    const to = normalizeValue(after?.[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+  return changes;
+};
+
+// Name an update after what it changed (hiding, or a general edit).
+// Comment revisions are recorded by server/lib/comments.js, not classified from building rows.
+export const classifyUpdate = (changes) => {
+  if ('is_hidden' in changes) return changes.is_hidden.to ? 'hide' : 'unhide';
+  return 'update';
+};
+
+const parseJson = (value, fallback) => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+const toRevision = (row) => ({
+  id: row.id,
+  rowId: Number(row.row_id),
+  action: row.action,
+  username: row.username || 'anonymous',
+  createdAt: row.created_at,
+  changes: parseJson(row.changes, {}),
+  snapshot: parseJson(row.snapshot, {}),
+  restoredFrom: row.restored_from ? Number(row.restored_from) : undefined,
+});
+
+/**
+ * Record a revision. Never throws - losing an audit entry shouldn't fail the write itself.
+ * @param {{ rowId: number, action: string, user: object | null, before: object | null, after: object | null, restoredFrom?: number }} entry
+ */
+export const recordRevision = async ({ rowId, action, user, before, after, restoredFrom }) => {
+  const tableId = getRevisionsTableId();
+  if (!tableId) {
+    if (!warnedUnconfigured) {
+      console.warn('⚠️ BASEROW_REVISIONS_TABLE_ID not set - building changes are not being recorded');
+      warnedUnconfigured = true;
+    }
+    return null;
+  }
+
+  const changes = diffRows(toSnapshot(before), toSnapshot(after));
+  // Deletions keep the last known state so the row can be restored
+  const snapshot = toSnapshot(action === 'delete' ? before : after);
+
+  try {
+    const row = await createRowInTable(tableId, {
+      row_id: rowId,
+      action,
+      username: user?.username || 'anonymous',
+      created_at: new Date().toISOString(),
+      changes: JSON.stringify(changes),
+      snapshot: JSON.stringify(snapshot),
+      ...(restoredFrom ? { restored_from: restoredFrom } : {}),
+    });
+    return toRevision(row);
+  } catch (error) {
+    console.error(`Failed to record ${action} revision for row ${rowId}:`, error);
+    return null;
+  }
+};
+
+// Revisions for one building, newest first
+export const listRevisions = async (rowId) => {
+  const tableId = requireRevisionsTable();
+  const rows = await fetchFilteredRows(tableId, { filter__row_id__equal: rowId });
+  return rows.map(toRevision).sort((a, b) => b.id - a.id);
+};
+
+export const getRevision = async (revisionId) => {
+  const tableId = requireRevisionsTable();
+  try {
+    return toRevision(await fetchRowInTable(tableId, revisionId));
+  } catch (error) {
+    if (error.statusCode === 404) throw revisionError(404, `Revision ${revisionId} not found`);
+    throw error;
+  }
+};
+
+// Deleted rows that haven't been restored yet, newest first
+export const listDeletedRevisions = async () => {
+  const tableId = requireRevisionsTable();
+  const [deletions, restores] = await Promise.all([
+    fetchFilteredRows(tableId, { filter__action__equal: 'delete' }),
+    fetchFilteredRows(tableId, { filter__action__equal: 'restore' }),
+  ]);
+  const restored = new Set(restores.map((row) => Number(row.restored_from)).filter(Boolean));
+  return deletions
+    .map(toRevision)
+    .filter((revision) => !restored.has(revision.id))
+    .sort((a, b) => b.id - a.id);
+};
+
+// The 'restore' revision that brought back deletion `revisionId`, or null while it's still deleted
+export const findRestoreOf = async (revisionId) => {
+  const tableId = requireRevisionsTable();
+  const [row] = await fetchFilteredRows(tableId, { filter__restored_from__equal: revisionId });
+  return row ? toRevision(row) : null;
+};
+
+// Row ids deleted at or after `since` (ISO timestamp), for delta sync.
+// Empty without a revisions table - clients fall back to periodic full reloads to catch deletions.
+export const listDeletedRowIdsSince = async (since) => {
+  const tableId = getRevisionsTableId();
+  if (!tableId) return [];
+  const sinceTime = new Date(since).getTime();
+  const deletions = await fetchFilteredRows(tableId, { filter__action__equal: 'delete' });
+  return deletions
+    .filter((row) => new Date(row.created_at).getTime() >= sinceTime)
+    .map((row) => Number(row.row_id))
+    .filter(Boolean);
+};
@@ -0,0 +1,76 @@
+import { AiBudgetPurpose, AiBudgetService, AiBudgetStatus, AiServiceBudget } from "../types";
+import { getApiBaseUrl } from "./apiConfig";
+import { getAuthHeaders } from "./authService";
+import { errorFromStatus, fetchOrNetworkError, rateLimitedError } from "./serviceErrors";
+
+// Client side of the daily AI call budget (/api/ai-budget, see server/lib/aiBudget.js).
+// Gemini is called from the browser, so each call is counted here before it goes out;
+// Places calls are counted by the /api/places proxies as they're made.
+
+// Last reset time the server told us about, so rate limit messages can say when searching resumes
+let knownResetAt: string | null = null;
+
+const rememberReset = (resetAt: unknown) => {
+  if (typeof resetAt === "string") knownResetAt = resetAt;
+};
+
+export const getKnownResetAt = (): string | null => knownResetAt;
+
+/**
+ * Count a Gemini call against today's budget, throwing a rate_limited error (retry.at is the reset) when
+ * it's used up. If the budget server can't be reached the call is allowed - the budget only
+ * exists to keep us under Google's quota, not to take searches down with it.
+ */
+export const consumeGeminiBudget = async (purpose: AiBudgetPurpose = "search", units = 1): Promise<void> => {
+  let response: Response;
+  try {
+    response = await fetch(`${getApiBaseUrl()}/api/ai-budget/consume`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+      body: JSON.stringify({ service: "gemini", units, purpose }),
+      signal: AbortSignal.timeout(3000),
+    });
+  } catch (error) {
+    console.warn("AI budget check failed, calling Gemini anyway:", error);
+    return;
+  }
+
+  const body = await response.json().catch(() => ({}));
+  rememberReset(body.resetAt);
+  if (response.status === 429) {
+    console.warn(`🛑 Gemini ${purpose} budget used up until ${body.resetAt}`);
+    throw rateLimitedError("gemini", "Daily gemini budget reached.", { source: "budget", resetAt: body.resetAt ?? knownResetAt });
+  }
+  if (!response.ok) {
+    console.warn(`AI budget check failed (${response.status}), calling Gemini anyway:`, body.error);
+  }
+};
+
+export const getAiBudgetStatus = async (): Promise<AiBudgetStatus> => {
+  const response = await fetchOrNetworkError("budget", `${getApiBaseUrl()}/api/ai-budget`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw errorFromStatus("budget", response.status, body.error || `Failed to load AI budget (${response.status})`);
+  rememberReset(body.resetAt);
+  return body as AiBudgetStatus;
+};
+
+// Set aside part of today's budget for admin tasks like backfills (curators only)
+export const reserveAiBudget = async (service: AiBudgetService, units: number): Promise<AiServiceBudget> => {
+  const response = await fetchOrNetworkError("budget", `${getApiBaseUrl()}/api/ai-budget/reserve`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ service, units }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw errorFromStatus("budget", response.status, body.error || `Failed to reserve AI budget (${response.status})`);
+  rememberReset(body.resetAt);
+  return body.budget as AiServiceBudget;
+};
+
+// "3h 12m", "12m" or "under a minute" until `resetAt`
+export const formatResetCountdown = (resetAt: string, now = Date.now()): string => {
+  const minutes = Math.floor((new Date(resetAt).getTime() - now) / 60000);
+  if (minutes < 1) return "under a minute";
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
@@ -0,0 +1,88 @@
+import { AiCacheEntry, AiCacheKind, Coordinates } from "../types";
+import { loadAiCacheEntry, pruneAiCache, putAiCacheEntry } from "../utils/indexedDB";
+import { getApiBaseUrl } from "./apiConfig";
+import { getAuthHeaders, getCurrentUser, hasRole } from "./authService";
+
+// Cache for Gemini responses, so repeat searches of the same place don't call the model again.
+// Lookups try this browser's IndexedDB mirror first, then the shared server cache (/api/ai-cache,
+// see server/lib/aiCache.js). Everyone's answers go into the local mirror; only contributors'
+// go to the server, since other people will be shown them.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Places don't move, but new lairs do get found
+export const AI_CACHE_TTL_MS: Record<AiCacheKind, number> = {
+  geocode: 30 * DAY_MS,
+  lairs: 7 * DAY_MS,
+};
+
+// Searches from anywhere in the same ~10km cell share an entry
+const COORDINATE_PRECISION = 1;
+
+// "  Kraków, Poland! " and "krakow poland" are the same search
+export const normalizeAiQuery = (query: string): string =>
+  query
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+// `promptVersion` keeps answers to an older prompt from being replayed once a new one ships
+export const aiCacheKey = (kind: AiCacheKind, query: string, coords?: Coordinates, promptVersion?: string): string => {
+  const cell = coords
+    ? `@${coords.lat.toFixed(COORDINATE_PRECISION)},${coords.lng.toFixed(COORDINATE_PRECISION)}`
+    : "";
+  return `${kind}:${normalizeAiQuery(query)}${cell}${promptVersion ? `#${promptVersion}` : ""}`;
+};
+
+const isFresh = (entry: AiCacheEntry) => new Date(entry.expiresAt).getTime() > Date.now();
+
+let pruned = false;
+
+// A cached response, or null on a miss (a failed lookup counts as a miss)
+export const getCachedAiResponse = async <T>(kind: AiCacheKind, key: string): Promise<T | null> => {
+  if (!pruned) {
+    pruned = true;
+    void pruneAiCache();
+  }
+
+  const local = await loadAiCacheEntry(key);
+  if (local && isFresh(local)) {
+    console.log(`🧠 AI cache hit (this browser): ${key}`);
+    return local.value as T;
+  }
+
+  try {
+    const response = await fetch(`${getApiBaseUrl()}/api/ai-cache?key=${encodeURIComponent(key)}`, {
+      signal: AbortSignal.timeout(3000),
+    });
+    if (!response.ok) return null;
+    const entry = (await response.json()) as AiCacheEntry;
+    if (entry.kind !== kind || !isFresh(entry)) return null;
+    console.log(`🧠 AI cache hit (server): ${key}`);
+    await putAiCacheEntry({ key, kind, value: entry.value, expiresAt: entry.expiresAt });
+    return entry.value as T;
+  } catch (error) {
+    console.debug(`AI cache lookup failed for ${key}:`, error);
+    return null;
+  }
+};
+
+// Remember a response locally and, for contributors, on the server. Never throws.
+export const cacheAiResponse = async <T>(kind: AiCacheKind, key: string, value: T): Promise<void> => {
+  const ttlMs = AI_CACHE_TTL_MS[kind];
+  await putAiCacheEntry({ key, kind, value, expiresAt: new Date(Date.now() + ttlMs).toISOString() });
+
+  if (!hasRole(getCurrentUser(), "contributor")) return;
+  try {
+    const response = await fetch(`${getApiBaseUrl()}/api/ai-cache`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+      body: JSON.stringify({ key, kind, value, ttlMs }),
+    });
+    if (!response.ok) console.warn(`Failed to share AI cache entry ${key}: ${response.status}`);
+  } catch (error) {
+    console.warn(`Failed to share AI cache entry ${key}:`, error);
+  }
+};
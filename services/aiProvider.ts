@@ -0,0 +1,62 @@
+import { Coordinates } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockAiProvider } from "./mockAiProvider";
+
+// What a request is for - providers pick a model (Gemini) or a fixture (mock) by it
+export type AITask = "geocode" | "discover" | "evaluate_poi";
+
+export interface AIGenerateRequest {
+  task: AITask;
+  subject: string; // What's being asked about: the place searched for or the building evaluated
+  prompt: string;
+  systemInstruction?: string;
+  model?: string; // The model the prompt version was written for (providers fall back to their own choice)
+  responseSchema?: Record<string, unknown>; // Ask for JSON in this shape (not allowed with `grounded`)
+  grounded?: boolean; // Let the model look things up on Google Maps and Search
+  near?: Coordinates; // Where grounded lookups should focus
+}
+
+export interface AIGenerateResult {
+  text: string; // The model's answer as it came back - callers parse and validate it
+  groundingChunks: any[]; // Maps/Search sources behind a grounded answer (place IDs, map links)
+}
+
+/**
+ * Text generation backend for the AI flows in geminiService (geocoding, discovery, POI evaluation).
+ *
+ * Providers only turn a request into the model's raw answer - prompts, parsing, the candidate
+ * schema, caching and the daily budget stay in geminiService.
+ */
+export interface AIProvider {
+  readonly kind: AIProviderKind;
+  // Real model calls: counted against the daily AI budget and shared through the AI cache
+  readonly live: boolean;
+  ensureConfigured(): void; // Throws a config error when calls can't be made (e.g. no API key)
+  generate(request: AIGenerateRequest): Promise<AIGenerateResult>;
+}
+
+export type AIProviderKind = "gemini" | "mock";
+
+// Provider is chosen at build time via VITE_AI_PROVIDER (defaults to Gemini)
+export const getConfiguredAiProvider = (): AIProviderKind => {
+  const configured = (process.env.AI_PROVIDER || "").toLowerCase().trim();
+  if (configured === "mock" || configured === "fixture") return "mock";
+  return "gemini";
+};
+
+let provider: AIProvider | null = null;
+
+// Lazily create the configured provider on first use
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    provider = getConfiguredAiProvider() === "mock"
+      ? createMockAiProvider()
+      : createGeminiProvider();
+  }
+  return provider;
+};
+
+// Swap the active provider (e.g. for scripted checks against recorded answers)
+export const setAIProvider = (next: AIProvider | null): void => {
+  provider = next;
+};
@@ -0,0 +1,13 @@
+// Helper to get API base URL (environment-aware for dev/production)
+export const getApiBaseUrl = (): string => {
+  const env = (import.meta as any).env || {};
+  // In production, use relative URL (Netlify redirects handle routing)
+  if (env.PROD) {
+    // Production: use relative URL - Netlify redirects will route to functions
+    // Or use explicit URL if VITE_API_URL is set (for custom deployments)
+    return env.VITE_API_URL || '';
+  }
+  // Development: use localhost with port (Express server)
+  const apiPort = env.VITE_API_PORT || '3001';
+  return `http://localhost:${apiPort}`;
+};
@@ -0,0 +1,108 @@
+import { AuthUser, UserRole } from "../types";
+import { getApiBaseUrl } from "./apiConfig";
+import { errorFromStatus, fetchOrNetworkError } from "./serviceErrors";
+
+// Signed-in session (token + user), persisted so a reload keeps you signed in
+const STORAGE_KEY = "evil-atlas-auth";
+const ROLE_ORDER: UserRole[] = ["viewer", "contributor", "curator"];
+
+interface StoredSession {
+  token: string;
+  user: AuthUser;
+}
+
+const readSession = (): StoredSession | null => {
+  if (typeof window === "undefined" || !window.localStorage) return null;
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as StoredSession;
+  } catch (e) {
+    console.error("Failed to parse stored session:", e);
+    return null;
+  }
+};
+
+const writeSession = (session: StoredSession | null): void => {
+  if (typeof window === "undefined" || !window.localStorage) return;
+  if (session) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+// Role checks mirror the server - anonymous visitors are viewers.
+// These only drive the UI; the proxy routes enforce the same rules.
+export const hasRole = (user: AuthUser | null, role: UserRole): boolean => {
+  const userRank = user ? ROLE_ORDER.indexOf(user.role) : 0;
+  return userRank >= ROLE_ORDER.indexOf(role);
+};
+
+export const getCurrentUser = (): AuthUser | null => readSession()?.user ?? null;
+
+// Authorization header for proxy requests (empty when signed out)
+export const getAuthHeaders = (): Record<string, string> => {
+  const session = readSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+export const login = async (username: string, password: string): Promise<AuthUser> => {
+  const response = await fetchOrNetworkError("auth", `${getApiBaseUrl()}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw errorFromStatus("auth", response.status, data.error || `Sign-in failed: ${response.status}`);
+  }
+
+  writeSession({ token: data.token, user: data.user });
+  console.log(`🔐 Signed in as ${data.user.username} (${data.user.role})`);
+  return data.user;
+};
+
+export const logout = (): void => {
+  writeSession(null);
+};
+
+// Check the stored token is still valid (expired or revoked tokens sign you out)
+export const refreshSession = async (): Promise<AuthUser | null> => {
+  const session = readSession();
+  if (!session) return null;
+
+  try {
+    const response = await fetch(`${getApiBaseUrl()}/api/auth/me`, { headers: getAuthHeaders() });
+    if (!response.ok) {
+      // Server unreachable or erroring - keep the session rather than signing out offline users
+      return session.user;
+    }
+    const data = await response.json();
+    if (!data.user) {
+      writeSession(null);
+      return null;
+    }
+    writeSession({ token: session.token, user: data.user });
+    return data.user;
+  } catch (e) {
+    console.warn("Could not verify session, keeping stored user:", e);
+    return session.user;
+  }
+};
+
+// Everyone who can sign in (usernames and roles), used to suggest @-mentions.
+// Empty when signed out, below contributor, or the server is unreachable.
+export const fetchCollaborators = async (): Promise<AuthUser[]> => {
+  if (!readSession()) return [];
+  try {
+    const response = await fetch(`${getApiBaseUrl()}/api/auth/users`, { headers: getAuthHeaders() });
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.users || [];
+  } catch (e) {
+    console.warn("Could not load collaborators:", e);
+    return [];
+  }
+};
@@ -0,0 +1,272 @@
+import { BuildingRevision, Comment } from "../types";
+import { getApiBaseUrl } from "./apiConfig";
+import { getAuthHeaders } from "./authService";
+import { BaserowFileField, BaserowRow, BaserowRowFields, BuildingRepository, GeoQuery, ListRowsOptions, RowChanges, UploadedImage, filterRowsByGeoQuery } from "./buildingRepository";
+import { notifyRowsChanged } from "./serviceWorkerService";
+import { errorFromResponse, errorFromStatus, fetchOrNetworkError } from "./serviceErrors";
+
+const PAGE_SIZE = 200;
+
+// Baserow-backed repository. The browser never talks to Baserow directly - every
+// request goes through the /api/buildings proxy (server/api-server.js in development,
+// Netlify functions in production), which holds the API token server-side.
+// Comments live in their own table behind /api/comments.
+// Successful row writes are passed on to the service worker so its cached reads stay current.
+export const createBaserowRepository = (): BuildingRepository => {
+  const buildingsUrl = (path: string = "") => `${getApiBaseUrl()}/api/buildings${path}`;
+  const commentsUrl = (path: string = "") => `${getApiBaseUrl()}/api/comments${path}`;
+  const rowUrl = (rowId: number) => buildingsUrl(`/${rowId}`);
+  // Writes carry the signed-in user's token; the proxy checks their role
+  const jsonHeaders = () => ({ "Content-Type": "application/json", ...getAuthHeaders() });
+
+  // Failures come out as typed service errors (see serviceErrors.ts) - a dropped connection is a network error
+  const send = (input: string, init?: RequestInit) => fetchOrNetworkError("buildings", input, init);
+
+  const ensureOk = async (response: Response): Promise<void> => {
+    if (!response.ok) {
+      throw await errorFromResponse("buildings", response, "Baserow API error");
+    }
+  };
+
+  // Build the query string for the server-side geo endpoint (/api/buildings/near)
+  const geoQueryParams = (query: GeoQuery): URLSearchParams => {
+    const params = new URLSearchParams();
+    if (query.kind === "bounds") {
+      params.set("north", String(query.bounds.north));
+      params.set("south", String(query.bounds.south));
+      params.set("east", String(query.bounds.east));
+      params.set("west", String(query.bounds.west));
+    } else {
+      params.set("lat", String(query.center.lat));
+      params.set("lng", String(query.center.lng));
+      if (query.kind === "radius") {
+        params.set("radius", String(Math.round(query.radiusMeters)));
+      } else {
+        params.set("nearest", String(query.limit));
+        if (query.maxRadiusMeters) params.set("radius", String(Math.round(query.maxRadiusMeters)));
+      }
+    }
+    if (query.includeHidden) params.set("includeHidden", "true");
+    return params;
+  };
+
+  const repository: BuildingRepository = {
+    kind: "baserow",
+
+    async listRows(options: ListRowsOptions = {}): Promise<BaserowRow[]> {
+      const allRows: BaserowRow[] = [];
+      let page = 1;
+
+      while (true) {
+        const response = await send(buildingsUrl(`?page=${page}&size=${PAGE_SIZE}`));
+        await ensureOk(response);
+
+        const data = await response.json();
+        allRows.push(...data.results);
+
+        // If limitPages is set and we've reached it, stop fetching
+        if (options.limitPages && page >= options.limitPages) {
+          break;
+        }
+
+        if (!data.next) break; // no more pages
+        page += 1;
+      }
+
+      return options.includeHidden ? allRows : allRows.filter((row) => !row.is_hidden);
+    },
+
+    async getRow(rowId: number, options: { fresh?: boolean } = {}): Promise<BaserowRow> {
+      // ?fresh=1 makes public/sw.js pass the read through, so conflict checks see the server's row
+      const response = options.fresh
+        ? await send(`${rowUrl(rowId)}?fresh=1`, { cache: "no-store" })
+        : await send(rowUrl(rowId));
+      await ensureOk(response);
+      return response.json();
+    },
+
+    async findRowsByName(name: string): Promise<BaserowRow[]> {
+      const response = await send(buildingsUrl(`/search?name=${encodeURIComponent(name)}`));
+      await ensureOk(response);
+
+      const data = await response.json();
+      return data.results || [];
+    },
+
+    async findRowsNear(query: GeoQuery): Promise<BaserowRow[]> {
+      try {
+        const response = await send(`${getApiBaseUrl()}/api/buildings/near?${geoQueryParams(query)}`);
+        if (!response.ok) {
+          throw errorFromStatus("buildings", response.status, `Geo query error: ${response.status}`);
+        }
+        const data = await response.json();
+        return data.results || [];
+      } catch (error) {
+        // Geo endpoint failed (e.g. index refresh error) - fall back to scanning the full table
+        console.warn("Geo query endpoint unavailable, falling back to full-table scan:", error);
+        const rows = await repository.listRows({ includeHidden: query.includeHidden });
+        return filterRowsByGeoQuery(rows, query);
+      }
+    },
+
+    async listRowsChangedSince(since: string): Promise<RowChanges> {
+      const response = await send(buildingsUrl(`/changes?since=${encodeURIComponent(since)}`));
+      await ensureOk(response);
+      const data = await response.json();
+      return { rows: data.results || [], deletedIds: data.deletedIds || [] };
+    },
+
+    async createRow(fields: BaserowRowFields): Promise<BaserowRow> {
+      const response = await send(buildingsUrl(), {
+        method: "POST",
+        headers: jsonHeaders(),
+        body: JSON.stringify(fields),
+      });
+      await ensureOk(response);
+      const row: BaserowRow = await response.json();
+      notifyRowsChanged({ rows: [row], created: true });
+      return row;
+    },
+
+    async updateRow(rowId: number, fields: BaserowRowFields): Promise<BaserowRow> {
+      const response = await send(rowUrl(rowId), {
+        method: "PATCH",
+        headers: jsonHeaders(),
+        body: JSON.stringify(fields),
+      });
+      await ensureOk(response);
+      const row: BaserowRow = await response.json();
+      notifyRowsChanged({ rows: [row] });
+      return row;
+    },
+
+    async deleteRow(rowId: number): Promise<void> {
+      const response = await send(rowUrl(rowId), {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+      await ensureOk(response);
+      notifyRowsChanged({ deletedIds: [rowId] });
+    },
+
+    async uploadFile(file: File): Promise<BaserowFileField> {
+      // Sent as the raw request body; the proxy forwards it to Baserow's user-files endpoint
+      const response = await send(buildingsUrl(`/upload?name=${encodeURIComponent(file.name)}`), {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream", ...getAuthHeaders() },
+        body: file,
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse("buildings", response, "Baserow file upload error");
+      }
+
+      const data = await response.json();
+
+      // Baserow returns file object with name, url, size, mime_type
+      return {
+        name: data.name || file.name,
+        url: data.url || data.thumbnails?.url || data.original || "",
+        size: data.size || file.size,
+        mime_type: data.mime_type || file.type,
+      };
+    },
+
+    async uploadImage(file: File): Promise<UploadedImage> {
+      // The server resizes the photo into AVIF/WebP/JPEG variants (server/lib/imagePipeline.js)
+      const response = await send(buildingsUrl(`/images?name=${encodeURIComponent(file.name)}`), {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream", ...getAuthHeaders() },
+        body: file,
+      });
+      await ensureOk(response);
+      return response.json();
+    },
+
+    async listRevisions(rowId: number): Promise<BuildingRevision[]> {
+      const response = await send(buildingsUrl(`/${rowId}/revisions`), { headers: getAuthHeaders() });
+      await ensureOk(response);
+      const data = await response.json();
+      return data.results || [];
+    },
+
+    async restoreRevision(rowId: number, revisionId: number): Promise<BaserowRow> {
+      const response = await send(buildingsUrl(`/${rowId}/revisions/${revisionId}/restore`), {
+        method: "POST",
+        headers: getAuthHeaders(),
+      });
+      await ensureOk(response);
+      const row: BaserowRow = await response.json();
+      notifyRowsChanged({ rows: [row] });
+      return row;
+    },
+
+    async listDeletedRevisions(): Promise<BuildingRevision[]> {
+      const response = await send(buildingsUrl("/deleted"), { headers: getAuthHeaders() });
+      await ensureOk(response);
+      const data = await response.json();
+      return data.results || [];
+    },
+
+    async restoreDeletedRow(revisionId: number): Promise<BaserowRow> {
+      const response = await send(buildingsUrl(`/deleted/${revisionId}/restore`), {
+        method: "POST",
+        headers: getAuthHeaders(),
+      });
+      await ensureOk(response);
+      // Restored rows come back under a new id, like a create
+      const row: BaserowRow = await response.json();
+      notifyRowsChanged({ rows: [row], created: true });
+      return row;
+    },
+
+    async listComments(rowId: number): Promise<Comment[]> {
+      const response = await send(commentsUrl(`?building=${rowId}`));
+      await ensureOk(response);
+      const data = await response.json();
+      return data.results || [];
+    },
+
+    async createComment(rowId: number, text: string, parentId?: number): Promise<Comment> {
+      const response = await send(commentsUrl(), {
+        method: "POST",
+        headers: jsonHeaders(),
+        body: JSON.stringify({ buildingId: rowId, parentId, text }),
+      });
+      await ensureOk(response);
+      return response.json();
+    },
+
+    async updateComment(commentId: number, text: string): Promise<Comment> {
+      const response = await send(commentsUrl(`/${commentId}`), {
+        method: "PATCH",
+        headers: jsonHeaders(),
+        body: JSON.stringify({ text }),
+      });
+      await ensureOk(response);
+      return response.json();
+    },
+
+    async deleteComment(commentId: number): Promise<Comment> {
+      const response = await send(commentsUrl(`/${commentId}`), {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+      await ensureOk(response);
+      return response.json();
+    },
+
+    async moveComments(fromRowId: number, toRowId: number): Promise<number> {
+      const response = await send(commentsUrl("/move"), {
+        method: "POST",
+        headers: jsonHeaders(),
+        body: JSON.stringify({ from: fromRowId, to: toRowId }),
+      });
+      await ensureOk(response);
+      const data = await response.json();
+      return data.moved || 0;
+    },
+  };
+
+  return repository;
+};
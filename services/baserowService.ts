@@ -1,69 +1,10 @@
-import { Building, Coordinates, Comment } from "../types";
+import { Building, BuildingImage, BuildingRevision, Coordinates, Comment, CommentThread, DeletedBuilding, GeoBounds, ImageAttribution, ImageFormat, ImageSource, ImageVariant } from "../types";
+import { createDuplicateMatcher, groupDuplicates, matchableFromBuilding, normalizeName } from "../utils/duplicateMatching";
 import { optimizeImage } from "../utils/imageOptimizer";
-
-const BASEROW_API_BASE = "https://api.baserow.io/api/database/rows/table";
-const TABLE_ID = process.env.REACT_APP_BASEROW_TABLE_ID || "772747";
-const API_TOKEN = process.env.REACT_APP_BASEROW_API_TOKEN;
-
-if (!API_TOKEN) {
-  console.error("CRITICAL: REACT_APP_BASEROW_API_TOKEN environment variable is required");
-  throw new Error("Baserow API token is not configured. Please set REACT_APP_BASEROW_API_TOKEN environment variable.");
-}
-
-// Helper to calculate distance in meters (Haversine formula)
-const getDistance = (coord1: Coordinates, coord2: Coordinates): number => {
-  const R = 6371e3; // Earth radius in meters
-  const φ1 = (coord1.lat * Math.PI) / 180;
-  const φ2 = (coord2.lat * Math.PI) / 180;
-  const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
-  const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-};
-
-// Baserow file field format (what we get from API)
-interface BaserowFileField {
-  name: string;
-  url: string;
-  size?: number;
-  mime_type?: string;
-}
-
-// Baserow row format (what we get from API)
-interface BaserowRow {
-  id: number;
-  name?: string;
-  city?: string;
-  country?: string;
-  lat?: string;
-  lng?: string;
-  google_place_id?: string;
-  Gmaps_url?: string;
-  image_url?: string;
-  image_1?: BaserowFileField[] | null; // File field - array of file objects
-  image_2?: BaserowFileField[] | null;
-  image_3?: BaserowFileField[] | null;
-  notes?: string;
-  style?: string; // Architectural style
-  architect?: string; // Architect name if available
-  location?: string; // Full address/location
-  is_prioritized?: boolean; // Whether building is prioritized (Art Deco by famous architect)
-  is_hidden?: boolean; // Whether building is hidden (soft-deleted)
-  is_purple_heart?: boolean; // Whether building should have a purple glowing heart
-  source?: string; // Source of building entry (e.g., 'manual')
-  favourites?: boolean; // Whether building is marked as a favourite
-  comment_1?: string; // Rich text comment field 1
-  comment_2?: string; // Rich text comment field 2
-  comment_3?: string; // Rich text comment field 3
-  comment_4?: string; // Rich text comment field 4
-  comment_5?: string; // Rich text comment field 5
-  comment_6?: string; // Rich text comment field 6
-}
+import { isPlacesPhotoUrl, toPlacesPhotoProxyUrl } from "../utils/placesPhoto";
+import { richTextToPlainText, sanitizeRichText } from "../utils/richText";
+import { BaserowFileField, BaserowRow, BaserowRowFields, UploadedImage, getBuildingRepository } from "./buildingRepository";
+import { isServiceError, toServiceError, validationError } from "./serviceErrors";
 
 // Extended Building interface for saving (includes Baserow-specific fields)
 interface BuildingForSave extends Building {
@@ -87,6 +28,89 @@ const extractUrlFromMarkdown = (urlString: string | undefined): string | undefin
   return urlString;
 };
 
+const IMAGE_SOURCES: ImageSource[] = ["upload", "google_places", "web"];
+const IMAGE_FORMATS: ImageFormat[] = ["avif", "webp", "jpeg"];
+
+// Google Places photo URLs (direct or through our proxy)
+const imageSourceForUrl = (url: string): ImageSource => (isPlacesPhotoUrl(url) ? "google_places" : "web");
+
+// Helper to extract the first file from a file field (can be array or single object)
+const firstFile = (field: BaserowFileField[] | BaserowFileField | null | undefined): BaserowFileField | null => {
+  if (!field) return null;
+  if (Array.isArray(field)) return field[0]?.url ? field[0] : null;
+  if (typeof field === 'object' && 'url' in field) return field.url ? field : null;
+  return null;
+};
+
+const parseVariants = (variants: any[]): ImageVariant[] =>
+  variants
+    .filter((v) => v && typeof v.url === "string" && Number(v.width) > 0 && IMAGE_FORMATS.includes(v.format))
+    .map((v) => ({ url: v.url, width: Number(v.width), format: v.format, ...(v.size ? { size: Number(v.size) } : {}) }));
+
+const parseAttributions = (attributions: any[]): ImageAttribution[] =>
+  attributions
+    .filter((a) => a && typeof a.name === "string" && a.name)
+    .map((a) => ({ name: a.name, ...(typeof a.url === "string" && /^https:\/\//.test(a.url) ? { url: a.url } : {}) }));
+
+// A row's image collection. The `images` field holds it as JSON; rows that predate it (field
+// empty) fall back to the file fields image_1..image_3 followed by the legacy image_url.
+// Places photo URLs still holding the Maps key (rows not yet migrated) are shown through the proxy.
+const rowImages = (row: BaserowRow): BuildingImage[] => {
+  if (row.images) {
+    try {
+      const parsed = JSON.parse(row.images);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter((image) => image && typeof image.url === "string" && image.url)
+          .map((image) => ({
+            url: toPlacesPhotoProxyUrl(image.url),
+            ...(image.fileName ? { fileName: String(image.fileName) } : {}),
+            ...(image.width && image.height ? { width: Number(image.width), height: Number(image.height) } : {}),
+            ...(typeof image.placeholder === "string" && image.placeholder.startsWith("data:image/")
+              ? { placeholder: image.placeholder }
+              : {}),
+            ...(Array.isArray(image.variants) ? { variants: parseVariants(image.variants) } : {}),
+            ...(image.caption ? { caption: String(image.caption) } : {}),
+            ...(image.credit ? { credit: String(image.credit) } : {}),
+            ...(Array.isArray(image.attributions) ? { attributions: parseAttributions(image.attributions) } : {}),
+            source: IMAGE_SOURCES.includes(image.source) ? image.source : imageSourceForUrl(image.url),
+          }));
+      }
+    } catch {
+      console.warn(`Row ${row.id} has unreadable images JSON - using its file fields instead`);
+    }
+  }
+
+  const images: BuildingImage[] = [row.image_1, row.image_2, row.image_3]
+    .map(firstFile)
+    .filter((file): file is BaserowFileField => file !== null)
+    .map((file) => ({ url: file.url, fileName: file.name, source: "upload" }));
+  const legacyUrl = toPlacesPhotoProxyUrl(extractUrlFromMarkdown(row.image_url));
+  if (legacyUrl && !images.some((image) => image.url === legacyUrl)) {
+    images.push({ url: legacyUrl, source: imageSourceForUrl(legacyUrl) });
+  }
+  return images;
+};
+
+const serializeImages = (images: BuildingImage[]): string =>
+  JSON.stringify(images.map(({ pendingUpload, ...image }) => image));
+
+// Upload a photo through the server's image pipeline (responsive variants and a blur placeholder).
+// Servers without the pipeline answer 501, and then it's stored as one browser-optimized file instead.
+export const uploadImageToBaserow = async (file: File): Promise<UploadedImage> => {
+  try {
+    // Only shrink very large photos (to stay under the upload limit) - the server makes the real sizes
+    const source = await optimizeImage(file, { maxWidth: 2400, maxHeight: 2400, quality: 0.92, format: 'jpeg' })
+      .catch(() => file);
+    return await getBuildingRepository().uploadImage(source);
+  } catch (error) {
+    if (!(isServiceError(error) && error.status === 501)) throw toServiceError(error, "buildings");
+    console.warn(`Image pipeline unavailable, uploading "${file.name}" as a single file`);
+    const uploaded = await uploadFileToBaserow(file);
+    return { url: uploaded.url, fileName: uploaded.name };
+  }
+};
+
 // Upload a file to Baserow and return the file object
 export const uploadFileToBaserow = async (file: File): Promise<BaserowFileField> => {
   try {
@@ -106,37 +130,10 @@ export const uploadFileToBaserow = async (file: File): Promise<BaserowFileField>
       }
     }
     
-    const formData = new FormData();
-    formData.append('file', fileToUpload);
-    
-    // Baserow file upload endpoint
-    const uploadUrl = 'https://api.baserow.io/api/user-files/upload-file/';
-    
-    const response = await fetch(uploadUrl, {
-      method: 'POST',
-      headers: {
-        Authorization: `Token ${API_TOKEN}`,
-      },
-      body: formData,
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow file upload error: ${response.status} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    
-    // Baserow returns file object with name, url, size, mime_type
-    return {
-      name: data.name || fileToUpload.name,
-      url: data.url || data.thumbnails?.url || data.original || '',
-      size: data.size || fileToUpload.size,
-      mime_type: data.mime_type || fileToUpload.type,
-    };
+    return await getBuildingRepository().uploadFile(fileToUpload);
   } catch (error) {
     console.error('Error uploading file to Baserow:', error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
@@ -165,33 +162,9 @@ const baserowRowToBuilding = (row: BaserowRow): Building => {
   const hasPurpleHeart = row.is_purple_heart === true || 
     purpleHeartBuildings.some(purpleName => row.name === purpleName);
 
-  // Extract image URLs from file fields (image_1, image_2, image_3)
-  const imageUrls: string[] = [];
-  
-  // Helper to extract URL from file field (can be array or single object)
-  const extractFileUrl = (field: BaserowFileField[] | BaserowFileField | null | undefined): string | null => {
-    if (!field) return null;
-    if (Array.isArray(field) && field.length > 0) {
-      return field[0].url || null;
-    }
-    if (typeof field === 'object' && 'url' in field) {
-      return field.url || null;
-    }
-    return null;
-  };
-  
-  // Extract URLs from file fields
-  const img1Url = extractFileUrl(row.image_1);
-  const img2Url = extractFileUrl(row.image_2);
-  const img3Url = extractFileUrl(row.image_3);
-  
-  if (img1Url) imageUrls.push(img1Url);
-  if (img2Url) imageUrls.push(img2Url);
-  if (img3Url) imageUrls.push(img3Url);
-  
-  // Fallback to legacy image_url if no file field images
-  const rawImageUrl = extractUrlFromMarkdown(row.image_url);
-  const imageUrl = imageUrls.length > 0 ? undefined : (rawImageUrl || undefined);
+  // Ordered image collection; the first image is the cover
+  const images = rowImages(row);
+  const imageUrls = images.map((image) => image.url);
 
   // Auto-detect Cathedral from notes if not already in style
   let style = row.style || "";
@@ -206,32 +179,6 @@ const baserowRowToBuilding = (row: BaserowRow): Building => {
     style = style ? `Cathedral, ${style}` : "Cathedral";
   }
 
-  // Parse comments from comment_1 through comment_6 fields
-  const comments: Comment[] = [];
-  const commentFields = [row.comment_1, row.comment_2, row.comment_3, row.comment_4, row.comment_5, row.comment_6];
-  
-  commentFields.forEach((commentHtml) => {
-    if (commentHtml && commentHtml.trim()) {
-      // Try to extract timestamp from data attributes using regex (works in Node.js)
-      const timestampMatch = commentHtml.match(/data-timestamp="([^"]+)"/);
-      const updatedMatch = commentHtml.match(/data-updated="([^"]+)"/);
-      const timestamp = timestampMatch ? timestampMatch[1] : new Date().toISOString();
-      const updatedAt = updatedMatch ? updatedMatch[1] : undefined;
-      
-      // Extract the actual content (remove wrapper div if present)
-      // Look for content wrapped in <div data-timestamp="...">...</div>
-      // Use a more robust regex that handles nested tags
-      const wrapperMatch = commentHtml.match(/<div[^>]*data-timestamp="[^"]*"[^>]*>([\s\S]*?)<\/div>$/);
-      const content = wrapperMatch ? wrapperMatch[1] : commentHtml;
-      
-      comments.push({
-        text: content.trim(),
-        createdAt: timestamp,
-        updatedAt: updatedAt || undefined,
-      });
-    }
-  });
-
   return {
     id: `baserow-${row.id}`,
     name: row.name || "Unnamed Building",
@@ -243,14 +190,16 @@ const baserowRowToBuilding = (row: BaserowRow): Building => {
     coordinates: { lat, lng },
     gmapsUrl: row.Gmaps_url,
     googlePlaceId: row.google_place_id,
-    imageUrl: imageUrl,
+    imageUrl: imageUrls[0],
     imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
+    images,
     isPrioritized: !!isPrioritized,
     architect: row.architect || undefined,
     hasPurpleHeart: !!hasPurpleHeart,
     source: row.source || undefined,
     favourites: row.favourites || false,
-    comments: comments.length > 0 ? comments : undefined,
+    updatedOn: row.updated_on || undefined,
+    promptVersion: row.prompt_version || undefined,
   };
 };
 
@@ -258,130 +207,96 @@ const baserowRowToBuilding = (row: BaserowRow): Building => {
 // Optionally limit to first N pages for progressive loading
 export const fetchAllBuildings = async (limitPages?: number): Promise<Building[]> => {
   try {
-    const allRows: any[] = [];
-    let page = 1;
-    const pageSize = 200;
-
-    while (true) {
-      const response = await fetch(
-        `${BASEROW_API_BASE}/${TABLE_ID}/?user_field_names=true&page=${page}&size=${pageSize}`,
-        {
-          headers: {
-            Authorization: `Token ${API_TOKEN}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Baserow API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      allRows.push(...data.results);
-
-      // If limitPages is set and we've reached it, stop fetching
-      if (limitPages && page >= limitPages) {
-        break;
-      }
-
-      if (!data.next) break; // no more pages
-      page += 1;
-    }
-
-    // Filter out hidden buildings
-    const visibleRows = allRows.filter((row: any) => !row.is_hidden);
-    return visibleRows.map(baserowRowToBuilding);
+    // Hidden buildings are filtered out by the repository
+    const rows = await getBuildingRepository().listRows({ limitPages });
+    return rows.map(baserowRowToBuilding);
   } catch (error) {
     console.error("Error fetching from Baserow:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
-// Fetch all buildings from Baserow INCLUDING hidden ones (for duplicate checking)
-// This is used internally to check for duplicates before saving
-const fetchAllBuildingsIncludingHidden = async (limitPages?: number): Promise<Building[]> => {
-  try {
-    const allRows: any[] = [];
-    let page = 1;
-    const pageSize = 200;
-
-    while (true) {
-      const response = await fetch(
-        `${BASEROW_API_BASE}/${TABLE_ID}/?user_field_names=true&page=${page}&size=${pageSize}`,
-        {
-          headers: {
-            Authorization: `Token ${API_TOKEN}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Baserow API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      allRows.push(...data.results);
-
-      // If limitPages is set and we've reached it, stop fetching
-      if (limitPages && page >= limitPages) {
-        break;
-      }
-
-      if (!data.next) break; // no more pages
-      page += 1;
-    }
+// Result of a delta sync: visible buildings that changed, and ids (building ids, e.g.
+// "baserow-12") of buildings that were hidden or deleted since the cursor
+export interface BuildingChanges {
+  updated: Building[];
+  removedIds: string[];
+  cursor: string; // Pass to the next fetchBuildingChanges call
+}
 
-    // Don't filter out hidden buildings - return all for duplicate checking
-    return allRows.map(baserowRowToBuilding);
+// Newest last-modified stamp among buildings - where the next delta sync starts.
+// Null when the table has no updated_on field, in which case every visit does a full reload.
+export const getSyncCursor = (buildings: Building[]): string | null =>
+  buildings.reduce<string | null>((latest, b) => {
+    if (!b.updatedOn) return latest;
+    return !latest || new Date(b.updatedOn) > new Date(latest) ? b.updatedOn : latest;
+  }, null);
+
+// Fetch only what changed since the cursor (rows stamped exactly at the cursor come back
+// again, which is harmless - merging is idempotent - and avoids missing same-millisecond writes)
+export const fetchBuildingChanges = async (since: string): Promise<BuildingChanges> => {
+  try {
+    const { rows, deletedIds } = await getBuildingRepository().listRowsChangedSince(since);
+    const changed = rows.map(baserowRowToBuilding);
+    const updated = changed.filter((_, index) => !rows[index].is_hidden);
+    const removedIds = [
+      ...rows.filter((row) => row.is_hidden).map((row) => `baserow-${row.id}`),
+      ...deletedIds.map((rowId) => `baserow-${rowId}`),
+    ];
+    return { updated, removedIds, cursor: getSyncCursor(changed) || since };
   } catch (error) {
-    console.error("Error fetching from Baserow (including hidden):", error);
-    throw error;
+    console.error("Error fetching building changes:", error);
+    throw toServiceError(error, "buildings");
   }
 };
 
-// Fetch buildings near a location (within radius in meters)
+// Apply a delta sync to a list of buildings, keeping their order (new rows go at the end)
+export const mergeBuildingChanges = (buildings: Building[], changes: BuildingChanges): Building[] => {
+  const removed = new Set(changes.removedIds);
+  const updated = new Map(changes.updated.map((b) => [b.id, b]));
+  const merged = buildings
+    .filter((b) => !removed.has(b.id))
+    .map((b) => {
+      const next = updated.get(b.id);
+      if (next) updated.delete(b.id);
+      return next || b;
+    });
+  return merged.concat(Array.from(updated.values()));
+};
+
+// Fetch buildings near a location (within radius in meters), nearest first
+// Uses the server-side geo query endpoint so we don't download the whole table
 export const fetchBuildingsNearLocation = async (
   center: Coordinates,
   radiusMeters: number = 50000 // Default 50km
 ): Promise<Building[]> => {
   try {
-    // Fetch all buildings (Baserow doesn't have native geo queries)
-    const allBuildings = await fetchAllBuildings();
-    
-    // Filter by distance
-    return allBuildings.filter((building) => {
-      const distance = getDistance(center, building.coordinates);
-      return distance <= radiusMeters;
-    });
+    const rows = await getBuildingRepository().findRowsNear({ kind: "radius", center, radiusMeters });
+    return rows.map(baserowRowToBuilding);
   } catch (error) {
     console.error("Error fetching buildings near location:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
+  }
+};
+
+// Fetch every visible building inside a bounding box (e.g. an area saved for offline use)
+export const fetchBuildingsInBounds = async (bounds: GeoBounds): Promise<Building[]> => {
+  try {
+    const rows = await getBuildingRepository().findRowsNear({ kind: "bounds", bounds });
+    return rows.map(baserowRowToBuilding);
+  } catch (error) {
+    console.error("Error fetching buildings in bounds:", error);
+    throw toServiceError(error, "buildings");
   }
 };
 
 // Fetch building by name (exact match)
 export const fetchBuildingByName = async (name: string): Promise<Building | null> => {
   try {
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/?user_field_names=true&filter__name=${encodeURIComponent(name)}`,
-      {
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Baserow API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    if (data.results && data.results.length > 0) {
+    const results = await getBuildingRepository().findRowsByName(name);
+    if (results.length > 0) {
       // Filter out hidden buildings
-      const visibleResults = data.results.filter((row: any) => !row.is_hidden);
+      const visibleResults = results.filter((row) => !row.is_hidden);
       if (visibleResults.length > 0) {
         return baserowRowToBuilding(visibleResults[0]);
       }
@@ -389,8 +304,56 @@ export const fetchBuildingByName = async (name: string): Promise<Building | null
     return null;
   } catch (error) {
     console.error("Error fetching building by name:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
+  }
+};
+
+// Fetch a single building by row id (e.g. from a link in a comment); null when hidden
+export const fetchBuildingByRowId = async (rowId: number): Promise<Building | null> => {
+  try {
+    const row = await getBuildingRepository().getRow(rowId);
+    return row.is_hidden ? null : baserowRowToBuilding(row);
+  } catch (error) {
+    console.error("Error fetching building by row id:", error);
+    throw toServiceError(error, "buildings");
+  }
+};
+
+// Upload new image files in order; a failed upload leaves a null so the rest of the save still goes through
+const uploadImageFiles = async (files: File[] | undefined, buildingName: string): Promise<(UploadedImage | null)[]> => {
+  const uploaded: (UploadedImage | null)[] = [];
+  for (const [index, file] of (files || []).entries()) {
+    try {
+      uploaded.push(await uploadImageToBaserow(file));
+    } catch (error) {
+      console.error(`Failed to upload image ${index + 1} for "${buildingName}":`, error);
+      uploaded.push(null);
+    }
   }
+  return uploaded;
+};
+
+// The collection to store: the building's images with pending uploads swapped for the uploaded
+// files, uploads it doesn't place appended, and a single new imageUrl (from a Places or Gemini
+// lookup) added at the end
+const imagesForSave = (building: Building, uploaded: (UploadedImage | null)[]): BuildingImage[] => {
+  const placed = new Set<number>();
+  const images = (building.images || []).flatMap(({ pendingUpload, ...image }): BuildingImage[] => {
+    if (pendingUpload === undefined) return image.url ? [image] : [];
+    placed.add(pendingUpload);
+    const file = uploaded[pendingUpload];
+    return file ? [{ ...image, ...file, source: "upload" }] : [];
+  });
+
+  uploaded.forEach((file, index) => {
+    if (file && !placed.has(index)) images.push({ ...file, source: "upload" });
+  });
+
+  const lookupUrl = extractUrlFromMarkdown(building.imageUrl);
+  if (lookupUrl && !images.some((image) => image.url === lookupUrl)) {
+    images.push({ url: lookupUrl, source: imageSourceForUrl(lookupUrl) });
+  }
+  return images;
 };
 
 // Save a building to Baserow
@@ -402,7 +365,7 @@ export const saveBuildingToBaserow = async (building: Building, imageFiles?: Fil
         typeof building.coordinates.lng !== 'number' ||
         isNaN(building.coordinates.lat) || 
         isNaN(building.coordinates.lng)) {
-      throw new Error(`Invalid coordinates for building "${building.name}": ${JSON.stringify(building.coordinates)}`);
+      throw validationError("buildings", `Invalid coordinates for building "${building.name}": ${JSON.stringify(building.coordinates)}`);
     }
     // Use city/country from building if available, otherwise try to parse from location
     let city = (building as BuildingForSave).city || "";
@@ -427,19 +390,7 @@ export const saveBuildingToBaserow = async (building: Building, imageFiles?: Fil
     // Prioritize gmapsUrl over groundingUrl (for backward compatibility)
     const gmapsUrl = building.gmapsUrl || building.groundingUrl || "";
 
-    // Upload files if provided
-    const uploadedFiles: (BaserowFileField | null)[] = [null, null, null];
-    if (imageFiles && imageFiles.length > 0) {
-      for (let i = 0; i < Math.min(imageFiles.length, 3); i++) {
-        try {
-          const uploadedFile = await uploadFileToBaserow(imageFiles[i]);
-          uploadedFiles[i] = uploadedFile;
-        } catch (error) {
-          console.error(`Failed to upload image ${i + 1} for "${building.name}":`, error);
-          // Continue with other images even if one fails
-        }
-      }
-    }
+    const images = imagesForSave(building, await uploadImageFiles(imageFiles, building.name));
 
     const payload: any = {
       name: building.name,
@@ -449,7 +400,6 @@ export const saveBuildingToBaserow = async (building: Building, imageFiles?: Fil
       lng: building.coordinates.lng.toString(),
       google_place_id: building.googlePlaceId || (building as BuildingForSave).googlePlaceId || "",
       Gmaps_url: gmapsUrl,
-      image_url: building.imageUrl || "",
       notes: building.description || "",
       location: building.location || "",
       style: building.style || "",
@@ -459,107 +409,48 @@ export const saveBuildingToBaserow = async (building: Building, imageFiles?: Fil
       source: building.source || "",
     };
 
-    // Add file fields (Baserow expects array format for file fields)
-    if (uploadedFiles[0]) payload.image_1 = [uploadedFiles[0]];
-    if (uploadedFiles[1]) payload.image_2 = [uploadedFiles[1]];
-    if (uploadedFiles[2]) payload.image_3 = [uploadedFiles[2]];
+    if (images.length > 0) payload.images = serializeImages(images);
+    // Only AI-found buildings carry it, so tables without a prompt_version column keep working for manual entries
+    if (building.promptVersion) payload.prompt_version = building.promptVersion;
 
     // Log what we're saving for debugging
     console.log(`Saving "${building.name}" to Baserow:`, {
       hasPlaceId: !!payload.google_place_id,
-      hasImage: !!payload.image_url,
+      imageCount: images.length,
       hasGmapsUrl: !!payload.Gmaps_url,
       coordinates: `${payload.lat}, ${payload.lng}`,
     });
 
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/?user_field_names=true`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
+    const data = await getBuildingRepository().createRow(payload);
     return baserowRowToBuilding(data);
   } catch (error) {
     console.error("Error saving to Baserow:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
-// Helper to normalize names for fuzzy matching
-const normalizeNameForMatch = (name: string): string => {
-  return name.toLowerCase()
-    .replace(/[^\w\s]/g, '') // Remove punctuation
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .trim();
-};
-
-// Helper to calculate similarity between two normalized names
-const nameSimilarity = (name1: string, name2: string): number => {
-  const norm1 = normalizeNameForMatch(name1);
-  const norm2 = normalizeNameForMatch(name2);
-  
-  // Exact match after normalization
-  if (norm1 === norm2) return 1.0;
-  
-  // One contains the other (high similarity)
-  if (norm1.includes(norm2) || norm2.includes(norm1)) {
-    const shorter = Math.min(norm1.length, norm2.length);
-    const longer = Math.max(norm1.length, norm2.length);
-    return shorter / longer;
-  }
-  
-  // Calculate word overlap
-  const words1 = new Set(norm1.split(' ').filter(w => w.length > 2));
-  const words2 = new Set(norm2.split(' ').filter(w => w.length > 2));
-  if (words1.size === 0 || words2.size === 0) return 0;
-  
-  const intersection = [...words1].filter(w => words2.has(w)).length;
-  const union = new Set([...words1, ...words2]).size;
-  return intersection / union;
-};
+// Same duplicate rules as the app's marker merging and the dedupe scripts
+const duplicateMatcher = createDuplicateMatcher();
 
 // Check if building already exists and return the Baserow row ID if found (with fuzzy matching)
 // IMPORTANT: This checks ALL buildings including hidden ones to prevent re-adding duplicates
 export const findExistingBuilding = async (building: Building): Promise<{ exists: boolean; rowId?: number }> => {
   try {
-    // Fetch ALL buildings including hidden ones for duplicate checking
+    // Fetch nearby buildings INCLUDING hidden ones for duplicate checking
     // This ensures we don't re-add buildings that were soft-deleted
-    const allBuildings = await fetchAllBuildingsIncludingHidden();
-    
-    // Filter to nearby buildings (within 1km) for performance
-    const nearby = allBuildings.filter((b) => {
-      const distance = getDistance(b.coordinates, building.coordinates);
-      return distance <= 1000; // 1km radius
+    const rows = await getBuildingRepository().findRowsNear({
+      kind: "radius",
+      center: building.coordinates,
+      radiusMeters: duplicateMatcher.thresholds.sameAreaMeters,
+      includeHidden: true,
     });
+    const nearby = rows.map(baserowRowToBuilding);
+    const candidate = matchableFromBuilding(building);
     
-    // First try exact name match
-    let existing = nearby.find(
-      (b) => normalizeNameForMatch(b.name) === normalizeNameForMatch(building.name)
-    );
-    
-    // If no exact match, try fuzzy matching
-    if (!existing) {
-      existing = nearby.find((b) => {
-        const nameSim = nameSimilarity(b.name, building.name);
-        if (nameSim < 0.6) return false; // Names too different
-        
-        // Also check if coordinates are close (within 500m)
-        const distance = getDistance(b.coordinates, building.coordinates);
-        return distance < 500;
-      });
-    }
+    // Prefer an exact name match, then anything the matcher considers the same building
+    const matches = nearby.filter((b) => duplicateMatcher.isDuplicate(matchableFromBuilding(b), candidate));
+    const existing =
+      matches.find((b) => normalizeName(b.name) === normalizeName(building.name)) || matches[0];
     
     if (existing) {
       // Extract Baserow row ID from the building ID (format: "baserow-{id}")
@@ -581,25 +472,10 @@ export const findExistingBuilding = async (building: Building): Promise<{ exists
 // Hide (soft-delete) a building in Baserow
 export const hideBuildingInBaserow = async (rowId: number): Promise<void> => {
   try {
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ is_hidden: true }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow API error: ${response.status} - ${errorText}`);
-    }
+    await getBuildingRepository().updateRow(rowId, { is_hidden: true });
   } catch (error) {
     console.error("Error hiding building in Baserow:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
@@ -607,46 +483,20 @@ export const hideBuildingInBaserow = async (rowId: number): Promise<void> => {
 // Also keeps is_prioritized in sync with favourites (favourites imply prioritized)
 export const toggleFavouriteInBaserow = async (rowId: number, isFavourite: boolean): Promise<void> => {
   try {
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          favourites: isFavourite,
-          is_prioritized: isFavourite,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow API error: ${response.status} - ${errorText}`);
-    }
+    await getBuildingRepository().updateRow(rowId, {
+      favourites: isFavourite,
+      is_prioritized: isFavourite,
+    });
   } catch (error) {
     console.error("Error toggling favourite in Baserow:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
 // Update an existing building in Baserow
 export const updateBuildingInBaserow = async (rowId: number, building: Building, imageFiles?: File[]): Promise<Building> => {
   try {
-    // Preserve existing comments when updating (don't overwrite them)
-    // Fetch current row to get existing comments
-    const currentResponse = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-    const currentRow: BaserowRow = currentResponse.ok ? await currentResponse.json() : {} as BaserowRow;
+    const repository = getBuildingRepository();
 
     // Use city/country from building if available, otherwise try to parse from location
     let city = (building as BuildingForSave).city || "";
@@ -668,21 +518,9 @@ export const updateBuildingInBaserow = async (rowId: number, building: Building,
     // Prioritize gmapsUrl over groundingUrl (for backward compatibility)
     const gmapsUrl = building.gmapsUrl || building.groundingUrl || "";
 
-    // Upload files if provided
-    const uploadedFiles: (BaserowFileField | null)[] = [null, null, null];
-    if (imageFiles && imageFiles.length > 0) {
-      for (let i = 0; i < Math.min(imageFiles.length, 3); i++) {
-        try {
-          const uploadedFile = await uploadFileToBaserow(imageFiles[i]);
-          uploadedFiles[i] = uploadedFile;
-        } catch (error) {
-          console.error(`Failed to upload image ${i + 1} for "${building.name}":`, error);
-          // Continue with other images even if one fails
-        }
-      }
-    }
+    const images = imagesForSave(building, await uploadImageFiles(imageFiles, building.name));
 
-    const basePayload: any = {
+    const payload: any = {
       name: building.name,
       city: city || "",
       country: country || "",
@@ -694,50 +532,20 @@ export const updateBuildingInBaserow = async (rowId: number, building: Building,
       location: building.location || "",
       style: building.style || "",
       architect: building.architect || "",
-      // Preserve existing comments
-      comment_1: currentRow.comment_1 || "",
-      comment_2: currentRow.comment_2 || "",
-      comment_3: currentRow.comment_3 || "",
-      comment_4: currentRow.comment_4 || "",
-      comment_5: currentRow.comment_5 || "",
-      comment_6: currentRow.comment_6 || "",
       is_prioritized: building.isPrioritized || false,
       is_purple_heart: building.hasPurpleHeart || false,
       source: building.source || "",
     };
 
-    // Add file fields if files were uploaded (Baserow expects array format for file fields)
-    if (uploadedFiles[0]) basePayload.image_1 = [uploadedFiles[0]];
-    if (uploadedFiles[1]) basePayload.image_2 = [uploadedFiles[1]];
-    if (uploadedFiles[2]) basePayload.image_3 = [uploadedFiles[2]];
-
-    // Only update image_url when we explicitly have one; otherwise preserve existing Baserow value
-    const payload = building.imageUrl
-      ? { ...basePayload, image_url: building.imageUrl }
-      : basePayload;
-
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow API error: ${response.status} - ${errorText}`);
-    }
+    // Buildings loaded from Baserow always carry their collection, so an empty one means the
+    // images were removed; without one (and nothing new to add) the stored images are left alone
+    if (building.images !== undefined || images.length > 0) payload.images = serializeImages(images);
 
-    const data = await response.json();
+    const data = await repository.updateRow(rowId, payload);
     return baserowRowToBuilding(data);
   } catch (error) {
     console.error("Error updating building in Baserow:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
@@ -747,424 +555,209 @@ export const buildingExists = async (building: Building): Promise<boolean> => {
   return result.exists;
 };
 
-// Helper to extract base name (before parentheses or other separators)
-const extractBaseName = (name: string): string => {
-  // Remove content in parentheses, brackets, or after common separators
-  const cleaned = name
-    .replace(/\s*\([^)]*\)/g, '') // Remove parentheses content
-    .replace(/\s*\[[^\]]*\]/g, '') // Remove bracket content
-    .replace(/\s*-\s*[^-]*$/g, '') // Remove content after dash
-    .trim();
-  return normalizeNameForMatch(cleaned);
+// A row taking part in a dedupe group, with the score used to pick which one to keep
+export interface DedupeCandidate {
+  rowId: number;
+  building: Building;
+  row: BaserowRow;
+  score: number;
+}
+
+// One piece of data copied from a duplicate onto the row being kept
+export interface DedupeFieldMerge {
+  field: keyof BaserowRowFields;
+  label: string;
+  fromRowId: number;
+  value: string; // Human-readable summary for the review modal
+}
+
+// Proposed merge for one group of duplicates - nothing is written until it's applied
+export interface DedupeGroup {
+  keep: DedupeCandidate;
+  duplicates: DedupeCandidate[];
+  merges: DedupeFieldMerge[];
+  fields: BaserowRowFields; // Update for the kept row (empty when nothing needs merging)
+}
+
+// Text fields that are filled in on the kept row when it has no value of its own
+const MERGEABLE_TEXT_FIELDS: { field: keyof BaserowRowFields; label: string }[] = [
+  { field: "architect", label: "Architect" },
+  { field: "style", label: "Style" },
+  { field: "notes", label: "Description" },
+  { field: "location", label: "Location" },
+  { field: "city", label: "City" },
+  { field: "country", label: "Country" },
+  { field: "google_place_id", label: "Google Place ID" },
+  { field: "Gmaps_url", label: "Google Maps URL" },
+];
+
+const summarize = (value: string): string => {
+  const text = value.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
 };
 
-// Helper to check if names share a significant portion
-const namesSharePortion = (name1: string, name2: string): boolean => {
-  const base1 = extractBaseName(name1);
-  const base2 = extractBaseName(name2);
-  
-  // If base names are the same or one contains the other, they share a portion
-  if (base1 === base2) return true;
-  if (base1.length >= 5 && base2.length >= 5) {
-    // Check if one base name contains the other (for cases like "De Inktpot" in both names)
-    if (base1.includes(base2) || base2.includes(base1)) {
-      const shorter = Math.min(base1.length, base2.length);
-      const longer = Math.max(base1.length, base2.length);
-      // Require at least 60% overlap
-      return shorter / longer >= 0.6;
+// Work out what the kept row should gain from its duplicates (missing details and images).
+// Comment threads aren't part of the plan - applyDedupeGroup moves them all to the kept row.
+// Pure, so the review modal can re-plan a group after the curator splits it or picks another keeper.
+export const planDedupeGroup = (keep: DedupeCandidate, duplicates: DedupeCandidate[]): DedupeGroup => {
+  const fields: BaserowRowFields = {};
+  const merges: DedupeFieldMerge[] = [];
+  // Best duplicates first, so their data wins when several could fill the same gap
+  const donors = [...duplicates].sort((a, b) => b.score - a.score);
+
+  for (const { field, label } of MERGEABLE_TEXT_FIELDS) {
+    if (keep.row[field]) continue;
+    const donor = donors.find((d) => typeof d.row[field] === "string" && (d.row[field] as string).trim());
+    if (donor) {
+      (fields as Record<string, unknown>)[field] = donor.row[field];
+      merges.push({ field, label, fromRowId: donor.rowId, value: summarize(donor.row[field] as string) });
     }
   }
-  
-  return false;
-};
 
-// Helper to check if building is one of the Seven Sisters in Russia
-const isSevenSisters = (building: Building): boolean => {
-  const name = building.name.toLowerCase();
-  const country = building.country?.toLowerCase() || '';
-  const city = building.city?.toLowerCase() || '';
-  
-  // Check if it's in Russia and matches Seven Sisters pattern
-  if (!country.includes('russia') && !country.includes('россия')) return false;
-  
-  // Seven Sisters are in Moscow
-  if (!city.includes('moscow') && !city.includes('москва')) return false;
-  
-  // Check for Seven Sisters building names
-  const sevenSistersKeywords = [
-    'ministry', 'ministry of foreign affairs', 'hotel ukraina', 'hotel leningradskaya',
-    'kotelnicheskaya', 'kudrinskaya', 'red gates', 'ministry of foreign affairs',
-    'seven sisters', 'stalinist', 'высотка', 'сталинская'
-  ];
-  
-  return sevenSistersKeywords.some(keyword => name.includes(keyword));
+  // Append the duplicates' images the kept row doesn't have yet (same upload or same URL)
+  const images = rowImages(keep.row);
+  const imageKey = (image: BuildingImage) => image.fileName || image.url;
+  const knownImages = new Set(images.map(imageKey));
+  for (const donor of donors) {
+    for (const image of rowImages(donor.row)) {
+      if (knownImages.has(imageKey(image))) continue;
+      knownImages.add(imageKey(image));
+      images.push(image);
+      merges.push({ field: "images", label: "Image", fromRowId: donor.rowId, value: image.caption || image.fileName || summarize(image.url) });
+    }
+  }
+  if (merges.some((merge) => merge.field === "images")) fields.images = serializeImages(images);
+
+  return { keep, duplicates, merges, fields };
 };
 
-// Dedupe function that can be called from the frontend
-// Returns list of deleted row IDs that should be blacklisted
-export const dedupeBaserowBuildings = async (): Promise<number[]> => {
+// Dry run: group likely duplicates (see utils/duplicateMatching) and propose a merge for each.
+// Nothing is written - the curator reviews the plan and applies approved groups with applyDedupeGroup.
+export const planDedupe = async (): Promise<DedupeGroup[]> => {
   try {
-    const allBuildings = await fetchAllBuildings();
-    console.log(`🔍 Found ${allBuildings.length} total buildings for dedupe check`);
-
-    // Group duplicates using fuzzy matching
-    const duplicateGroups: Building[][] = [];
-    const processed = new Set<string>();
-
-    for (let i = 0; i < allBuildings.length; i++) {
-      if (processed.has(allBuildings[i].id)) continue;
-
-      const group = [allBuildings[i]];
-      processed.add(allBuildings[i].id);
-
-      for (let j = i + 1; j < allBuildings.length; j++) {
-        if (processed.has(allBuildings[j].id)) continue;
-
-        // Skip if either building is a Seven Sisters building (exception)
-        if (isSevenSisters(allBuildings[i]) || isSevenSisters(allBuildings[j])) {
-          continue;
-        }
-
-        const distance = getDistance(allBuildings[i].coordinates, allBuildings[j].coordinates);
-        
-        // Check if within 10km and names share a portion
-        if (distance < 10000) { // 10km
-          // Check if names share a significant portion
-          if (namesSharePortion(allBuildings[i].name, allBuildings[j].name)) {
-            group.push(allBuildings[j]);
-            processed.add(allBuildings[j].id);
-          }
-        }
-      }
+    const rows = await getBuildingRepository().listRows();
+    const candidates: DedupeCandidate[] = rows.map((row) => {
+      const building = baserowRowToBuilding(row);
+      return { rowId: row.id, building, row, score: getBuildingScore(building) };
+    });
+    console.log(`🔍 Found ${candidates.length} total buildings for dedupe check`);
 
-      if (group.length > 1) {
-        duplicateGroups.push(group);
-      }
-    }
+    const duplicateGroups = groupDuplicates(candidates, (c) => matchableFromBuilding(c.building), duplicateMatcher);
 
     console.log(`📋 Found ${duplicateGroups.length} duplicate groups`);
 
-    if (duplicateGroups.length === 0) {
-      return [];
-    }
-
-    const deletedIds: number[] = [];
-
-    for (const group of duplicateGroups) {
-      // Log the duplicate group for debugging
-      console.log(`\n🔍 Duplicate group (${group.length} buildings):`);
-      group.forEach((b, idx) => {
-        console.log(`  ${idx + 1}. "${b.name}" at ${b.location || `${b.city || ''}, ${b.country || ''}`} (ID: ${b.id})`);
-      });
-
-      // Score each building in the group
-      const scored = group.map((b) => ({
-        building: b,
-        score: getBuildingScore(b),
-      }));
-
-      // Sort by score (highest first)
-      scored.sort((a, b) => b.score - a.score);
-
-      const keep = scored[0].building;
-      const toDelete = scored.slice(1);
-
-      console.log(`  ✅ Keeping: "${keep.name}" (score: ${scored[0].score.toFixed(1)})`);
-      console.log(`  🗑️  Deleting ${toDelete.length} duplicate(s):`);
-
-      for (const item of toDelete) {
-        // Extract Baserow row ID from the building ID (format: "baserow-{id}")
-        const rowIdMatch = item.building.id.match(/^baserow-(\d+)$/);
-        if (rowIdMatch) {
-          const rowId = parseInt(rowIdMatch[1], 10);
-          try {
-            // Delete from Baserow
-            const deleteUrl = `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`;
-            const deleteRes = await fetch(deleteUrl, {
-              method: "DELETE",
-              headers: {
-                Authorization: `Token ${API_TOKEN}`,
-                "Content-Type": "application/json",
-              },
-            });
-
-            if (deleteRes.ok) {
-              deletedIds.push(rowId);
-              console.log(`    🗑️ Deleted: "${item.building.name}" (score: ${item.score.toFixed(1)}, row ID: ${rowId})`);
-              // Small delay to avoid rate limits
-              await new Promise(resolve => setTimeout(resolve, 300));
-            } else {
-              console.error(`❌ Failed to delete row ${rowId}: ${deleteRes.status}`);
-            }
-          } catch (error) {
-            console.error(`❌ Error deleting row ${rowId}:`, error);
-          }
-        }
-      }
-    }
-
-    console.log(`✅ Dedupe complete. Deleted ${deletedIds.length} duplicates.`);
-    return deletedIds;
+    return duplicateGroups.map((group) => {
+      // Keep the highest scoring row (earliest row wins ties)
+      const sorted = [...group].sort((a, b) => b.score - a.score);
+      return planDedupeGroup(sorted[0], sorted.slice(1));
+    });
   } catch (error) {
-    console.error("Error during dedupe:", error);
-    throw error;
+    console.error("Error planning dedupe:", error);
+    throw toServiceError(error, "buildings");
   }
 };
 
-// Helper function to format comment HTML with timestamp metadata
-const formatCommentHtml = (text: string, createdAt: string, updatedAt?: string): string => {
-  const updatedAttr = updatedAt ? ` data-updated="${updatedAt}"` : '';
-  return `<div data-timestamp="${createdAt}"${updatedAttr}>${text}</div>`;
-};
+// Apply one approved group: merge data onto the kept row, move the duplicates' comment
+// threads to it, then delete the duplicates. A duplicate whose comments can't be moved is
+// left in place rather than orphaning its comments.
+// Deletions are recorded as revisions, so a wrongly merged row can be restored later.
+export const applyDedupeGroup = async (group: DedupeGroup): Promise<{ keep: Building; deletedIds: number[] }> => {
+  const repository = getBuildingRepository();
+  let keep = group.keep.building;
+
+  if (Object.keys(group.fields).length > 0) {
+    const updatedRow = await repository.updateRow(group.keep.rowId, group.fields);
+    keep = baserowRowToBuilding(updatedRow);
+    console.log(`  🔀 Merged ${group.merges.length} field(s) into "${keep.name}" (row ID: ${group.keep.rowId})`);
+  }
 
-// Helper function to convert comments array to Baserow comment fields
-const commentsToBaserowFields = (comments: Comment[]): Record<string, string> => {
-  const fields: Record<string, string> = {};
-  const fieldNames = ['comment_1', 'comment_2', 'comment_3', 'comment_4', 'comment_5', 'comment_6'];
-  
-  comments.forEach((comment, index) => {
-    if (index < fieldNames.length) {
-      fields[fieldNames[index]] = formatCommentHtml(comment.text, comment.createdAt, comment.updatedAt);
+  const deletedIds: number[] = [];
+  for (const duplicate of group.duplicates) {
+    try {
+      const moved = await repository.moveComments(duplicate.rowId, group.keep.rowId);
+      if (moved > 0) console.log(`    💬 Moved ${moved} comment(s) from row ${duplicate.rowId}`);
+      await repository.deleteRow(duplicate.rowId);
+      deletedIds.push(duplicate.rowId);
+      console.log(`    🗑️ Deleted: "${duplicate.building.name}" (score: ${duplicate.score.toFixed(1)}, row ID: ${duplicate.rowId})`);
+      // Small delay to avoid rate limits
+      await new Promise(resolve => setTimeout(resolve, 300));
+    } catch (error) {
+      console.error(`❌ Failed to merge row ${duplicate.rowId}:`, error);
     }
-  });
-  
-  // Clear remaining fields
-  for (let i = comments.length; i < fieldNames.length; i++) {
-    fields[fieldNames[i]] = '';
   }
-  
-  return fields;
-};
 
-// Add a comment to a building
-export const addCommentToBuilding = async (rowId: number, commentText: string): Promise<Building> => {
-  try {
-    // Fetch current building to get existing comments
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+  return { keep, deletedIds };
+};
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow API error: ${response.status} - ${errorText}`);
+// Nest replies under their parents. Deleted comments are only kept as placeholders
+// when something still replies to them.
+export const buildCommentThreads = (comments: Comment[]): CommentThread[] => {
+  const threads = new Map<number, CommentThread>();
+  comments.forEach((comment) => threads.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentThread[] = [];
+  threads.forEach((thread) => {
+    const parent = thread.parentId !== undefined ? threads.get(thread.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread); // Top-level, or a reply whose parent is missing
     }
+  });
 
-    const row: BaserowRow = await response.json();
-    
-    // Parse existing comments
-    const existingComments: Comment[] = [];
-    const commentFields = [row.comment_1, row.comment_2, row.comment_3, row.comment_4, row.comment_5, row.comment_6];
-    commentFields.forEach((commentHtml) => {
-      if (commentHtml && commentHtml.trim()) {
-        const timestampMatch = commentHtml.match(/data-timestamp="([^"]+)"/);
-        const updatedMatch = commentHtml.match(/data-updated="([^"]+)"/);
-        const timestamp = timestampMatch ? timestampMatch[1] : new Date().toISOString();
-        const updatedAt = updatedMatch ? updatedMatch[1] : undefined;
-        const wrapperMatch = commentHtml.match(/<div[^>]*data-timestamp="[^"]*"[^>]*>([\s\S]*?)<\/div>$/);
-        const content = wrapperMatch ? wrapperMatch[1] : commentHtml;
-        existingComments.push({
-          text: content.trim(),
-          createdAt: timestamp,
-          updatedAt: updatedAt || undefined,
-        });
-      }
-    });
+  const prune = (list: CommentThread[]): CommentThread[] =>
+    list
+      .map((thread) => ({ ...thread, replies: prune(thread.replies) }))
+      .filter((thread) => !thread.isDeleted || thread.replies.length > 0)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 
-    // Add new comment
-    const newComment: Comment = {
-      text: commentText,
-      createdAt: new Date().toISOString(),
-    };
-    const updatedComments = [...existingComments, newComment];
-
-    // Convert to Baserow fields
-    const commentFieldsUpdate = commentsToBaserowFields(updatedComments);
-
-    // Update building with new comments
-    const updateResponse = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(commentFieldsUpdate),
-      }
-    );
+  return prune(roots);
+};
 
-    if (!updateResponse.ok) {
-      const errorText = await updateResponse.text();
-      throw new Error(`Baserow API error: ${updateResponse.status} - ${errorText}`);
-    }
+// Comments on a building, oldest first (nest them with buildCommentThreads)
+export const fetchBuildingComments = async (rowId: number): Promise<Comment[]> => {
+  try {
+    return await getBuildingRepository().listComments(rowId);
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    throw toServiceError(error, "buildings");
+  }
+};
+
+// Reduce editor HTML to the comment format (utils/richText); the API sanitises again on write
+const toCommentHtml = (commentText: string): string => {
+  const html = sanitizeRichText(commentText);
+  if (!richTextToPlainText(html)) throw validationError("buildings", "Comment is empty");
+  return html;
+};
 
-    const updatedRow: BaserowRow = await updateResponse.json();
-    return baserowRowToBuilding(updatedRow);
+// Add a comment to a building, or a reply when parentId is given
+export const addCommentToBuilding = async (rowId: number, commentText: string, parentId?: number): Promise<Comment> => {
+  try {
+    return await getBuildingRepository().createComment(rowId, toCommentHtml(commentText), parentId);
   } catch (error) {
     console.error("Error adding comment to building:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
-// Update a comment at a specific index
-export const updateCommentInBuilding = async (rowId: number, commentIndex: number, commentText: string): Promise<Building> => {
+// Edit a comment (the previous text is kept in its edit history)
+export const updateCommentInBuilding = async (commentId: number, commentText: string): Promise<Comment> => {
   try {
-    // Fetch current building
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow API error: ${response.status} - ${errorText}`);
-    }
-
-    const row: BaserowRow = await response.json();
-    
-    // Parse existing comments
-    const existingComments: Comment[] = [];
-    const commentFields = [row.comment_1, row.comment_2, row.comment_3, row.comment_4, row.comment_5, row.comment_6];
-    commentFields.forEach((commentHtml) => {
-      if (commentHtml && commentHtml.trim()) {
-        const timestampMatch = commentHtml.match(/data-timestamp="([^"]+)"/);
-        const updatedMatch = commentHtml.match(/data-updated="([^"]+)"/);
-        const timestamp = timestampMatch ? timestampMatch[1] : new Date().toISOString();
-        const updatedAt = updatedMatch ? updatedMatch[1] : undefined;
-        const wrapperMatch = commentHtml.match(/<div[^>]*data-timestamp="[^"]*"[^>]*>([\s\S]*?)<\/div>$/);
-        const content = wrapperMatch ? wrapperMatch[1] : commentHtml;
-        existingComments.push({
-          text: content.trim(),
-          createdAt: timestamp,
-          updatedAt: updatedAt || undefined,
-        });
-      }
-    });
-
-    // Update comment at index
-    if (commentIndex >= 0 && commentIndex < existingComments.length) {
-      existingComments[commentIndex] = {
-        ...existingComments[commentIndex],
-        text: commentText,
-        updatedAt: new Date().toISOString(),
-      };
-    } else {
-      throw new Error(`Invalid comment index: ${commentIndex}`);
-    }
-
-    // Convert to Baserow fields
-    const commentFieldsUpdate = commentsToBaserowFields(existingComments);
-
-    // Update building
-    const updateResponse = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(commentFieldsUpdate),
-      }
-    );
-
-    if (!updateResponse.ok) {
-      const errorText = await updateResponse.text();
-      throw new Error(`Baserow API error: ${updateResponse.status} - ${errorText}`);
-    }
-
-    const updatedRow: BaserowRow = await updateResponse.json();
-    return baserowRowToBuilding(updatedRow);
+    return await getBuildingRepository().updateComment(commentId, toCommentHtml(commentText));
   } catch (error) {
     console.error("Error updating comment:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
-// Delete a comment at a specific index
-export const deleteCommentFromBuilding = async (rowId: number, commentIndex: number): Promise<Building> => {
+// Delete a comment (soft delete - replies stay attached to it)
+export const deleteCommentFromBuilding = async (commentId: number): Promise<Comment> => {
   try {
-    // Fetch current building
-    const response = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Baserow API error: ${response.status} - ${errorText}`);
-    }
-
-    const row: BaserowRow = await response.json();
-    
-    // Parse existing comments
-    const existingComments: Comment[] = [];
-    const commentFields = [row.comment_1, row.comment_2, row.comment_3, row.comment_4, row.comment_5, row.comment_6];
-    commentFields.forEach((commentHtml) => {
-      if (commentHtml && commentHtml.trim()) {
-        const timestampMatch = commentHtml.match(/data-timestamp="([^"]+)"/);
-        const updatedMatch = commentHtml.match(/data-updated="([^"]+)"/);
-        const timestamp = timestampMatch ? timestampMatch[1] : new Date().toISOString();
-        const updatedAt = updatedMatch ? updatedMatch[1] : undefined;
-        const wrapperMatch = commentHtml.match(/<div[^>]*data-timestamp="[^"]*"[^>]*>([\s\S]*?)<\/div>$/);
-        const content = wrapperMatch ? wrapperMatch[1] : commentHtml;
-        existingComments.push({
-          text: content.trim(),
-          createdAt: timestamp,
-          updatedAt: updatedAt || undefined,
-        });
-      }
-    });
-
-    // Remove comment at index
-    if (commentIndex >= 0 && commentIndex < existingComments.length) {
-      existingComments.splice(commentIndex, 1);
-    } else {
-      throw new Error(`Invalid comment index: ${commentIndex}`);
-    }
-
-    // Convert to Baserow fields
-    const commentFieldsUpdate = commentsToBaserowFields(existingComments);
-
-    // Update building
-    const updateResponse = await fetch(
-      `${BASEROW_API_BASE}/${TABLE_ID}/${rowId}/?user_field_names=true`,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Token ${API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(commentFieldsUpdate),
-      }
-    );
-
-    if (!updateResponse.ok) {
-      const errorText = await updateResponse.text();
-      throw new Error(`Baserow API error: ${updateResponse.status} - ${errorText}`);
-    }
-
-    const updatedRow: BaserowRow = await updateResponse.json();
-    return baserowRowToBuilding(updatedRow);
+    return await getBuildingRepository().deleteComment(commentId);
   } catch (error) {
     console.error("Error deleting comment:", error);
-    throw error;
+    throw toServiceError(error, "buildings");
   }
 };
 
@@ -1182,3 +775,54 @@ const getBuildingScore = (b: Building): number => {
   return score;
 };
 
+
+// Revision history for a building, newest first
+export const fetchBuildingRevisions = async (rowId: number): Promise<BuildingRevision[]> => {
+  try {
+    return await getBuildingRepository().listRevisions(rowId);
+  } catch (error) {
+    console.error("Error fetching revision history:", error);
+    throw toServiceError(error, "buildings");
+  }
+};
+
+// Put a building back to how it was at an earlier revision.
+// Returns null when that version was hidden, i.e. the building is no longer on the map.
+export const restoreBuildingRevision = async (rowId: number, revisionId: number): Promise<Building | null> => {
+  try {
+    const row = await getBuildingRepository().restoreRevision(rowId, revisionId);
+    console.log(`⏪ Restored row ${rowId} to revision ${revisionId}`);
+    return row.is_hidden ? null : baserowRowToBuilding(row);
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    throw toServiceError(error, "buildings");
+  }
+};
+
+// Deleted buildings (including ones removed by dedupe) that can still be restored
+export const fetchDeletedBuildings = async (): Promise<DeletedBuilding[]> => {
+  try {
+    const revisions = await getBuildingRepository().listDeletedRevisions();
+    return revisions.map((revision) => ({
+      revisionId: revision.id,
+      building: baserowRowToBuilding({ ...(revision.snapshot as Partial<BaserowRow>), id: revision.rowId }),
+      deletedBy: revision.username,
+      deletedAt: revision.createdAt,
+    }));
+  } catch (error) {
+    console.error("Error fetching deleted buildings:", error);
+    throw toServiceError(error, "buildings");
+  }
+};
+
+// Recreate a deleted building from its last snapshot (it comes back with a new row ID)
+export const restoreDeletedBuilding = async (revisionId: number): Promise<Building> => {
+  try {
+    const row = await getBuildingRepository().restoreDeletedRow(revisionId);
+    console.log(`♻️ Restored deleted building as row ${row.id} (from revision ${revisionId})`);
+    return baserowRowToBuilding(row);
+  } catch (error) {
+    console.error("Error restoring deleted building:", error);
+    throw toServiceError(error, "buildings");
+  }
+};
@@ -0,0 +1,187 @@
+import { BuildingImage, BuildingRevision, Comment, Coordinates, FieldChange, GeoBounds, RevisionAction } from "../types";
+import { getDistance, isWithinBounds } from "../utils/geo";
+import { createBaserowRepository } from "./baserowRepository";
+import { createLocalRepository } from "./localRepository";
+
+// Baserow file field format (what we get from API)
+export interface BaserowFileField {
+  name: string;
+  url: string;
+  size?: number;
+  mime_type?: string;
+}
+
+// A stored photo: the file plus, when the server could process it, its responsive variants
+export type UploadedImage = Pick<BuildingImage, "url" | "fileName" | "width" | "height" | "placeholder" | "variants">;
+
+// Baserow row format (what we get from API)
+// Every storage backend reads and writes rows in this shape so the
+// row <-> Building mapping in baserowService stays the same for all of them.
+export interface BaserowRow {
+  id: number;
+  name?: string;
+  city?: string;
+  country?: string;
+  lat?: string;
+  lng?: string;
+  google_place_id?: string;
+  Gmaps_url?: string;
+  image_url?: string;
+  image_1?: BaserowFileField[] | null; // File field - array of file objects
+  image_2?: BaserowFileField[] | null;
+  image_3?: BaserowFileField[] | null;
+  images?: string | null; // Long text: JSON list of BuildingImage (ordered, first is the cover). Empty on rows that predate it
+  notes?: string;
+  style?: string; // Architectural style
+  architect?: string; // Architect name if available
+  location?: string; // Full address/location
+  is_prioritized?: boolean; // Whether building is prioritized (Art Deco by famous architect)
+  is_hidden?: boolean; // Whether building is hidden (soft-deleted)
+  is_purple_heart?: boolean; // Whether building should have a purple glowing heart
+  source?: string; // Source of building entry (e.g., 'manual')
+  favourites?: boolean; // Whether building is marked as a favourite
+  prompt_version?: string; // Prompt version that found an AI-discovered building (e.g. "discover@1")
+  updated_on?: string; // "Last modified" timestamp maintained by Baserow (the delta-sync cursor)
+}
+
+// Writable subset of a row (everything except the id and Baserow-maintained fields)
+export type BaserowRowFields = Partial<Omit<BaserowRow, "id" | "updated_on">>;
+
+// Everything that changed since a sync cursor: modified rows (hidden ones included,
+// so callers can drop them) and the ids of rows deleted outright
+export interface RowChanges {
+  rows: BaserowRow[];
+  deletedIds: number[];
+}
+
+export interface ListRowsOptions {
+  limitPages?: number; // Only fetch the first N pages (progressive loading)
+  includeHidden?: boolean; // Include soft-deleted rows (used for duplicate checks)
+}
+
+// Geo lookups - radius, bounding box or the N nearest rows to a point
+export type GeoQuery =
+  | { kind: "radius"; center: Coordinates; radiusMeters: number; includeHidden?: boolean }
+  | { kind: "bounds"; bounds: GeoBounds; includeHidden?: boolean }
+  | { kind: "nearest"; center: Coordinates; limit: number; maxRadiusMeters?: number; includeHidden?: boolean };
+
+/**
+ * Storage backend for building rows.
+ *
+ * Implementations only move rows in and out of storage - name matching,
+ * dedupe scoring and the row <-> Building mapping stay in baserowService.
+ */
+export interface BuildingRepository {
+  readonly kind: DataBackend;
+  listRows(options?: ListRowsOptions): Promise<BaserowRow[]>;
+  getRow(rowId: number, options?: { fresh?: boolean }): Promise<BaserowRow>; // fresh: never from the service worker cache
+  findRowsByName(name: string): Promise<BaserowRow[]>;
+  findRowsNear(query: GeoQuery): Promise<BaserowRow[]>;
+  listRowsChangedSince(since: string): Promise<RowChanges>; // `since` is an updated_on timestamp
+  createRow(fields: BaserowRowFields): Promise<BaserowRow>;
+  updateRow(rowId: number, fields: BaserowRowFields): Promise<BaserowRow>;
+  deleteRow(rowId: number): Promise<void>;
+  uploadFile(file: File): Promise<BaserowFileField>;
+  uploadImage(file: File): Promise<UploadedImage>; // Photos: resized into responsive variants where supported
+  listRevisions(rowId: number): Promise<BuildingRevision[]>; // Newest first
+  restoreRevision(rowId: number, revisionId: number): Promise<BaserowRow>;
+  listDeletedRevisions(): Promise<BuildingRevision[]>; // 'delete' revisions not yet restored
+  restoreDeletedRow(revisionId: number): Promise<BaserowRow>; // Recreates the row (with a new id)
+  listComments(rowId: number): Promise<Comment[]>; // Oldest first, including soft-deleted comments
+  createComment(rowId: number, text: string, parentId?: number): Promise<Comment>;
+  updateComment(commentId: number, text: string): Promise<Comment>; // Previous text goes into `edits`
+  deleteComment(commentId: number): Promise<Comment>; // Soft delete - returns the emptied comment
+  moveComments(fromRowId: number, toRowId: number): Promise<number>; // Returns how many were moved
+}
+
+export type DataBackend = "baserow" | "local";
+
+const parseRowCoordinates = (row: BaserowRow): Coordinates | null => {
+  const lat = parseFloat(row.lat || "");
+  const lng = parseFloat(row.lng || "");
+  if (isNaN(lat) || isNaN(lng) || (lat === 0 && lng === 0)) return null;
+  return { lat, lng };
+};
+
+// Answer a geo query by scanning rows in memory (nearest first for radius/nearest queries).
+// Used by the local backend and as a fallback when the geo query endpoint is unreachable.
+export const filterRowsByGeoQuery = (rows: BaserowRow[], query: GeoQuery): BaserowRow[] => {
+  const candidates = query.includeHidden ? rows : rows.filter((row) => !row.is_hidden);
+
+  if (query.kind === "bounds") {
+    return candidates.filter((row) => {
+      const coords = parseRowCoordinates(row);
+      return !!coords && isWithinBounds(coords, query.bounds);
+    });
+  }
+
+  const maxDistance = query.kind === "radius" ? query.radiusMeters : query.maxRadiusMeters ?? Infinity;
+  const matches = candidates
+    .map((row) => {
+      const coords = parseRowCoordinates(row);
+      return { row, distance: coords ? getDistance(query.center, coords) : Infinity };
+    })
+    .filter((match) => match.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .map((match) => match.row);
+
+  return query.kind === "nearest" ? matches.slice(0, query.limit) : matches;
+};
+
+// Treat empty strings, null and undefined as the same "no value" when diffing rows
+const normalizeFieldValue = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === "") return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+};
+
+// Field-level diff between two row states, ignoring the row id and last-modified stamp.
+// Mirrors diffRows in server/lib/revisions.js so both backends record the same history.
+export const diffRowFields = (
+  before: Partial<BaserowRow> | null,
+  after: Partial<BaserowRow> | null
+): Record<string, FieldChange> => {
+  const changes: Record<string, FieldChange> = {};
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  keys.forEach((key) => {
+    if (key === "id" || key === "order" || key === "updated_on") return;
+    const from = normalizeFieldValue(previous[key]);
+    const to = normalizeFieldValue(next[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  });
+  return changes;
+};
+
+// Name an update after what it changed (hiding, or a general edit)
+export const classifyRowUpdate = (changes: Record<string, FieldChange>): RevisionAction => {
+  if (changes.is_hidden) return changes.is_hidden.to ? "hide" : "unhide";
+  return "update";
+};
+
+// Backend is chosen at build time via VITE_DATA_BACKEND (defaults to Baserow)
+export const getConfiguredBackend = (): DataBackend => {
+  const configured = (process.env.DATA_BACKEND || "").toLowerCase().trim();
+  if (configured === "local" || configured === "memory") return "local";
+  return "baserow";
+};
+
+let repository: BuildingRepository | null = null;
+
+// Lazily create the configured repository on first use
+export const getBuildingRepository = (): BuildingRepository => {
+  if (!repository) {
+    repository = getConfiguredBackend() === "local"
+      ? createLocalRepository()
+      : createBaserowRepository();
+  }
+  return repository;
+};
+
+// Swap the active repository (e.g. for scripted checks against a fixture dataset)
+export const setBuildingRepository = (next: BuildingRepository | null): void => {
+  repository = next;
+};
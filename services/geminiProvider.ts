@@ -0,0 +1,96 @@
+import { GoogleGenAI } from "@google/genai";
+import { ServiceError } from "../types";
+import { AIProvider, AITask } from "./aiProvider";
+import { getKnownResetAt } from "./aiBudgetService";
+import { getApiBaseUrl } from "./apiConfig";
+import { getAuthHeaders } from "./authService";
+import { configError, isServiceError, overloadedError, rateLimitedError, toServiceError } from "./serviceErrors";
+
+// Used when a request doesn't name a model (prompt versions in utils/promptLibrary.js do).
+// Grounded discovery needs 2.5 for the Maps tool; POI evaluation has always run on the 2.0 preview.
+const GEMINI_MODELS: Record<AITask, string> = {
+  geocode: "gemini-2.5-flash",
+  discover: "gemini-2.5-flash",
+  evaluate_poi: "gemini-2.0-flash-exp",
+};
+
+// Classify a failed Gemini call. The SDK's errors carry the HTTP status, and older ones only
+// say RESOURCE_EXHAUSTED / UNAVAILABLE in the message, so both are checked - here and nowhere else.
+const toGeminiError = (error: any): ServiceError => {
+  if (isServiceError(error)) return error;
+  const message = error?.message || String(error || "");
+  const status = typeof error?.status === "number" ? error.status : error?.code;
+  if (status === 429 || /quota|rate limit|RESOURCE_EXHAUSTED|\b429\b/i.test(message)) {
+    return rateLimitedError("gemini", "Gemini API rate limit reached.", { source: "upstream", resetAt: getKnownResetAt() });
+  }
+  if (status === 503 || /UNAVAILABLE|model is overloaded/i.test(message)) {
+    return overloadedError("gemini", "Gemini is overloaded. Please try again shortly.");
+  }
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED/i.test(message)) {
+    return configError("gemini", `Gemini rejected the API key: ${message}`, status);
+  }
+  return toServiceError(error, "gemini");
+};
+
+// Google Gemini through @google/genai, with the key baked in at build time (VITE_GEMINI_API_KEY).
+// With `viaApiServer` (VITE_GEMINI_VIA_API=true) calls go through the dev API server instead, which
+// adds its own key and can record or replay them (HTTP_FIXTURES, see server/lib/httpFixtures.js).
+export const createGeminiProvider = (
+  apiKey: string | undefined = process.env.API_KEY,
+  viaApiServer: boolean = process.env.GEMINI_VIA_API === "true"
+): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const createClient = () =>
+    viaApiServer
+      ? // The SDK insists on a key in the browser; the API server swaps in the real one.
+        // Recording through it needs a contributor session, so the client carries the current one.
+        new GoogleGenAI({
+          apiKey: apiKey || "api-server",
+          httpOptions: { baseUrl: `${getApiBaseUrl()}/api/gemini`, headers: getAuthHeaders() },
+        })
+      : new GoogleGenAI({ apiKey });
+
+  const ensureConfigured = () => {
+    if (!apiKey && !viaApiServer) {
+      console.error("CRITICAL: Gemini API key is missing");
+      throw configError("gemini", "Gemini API key is not configured. Please set VITE_GEMINI_API_KEY environment variable.");
+    }
+  };
+
+  return {
+    kind: "gemini",
+    live: true,
+    ensureConfigured,
+
+    async generate({ task, prompt, systemInstruction, model, responseSchema, grounded, near }) {
+      ensureConfigured();
+      // Through the API server the client is rebuilt per call so it carries whoever is signed in now
+      if (!client || viaApiServer) client = createClient();
+      try {
+        const response = await client.models.generateContent({
+          model: model || GEMINI_MODELS[task],
+          contents: prompt,
+          config: {
+            systemInstruction,
+            // responseMimeType and responseSchema are NOT supported together with the googleMaps/googleSearch tools
+            ...(responseSchema ? { responseMimeType: "application/json", responseSchema } : {}),
+            // Google Maps and Google Search can be used together
+            ...(grounded
+              ? {
+                  tools: [{ googleMaps: {}, googleSearch: {} }],
+                  toolConfig: near ? { retrievalConfig: { latLng: { latitude: near.lat, longitude: near.lng } } } : undefined,
+                }
+              : {}),
+          },
+        });
+        return {
+          text: response.text || "",
+          groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks || [],
+        };
+      } catch (error) {
+        throw toGeminiError(error);
+      }
+    },
+  };
+};
@@ -1,31 +1,33 @@
-import { GoogleGenAI } from "@google/genai";
-import { Building, ArchitecturalStyle, Coordinates } from "../types";
+import { Building, BuildingImage, Coordinates, AiBudgetPurpose, AiCandidateReport } from "../types";
 import { saveBuildingToBaserow, findExistingBuilding } from "./baserowService";
-
-// Helper to get API base URL (environment-aware for dev/production)
-const getApiBaseUrl = (): string => {
-  const env = (import.meta as any).env || {};
-  // In production, use relative URL (Netlify redirects handle routing)
-  if (env.PROD) {
-    // Production: use relative URL - Netlify redirects will route to functions
-    // Or use explicit URL if VITE_API_URL is set (for custom deployments)
-    return env.VITE_API_URL || '';
-  }
-  // Development: use localhost with port (Express server)
-  const apiPort = env.VITE_API_PORT || '3001';
-  return `http://localhost:${apiPort}`;
+import { getAuthHeaders, getCurrentUser, hasRole } from "./authService";
+import { getApiBaseUrl } from "./apiConfig";
+import { parsePlacesAttributions, placesPhotoUrl } from "../utils/placesPhoto";
+import { validateBuildingCandidates } from "../utils/aiCandidateSchema";
+import { parseModelJsonArray, parseModelJsonObject } from "../utils/modelJson";
+import { aiCacheKey, cacheAiResponse, getCachedAiResponse } from "./aiCacheService";
+import { consumeGeminiBudget } from "./aiBudgetService";
+import { getAIProvider } from "./aiProvider";
+import { getPrompt } from "../utils/promptLibrary";
+import { errorFromResponse, isServiceError, isTryLaterError, toServiceError } from "./serviceErrors";
+
+// A Places photo as a building image: the keyless proxy URL plus the credits Google requires
+// to be shown with it (each photo's html_attributions)
+const placesPhotoImage = (photo: any): BuildingImage => {
+  const attributions = parsePlacesAttributions(photo.html_attributions);
+  return {
+    url: placesPhotoUrl(photo.photo_reference),
+    source: "google_places",
+    ...(attributions.length > 0 ? { attributions } : {}),
+  };
 };
 
-// Helper to extract JSON array from potentially markdown-formatted text
-const extractJson = (str: string): string => {
-  // Finds the first '[' and the last ']'
-  const firstOpen = str.indexOf('[');
-  const lastClose = str.lastIndexOf(']');
-  
-  if (firstOpen !== -1 && lastClose !== -1 && firstOpen < lastClose) {
-    return str.substring(firstOpen, lastClose + 1);
-  }
-  return "[]";
+// Log what the candidate schema repaired and dropped from a Gemini answer
+const logCandidateReport = (report: AiCandidateReport, context: string) => {
+  report.repaired.forEach(({ name, repairs }) => console.log(`🔧 Repaired "${name}" from Gemini (${context}): ${repairs.join("; ")}`));
+  report.rejected.forEach(({ index, name, reasons }) =>
+    console.warn(`🚫 Dropped Gemini item ${index + 1}${name ? ` "${name}"` : ""} (${context}): ${reasons.join("; ")}`)
+  );
 };
 
 // Helper: polite delay
@@ -33,54 +35,47 @@ const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 // Geocode a location name to coordinates using Gemini
 export const geocodeLocation = async (locationName: string): Promise<Coordinates | null> => {
-  if (!process.env.API_KEY) {
-    console.error("CRITICAL: API Key is missing for geocoding");
-    throw new Error("Gemini API key is not configured. Please set VITE_GEMINI_API_KEY environment variable.");
-  }
+  const ai = getAIProvider();
+  ai.ensureConfigured();
+
+  // Only live answers are cached and counted - mock answers come straight from the fixture
+  const cacheKey = aiCacheKey("geocode", locationName);
+  const cached = ai.live ? await getCachedAiResponse<Coordinates>("geocode", cacheKey) : null;
+  if (cached) return cached;
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  // Outside the try below, so a spent budget reaches the caller instead of becoming "not found"
+  if (ai.live) await consumeGeminiBudget("search");
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `What are the latitude and longitude coordinates for ${locationName}? Return only valid JSON: {"lat": number, "lng": number}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            lat: { type: "number" },
-            lng: { type: "number" }
-          },
-          required: ["lat", "lng"]
-        }
+    const promptTemplate = getPrompt("geocode");
+    const { text } = await ai.generate({
+      task: "geocode",
+      subject: locationName,
+      prompt: promptTemplate.render({ locationName }),
+      model: promptTemplate.model,
+      responseSchema: {
+        type: "object",
+        properties: {
+          lat: { type: "number" },
+          lng: { type: "number" }
+        },
+        required: ["lat", "lng"]
       }
     });
 
-    const jsonText = response.text || "{}";
+    const jsonText = text || "{}";
     const data = JSON.parse(jsonText);
     
     if (typeof data.lat === "number" && typeof data.lng === "number") {
-      return { lat: data.lat, lng: data.lng };
+      const coords = { lat: data.lat, lng: data.lng };
+      if (ai.live) void cacheAiResponse("geocode", cacheKey, coords);
+      return coords;
     }
     
     return null;
   } catch (error: any) {
     console.error("Geocoding error:", error);
-    // Check for rate limit / quota issues
-    const msg = error?.message || String(error || "");
-    const isRateLimit =
-      msg.includes("quota") ||
-      msg.includes("rate limit") ||
-      msg.includes("429") ||
-      msg.includes("RESOURCE_EXHAUSTED");
-
-    if (isRateLimit) {
-      const rateLimitError: any = new Error("Gemini geocoding rate limit reached.");
-      rateLimitError.isRateLimit = true;
-      rateLimitError.isGeocodeLimit = true;
-      throw rateLimitError;
-    }
+    if (isTryLaterError(error)) throw error;
 
     // For other errors, just return null so the app can fall back to Baserow / Gemini search centering
     return null;
@@ -88,113 +83,10 @@ export const geocodeLocation = async (locationName: string): Promise<Coordinates
 };
 
 export const fetchLairs = async (locationQuery: string, userLat?: number, userLng?: number): Promise<Building[]> => {
-  if (!process.env.API_KEY) {
-    console.error("API Key is missing");
-    throw new Error("API Key is missing. Please check your configuration.");
-  }
+  const ai = getAIProvider();
+  ai.ensureConfigured();
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const systemInstruction = `
-    You are 'The Archivist', a curator for "The Villain's Atlas". 
-    Your mission is to identify ONLY the most extreme, imposing, and architecturally menacing buildings in the world.
-    
-    QUALITY OVER QUANTITY: These buildings should be rare, exceptional examples. Most cities will have ZERO qualifying buildings. Only the most extreme examples qualify.
-    
-    CRITICAL SELECTION CRITERIA (IN PRIORITY ORDER):
-    
-    PRIORITY 1 - ART DECO MASTERPIECES:
-    - FIRST, search for historically significant Art Deco buildings by well-known architects (e.g., Empire State Building, Chrysler Building, Rockefeller Center, Daily News Building, American Radiator Building).
-    - These should be included even if they don't meet all other criteria (they can be slightly less "evil" if historically significant).
-    - Mark these with "isPrioritized": true and include "architect" name if well-known.
-    - Only if NO historically significant Art Deco buildings exist, proceed to Priority 2.
-    
-    PRIORITY 2 - OTHER QUALIFYING BUILDINGS:
-    1. SIZE & SCALE: Buildings must be LARGE-SCALE, monumental structures. Think skyscrapers, massive government buildings, enormous brutalist complexes. Small buildings do NOT qualify.
-    2. ARCHITECTURAL STYLES - Accept any of these or their common synonyms/variants:
-       - Soviet/Communist: Stalinist Gothic, Soviet Modernism, Socialist Classicism, Soviet Brutalism
-       - Brutalist: Brutalism, New Brutalism, Concrete Brutalism, Raw Concrete
-       - Deco: Dark Deco, Art Deco, Streamlined Moderne, Gothic Deco
-       - Gothic: Gothic Revival, Neo-Gothic, Victorian Gothic, Industrial Gothic
-       - Cathedral: Cathedral (for cathedrals specifically)
-       - Other Menacing: Totalitarian, Fascist Architecture, Monumental, Fortress, Bunker, Cyberpunk, Dystopian
-       - Use the most accurate style name, even if it's a variant or synonym. Style naming is subjective - choose what best describes the building.
-       - If a building has multiple distinct architectural styles, list them comma-separated (e.g., "Cathedral, Gothic Revival"). The first style is the primary style used for color coding.
-    3. AESTHETIC: Must be genuinely SCARY, OMINOUS, or POWER-PROJECTING. Think buildings that look like supervillain headquarters, dystopian government facilities, or dark citadels.
-    4. RARITY: These are exceptional, noteworthy buildings. If a city has 5-8 qualifying buildings, you're being too lenient. Most cities will have 0-3 at most.
-    
-    PRIORITY 3 - WORLD-CLASS GRAVEYARDS & CEMETERIES:
-    - ONLY search for the most exceptional, world-renowned graveyards/cemeteries that are internationally famous landmarks.
-    - Must meet ALL of these criteria:
-      1. HISTORICAL SIGNIFICANCE: Must be historically significant with notable burials, cultural importance, or architectural heritage recognized globally.
-      2. ARCHITECTURAL BEAUTY: Must be architecturally stunning with impressive monuments, mausoleums, sculptures, or landscape design that is visually remarkable and photogenic.
-      3. INTERNATIONAL FAME: Must be well-known internationally, appearing in travel guides, documentaries, or cultural references. Not just locally known.
-      4. VISITOR DESTINATION: Must be a major tourist destination that people specifically travel to visit, not just a local cemetery.
-    - Examples of the caliber required: Père Lachaise Cemetery (Paris), Highgate Cemetery (London), La Recoleta Cemetery (Buenos Aires), Arlington National Cemetery (Virginia), Mount Auburn Cemetery (Massachusetts), Green-Wood Cemetery (Brooklyn), Old Jewish Cemetery (Prague), St. Louis Cemetery (New Orleans), Bonaventure Cemetery (Savannah).
-    - REJECT: Ordinary cemeteries, small local graveyards, modern memorial parks without architectural distinction, or any cemetery that doesn't meet ALL criteria above.
-    - CRITICAL: Mark these with the architectural style "Graveyard" (not "Cemetery" or other styles).
-    - These should be included even if slightly less "evil" - their historical significance, architectural beauty, and imposing scale qualify them.
-    
-    REJECT IF:
-    - Building is small or medium-sized (only large-scale structures)
-    - Building is "pretty", "quaint", or aesthetically pleasing
-    - Building is modern glass/steel (unless it's a massive brutalist exception)
-    - Building is residential (unless it's a massive housing complex with imposing architecture)
-    - Building is common or unremarkable
-    
-    REFERENCE: Think r/evilbuildings on Reddit. The Polish Palace of Culture and Science is a PERFECT example.
-    
-    CRITICAL OUTPUT INSTRUCTIONS:
-    1. You MUST return a VALID JSON array of objects.
-    2. Do NOT include Markdown code blocks (like \`\`\`json).
-    3. Do NOT include conversational text.
-    4. Each object must contain:
-       - "name" (string)
-       - "location" (string, full address)
-       - "city" (string, city name only)
-       - "country" (string, country name only)
-       - "description" (string, short, evocative, noir-style - emphasize the imposing/scary nature)
-       - "style" (string - use comma-separated styles if the building has multiple architectural styles. For example: "Cathedral, Gothic Revival" or "Brutalism, Soviet Modernism". Use any appropriate style name from: Stalinist Gothic, Soviet Modernism, Socialist Classicism, Brutalism, New Brutalism, Dark Deco, Art Deco, Gothic Revival, Neo-Gothic, Cathedral, Totalitarian, Fascist Architecture, Monumental, Fortress, Industrial Gothic, Cyberpunk, Dystopian, Graveyard, Victorian Gothic, or any other accurate variant/synonym. IMPORTANT: For graveyards/cemeteries, always use "Graveyard" as the style. Style naming is subjective - use what best describes the building. The first style listed will be considered the primary style.)
-       - "isPrioritized" (boolean, optional - true for historically significant Art Deco buildings by famous architects)
-       - "architect" (string, optional - name of architect if well-known, e.g., "William Van Alen", "Shreve, Lamb & Harmon")
-       - "lat" (number, latitude)
-       - "lng" (number, longitude)
-       - "imageUrl" (string, optional - try to find a valid public URL for an image of the building)
-  `;
-
-  const prompt = `Find buildings in or near ${locationQuery}. 
-  
-  SEARCH PRIORITY:
-  1. FIRST: Search for historically significant Art Deco buildings by well-known architects (e.g., Empire State Building, Chrysler Building, Rockefeller Center). Include these even if slightly less extreme - they are prioritized.
-  2. THEN: Search for other extreme, large-scale, imposing buildings.
-  3. ALSO: Search ONLY for world-class, internationally famous graveyards/cemeteries that are major tourist destinations with exceptional architectural beauty and historical significance (e.g., Père Lachaise, Highgate Cemetery, La Recoleta, Arlington National Cemetery). These must be architecturally stunning landmarks, not ordinary cemeteries.
-  
-  QUALITY STANDARD: These should be rare, exceptional examples. Most cities will have 0-3 qualifying buildings at most. If you find more than 5, you're being too lenient - only include the MOST extreme examples.
-  
-  REQUIREMENTS (for non-prioritized buildings):
-  - Must be LARGE-SCALE, monumental structures (think skyscrapers, massive government buildings, enormous complexes)
-  - Must be genuinely SCARY, OMINOUS, or POWER-PROJECTING
-  - Architectural styles: Accept Soviet/Communist styles (Stalinist Gothic, Soviet Modernism, etc.), Brutalism variants, Deco variants (Dark Deco, Art Deco), Gothic variants, Cathedral, or other menacing styles (Totalitarian, Monumental, Fortress, Cyberpunk, Dystopian, etc.)
-  - Use the most accurate style name - style naming is subjective, so use variants/synonyms as appropriate
-  - If a building has multiple distinct architectural styles, list them comma-separated (e.g., "Cathedral, Gothic Revival" or "Brutalism, Soviet Modernism"). The first style will be the primary style.
-  - Reference: Think r/evilbuildings - Polish Palace of Culture and Science level of imposing
-  
-  Ensure they are real places using Google Maps data. 
-  CRITICAL: For each building, attempt to find a valid, publicly accessible image URL. Use Google Search to find high-quality images of these buildings. The imageUrl should be a direct link to an image file (ending in .jpg, .jpeg, .png, .gif, or .webp) or a publicly accessible image URL.
-  Provide their exact coordinates.
-  IMPORTANT: Include separate "city" and "country" fields for each building.`;
-
-  // Helper: enrich a newly-found building with Google Places Details/Photos
-  const mapsApiKey =
-    (typeof import.meta !== "undefined" &&
-      // Vite-style env exposure
-      ((import.meta as any).env?.VITE_GOOGLE_MAPS_API_KEY ||
-        (import.meta as any).env?.GOOGLE_MAPS_API_KEY ||
-        (import.meta as any).env?.REACT_APP_GOOGLE_MAPS_API_KEY)) ||
-    // Fallback for possible Node or non-Vite environments
-    (process.env.VITE_GOOGLE_MAPS_API_KEY ||
-     process.env.GOOGLE_MAPS_API_KEY || 
-     process.env.REACT_APP_GOOGLE_MAPS_API_KEY);
+  const promptTemplate = getPrompt("discover");
 
   // Helper to find place ID using Places API text search if not already set
   const findPlaceId = async (building: Building): Promise<string | undefined> => {
@@ -217,11 +109,9 @@ export const fetchLairs = async (locationQuery: string, userLat?: number, userLn
     return undefined;
   };
 
+  // Helper: enrich a newly-found building with Google Places Details/Photos
+  // (the Maps API key stays on the server - every call goes through the /api/places proxies)
   const enrichWithPlaces = async (building: Building): Promise<Building> => {
-    if (!mapsApiKey) {
-      return building;
-    }
-
     // Try to find place ID if not already set
     const placeId = await findPlaceId(building);
     if (!placeId) {
@@ -273,9 +163,10 @@ export const fetchLairs = async (locationQuery: string, userLat?: number, userLn
       if (Array.isArray(result.photos) && result.photos.length > 0) {
         const photoRef = result.photos[0].photo_reference;
         if (photoRef) {
-          updated.imageUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-            photoRef
-          )}&key=${mapsApiKey}`;
+          const image = placesPhotoImage(result.photos[0]);
+          updated.imageUrl = image.url;
+          updated.imageUrls = [image.url];
+          updated.images = [image];
           console.log(`✅ Set Google Places image for "${building.name}" (place_id: ${placeId})`);
         } else {
           console.warn(`⚠️ No photo_reference found in photos array for "${building.name}" (place_id: ${placeId})`);
@@ -299,43 +190,52 @@ export const fetchLairs = async (locationQuery: string, userLat?: number, userLn
     }
   };
 
+  // The model's raw answer is what gets cached - enrichment, filtering and saving still run on a hit
+  const cacheKey = aiCacheKey(
+    "lairs",
+    locationQuery,
+    userLat !== undefined && userLng !== undefined ? { lat: userLat, lng: userLng } : undefined,
+    promptTemplate.id
+  );
+
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        // Google Maps and Google Search can be used together
-        tools: [{ googleMaps: {}, googleSearch: {} }], 
-        toolConfig: userLat && userLng ? {
-            retrievalConfig: {
-                latLng: {
-                    latitude: userLat,
-                    longitude: userLng
-                }
-            }
-        } : undefined,
-        // Note: responseMimeType and responseSchema are NOT supported when using googleMaps/googleSearch tools
-      },
-    });
+    const cached = ai.live
+      ? await getCachedAiResponse<{ jsonText: string; groundingChunks: any[] }>("lairs", cacheKey)
+      : null;
+    let jsonText: string;
+    // Grounding chunks hold the official map links, place IDs, and images
+    let groundingChunks: any[];
+    if (cached) {
+      ({ jsonText, groundingChunks } = cached);
+    } else {
+      if (ai.live) await consumeGeminiBudget("search");
+      const response = await ai.generate({
+        task: "discover",
+        subject: locationQuery,
+        prompt: promptTemplate.render({ locationQuery }),
+        systemInstruction: promptTemplate.systemInstruction,
+        model: promptTemplate.model,
+        grounded: true,
+        near: userLat !== undefined && userLng !== undefined ? { lat: userLat, lng: userLng } : undefined,
+      });
+      jsonText = response.text || "[]";
+      groundingChunks = response.groundingChunks;
+    }
 
-    const jsonText = response.text || "[]";
-    const cleanedJson = extractJson(jsonText);
-    
-    let parsedData;
-    try {
-        parsedData = JSON.parse(cleanedJson);
-    } catch (e) {
+    const parsedData = parseModelJsonArray(jsonText);
+    if (parsedData) {
+        if (!cached && ai.live) void cacheAiResponse("lairs", cacheKey, { jsonText, groundingChunks });
+    } else {
+        // No buildings this time (not cached, so the next search asks again)
         console.warn("JSON Parse Error on:", jsonText);
-        // Fallback or empty array if parsing fails
-        parsedData = [];
     }
 
-    // Extract grounding chunks to find official map links, place IDs, and images
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    
-    // Map the parsed JSON to our internal Building type
-    const buildings: Building[] = parsedData.map((item: any, index: number) => {
+    // Only candidates that pass the schema go any further
+    const report = validateBuildingCandidates(parsedData || []);
+    logCandidateReport(report, locationQuery);
+
+    // Map the validated candidates to our internal Building type
+    const buildings: Building[] = report.candidates.map((item, index) => {
         let mapUrl: string | undefined = undefined;
         let placeId: string | undefined = undefined;
         let finalLat = item.lat; // Default to Gemini's coordinates
@@ -433,10 +333,10 @@ export const fetchLairs = async (locationQuery: string, userLat?: number, userLn
             id: `bldg-${index}-${Date.now()}`,
             name: item.name,
             location: item.location || locationQuery,
-            city: item.city || "",
-            country: item.country || "",
+            city: item.city,
+            country: item.country,
             description: item.description,
-            style: item.style as ArchitecturalStyle,
+            style: item.style,
             coordinates: {
                 lat: finalLat, // Use coordinates from Google Maps chunk if available
                 lng: finalLng  // Use coordinates from Google Maps chunk if available
@@ -444,17 +344,20 @@ export const fetchLairs = async (locationQuery: string, userLat?: number, userLn
             gmapsUrl: finalGmapsUrl,
             googlePlaceId: placeId,
             // imageUrl will be set later from Google Places Photos (never from web/Wikimedia)
-            isPrioritized: item.isPrioritized === true,
-            architect: item.architect || undefined
+            isPrioritized: item.isPrioritized,
+            architect: item.architect,
+            promptVersion: promptTemplate.id
         };
     });
 
-    // Enrich new buildings with Google Places details/photos (one call per building)
-    const enrichedBuildings: Building[] = await Promise.all(
-      buildings.map((b) => enrichWithPlaces(b))
-    );
-    // Be polite to the API in case of rapid subsequent calls
-    await sleep(200);
+    // Enrich new buildings with Google Places details/photos (one call per building).
+    // Mock answers skip it so fixture mode works without network or keys.
+    let enrichedBuildings: Building[] = buildings;
+    if (ai.live) {
+      enrichedBuildings = await Promise.all(buildings.map((b) => enrichWithPlaces(b)));
+      // Be polite to the API in case of rapid subsequent calls
+      await sleep(200);
+    }
 
     // Filter buildings by distance from search location (if coordinates provided)
     // Only include buildings within 50km of the search location
@@ -524,6 +427,18 @@ export const fetchLairs = async (locationQuery: string, userLat?: number, userLn
         });
     });
 
+    // Only signed-in contributors can write - visitors still see the results, they just aren't saved
+    if (!hasRole(getCurrentUser(), 'contributor')) {
+      console.log(`Not saving ${buildingsToSave.length} discovered buildings to Baserow (sign in as a contributor to save)`);
+      return filteredBuildings;
+    }
+
+    // Mock answers are fixtures, not real buildings - never write them into the table
+    if (!ai.live) {
+      console.log(`Not saving ${buildingsToSave.length} mock buildings to Baserow (${ai.kind} AI provider)`);
+      return filteredBuildings;
+    }
+
     // Save new buildings to Baserow if they don't already exist (async, don't wait)
     // Use Promise.allSettled to handle all saves without blocking, but track results
     Promise.allSettled(
@@ -557,30 +472,16 @@ export const fetchLairs = async (locationQuery: string, userLat?: number, userLn
 
   } catch (error: any) {
     console.error("Gemini API Error:", error);
-    
-    // Check if it's a rate limit or quota error
-    const errorMessage = error?.message || error?.toString() || '';
-    const isRateLimit = errorMessage.includes('quota') || 
-                       errorMessage.includes('rate limit') || 
-                       errorMessage.includes('429') ||
-                       errorMessage.includes('RESOURCE_EXHAUSTED') ||
-                       errorMessage.includes('UNAVAILABLE') ||
-                       errorMessage.toLowerCase().includes('model is overloaded') ||
-                       error?.code === 503;
-    
-    if (isRateLimit) {
-      const rateLimitError = new Error("Gemini API rate limit reached. Please try again later or use Baserow-only searches.");
-      (rateLimitError as any).isRateLimit = true;
-      (rateLimitError as any).isOverloaded = true;
-      throw rateLimitError;
-    }
-    
-    throw error;
+    throw toServiceError(error, "gemini");
   }
 };
 
 // Export function to fetch image for a building that has google_place_id but no imageUrl
-export const fetchImageForBuilding = async (building: Building): Promise<Building> => {
+// (automatic enrichment stops at the soft Places budget; curator backfills pass "admin" to use the reserve)
+export const fetchImageForBuilding = async (
+  building: Building,
+  purpose: AiBudgetPurpose = "background"
+): Promise<Building> => {
   // Only fetch if building has place ID but no image
   if (!building.googlePlaceId) {
     console.warn(`⚠️ Building "${building.name}" has no googlePlaceId, skipping image fetch`);
@@ -592,20 +493,6 @@ export const fetchImageForBuilding = async (building: Building): Promise<Buildin
     return building;
   }
 
-  const mapsApiKey =
-    (typeof import.meta !== "undefined" &&
-      ((import.meta as any).env?.VITE_GOOGLE_MAPS_API_KEY ||
-        (import.meta as any).env?.GOOGLE_MAPS_API_KEY ||
-        (import.meta as any).env?.REACT_APP_GOOGLE_MAPS_API_KEY)) ||
-    (process.env.VITE_GOOGLE_MAPS_API_KEY || 
-     process.env.GOOGLE_MAPS_API_KEY || 
-     process.env.REACT_APP_GOOGLE_MAPS_API_KEY);
-
-  if (!mapsApiKey) {
-    console.warn(`⚠️ No Google Maps API key found, cannot fetch image for "${building.name}"`);
-    return building;
-  }
-  
   console.log(`🔍 Fetching Places details for "${building.name}" with place_id: ${building.googlePlaceId}`);
 
   // Check if API server is available (optional - don't block if it's not)
@@ -633,10 +520,10 @@ export const fetchImageForBuilding = async (building: Building): Promise<Buildin
     const apiBaseUrl = getApiBaseUrl();
     const proxyUrl = `${apiBaseUrl}/api/places/details?place_id=${encodeURIComponent(
       building.googlePlaceId
-    )}&fields=photos`;
+    )}&fields=photos&purpose=${purpose}`;
 
     console.log(`🌐 Making Places API request via proxy for "${building.name}": ${proxyUrl}`);
-    const res = await fetch(proxyUrl);
+    const res = await fetch(proxyUrl, { headers: getAuthHeaders() });
     console.log(`📡 Places API response status: ${res.status} ${res.statusText}`);
     if (!res.ok) {
       console.warn(`⚠️ Places API HTTP error for "${building.name}" (place_id: ${building.googlePlaceId}): ${res.status} ${res.statusText}`);
@@ -668,11 +555,9 @@ export const fetchImageForBuilding = async (building: Building): Promise<Buildin
       return building;
     }
 
-    const imageUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(
-      photoRef
-    )}&key=${mapsApiKey}`;
+    const image = placesPhotoImage(result.photos[0]);
     console.log(`✅ Fetched Google Places image for "${building.name}"`);
-    return { ...building, imageUrl };
+    return { ...building, imageUrl: image.url, imageUrls: [image.url], images: [image] };
   } catch (err) {
     console.warn(`Error fetching image for "${building.name}":`, err);
     return building;
@@ -718,26 +603,13 @@ export const isPOIQuery = (query: string): boolean => {
 
 // Search for a specific POI using Google Places API
 export const searchPOIByName = async (poiName: string): Promise<Building | null> => {
-  const mapsApiKey =
-    (typeof import.meta !== "undefined" &&
-      ((import.meta as any).env?.VITE_GOOGLE_MAPS_API_KEY ||
-        (import.meta as any).env?.GOOGLE_MAPS_API_KEY ||
-        (import.meta as any).env?.REACT_APP_GOOGLE_MAPS_API_KEY)) ||
-    (process.env.VITE_GOOGLE_MAPS_API_KEY ||
-     process.env.GOOGLE_MAPS_API_KEY ||
-     process.env.REACT_APP_GOOGLE_MAPS_API_KEY);
-
-  if (!mapsApiKey) {
-    console.warn("⚠️ No Google Maps API key found, cannot search for POI");
-    return null;
-  }
-
   try {
     // Use proxy endpoint to avoid CORS issues
     const apiBaseUrl = getApiBaseUrl();
     const findUrl = `${apiBaseUrl}/api/places/find?input=${encodeURIComponent(poiName)}&inputtype=textquery&fields=place_id,formatted_address,geometry,name`;
     
     const res = await fetch(findUrl);
+    if (res.status === 429) throw await errorFromResponse("places", res, "Places Find API error");
     if (!res.ok) {
       console.warn(`Places Find API error: ${res.status} ${res.statusText}`);
       return null;
@@ -809,12 +681,12 @@ export const searchPOIByName = async (poiName: string): Promise<Building | null>
       }
     }
 
-    // Get image URL from photos if available
-    let imageUrl: string | undefined = undefined;
+    // Get image from photos if available
+    let image: BuildingImage | undefined = undefined;
     if (result.photos && result.photos.length > 0) {
       const photoRef = result.photos[0].photo_reference;
       if (photoRef) {
-        imageUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=1200&photo_reference=${encodeURIComponent(photoRef)}&key=${mapsApiKey}`;
+        image = placesPhotoImage(result.photos[0]);
       }
     }
 
@@ -831,139 +703,78 @@ export const searchPOIByName = async (poiName: string): Promise<Building | null>
       coordinates: { lat: finalCoords.lat, lng: finalCoords.lng },
       googlePlaceId: placeId,
       gmapsUrl: result.url || `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(name)}&query_place_id=${placeId}`,
-      imageUrl,
+      ...(image ? { imageUrl: image.url, imageUrls: [image.url], images: [image] } : {}),
     };
   } catch (err) {
+    // Out of Places budget is the caller's to report; anything else just means "not found"
+    if (isServiceError(err) && err.kind === "rate_limited") throw err;
     console.error(`Error searching for POI "${poiName}":`, err);
     return null;
   }
 };
 
-// Helper to extract JSON object from potentially markdown-formatted text
-const extractJsonObject = (str: string): string => {
-  // Finds the first '{' and the last '}'
-  const firstOpen = str.indexOf('{');
-  const lastClose = str.lastIndexOf('}');
-  
-  if (firstOpen !== -1 && lastClose !== -1 && firstOpen < lastClose) {
-    return str.substring(firstOpen, lastClose + 1);
-  }
-  return "{}";
-};
-
 // Check with Gemini if a POI matches the style criteria
 export const checkPOIStyleCriteria = async (building: Building): Promise<{ matches: boolean; building?: Building }> => {
-  if (!process.env.API_KEY) {
-    console.error("CRITICAL: API Key is missing");
-    throw new Error("Gemini API key is not configured. Please set VITE_GEMINI_API_KEY environment variable.");
-  }
+  const ai = getAIProvider();
+  ai.ensureConfigured();
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const promptTemplate = getPrompt("evaluate_poi");
+  const location = building.location || `${building.city || ''}, ${building.country || ''}`;
 
-  const systemInstruction = `
-    You are 'The Archivist', a curator for "The Villain's Atlas". 
-    Your mission is to identify ONLY the most extreme, imposing, and architecturally menacing buildings in the world.
-    
-    CRITICAL SELECTION CRITERIA:
-    
-    PRIORITY 1 - ART DECO MASTERPIECES:
-    - Historically significant Art Deco buildings by well-known architects (e.g., Empire State Building, Chrysler Building, Rockefeller Center).
-    - These should be included even if they don't meet all other criteria (they can be slightly less "evil" if historically significant).
-    - Mark these with "isPrioritized": true and include "architect" name if well-known.
-    
-    PRIORITY 2 - OTHER QUALIFYING BUILDINGS:
-    1. SIZE & SCALE: Buildings must be LARGE-SCALE, monumental structures. Think skyscrapers, massive government buildings, enormous brutalist complexes. Small buildings do NOT qualify.
-    2. ARCHITECTURAL STYLES - Accept any of these or their common synonyms/variants:
-       - Soviet/Communist: Stalinist Gothic, Soviet Modernism, Socialist Classicism, Soviet Brutalism
-       - Brutalist: Brutalism, New Brutalism, Concrete Brutalism, Raw Concrete
-       - Deco: Dark Deco, Art Deco, Streamlined Moderne, Gothic Deco
-       - Gothic: Gothic Revival, Neo-Gothic, Victorian Gothic, Industrial Gothic
-       - Cathedral: Cathedral (for cathedrals specifically)
-       - Other Menacing: Totalitarian, Fascist Architecture, Monumental, Fortress, Bunker, Cyberpunk, Dystopian
-       - If a building has multiple distinct architectural styles, list them comma-separated (e.g., "Cathedral, Gothic Revival"). The first style is the primary style.
-    3. AESTHETIC: Must be genuinely SCARY, OMINOUS, or POWER-PROJECTING. Think buildings that look like supervillain headquarters, dystopian government facilities, or dark citadels.
-    4. RARITY: These are exceptional, noteworthy buildings.
-    
-    PRIORITY 3 - WORLD-CLASS GRAVEYARDS & CEMETERIES:
-    - ONLY consider the most exceptional, world-renowned graveyards/cemeteries that are internationally famous landmarks.
-    - Must meet ALL of these criteria:
-      1. HISTORICAL SIGNIFICANCE: Must be historically significant with notable burials, cultural importance, or architectural heritage recognized globally.
-      2. ARCHITECTURAL BEAUTY: Must be architecturally stunning with impressive monuments, mausoleums, sculptures, or landscape design that is visually remarkable and photogenic.
-      3. INTERNATIONAL FAME: Must be well-known internationally, appearing in travel guides, documentaries, or cultural references. Not just locally known.
-      4. VISITOR DESTINATION: Must be a major tourist destination that people specifically travel to visit, not just a local cemetery.
-    - Examples of the caliber required: Père Lachaise Cemetery (Paris), Highgate Cemetery (London), La Recoleta Cemetery (Buenos Aires), Arlington National Cemetery (Virginia), Mount Auburn Cemetery (Massachusetts), Green-Wood Cemetery (Brooklyn), Old Jewish Cemetery (Prague), St. Louis Cemetery (New Orleans), Bonaventure Cemetery (Savannah).
-    - REJECT: Ordinary cemeteries, small local graveyards, modern memorial parks without architectural distinction, or any cemetery that doesn't meet ALL criteria above.
-    - CRITICAL: Mark these with the architectural style "Graveyard" (not "Cemetery" or other styles). This is the standard style for all graveyards and cemeteries.
-    - These should be included even if slightly less "evil" - their historical significance, architectural beauty, and imposing scale qualify them.
-    
-    REJECT IF:
-    - Building is small or medium-sized (only large-scale structures)
-    - Building is "pretty", "quaint", or aesthetically pleasing
-    - Building is modern glass/steel (unless it's a massive brutalist exception)
-    - Building is residential (unless it's a massive housing complex with imposing architecture)
-    - Building is common or unremarkable
-    
-    REFERENCE: Think r/evilbuildings on Reddit. The Polish Palace of Culture and Science is a PERFECT example.
-    
-    CRITICAL OUTPUT INSTRUCTIONS:
-    1. You MUST return a VALID JSON object with:
-       - "matches" (boolean) - true if the building matches criteria, false otherwise
-       - "building" (object, optional) - if matches is true, include enriched building data with:
-         - "name" (string)
-         - "location" (string, full address)
-         - "city" (string, city name only)
-         - "country" (string, country name only)
-         - "description" (string, short, evocative, noir-style)
-         - "style" (string - use comma-separated styles if multiple apply, e.g., "Cathedral, Gothic Revival". IMPORTANT: For graveyards/cemeteries, always use "Graveyard" as the style. The first style is the primary style.)
-         - "isPrioritized" (boolean, optional)
-         - "architect" (string, optional)
-         - "lat" (number)
-         - "lng" (number)
-    2. Do NOT include Markdown code blocks (like \`\`\`json).
-    3. Do NOT include conversational text.
-  `;
-
-  const prompt = `Evaluate this building: "${building.name}" at ${building.location || `${building.city || ''}, ${building.country || ''}`}.
-  
-  Does this building match the criteria for "The Villain's Atlas"? 
-  
-  Requirements:
-  - Must be LARGE-SCALE, monumental structures
-  - Must be genuinely SCARY, OMINOUS, or POWER-PROJECTING
-  - Architectural styles: Soviet/Communist styles, Brutalism variants, Deco variants, Gothic variants, or other menacing styles
-  - OR: World-class, internationally famous graveyards/cemeteries that are major tourist destinations with exceptional architectural beauty and historical significance (e.g., Père Lachaise, Highgate Cemetery, La Recoleta, Arlington National Cemetery). Must be architecturally stunning landmarks, not ordinary cemeteries.
-  - Reference: Think r/evilbuildings - Polish Palace of Culture and Science level of imposing
-  
-  Return JSON with "matches" (boolean) and if matches is true, include enriched "building" object with all required fields.`;
+  // A spent budget is passed on rather than treated as "doesn't match"
+  if (ai.live) await consumeGeminiBudget("search");
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash-exp",
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-      },
+    const response = await ai.generate({
+      task: "evaluate_poi",
+      subject: building.name,
+      prompt: promptTemplate.render({ name: building.name, location }),
+      systemInstruction: promptTemplate.systemInstruction,
+      model: promptTemplate.model,
     });
 
     const responseText = response.text || "{}";
-    const jsonStr = extractJsonObject(responseText);
-    const parsed = JSON.parse(jsonStr);
+    const parsed = parseModelJsonObject(responseText);
+    if (!parsed) {
+      console.warn("JSON Parse Error on:", responseText);
+      return { matches: false };
+    }
+
+    if (parsed.matches === true && parsed.building && typeof parsed.building === "object") {
+      // Fields the model left out (or blank) come from the Places result, then the merge is validated
+      // like any other candidate - a match with broken data counts as no match
+      const answered = Object.fromEntries(
+        Object.entries(parsed.building).filter(([, value]) => value !== null && value !== undefined && value !== "")
+      );
+      const report = validateBuildingCandidates([{
+        name: building.name,
+        location: building.location,
+        city: building.city,
+        country: building.country,
+        description: building.description,
+        style: building.style,
+        isPrioritized: building.isPrioritized,
+        architect: building.architect,
+        lat: building.coordinates.lat,
+        lng: building.coordinates.lng,
+        ...answered,
+      }]);
+      logCandidateReport(report, building.name);
+      const [candidate] = report.candidates;
+      if (!candidate) return { matches: false };
 
-    if (parsed.matches === true && parsed.building) {
-      // Merge the enriched building data with the original building
       const enrichedBuilding: Building = {
         ...building,
-        name: parsed.building.name || building.name,
-        location: parsed.building.location || building.location,
-        city: parsed.building.city || building.city,
-        country: parsed.building.country || building.country,
-        description: parsed.building.description || building.description,
-        style: parsed.building.style as ArchitecturalStyle || building.style,
-        isPrioritized: parsed.building.isPrioritized || building.isPrioritized,
-        architect: parsed.building.architect || building.architect,
-        coordinates: parsed.building.lat && parsed.building.lng
-          ? { lat: parsed.building.lat, lng: parsed.building.lng }
-          : building.coordinates,
+        name: candidate.name,
+        location: candidate.location || building.location,
+        city: candidate.city,
+        country: candidate.country,
+        description: candidate.description,
+        style: candidate.style,
+        isPrioritized: candidate.isPrioritized,
+        architect: candidate.architect,
+        coordinates: { lat: candidate.lat, lng: candidate.lng },
+        promptVersion: promptTemplate.id,
       };
 
       return { matches: true, building: enrichedBuilding };
@@ -972,6 +783,7 @@ export const checkPOIStyleCriteria = async (building: Building): Promise<{ match
     return { matches: false };
   } catch (err) {
     console.error("Error checking POI style criteria:", err);
+    if (isTryLaterError(err)) throw err;
     return { matches: false };
   }
 };
\ No newline at end of file
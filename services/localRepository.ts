@@ -0,0 +1,397 @@
+import { BuildingRevision, Comment, RevisionAction } from "../types";
+import { getCurrentUser } from "./authService";
+import { BaserowFileField, BaserowRow, BaserowRowFields, BuildingRepository, GeoQuery, ListRowsOptions, RowChanges, UploadedImage, classifyRowUpdate, diffRowFields, filterRowsByGeoQuery } from "./buildingRepository";
+import { errorFromStatus, notFoundError, validationError } from "./serviceErrors";
+
+// Fixture served from public/ by default; override with VITE_LOCAL_FIXTURE_URL
+const DEFAULT_FIXTURE_URL = "/fixtures/buildings.json";
+const STORAGE_KEY = "evil-atlas-local-rows";
+const REVISIONS_STORAGE_KEY = "evil-atlas-local-revisions";
+const COMMENTS_FIXTURE_URL = "/fixtures/comments.json";
+const COMMENTS_STORAGE_KEY = "evil-atlas-local-comments";
+const PAGE_SIZE = 200;
+
+// In-memory repository seeded from a JSON fixture (rows in Baserow format).
+// Writes stay in memory and are mirrored to localStorage so edits survive a reload;
+// clear the `evil-atlas-local-rows` key to reset back to the fixture.
+// Revision history is kept the same way under `evil-atlas-local-revisions`, and comments
+// (seeded from public/fixtures/comments.json) under `evil-atlas-local-comments`.
+export const createLocalRepository = (): BuildingRepository => {
+  const fixtureUrl = process.env.LOCAL_FIXTURE_URL || DEFAULT_FIXTURE_URL;
+  let rows: Map<number, BaserowRow> | null = null;
+  let loading: Promise<Map<number, BaserowRow>> | null = null;
+
+  const readPersistedRows = (): BaserowRow[] | null => {
+    if (typeof window === "undefined" || !window.localStorage) return null;
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored) as BaserowRow[];
+    } catch (e) {
+      console.error("Failed to parse locally stored rows, falling back to fixture:", e);
+      return null;
+    }
+  };
+
+  const persist = (store: Map<number, BaserowRow>): void => {
+    if (typeof window === "undefined" || !window.localStorage) return;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(store.values())));
+    } catch (e) {
+      // Quota errors shouldn't break local development - data is still in memory
+      console.warn("Failed to persist local rows:", e);
+    }
+  };
+
+  const readRevisions = (): BuildingRevision[] => {
+    if (typeof window === "undefined" || !window.localStorage) return [];
+    const stored = window.localStorage.getItem(REVISIONS_STORAGE_KEY);
+    if (!stored) return [];
+    try {
+      return JSON.parse(stored) as BuildingRevision[];
+    } catch (e) {
+      console.error("Failed to parse locally stored revisions:", e);
+      return [];
+    }
+  };
+
+  let revisions: BuildingRevision[] | null = null;
+
+  const getRevisions = (): BuildingRevision[] => {
+    if (!revisions) revisions = readRevisions();
+    return revisions;
+  };
+
+  // Same shape the server records in server/lib/revisions.js
+  const recordRevision = (
+    rowId: number,
+    action: RevisionAction,
+    before: BaserowRow | null,
+    after: BaserowRow | null,
+    restoredFrom?: number
+  ): void => {
+    const all = getRevisions();
+    const { id: _id, updated_on: _updatedOn, ...snapshot } = (action === "delete" ? before : after) || ({} as BaserowRow);
+    all.push({
+      id: all.length > 0 ? all[all.length - 1].id + 1 : 1,
+      rowId,
+      action,
+      username: getCurrentUser()?.username || "anonymous",
+      createdAt: new Date().toISOString(),
+      changes: diffRowFields(before, after),
+      snapshot,
+      ...(restoredFrom ? { restoredFrom } : {}),
+    });
+    if (typeof window === "undefined" || !window.localStorage) return;
+    try {
+      window.localStorage.setItem(REVISIONS_STORAGE_KEY, JSON.stringify(all));
+    } catch (e) {
+      console.warn("Failed to persist local revisions:", e);
+    }
+  };
+
+  const requireRevision = (revisionId: number): BuildingRevision => {
+    const revision = getRevisions().find((r) => r.id === revisionId);
+    if (!revision) {
+      throw notFoundError("buildings", `Local repository error: 404 - revision ${revisionId} does not exist`);
+    }
+    return revision;
+  };
+
+  let comments: Comment[] | null = null;
+  let loadingComments: Promise<Comment[]> | null = null;
+
+  // Comment fixture is optional - without one the local backend just starts with no comments
+  const loadComments = async (): Promise<Comment[]> => {
+    if (typeof window !== "undefined" && window.localStorage) {
+      const stored = window.localStorage.getItem(COMMENTS_STORAGE_KEY);
+      if (stored) {
+        try {
+          return JSON.parse(stored) as Comment[];
+        } catch (e) {
+          console.error("Failed to parse locally stored comments, falling back to fixture:", e);
+        }
+      }
+    }
+    try {
+      const response = await fetch(COMMENTS_FIXTURE_URL);
+      return response.ok ? ((await response.json()) as Comment[]) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const getComments = async (): Promise<Comment[]> => {
+    if (comments) return comments;
+    if (!loadingComments) {
+      loadingComments = loadComments().then((loaded) => (comments = loaded));
+    }
+    return loadingComments;
+  };
+
+  const persistComments = (all: Comment[]): void => {
+    if (typeof window === "undefined" || !window.localStorage) return;
+    try {
+      window.localStorage.setItem(COMMENTS_STORAGE_KEY, JSON.stringify(all));
+    } catch (e) {
+      console.warn("Failed to persist local comments:", e);
+    }
+  };
+
+  const readAsDataUrl = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+
+  const requireComment = (all: Comment[], commentId: number): Comment => {
+    const comment = all.find((c) => c.id === commentId);
+    if (!comment) {
+      throw notFoundError("buildings", `Local repository error: 404 - comment ${commentId} does not exist`);
+    }
+    return comment;
+  };
+
+  // Swap in an updated comment, keeping the list order
+  const replaceComment = (all: Comment[], updated: Comment): Comment => {
+    all[all.findIndex((c) => c.id === updated.id)] = updated;
+    persistComments(all);
+    return { ...updated };
+  };
+
+  const loadFixture = async (): Promise<BaserowRow[]> => {
+    const response = await fetch(fixtureUrl);
+    if (!response.ok) {
+      throw errorFromStatus("buildings", response.status, `Local fixture error: ${response.status} loading ${fixtureUrl}`);
+    }
+    const data = await response.json();
+    // Accept either a plain array or a Baserow list response ({ results: [...] })
+    return Array.isArray(data) ? data : data.results || [];
+  };
+
+  const getStore = async (): Promise<Map<number, BaserowRow>> => {
+    if (rows) return rows;
+    if (!loading) {
+      loading = (async () => {
+        const initialRows = readPersistedRows() || (await loadFixture());
+        rows = new Map(initialRows.map((row) => [row.id, row]));
+        console.log(`📦 Local repository loaded ${rows.size} rows`);
+        return rows;
+      })();
+    }
+    return loading;
+  };
+
+  // Stands in for Baserow's "Last modified" field so delta sync works against the local backend
+  const touch = (row: BaserowRow): BaserowRow => ({ ...row, updated_on: new Date().toISOString() });
+
+  const requireRow = (store: Map<number, BaserowRow>, rowId: number): BaserowRow => {
+    const row = store.get(rowId);
+    if (!row) {
+      throw notFoundError("buildings", `Local repository error: 404 - row ${rowId} does not exist`);
+    }
+    return row;
+  };
+
+  return {
+    kind: "local",
+
+    async listRows(options: ListRowsOptions = {}): Promise<BaserowRow[]> {
+      const store = await getStore();
+      let allRows = Array.from(store.values()).sort((a, b) => a.id - b.id);
+      if (options.limitPages) {
+        allRows = allRows.slice(0, options.limitPages * PAGE_SIZE);
+      }
+      return options.includeHidden ? allRows : allRows.filter((row) => !row.is_hidden);
+    },
+
+    async getRow(rowId: number): Promise<BaserowRow> {
+      const store = await getStore();
+      return { ...requireRow(store, rowId) };
+    },
+
+    async findRowsByName(name: string): Promise<BaserowRow[]> {
+      const store = await getStore();
+      // Mirrors Baserow's filter__name, which is a case-insensitive "contains" match
+      const needle = name.toLowerCase();
+      return Array.from(store.values()).filter((row) => (row.name || "").toLowerCase().includes(needle));
+    },
+
+    async findRowsNear(query: GeoQuery): Promise<BaserowRow[]> {
+      const store = await getStore();
+      return filterRowsByGeoQuery(Array.from(store.values()), query);
+    },
+
+    async listRowsChangedSince(since: string): Promise<RowChanges> {
+      const store = await getStore();
+      const sinceTime = new Date(since).getTime();
+      const rows = Array.from(store.values()).filter(
+        (row) => !!row.updated_on && new Date(row.updated_on).getTime() >= sinceTime
+      );
+      const deletedIds = getRevisions()
+        .filter((revision) => revision.action === "delete" && new Date(revision.createdAt).getTime() >= sinceTime)
+        .map((revision) => revision.rowId);
+      return { rows, deletedIds };
+    },
+
+    async createRow(fields: BaserowRowFields): Promise<BaserowRow> {
+      const store = await getStore();
+      const nextId = store.size > 0 ? Math.max(...store.keys()) + 1 : 1;
+      const row: BaserowRow = touch({ ...fields, id: nextId });
+      store.set(nextId, row);
+      persist(store);
+      recordRevision(nextId, "create", null, row);
+      return { ...row };
+    },
+
+    async updateRow(rowId: number, fields: BaserowRowFields): Promise<BaserowRow> {
+      const store = await getStore();
+      const before = requireRow(store, rowId);
+      const row: BaserowRow = touch({ ...before, ...fields, id: rowId });
+      store.set(rowId, row);
+      persist(store);
+      const changes = diffRowFields(before, row);
+      if (Object.keys(changes).length > 0) {
+        recordRevision(rowId, classifyRowUpdate(changes), before, row);
+      }
+      return { ...row };
+    },
+
+    async deleteRow(rowId: number): Promise<void> {
+      const store = await getStore();
+      const before = requireRow(store, rowId);
+      store.delete(rowId);
+      persist(store);
+      recordRevision(rowId, "delete", before, null);
+    },
+
+    async uploadFile(file: File): Promise<BaserowFileField> {
+      // Store uploads inline as data URLs so they survive a reload with the rest of the rows
+      const url = await readAsDataUrl(file);
+      return {
+        name: file.name,
+        url,
+        size: file.size,
+        mime_type: file.type,
+      };
+    },
+
+    async uploadImage(file: File): Promise<UploadedImage> {
+      // No image pipeline here - the data URL is the only size
+      return { url: await readAsDataUrl(file), fileName: file.name };
+    },
+
+    async listRevisions(rowId: number): Promise<BuildingRevision[]> {
+      return getRevisions()
+        .filter((revision) => revision.rowId === rowId)
+        .sort((a, b) => b.id - a.id);
+    },
+
+    async restoreRevision(rowId: number, revisionId: number): Promise<BaserowRow> {
+      const revision = requireRevision(revisionId);
+      if (revision.rowId !== rowId || revision.action === "delete" || revision.action === "comment") {
+        throw validationError("buildings", `Local repository error: 400 - revision ${revisionId} can't be restored onto row ${rowId}`);
+      }
+      const store = await getStore();
+      const before = requireRow(store, rowId);
+      const row: BaserowRow = touch({ ...(revision.snapshot as BaserowRowFields), id: rowId });
+      store.set(rowId, row);
+      persist(store);
+      recordRevision(rowId, "restore", before, row);
+      return { ...row };
+    },
+
+    async listDeletedRevisions(): Promise<BuildingRevision[]> {
+      const all = getRevisions();
+      const restored = new Set(all.map((revision) => revision.restoredFrom).filter(Boolean));
+      return all
+        .filter((revision) => revision.action === "delete" && !restored.has(revision.id))
+        .sort((a, b) => b.id - a.id);
+    },
+
+    async restoreDeletedRow(revisionId: number): Promise<BaserowRow> {
+      const revision = requireRevision(revisionId);
+      if (revision.action !== "delete") {
+        throw validationError("buildings", `Local repository error: 400 - revision ${revisionId} is not a deletion`);
+      }
+      const restore = getRevisions().find((candidate) => candidate.restoredFrom === revisionId);
+      if (restore) {
+        throw validationError("buildings", `Local repository error: 409 - revision ${revisionId} was already restored as row ${restore.rowId}`, 409);
+      }
+      const store = await getStore();
+      const nextId = store.size > 0 ? Math.max(...store.keys()) + 1 : 1;
+      const row: BaserowRow = touch({ ...(revision.snapshot as BaserowRowFields), id: nextId });
+      store.set(nextId, row);
+      persist(store);
+      recordRevision(nextId, "restore", null, row, revisionId);
+      return { ...row };
+    },
+
+    async listComments(rowId: number): Promise<Comment[]> {
+      const all = await getComments();
+      return all.filter((comment) => comment.rowId === rowId).map((comment) => ({ ...comment }));
+    },
+
+    async createComment(rowId: number, text: string, parentId?: number): Promise<Comment> {
+      const all = await getComments();
+      if (parentId !== undefined && requireComment(all, parentId).rowId !== rowId) {
+        throw validationError("buildings", `Local repository error: 400 - comment ${parentId} belongs to another building`);
+      }
+      const comment: Comment = {
+        id: all.length > 0 ? Math.max(...all.map((c) => c.id)) + 1 : 1,
+        rowId,
+        ...(parentId !== undefined ? { parentId } : {}),
+        author: getCurrentUser()?.username || "anonymous",
+        text,
+        createdAt: new Date().toISOString(),
+        edits: [],
+      };
+      all.push(comment);
+      persistComments(all);
+      return { ...comment };
+    },
+
+    async updateComment(commentId: number, text: string): Promise<Comment> {
+      const all = await getComments();
+      const comment = requireComment(all, commentId);
+      if (comment.isDeleted) {
+        throw notFoundError("buildings", `Local repository error: 410 - comment ${commentId} has been deleted`, 410);
+      }
+      if (comment.text === text) return { ...comment };
+      const now = new Date().toISOString();
+      const editedBy = getCurrentUser()?.username || "anonymous";
+      return replaceComment(all, {
+        ...comment,
+        text,
+        updatedAt: now,
+        edits: [...(comment.edits || []), { text: comment.text, editedAt: now, editedBy }],
+      });
+    },
+
+    async deleteComment(commentId: number): Promise<Comment> {
+      const all = await getComments();
+      const comment = requireComment(all, commentId);
+      return replaceComment(all, {
+        ...comment,
+        text: "",
+        edits: [],
+        isDeleted: true,
+        updatedAt: new Date().toISOString(),
+      });
+    },
+
+    async moveComments(fromRowId: number, toRowId: number): Promise<number> {
+      const all = await getComments();
+      let moved = 0;
+      all.forEach((comment, index) => {
+        if (comment.rowId !== fromRowId) return;
+        all[index] = { ...comment, rowId: toRowId };
+        moved++;
+      });
+      persistComments(all);
+      return moved;
+    },
+  };
+};
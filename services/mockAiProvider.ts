@@ -0,0 +1,76 @@
+import { Coordinates } from "../types";
+import { getDistance } from "../utils/geo";
+import { AIProvider, AITask } from "./aiProvider";
+import { normalizeAiQuery } from "./aiCacheService";
+
+// Fixture served from public/ by default; override with VITE_AI_FIXTURE_URL
+const DEFAULT_FIXTURE_URL = "/fixtures/ai-responses.json";
+// Discovery for a subject without a fixture (e.g. "Current Location") uses the answer closest to the search
+const NEARBY_RADIUS_METERS = 50000;
+
+// Canned answers per task, keyed by place or building name (matched like AI cache keys, so
+// "Kraków, Poland" finds "krakow"). A string answer is returned as the model's text exactly
+// as written - handy for reproducing malformed output; anything else is returned as JSON.
+export type AIFixtures = Partial<Record<AITask, Record<string, unknown>>>;
+
+// What the real model says when it has nothing for a subject
+const NOTHING_FOUND: Record<AITask, unknown> = {
+  geocode: {},
+  discover: [],
+  evaluate_poi: { matches: false },
+};
+
+// Deterministic provider answering from a JSON fixture, so search and POI evaluation can be
+// developed and demoed without network access or an API key. Pass `fixtures` to skip loading.
+export const createMockAiProvider = (fixtures?: AIFixtures): AIProvider => {
+  const fixtureUrl = process.env.AI_FIXTURE_URL || DEFAULT_FIXTURE_URL;
+  let loading: Promise<AIFixtures> | null = fixtures ? Promise.resolve(fixtures) : null;
+
+  const loadFixtures = (): Promise<AIFixtures> => {
+    if (!loading) {
+      loading = fetch(fixtureUrl)
+        .then((response) => {
+          if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+          return response.json() as Promise<AIFixtures>;
+        })
+        .catch((error) => {
+          console.warn(`Failed to load AI fixtures from ${fixtureUrl}, every answer will be empty:`, error);
+          return {};
+        });
+    }
+    return loading;
+  };
+
+  // Whole words, so "Berlin, Germany" matches the "berlin" answer but "Berlingen" doesn't
+  const findBySubject = (answers: Record<string, unknown>, subject: string): unknown => {
+    const words = ` ${normalizeAiQuery(subject)} `;
+    const key = Object.keys(answers).find((name) => words.includes(` ${normalizeAiQuery(name)} `));
+    return key === undefined ? undefined : answers[key];
+  };
+
+  // The discovery answer whose first building is within reach of the search centre
+  const findNear = (answers: Record<string, unknown>, near: Coordinates): unknown =>
+    Object.values(answers).find((answer) => {
+      const first = Array.isArray(answer) ? answer[0] : undefined;
+      return (
+        typeof first?.lat === "number" &&
+        typeof first?.lng === "number" &&
+        getDistance(near, { lat: first.lat, lng: first.lng }) <= NEARBY_RADIUS_METERS
+      );
+    });
+
+  return {
+    kind: "mock",
+    live: false,
+    ensureConfigured: () => {},
+
+    async generate({ task, subject, near }) {
+      const answers = (await loadFixtures())[task] || {};
+      let answer = findBySubject(answers, subject);
+      if (answer === undefined && task === "discover" && near) answer = findNear(answers, near);
+      console.log(`🧪 Mock AI ${task} for "${subject}": ${answer === undefined ? "no fixture, nothing found" : "fixture answer"}`);
+      const value = answer === undefined ? NOTHING_FOUND[task] : answer;
+      return { text: typeof value === "string" ? value : JSON.stringify(value), groundingChunks: [] };
+    },
+  };
+};
@@ -0,0 +1,249 @@
+import { Building, GeoBounds, OfflineRegion } from "../types";
+import { fetchBuildingsInBounds } from "./baserowService";
+import { configError, validationError } from "./serviceErrors";
+import {
+  applyBuildingChangesToIndexedDB,
+  deleteOfflineRegionRecord,
+  loadOfflineRegions,
+  putOfflineRegion,
+} from "../utils/indexedDB";
+import { allImageUrls } from "../utils/responsiveImage";
+
+// Offline regions: map tiles for a zoom range plus the buildings and their images inside
+// a bounding box, downloaded ahead of time. Tiles and images go into a dedicated Cache
+// Storage cache that public/sw.js serves image requests from; buildings are merged into
+// the IndexedDB building cache the app already loads at startup.
+
+export const OFFLINE_REGIONS_CACHE = "evil-atlas-offline-regions"; // Must match public/sw.js
+const MAX_REGION_TILES = 5000;
+export const MAX_REGION_ZOOM = 18; // Highest zoom the tile servers render (maxNativeZoom in Map.tsx)
+const TILE_SUBDOMAINS = ["a", "b", "c"];
+const DOWNLOAD_CONCURRENCY = 6;
+// The light map's OpenStreetMap tiles come from volunteer-run servers whose usage policy
+// (https://operations.osmfoundation.org/policies/tiles/) rules out bulk downloads, so areas
+// saved from it stay small and are fetched over at most 2 connections
+const OSM_TILE_HOST = "tile.openstreetmap.org";
+const MAX_OSM_REGION_TILES = 250;
+const OSM_DOWNLOAD_CONCURRENCY = 2;
+
+const isOsmTemplate = (tileUrlTemplate: string): boolean => tileUrlTemplate.includes(OSM_TILE_HOST);
+
+// Most tiles one saved area may use with this tile set
+export const maxRegionTiles = (tileUrlTemplate: string): number =>
+  isOsmTemplate(tileUrlTemplate) ? MAX_OSM_REGION_TILES : MAX_REGION_TILES;
+
+export interface RegionDownloadProgress {
+  done: number;
+  total: number;
+}
+
+export interface SaveRegionRequest {
+  name: string;
+  bounds: GeoBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileUrlTemplate: string;
+}
+
+// Slippy-map tile numbers (same maths as Leaflet / OSM)
+const lngToTileX = (lng: number, zoom: number): number =>
+  Math.floor(((lng + 180) / 360) * Math.pow(2, zoom));
+
+const latToTileY = (lat: number, zoom: number): number => {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = (clamped * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * Math.pow(2, zoom));
+};
+
+// Tile blocks per zoom level. An area that crosses the antimeridian (west > east, as in
+// queryBounds in utils/spatialIndex.ts) is split into a block on each side of it.
+const tileRanges = (bounds: GeoBounds, minZoom: number, maxZoom: number) => {
+  const ranges: { zoom: number; minX: number; maxX: number; minY: number; maxY: number }[] = [];
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const last = Math.pow(2, zoom) - 1;
+    const westX = Math.max(0, lngToTileX(bounds.west, zoom));
+    const eastX = Math.min(last, lngToTileX(bounds.east, zoom));
+    const minY = Math.max(0, latToTileY(bounds.north, zoom));
+    const maxY = Math.min(last, latToTileY(bounds.south, zoom));
+    const columns = bounds.west > bounds.east ? [[westX, last], [0, eastX]] : [[westX, eastX]];
+    columns.forEach(([minX, maxX]) => ranges.push({ zoom, minX, maxX, minY, maxY }));
+  }
+  return ranges;
+};
+
+// How many tiles an area needs (to warn before a download gets too big)
+export const countRegionTiles = (bounds: GeoBounds, minZoom: number, maxZoom: number): number =>
+  tileRanges(bounds, minZoom, maxZoom).reduce(
+    (total, range) => total + (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1),
+    0
+  );
+
+// Leaflet spreads tiles over a/b/c subdomains at random, so tiles are cached under the "a"
+// host and the service worker looks them up the same way (keep in sync with public/sw.js)
+export const normalizeTileUrl = (url: string): string =>
+  url.replace(/^(https?:\/\/)[a-d]\.(basemaps\.cartocdn\.com|tile\.openstreetmap\.org)\//, "$1a.$2/");
+
+const isRetina = (): boolean => typeof window !== "undefined" && (window.devicePixelRatio || 1) > 1;
+
+const tileUrls = (template: string, bounds: GeoBounds, minZoom: number, maxZoom: number): string[] => {
+  const urls: string[] = [];
+  const retinaSuffix = isRetina() ? "@2x" : ""; // Leaflet's {r}
+  for (const { zoom, minX, maxX, minY, maxY } of tileRanges(bounds, minZoom, maxZoom)) {
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        urls.push(
+          template
+            .replace("{s}", TILE_SUBDOMAINS[0])
+            .replace("{z}", String(zoom))
+            .replace("{x}", String(x))
+            .replace("{y}", String(y))
+            .replace("{r}", retinaSuffix)
+        );
+      }
+    }
+  }
+  return urls;
+};
+
+// Every size of every image - the gallery's <picture> may ask for any of them
+const buildingImageUrls = (buildings: Building[]): string[] => {
+  const urls = new Set<string>();
+  buildings.forEach((b) => {
+    const imageUrls = b.images && b.images.length > 0 ? b.images.flatMap(allImageUrls) : b.imageUrl ? [b.imageUrl] : [];
+    imageUrls.forEach((url) => {
+      // Same-origin paths too (Places photos come through /api/places/photo)
+      if (/^(https?:\/\/|\/(?!\/))/.test(url)) urls.add(url);
+    });
+  });
+  return Array.from(urls);
+};
+
+// Fetch one URL into the cache; returns its size in bytes, or null if the download failed.
+// Image hosts that don't send CORS headers can still be cached as opaque responses, but their size is unknown.
+const downloadInto = async (cache: Cache, url: string): Promise<number | null> => {
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { mode: "cors" });
+    } catch {
+      response = await fetch(url, { mode: "no-cors" });
+    }
+    if (response.type !== "opaque" && !response.ok) return null;
+    const bytes = response.type === "opaque" ? 0 : (await response.clone().blob()).size;
+    await cache.put(normalizeTileUrl(url), response);
+    return bytes;
+  } catch (error) {
+    console.warn(`Failed to cache ${url} for offline use:`, error);
+    return null;
+  }
+};
+
+const downloadAll = async (
+  urls: string[],
+  concurrency: number,
+  onProgress?: (progress: RegionDownloadProgress) => void
+): Promise<{ bytes: number; failed: number }> => {
+  const cache = await caches.open(OFFLINE_REGIONS_CACHE);
+  let next = 0;
+  let done = 0;
+  let bytes = 0;
+  let failed = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      const size = await downloadInto(cache, url);
+      if (size === null) failed++;
+      else bytes += size;
+      done++;
+      onProgress?.({ done, total: urls.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+  return { bytes, failed };
+};
+
+// Newest first
+export const listOfflineRegions = async (): Promise<OfflineRegion[]> => {
+  const regions = await loadOfflineRegions();
+  return regions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+const downloadRegion = async (
+  id: string,
+  request: SaveRegionRequest,
+  onProgress?: (progress: RegionDownloadProgress) => void
+): Promise<OfflineRegion> => {
+  const { name, bounds, minZoom, maxZoom, tileUrlTemplate } = request;
+  if (typeof caches === "undefined") throw configError("offline-maps", "Offline maps aren't supported in this browser");
+  if (minZoom > maxZoom || maxZoom > MAX_REGION_ZOOM) throw validationError("offline-maps", "Invalid zoom range");
+
+  const tileCount = countRegionTiles(bounds, minZoom, maxZoom);
+  const tileLimit = maxRegionTiles(tileUrlTemplate);
+  if (tileCount > tileLimit) {
+    throw validationError("offline-maps", `That area needs ${tileCount} tiles (max ${tileLimit}) - zoom in or lower the max zoom`);
+  }
+
+  // Keep the app's building cache up to date for this area
+  const buildings = await fetchBuildingsInBounds(bounds);
+  await applyBuildingChangesToIndexedDB(buildings, []);
+
+  const images = buildingImageUrls(buildings);
+  const urls = [...tileUrls(tileUrlTemplate, bounds, minZoom, maxZoom), ...images];
+
+  // Ask the browser not to evict saved regions under storage pressure
+  await navigator.storage?.persist?.().catch(() => false);
+
+  const concurrency = isOsmTemplate(tileUrlTemplate) ? OSM_DOWNLOAD_CONCURRENCY : DOWNLOAD_CONCURRENCY;
+  const { bytes, failed } = await downloadAll(urls, concurrency, onProgress);
+  const region: OfflineRegion = {
+    id,
+    name: name.trim() || "Saved area",
+    bounds,
+    minZoom,
+    maxZoom,
+    tileUrlTemplate,
+    urls: urls.map(normalizeTileUrl),
+    tileCount,
+    buildingCount: buildings.length,
+    imageCount: images.length,
+    failedCount: failed,
+    bytes,
+    savedAt: new Date().toISOString(),
+  };
+  await putOfflineRegion(region);
+  console.log(`🗺️ Saved "${region.name}" for offline use: ${tileCount} tiles, ${buildings.length} buildings, ${images.length} images`);
+  return region;
+};
+
+export const saveOfflineRegion = (
+  request: SaveRegionRequest,
+  onProgress?: (progress: RegionDownloadProgress) => void
+): Promise<OfflineRegion> => downloadRegion(`region-${Date.now()}`, request, onProgress);
+
+// Download everything again (picks up new buildings, changed images and retries failures)
+export const refreshOfflineRegion = async (
+  region: OfflineRegion,
+  onProgress?: (progress: RegionDownloadProgress) => void
+): Promise<OfflineRegion> => {
+  const refreshed = await downloadRegion(region.id, region, onProgress);
+  const current = new Set(refreshed.urls);
+  await removeUnusedUrls(region.urls.filter((url) => !current.has(url)), region.id);
+  return refreshed;
+};
+
+// Drop cached URLs that no other saved region still needs
+const removeUnusedUrls = async (urls: string[], exceptRegionId: string): Promise<void> => {
+  if (urls.length === 0) return;
+  const others = (await loadOfflineRegions()).filter((region) => region.id !== exceptRegionId);
+  const stillUsed = new Set(others.flatMap((region) => region.urls));
+  const cache = await caches.open(OFFLINE_REGIONS_CACHE);
+  await Promise.all(urls.filter((url) => !stillUsed.has(url)).map((url) => cache.delete(url)));
+};
+
+export const deleteOfflineRegion = async (region: OfflineRegion): Promise<void> => {
+  await deleteOfflineRegionRecord(region.id);
+  await removeUnusedUrls(region.urls, region.id);
+  console.log(`🗑️ Deleted offline region "${region.name}"`);
+};
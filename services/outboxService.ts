@@ -0,0 +1,284 @@
+import { Building, Comment, OutboxEntry, OutboxMutation } from "../types";
+import { getCurrentUser } from "./authService";
+import { getBuildingRepository } from "./buildingRepository";
+import {
+  addCommentToBuilding,
+  deleteCommentFromBuilding,
+  hideBuildingInBaserow,
+  saveBuildingToBaserow,
+  toggleFavouriteInBaserow,
+  updateBuildingInBaserow,
+  updateCommentInBuilding,
+} from "./baserowService";
+import { toServiceError, validationError } from "./serviceErrors";
+import { addOutboxEntry, deleteOutboxEntry, loadOutboxEntries, putOutboxEntry } from "../utils/indexedDB";
+
+// Offline outbox: edits that can't reach the server are queued in IndexedDB and replayed
+// in the order they were made once the network is back. Building edits remember the
+// building's updated_on when they were made, so a replay that would overwrite someone
+// else's newer change is held back as a conflict for the user to resolve instead.
+
+export type MutationResult = Building | Comment | void;
+
+export type OutboxEvent =
+  | { type: "changed"; entries: OutboxEntry[] }
+  | { type: "applied"; entry: OutboxEntry; result: MutationResult };
+
+// Why an edit went into the outbox instead of straight to the server:
+// offline    - the network is down (or the request failed to reach the server)
+// held_back  - an earlier edit to the same target failed or conflicted and is waiting in the Outbox
+// waiting    - online, but earlier queued edits are still being replayed
+export type QueueReason = "offline" | "held_back" | "waiting";
+
+export type SubmitResult =
+  | { queued: false; result: MutationResult; entry?: undefined; reason?: undefined }
+  | { queued: true; result?: undefined; entry: OutboxEntry; reason: QueueReason };
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+let replaying: Promise<void> | null = null;
+
+const emit = (event: OutboxEvent): void => {
+  listeners.forEach((listener) => listener(event));
+};
+
+const emitChanged = async (): Promise<void> => {
+  emit({ type: "changed", entries: await loadOutboxEntries() });
+};
+
+// Subscribe to outbox changes and replayed entries; returns an unsubscribe function
+export const subscribeToOutbox = (listener: (event: OutboxEvent) => void): (() => void) => {
+  listeners.add(listener);
+  loadOutboxEntries()
+    .then((entries) => listener({ type: "changed", entries }))
+    .catch((error) => console.error("Failed to load the outbox:", error));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// The request never reached the server (see toServiceError)
+export const isNetworkError = (error: unknown): boolean => toServiceError(error, "buildings").kind === "network";
+
+// Entries touching the same building (or a building not created yet) have to stay in order
+const targetKey = (mutation: OutboxMutation): string =>
+  mutation.kind === "createBuilding" ? `new:${mutation.tempId}` : `row:${mutation.rowId}`;
+
+const runMutation = (mutation: OutboxMutation): Promise<MutationResult> => {
+  switch (mutation.kind) {
+    case "createBuilding":
+      return saveBuildingToBaserow(mutation.building, mutation.imageFiles);
+    case "updateBuilding":
+      return updateBuildingInBaserow(mutation.rowId, mutation.building, mutation.imageFiles);
+    case "setFavourite":
+      return toggleFavouriteInBaserow(mutation.rowId, mutation.isFavourite);
+    case "hideBuilding":
+      return hideBuildingInBaserow(mutation.rowId);
+    case "addComment":
+      return addCommentToBuilding(mutation.rowId, mutation.text, mutation.parentId);
+    case "updateComment":
+      return updateCommentInBuilding(mutation.commentId, mutation.text);
+    case "deleteComment":
+      return deleteCommentFromBuilding(mutation.commentId);
+  }
+};
+
+/**
+ * Run an edit now, or queue it when the network is down. It is also queued, even online, when
+ * any edit (to any building) is still pending, so replay keeps the order edits were made in, and
+ * when an earlier edit to the same target failed or conflicted - it then waits until that one is
+ * retried or discarded in the Outbox. Callers apply queued edits to their own state
+ * optimistically; the `applied` event carries the server's result later.
+ */
+export const submitMutation = async (mutation: OutboxMutation, label: string): Promise<SubmitResult> => {
+  const waiting = await loadOutboxEntries().catch(() => [] as OutboxEntry[]);
+  const key = targetKey(mutation);
+  const heldBack = waiting.some((entry) => entry.status !== "pending" && targetKey(entry.mutation) === key);
+  const mustQueue = heldBack || waiting.some((entry) => entry.status === "pending");
+
+  if (!mustQueue) {
+    try {
+      return { queued: false, result: await runMutation(mutation) };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const entry = await addOutboxEntry({
+    mutation,
+    label,
+    status: "pending",
+    queuedAt: new Date().toISOString(),
+    queuedBy: getCurrentUser()?.username || "anonymous",
+  });
+  const offline = !mustQueue || (typeof navigator !== "undefined" && navigator.onLine === false);
+  const reason: QueueReason = offline ? "offline" : heldBack ? "held_back" : "waiting";
+  console.log(`📮 Queued "${label}" (${reason})`);
+  await emitChanged();
+  if (!offline) void replayOutbox();
+  return { queued: true, entry, reason };
+};
+
+// Why a building edit can't be replayed as-is, or null when it's safe.
+// `ownWrites` holds updated_on values produced by this replay, so consecutive offline
+// edits to the same building don't count as conflicting with each other.
+const findConflict = async (entry: OutboxEntry, ownWrites: Map<number, string>): Promise<string | null> => {
+  const { mutation } = entry;
+  if (entry.force || !("baseUpdatedOn" in mutation) || !mutation.baseUpdatedOn) return null;
+  const row = await getBuildingRepository().getRow(mutation.rowId, { fresh: true });
+  const expected = ownWrites.get(mutation.rowId) || mutation.baseUpdatedOn;
+  if (row.updated_on && row.updated_on !== expected) {
+    return `"${row.name || "This building"}" was changed by someone else after you edited it offline`;
+  }
+  if (row.is_hidden) return `"${row.name || "This building"}" has been removed from the map`;
+  return null;
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Replay queued edits in order. Stops at the first network error (still offline);
+ * conflicts and server rejections are marked on the entry, and later edits to the same
+ * building wait behind them until the user keeps or discards the held-back one.
+ */
+export const replayOutbox = (): Promise<void> => {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    const entries = await loadOutboxEntries();
+    if (entries.length === 0) return;
+
+    const blocked = new Set<string>();
+    const ownWrites = new Map<number, string>();
+    let applied = 0;
+
+    for (const entry of entries) {
+      const key = targetKey(entry.mutation);
+      if (entry.status !== "pending" || blocked.has(key)) {
+        blocked.add(key);
+        continue;
+      }
+
+      try {
+        const conflict = await findConflict(entry, ownWrites);
+        if (conflict) {
+          await putOutboxEntry({ ...entry, status: "conflict", error: conflict });
+          blocked.add(key);
+          continue;
+        }
+
+        const result = await runMutation(entry.mutation);
+        await deleteOutboxEntry(entry.id);
+        applied++;
+
+        // Remember our own write so the next queued edit to this building isn't a conflict
+        const { mutation } = entry;
+        if (mutation.kind === "updateBuilding" || mutation.kind === "setFavourite" || mutation.kind === "hideBuilding") {
+          const updatedOn = mutation.kind === "updateBuilding"
+            ? (result as Building).updatedOn
+            : (await getBuildingRepository().getRow(mutation.rowId, { fresh: true }).catch(() => null))?.updated_on;
+          if (updatedOn) ownWrites.set(mutation.rowId, updatedOn);
+        }
+        emit({ type: "applied", entry, result });
+      } catch (error) {
+        if (isNetworkError(error)) {
+          console.log("📴 Still offline - outbox replay paused");
+          break;
+        }
+        console.error(`Failed to replay "${entry.label}":`, error);
+        await putOutboxEntry({ ...entry, status: "failed", error: errorMessage(error) });
+        blocked.add(key);
+      }
+    }
+
+    if (applied > 0) console.log(`📬 Synced ${applied} offline edit(s)`);
+    await emitChanged();
+  })()
+    .catch((error) => console.error("Outbox replay failed:", error))
+    .finally(() => {
+      replaying = null;
+    });
+
+  return replaying;
+};
+
+// "Keep mine": replay a held-back entry again, skipping the conflict check
+export const retryOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await putOutboxEntry({ ...entry, status: "pending", error: undefined, force: true });
+  await emitChanged();
+  await replayOutbox();
+};
+
+// Drop a queued edit; callers should refetch whatever it had changed optimistically
+export const discardOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await deleteOutboxEntry(entry.id);
+  await emitChanged();
+};
+
+// The queued create for a building that so far only exists in the outbox (its id is the
+// create's tempId). Waits for a running replay, which may be sending that create right now.
+const findQueuedCreate = async (tempId: string): Promise<OutboxEntry | undefined> => {
+  if (replaying) await replaying;
+  const entries = await loadOutboxEntries();
+  return entries.find((entry) => entry.mutation.kind === "createBuilding" && entry.mutation.tempId === tempId);
+};
+
+// Edit a building that hasn't synced yet: rewrite its queued create rather than queueing
+// a second one, so the replay adds one row with the latest details
+export const updateQueuedCreate = async (tempId: string, building: Building, imageFiles?: File[]): Promise<OutboxEntry> => {
+  const entry = await findQueuedCreate(tempId);
+  if (!entry || entry.mutation.kind !== "createBuilding") {
+    throw validationError("buildings", `"${building.name}" has just been saved - open it again to edit it`, 409);
+  }
+  const queuedFiles = entry.mutation.imageFiles || [];
+  const updated: OutboxEntry = {
+    ...entry,
+    label: `Add "${building.name}"`,
+    mutation: {
+      ...entry.mutation,
+      building: { ...building, id: tempId },
+      imageFiles: [...queuedFiles, ...(imageFiles || [])],
+    },
+  };
+  await putOutboxEntry(updated);
+  await emitChanged();
+  return updated;
+};
+
+// Remove a building that hasn't synced yet by dropping its queued create;
+// false when there was none left (it has already been saved)
+export const discardQueuedCreate = async (tempId: string): Promise<boolean> => {
+  const entry = await findQueuedCreate(tempId);
+  if (!entry) return false;
+  await discardOutboxEntry(entry);
+  return true;
+};
+
+// Overlay queued comment edits on a building's comments, so offline changes show up
+// in the thread (queued comments get negative ids until the server assigns real ones)
+export const applyQueuedComments = (comments: Comment[], entries: OutboxEntry[], rowId: number): Comment[] => {
+  const result = comments.map((comment) => ({ ...comment }));
+  for (const entry of entries) {
+    const { mutation } = entry;
+    if (!("rowId" in mutation) || mutation.rowId !== rowId) continue;
+
+    if (mutation.kind === "addComment") {
+      result.push({
+        id: -entry.id,
+        rowId,
+        ...(mutation.parentId !== undefined ? { parentId: mutation.parentId } : {}),
+        author: entry.queuedBy,
+        text: mutation.text,
+        createdAt: entry.queuedAt,
+        isPending: true,
+      });
+    } else if (mutation.kind === "updateComment" || mutation.kind === "deleteComment") {
+      const comment = result.find((c) => c.id === mutation.commentId);
+      if (!comment) continue;
+      if (mutation.kind === "updateComment") comment.text = mutation.text;
+      else Object.assign(comment, { text: "", isDeleted: true });
+      comment.isPending = true;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,116 @@
+import { RetryHint, ServiceError, ServiceErrorInfo, ServiceName } from "../types";
+
+// Typed errors for every service call (see ServiceErrorInfo in types.ts). Each failure is a
+// regular Error with a `kind`, the service it came from and a retry hint, so callers branch on
+// `error.kind` instead of searching `error.message` for "quota" or a status code.
+
+// How long to back off when a service says it's busy
+const OVERLOADED_RETRY_MS = 30 * 1000;
+const SERVER_ERROR_RETRY_MS = 10 * 1000;
+
+export const serviceError = (info: ServiceErrorInfo, message: string, cause?: unknown): ServiceError =>
+  Object.assign(new Error(message, cause === undefined ? undefined : { cause }), info);
+
+export const isServiceError = (error: unknown): error is ServiceError =>
+  error instanceof Error && typeof (error as Partial<ServiceError>).kind === "string" && "retry" in error;
+
+const noRetry: RetryHint = { retryable: false };
+
+export const rateLimitedError = (
+  service: ServiceName,
+  message: string,
+  { source, resetAt, status = 429 }: { source: "budget" | "upstream"; resetAt?: string | null; status?: number }
+): ServiceError =>
+  serviceError({ kind: "rate_limited", source, service, status, retry: { retryable: true, ...(resetAt ? { at: resetAt } : {}) } }, message);
+
+export const overloadedError = (service: ServiceName, message: string, status = 503): ServiceError =>
+  serviceError({ kind: "overloaded", service, status, retry: { retryable: true, afterMs: OVERLOADED_RETRY_MS } }, message);
+
+export const configError = (service: ServiceName, message: string, status?: number): ServiceError =>
+  serviceError({ kind: "config", service, status, retry: noRetry }, message);
+
+export const validationError = (service: ServiceName, message: string, status = 400): ServiceError =>
+  serviceError({ kind: "validation", service, status, retry: noRetry }, message);
+
+export const notFoundError = (service: ServiceName, message: string, status = 404): ServiceError =>
+  serviceError({ kind: "not_found", service, status, retry: noRetry }, message);
+
+export const authError = (service: ServiceName, message: string, status: 401 | 403 = 401): ServiceError =>
+  serviceError({ kind: "auth", reason: status === 401 ? "signed_out" : "forbidden", service, status, retry: noRetry }, message);
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+export const networkError = (service: ServiceName | undefined, cause: unknown): ServiceError => {
+  const offline = isOffline();
+  const detail = cause instanceof Error ? cause.message : String(cause);
+  return serviceError(
+    { kind: "network", offline, service, retry: { retryable: true } },
+    offline ? "You're offline" : `Network error: ${detail}`,
+    cause
+  );
+};
+
+/** The typed error for an HTTP status (`resetAt` is passed on for 429s from the AI budget). */
+export const errorFromStatus = (
+  service: ServiceName,
+  status: number,
+  message: string,
+  { resetAt }: { resetAt?: string | null } = {}
+): ServiceError => {
+  if (status === 401 || status === 403) return authError(service, message, status);
+  if (status === 404 || status === 410) return notFoundError(service, message, status);
+  if (status === 429) return rateLimitedError(service, message, { source: resetAt ? "budget" : "upstream", resetAt });
+  if (status === 503) return overloadedError(service, message);
+  if (status === 501) return configError(service, message, status);
+  if (status >= 400 && status < 500) return validationError(service, message, status);
+  return serviceError(
+    { kind: "unknown", service, status, retry: status >= 500 ? { retryable: true, afterMs: SERVER_ERROR_RETRY_MS } : noRetry },
+    message
+  );
+};
+
+/**
+ * Turn a failed API response into a typed error, with a "<prefix>: <status> - <detail>" message.
+ * JSON bodies from our proxies supply the detail (`error`) and, for the AI budget, `resetAt`.
+ */
+export const errorFromResponse = async (service: ServiceName, response: Response, prefix: string): Promise<ServiceError> => {
+  const text = await response.text().catch(() => "");
+  let body: any = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON (e.g. an HTML error page) - the text goes in the message as it is
+  }
+  const detail = typeof body?.error === "string" ? body.error : text;
+  return errorFromStatus(service, response.status, `${prefix}: ${response.status} - ${detail}`, { resetAt: body?.resetAt });
+};
+
+/**
+ * Classify anything a service call threw. Typed errors pass through; failed fetches
+ * (TypeError, timeouts) become network errors and the rest "unknown".
+ */
+export const toServiceError = (error: unknown, service?: ServiceName): ServiceError => {
+  if (isServiceError(error)) return error;
+  if (isOffline()) return networkError(service, error);
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) return networkError(service, error);
+  if (error instanceof DOMException && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return networkError(service, error);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return serviceError({ kind: "unknown", service, retry: noRetry }, message, error);
+};
+
+/** Out of quota or overloaded - the same call will work later, so it's worth telling the user. */
+export const isTryLaterError = (error: unknown): boolean => {
+  const { kind } = toServiceError(error);
+  return kind === "rate_limited" || kind === "overloaded";
+};
+
+/** Run a fetch, turning a connection failure into a network error for `service`. */
+export const fetchOrNetworkError = async (service: ServiceName, input: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(input, init);
+  } catch (error) {
+    throw toServiceError(error, service);
+  }
+};
@@ -0,0 +1,67 @@
+import { DATA_CACHE_VERSION } from "../constants";
+import { clearIndexedDBCache } from "../utils/indexedDB";
+import { BaserowRow } from "./buildingRepository";
+
+// The service worker (public/sw.js) serves building reads stale-while-revalidate. After a
+// write the app tells it which rows changed, so the next read gets the new rows instead of
+// the cached ones. Messages are best effort: without an active worker there's nothing cached.
+
+const PURGE_TIMEOUT_MS = 5000;
+const OFFLINE_REGIONS_CACHE = "evil-atlas-offline-regions"; // Managed by offlineRegionService, never purged here
+
+export interface RowsChangedMessage {
+  rows?: BaserowRow[]; // Rows as the server returned them after the write
+  deletedIds?: number[];
+  created?: boolean; // New rows can't be placed in cached pages, so those are dropped
+}
+
+const isSupported = (): boolean => typeof navigator !== "undefined" && "serviceWorker" in navigator;
+
+// Register public/sw.js (production only), versioned so a cache format change replaces the worker
+export const registerServiceWorker = async (): Promise<void> => {
+  if (!isSupported()) return;
+  try {
+    const registration = await navigator.serviceWorker.register(`/sw.js?v=${DATA_CACHE_VERSION}`);
+    console.log("Service Worker registered:", registration);
+  } catch (error) {
+    console.warn("Service Worker registration failed:", error);
+  }
+};
+
+// Send a message and wait for the worker's reply (resolves false if there's no worker or no reply in time)
+const request = (message: Record<string, unknown>): Promise<boolean> => {
+  const controller = isSupported() ? navigator.serviceWorker.controller : null;
+  if (!controller) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(false), PURGE_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(!!event.data?.ok);
+    };
+    controller.postMessage(message, [channel.port2]);
+  });
+};
+
+// Patch or drop the worker's cached responses for rows the app just wrote
+export const notifyRowsChanged = (change: RowsChangedMessage): void => {
+  const controller = isSupported() ? navigator.serviceWorker.controller : null;
+  controller?.postMessage({ type: "ROWS_CHANGED", ...change });
+};
+
+/**
+ * Admin "purge caches": empties the service worker's API cache and the IndexedDB building
+ * cache (including the delta sync cursor), so the next load downloads everything again.
+ * Saved offline areas are kept - they're deleted from the offline maps dialog.
+ */
+export const purgeCaches = async (): Promise<void> => {
+  const viaWorker = await request({ type: "PURGE_CACHES" });
+  if (!viaWorker && typeof caches !== "undefined") {
+    // No active worker (e.g. development) - clear Cache Storage from the page instead
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name !== OFFLINE_REGIONS_CACHE).map((name) => caches.delete(name)));
+  }
+  await clearIndexedDBCache();
+  console.log("🧹 Purged cached buildings");
+};
@@ -3,6 +3,13 @@ export interface Coordinates {
   lng: number;
 }
 
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
 export enum ArchitecturalStyle {
   // Soviet/Communist Styles
   STALINIST_GOTHIC = 'Stalinist Gothic',
@@ -47,10 +54,64 @@ export enum ArchitecturalStyle {
   DISGUSTING = 'Disgusting'
 }
 
+// An earlier version of a comment, replaced at editedAt by editedBy
+export interface CommentEdit {
+  text: string;
+  editedAt: string; // ISO timestamp
+  editedBy: string;
+}
+
+// Comments are their own records linked to a building row (stored server-side by server/lib/comments.js)
 export interface Comment {
-  text: string; // Rich text content
+  id: number;
+  rowId: number; // Building row the comment belongs to
+  parentId?: number; // Comment this replies to (undefined for top-level comments)
+  author: string;
+  text: string; // Rich text content (empty once deleted)
   createdAt: string; // ISO timestamp
   updatedAt?: string; // ISO timestamp if edited
+  edits?: CommentEdit[]; // Earlier versions, oldest first
+  isDeleted?: boolean; // Soft-deleted - kept so its replies stay in place
+  isPending?: boolean; // Made offline and still waiting in the outbox
+}
+
+// A comment with its replies nested under it
+export interface CommentThread extends Comment {
+  replies: CommentThread[];
+}
+
+// Where a building image came from
+export type ImageSource = 'upload' | 'google_places' | 'web';
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+// A credit Google requires next to a Places photo (parsed from its html_attributions)
+export interface ImageAttribution {
+  name: string;
+  url?: string; // The contributor's Google Maps profile
+}
+
+// One stored size/format of an uploaded image (made by server/lib/imagePipeline.js)
+export interface ImageVariant {
+  url: string;
+  width: number;
+  format: ImageFormat;
+  size?: number; // Bytes
+}
+
+// One image in a building's ordered collection (the first one is the cover)
+export interface BuildingImage {
+  url: string; // Largest JPEG for processed uploads, so plain <img> users still work
+  fileName?: string; // Baserow user-file name, for uploads
+  width?: number; // Original dimensions, when known
+  height?: number;
+  placeholder?: string; // Tiny blurred data URL shown while the image loads
+  variants?: ImageVariant[]; // Responsive sizes for srcset (uploads processed on the server)
+  caption?: string;
+  credit?: string; // Photographer or other credit line
+  attributions?: ImageAttribution[]; // Google Places photos: must be shown with the image
+  source: ImageSource;
+  pendingUpload?: number; // Not uploaded yet: index into the imageFiles passed with the save
 }
 
 export interface Building {
@@ -62,8 +123,9 @@ export interface Building {
   coordinates: Coordinates;
   gmapsUrl?: string; // Google Maps URL (preferred over groundingUrl)
   groundingUrl?: string; // Deprecated: Use gmapsUrl instead
-  imageUrl?: string; // URL from Google Search (legacy, use imageUrls for multiple images)
-  imageUrls?: string[]; // Array of image URLs (from Baserow file fields image_1, image_2, image_3)
+  imageUrl?: string; // Cover image URL (also how Places/Gemini lookups hand over a single new image)
+  imageUrls?: string[]; // URLs of `images`, in order (kept for code that only needs the URLs)
+  images?: BuildingImage[]; // Ordered image collection with captions and credits; first is the cover
   city?: string; // Extracted city name
   country?: string; // Extracted country name
   googlePlaceId?: string; // Google Place ID - use this to construct proper place URLs
@@ -72,10 +134,188 @@ export interface Building {
   hasPurpleHeart?: boolean; // True for special romantic locations that get purple glowing hearts
   source?: string; // Source of building entry (e.g., 'manual' for manually added)
   favourites?: boolean; // True if building is marked as a favourite
-  comments?: Comment[]; // Array of comments (mapped from comment_1 through comment_6 fields)
+  updatedOn?: string; // Baserow last-modified timestamp (drives delta sync)
+  promptVersion?: string; // Prompt that found it, e.g. "discover@1" (utils/promptLibrary.js); unset for manual entries
 }
 
 export interface MapViewState {
   center: Coordinates;
   zoom: number;
-}
\ No newline at end of file
+}
+
+// Roles, ordered from least to most privileged (enforced server-side in server/lib/auth.js)
+export type UserRole = 'viewer' | 'contributor' | 'curator';
+
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+}
+
+// Revision history (recorded server-side in server/lib/revisions.js)
+export type RevisionAction = 'create' | 'update' | 'hide' | 'unhide' | 'comment' | 'delete' | 'restore';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface BuildingRevision {
+  id: number;
+  rowId: number;
+  action: RevisionAction;
+  username: string;
+  createdAt: string; // ISO timestamp
+  changes: Record<string, FieldChange>; // Field-level diff, keyed by Baserow field name
+  snapshot: Record<string, unknown>; // Full row as of this revision (before deletion for 'delete')
+  restoredFrom?: number; // For restored deletions, the 'delete' revision that was restored
+}
+
+// A deleted building that can still be restored from its last revision
+export interface DeletedBuilding {
+  revisionId: number;
+  building: Building;
+  deletedBy: string;
+  deletedAt: string; // ISO timestamp
+}
+
+// Edits made while offline: applied to the UI straight away, queued in IndexedDB and
+// replayed in order once the network is back (services/outboxService.ts)
+export type OutboxMutation =
+  | { kind: 'createBuilding'; tempId: string; building: Building; imageFiles?: File[] }
+  | { kind: 'updateBuilding'; rowId: number; building: Building; imageFiles?: File[]; baseUpdatedOn?: string }
+  | { kind: 'setFavourite'; rowId: number; isFavourite: boolean; baseUpdatedOn?: string }
+  | { kind: 'hideBuilding'; rowId: number; baseUpdatedOn?: string }
+  | { kind: 'addComment'; rowId: number; text: string; parentId?: number }
+  | { kind: 'updateComment'; rowId: number; commentId: number; text: string }
+  | { kind: 'deleteComment'; rowId: number; commentId: number };
+
+// 'conflict': the building changed on the server since the edit was made offline
+// 'failed': the server rejected the edit (e.g. the building or comment is gone)
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: number; // Increasing - entries replay in this order
+  mutation: OutboxMutation;
+  label: string; // What the user did, e.g. 'Edit "Hoover Building"'
+  status: OutboxStatus;
+  queuedAt: string; // ISO timestamp
+  queuedBy: string;
+  error?: string; // Why a conflict / failed entry was held back
+  force?: boolean; // Replay without the conflict check ("keep mine")
+}
+
+// A map area saved for offline use: its tiles and building images live in a dedicated
+// Cache Storage cache (served by public/sw.js), this record in IndexedDB
+export interface OfflineRegion {
+  id: string;
+  name: string;
+  bounds: GeoBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileUrlTemplate: string; // Tile set the region was saved with (dark or light map)
+  urls: string[]; // Every cached URL (tiles and images), so deleting a region only drops what no other region uses
+  tileCount: number;
+  buildingCount: number;
+  imageCount: number;
+  failedCount: number; // Downloads that failed (refresh to retry)
+  bytes: number; // Measured size; cross-origin images without CORS can't be measured and count as 0
+  savedAt: string; // ISO timestamp
+}
+
+export type AiCacheKind = 'geocode' | 'lairs';
+
+// A remembered Gemini response (services/aiCacheService.ts), kept in IndexedDB and on the server
+export interface AiCacheEntry {
+  key: string; // Normalised query plus rounded coordinates, e.g. "lairs:berlin@52.5,13.4"
+  kind: AiCacheKind;
+  value: unknown;
+  expiresAt: string; // ISO timestamp
+}
+
+// Daily budget for paid AI calls (services/aiBudgetService.ts, server/lib/aiBudget.js)
+export type AiBudgetService = 'gemini' | 'places';
+
+// background stops at the soft limit, search at the hard limit minus the reserve, admin may use the reserve
+export type AiBudgetPurpose = 'background' | 'search' | 'admin';
+
+export interface AiServiceBudget {
+  used: number;
+  softLimit: number;
+  hardLimit: number;
+  reserved: number; // Set aside by curators for admin tasks
+  remaining: number; // Left for searches today
+}
+
+export interface AiBudgetStatus {
+  day: string; // YYYY-MM-DD in the budget's time zone
+  resetAt: string; // ISO timestamp of the next reset
+  services: Record<AiBudgetService, AiServiceBudget>;
+}
+
+// Why a service call failed (services/serviceErrors.ts). Services throw these instead of bare Errors,
+// and App turns them into messages with presentError (utils/errorPresenter.ts).
+export type ServiceName = 'gemini' | 'places' | 'buildings' | 'auth' | 'budget' | 'offline-maps';
+
+export interface RetryHint {
+  retryable: boolean; // Whether the same call can succeed later without anything else changing
+  afterMs?: number; // Suggested wait before trying again
+  at?: string; // ISO timestamp from which it can succeed, e.g. the daily AI budget reset
+}
+
+interface ServiceErrorBase {
+  service?: ServiceName; // Missing only for errors classified after the fact (see toServiceError)
+  status?: number; // HTTP status, when the failure came from an API response
+  retry: RetryHint;
+}
+
+export type ServiceErrorInfo = ServiceErrorBase & (
+  | { kind: 'rate_limited'; source: 'budget' | 'upstream' } // Our daily budget or Google's quota
+  | { kind: 'overloaded' }
+  | { kind: 'auth'; reason: 'signed_out' | 'forbidden' }
+  | { kind: 'config' } // Missing API key, unsupported browser, feature not deployed
+  | { kind: 'not_found' }
+  | { kind: 'validation' }
+  | { kind: 'network'; offline: boolean }
+  | { kind: 'unknown' }
+);
+
+export type ServiceErrorKind = ServiceErrorInfo['kind'];
+
+// A regular Error (message, stack, cause) carrying the typed fields
+export type ServiceError = Error & ServiceErrorInfo;
+
+// A building suggested by Gemini after it passed the candidate schema (utils/aiCandidateSchema.ts):
+// required fields present, coordinates in range and styles mapped onto ArchitecturalStyle
+export interface AiBuildingCandidate {
+  name: string;
+  location?: string;
+  city: string;
+  country: string;
+  description: string;
+  style: ArchitecturalStyle; // One or more known styles, comma-separated - the first is the primary style
+  lat: number;
+  lng: number;
+  isPrioritized: boolean;
+  architect?: string;
+  imageUrl?: string;
+}
+
+// An item from the model's answer that was dropped, with every reason it failed
+export interface AiCandidateRejection {
+  index: number; // Position in the model's array
+  name?: string;
+  reasons: string[];
+}
+
+// An item that was kept after fixing it up (e.g. coordinates given as strings, city taken from the address)
+export interface AiCandidateRepair {
+  index: number;
+  name: string;
+  repairs: string[];
+}
+
+export interface AiCandidateReport {
+  candidates: AiBuildingCandidate[];
+  rejected: AiCandidateRejection[];
+  repaired: AiCandidateRepair[];
+}
@@ -0,0 +1,179 @@
+import { AiBuildingCandidate, AiCandidateReport, ArchitecturalStyle } from '../types';
+import { normalizeStyle } from '../constants';
+
+// Runtime schema for the building candidates Gemini returns (fetchLairs, checkPOIStyleCriteria).
+// The model answers in free text (utils/modelJson.js finds the JSON in it), so nothing about its
+// items can be trusted: every one is checked here, small mistakes are repaired, and items that are
+// still wrong are dropped with the reasons, so only valid candidates reach saveBuildingToBaserow.
+
+// Styles the model may assign. 'Disgusting' is a curator's label, never the model's.
+const AI_STYLES: string[] = Object.values(ArchitecturalStyle).filter((style) => style !== ArchitecturalStyle.DISGUSTING);
+
+// A non-empty trimmed string, or undefined
+const readText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+// A finite number; numeric strings ("52.23") are accepted and noted as a repair
+const readNumber = (value: unknown, field: string, repairs: string[]): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+    repairs.push(`${field} was a string`);
+    return Number(value);
+  }
+  return undefined;
+};
+
+// City and country from a "street, city, postcode, country" address, for items that left them out.
+// Parts with digits are postcodes or house numbers and short all-caps parts are states (e.g. "NY").
+const placeFromAddress = (location: string | undefined): { city?: string; country?: string } => {
+  const parts = (location || '').split(',').map((part) => part.trim()).filter(Boolean);
+  if (parts.length < 2) return {};
+  const country = /\d/.test(parts[parts.length - 1]) ? undefined : parts[parts.length - 1];
+  let city: string | undefined;
+  for (let i = parts.length - 2; i >= (parts.length > 2 ? 1 : 0) && !city; i--) {
+    const words = parts[i].split(/\s+/).filter((word) => !/\d/.test(word)).join(' ');
+    if (words && !/^[A-Z]{1,3}$/.test(words)) city = words;
+  }
+  return { city, country };
+};
+
+// A known style for one of the model's style names (exact match first, then the usual synonyms)
+const toKnownStyle = (style: string): string | null => {
+  const lower = style.toLowerCase();
+  const exact = AI_STYLES.find((known) => known.toLowerCase() === lower);
+  if (exact) return exact;
+  const normalized = normalizeStyle(style);
+  return AI_STYLES.includes(normalized) ? normalized : null;
+};
+
+const readStyles = (value: unknown, repairs: string[], reasons: string[]): string[] => {
+  const names = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .map(readText)
+    .filter((name): name is string => !!name);
+  const styles: string[] = [];
+  const unknown: string[] = [];
+  for (const name of names) {
+    const known = toKnownStyle(name);
+    if (!known) unknown.push(name);
+    else if (!styles.includes(known)) styles.push(known);
+  }
+  if (Array.isArray(value)) repairs.push('style was a list');
+  if (unknown.length > 0 && styles.length > 0) repairs.push(`dropped unknown style ${unknown.map((name) => `"${name}"`).join(', ')}`);
+  if (styles.length === 0) {
+    reasons.push(names.length > 0 ? `no known style in ${names.map((name) => `"${name}"`).join(', ')}` : 'style is missing');
+  }
+  return styles;
+};
+
+const readImageUrl = (value: unknown, repairs: string[]): string | undefined => {
+  const text = readText(value);
+  if (!text) return undefined;
+  try {
+    const url = new URL(text);
+    if (url.protocol === 'http:' || url.protocol === 'https:') return url.href;
+  } catch {
+    // Not a URL at all
+  }
+  repairs.push('dropped imageUrl that is not an http(s) URL');
+  return undefined;
+};
+
+// Check one item: the candidate when it passes (with what was repaired), otherwise the reasons it failed
+const checkCandidate = (item: unknown): { candidate?: AiBuildingCandidate; name?: string; repairs: string[]; reasons: string[] } => {
+  const repairs: string[] = [];
+  const reasons: string[] = [];
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { repairs, reasons: ['not an object'] };
+  }
+  const raw = item as Record<string, unknown>;
+
+  const name = readText(raw.name);
+  if (!name) reasons.push('name is missing');
+
+  const location = readText(raw.location);
+  const fromAddress = placeFromAddress(location);
+  let city = readText(raw.city);
+  if (!city && fromAddress.city) {
+    city = fromAddress.city;
+    repairs.push('city taken from location');
+  }
+  let country = readText(raw.country);
+  if (!country && fromAddress.country) {
+    country = fromAddress.country;
+    repairs.push('country taken from location');
+  }
+  if (!city) reasons.push('city is missing');
+  if (!country) reasons.push('country is missing');
+
+  let lat = readNumber(raw.lat ?? raw.latitude, 'lat', repairs);
+  let lng = readNumber(raw.lng ?? raw.longitude, 'lng', repairs);
+  if (lat === undefined) reasons.push('lat is missing or not a number');
+  if (lng === undefined) reasons.push('lng is missing or not a number');
+  if (lat !== undefined && lng !== undefined) {
+    // A latitude past the poles that would be a fine longitude (and the other way round) was swapped
+    if (Math.abs(lat) > 90 && Math.abs(lat) <= 180 && Math.abs(lng) <= 90) {
+      [lat, lng] = [lng, lat];
+      repairs.push('lat and lng were swapped');
+    }
+    if (Math.abs(lat) > 90) reasons.push(`lat ${lat} is outside -90 to 90`);
+    if (Math.abs(lng) > 180) reasons.push(`lng ${lng} is outside -180 to 180`);
+    if (lat === 0 && lng === 0) reasons.push('coordinates are 0,0');
+  }
+
+  const styles = readStyles(raw.style, repairs, reasons);
+
+  let description = readText(raw.description);
+  if (!description) {
+    description = '';
+    repairs.push('description was missing');
+  }
+
+  let isPrioritized = raw.isPrioritized === true;
+  if (raw.isPrioritized === 'true') {
+    isPrioritized = true;
+    repairs.push('isPrioritized was a string');
+  }
+
+  const architect = readText(raw.architect);
+  const imageUrl = readImageUrl(raw.imageUrl, repairs);
+
+  if (reasons.length > 0 || !name || !city || !country || lat === undefined || lng === undefined) {
+    return { name, repairs, reasons };
+  }
+  return {
+    name,
+    repairs,
+    reasons,
+    candidate: {
+      name,
+      ...(location ? { location } : {}),
+      city,
+      country,
+      description,
+      style: styles.join(', ') as ArchitecturalStyle,
+      lat,
+      lng,
+      isPrioritized,
+      ...(architect ? { architect } : {}),
+      ...(imageUrl ? { imageUrl } : {}),
+    },
+  };
+};
+
+/** Validate the items of a model's answer, keeping (repaired) valid candidates and reporting the rest. */
+export const validateBuildingCandidates = (items: unknown[]): AiCandidateReport => {
+  const report: AiCandidateReport = { candidates: [], rejected: [], repaired: [] };
+  items.forEach((item, index) => {
+    const { candidate, name, repairs, reasons } = checkCandidate(item);
+    if (!candidate) {
+      report.rejected.push({ index, ...(name ? { name } : {}), reasons });
+      return;
+    }
+    report.candidates.push(candidate);
+    if (repairs.length > 0) report.repaired.push({ index, name: candidate.name, repairs });
+  });
+  return report;
+};
@@ -0,0 +1,82 @@
+// Types for duplicateMatching.js (kept as plain JS so the Node scripts can import it)
+import { Building, Coordinates } from '../types';
+
+// Rule for buildings that must never be grouped with their neighbours by name alone
+export interface DuplicateException {
+  id: string;
+  description?: string;
+  countries?: string[]; // Country must contain one of these (case-insensitive), if given
+  cities?: string[]; // City must contain one of these, if given
+  keywords: string[]; // Name must contain one of these
+}
+
+export interface MatchThresholds {
+  nearbyMeters: number;
+  nearbyNameScore: number;
+  sameAreaMeters: number;
+  sameAreaNameScore: number;
+}
+
+// Common shape both Buildings and Baserow rows are reduced to before matching
+export interface MatchableBuilding {
+  name: string;
+  coordinates: Coordinates | null;
+  placeId: string | null;
+  city: string;
+  country: string;
+}
+
+export type MatchReason =
+  | 'same-place-id'
+  | 'different-place-id'
+  | 'similar-name-nearby'
+  | 'same-name-same-area'
+  | 'no-match'
+  | `exception:${string}`;
+
+export interface MatchResult {
+  isDuplicate: boolean;
+  reason: MatchReason;
+  nameScore: number; // 0..1
+  distance: number; // Meters (Infinity when either side has no coordinates)
+}
+
+export interface DuplicateMatcher {
+  readonly thresholds: MatchThresholds;
+  readonly exceptions: DuplicateException[];
+  findException(item: MatchableBuilding): DuplicateException | null;
+  compare(a: MatchableBuilding, b: MatchableBuilding): MatchResult;
+  isDuplicate(a: MatchableBuilding, b: MatchableBuilding): boolean;
+}
+
+export interface DuplicateMatcherOptions {
+  exceptions?: DuplicateException[];
+  thresholds?: Partial<MatchThresholds>;
+}
+
+// Row fields the matcher reads (a subset of BaserowRow)
+export interface MatchableRow {
+  name?: string;
+  lat?: string | number;
+  lng?: string | number;
+  google_place_id?: string;
+  city?: string;
+  country?: string;
+}
+
+export const DEFAULT_DUPLICATE_EXCEPTIONS: DuplicateException[];
+export const DEFAULT_MATCH_THRESHOLDS: MatchThresholds;
+
+export function normalizeName(name: string | null | undefined): string;
+export function baseName(name: string | null | undefined): string;
+export function nameSimilarity(name1: string | null | undefined, name2: string | null | undefined): number;
+
+export function matchableFromBuilding(building: Pick<Building, 'name' | 'coordinates' | 'googlePlaceId' | 'city' | 'country'>): MatchableBuilding;
+export function matchableFromRow(row: MatchableRow): MatchableBuilding;
+
+export function createDuplicateMatcher(options?: DuplicateMatcherOptions): DuplicateMatcher;
+export function groupDuplicates<T>(
+  items: T[],
+  toMatchable: (item: T) => MatchableBuilding,
+  matcher?: DuplicateMatcher
+): T[][];
@@ -0,0 +1,217 @@
+// Duplicate detection shared by the app (mergeBuildings, findExistingBuilding, in-app dedupe)
+// and the Node dedupe scripts, so every merge/dedupe decision uses the same rules.
+//
+// Plain ES module so the scripts can import it without a build step;
+// types live in duplicateMatching.d.ts.
+//
+// Two buildings are duplicates when, in order:
+//   1. either matches an exception rule (e.g. the Seven Sisters) -> never grouped, unless
+//      both carry the same Google Place ID
+//   2. both have the same Google Place ID                          -> duplicate
+//   3. both have a Place ID and they differ                        -> not a duplicate
+//   4. otherwise by name similarity and distance (see DEFAULT_MATCH_THRESHOLDS)
+
+// Buildings that share generic names with their neighbours but are distinct places.
+// A building matches a rule when its name contains one of the keywords and - if given -
+// its city and country contain one of the listed values.
+export const DEFAULT_DUPLICATE_EXCEPTIONS = [
+  {
+    id: 'seven-sisters',
+    description: "Moscow's Stalinist high-rises share names like 'Ministry' and 'Stalinist'",
+    countries: ['russia', 'россия'],
+    cities: ['moscow', 'москва'],
+    keywords: [
+      'ministry', 'hotel ukraina', 'hotel leningradskaya', 'kotelnicheskaya', 'kudrinskaya',
+      'red gates', 'seven sisters', 'stalinist', 'высотка', 'сталинская',
+    ],
+  },
+];
+
+export const DEFAULT_MATCH_THRESHOLDS = {
+  // Close by: names only need to be broadly similar (e.g. "Hotel X" vs "X Hotel")
+  nearbyMeters: 500,
+  nearbyNameScore: 0.6,
+  // Same area: the names (or their base names, without parentheses / suffixes) must nearly match
+  sameAreaMeters: 10000,
+  sameAreaNameScore: 0.85,
+};
+
+// Letters NFD decomposition doesn't split into base + accent
+const SPECIAL_LETTERS = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i',
+};
+
+// Cyrillic and Greek to Latin (close enough for matching, not for display)
+const TRANSLITERATION = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  і: 'i', ї: 'yi', є: 'ye', ґ: 'g', ў: 'u', ј: 'j', љ: 'lj', њ: 'nj', ћ: 'c', ђ: 'dj', џ: 'dz',
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l',
+  μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f',
+  χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+const isPresent = (value) => value !== null && value !== undefined && String(value).trim() !== '';
+
+// Lowercase, transliterate, strip accents and punctuation, collapse whitespace
+export const normalizeName = (name) => {
+  if (!name) return '';
+  return String(name)
+    .toLowerCase()
+    .replace(/./gu, (char) => SPECIAL_LETTERS[char] ?? TRANSLITERATION[char] ?? char)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining accents
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ') // Punctuation
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Name without parenthesised / bracketed notes or a trailing " - suffix"
+export const baseName = (name) =>
+  normalizeName(
+    String(name || '')
+      .replace(/\s*\([^)]*\)/g, '')
+      .replace(/\s*\[[^\]]*\]/g, '')
+      .replace(/\s+[-–—]\s+.*$/, '')
+  );
+
+const compareNormalized = (norm1, norm2) => {
+  if (!norm1 || !norm2) return 0;
+  if (norm1 === norm2) return 1;
+
+  // One contains the other: score by how much of the longer name is covered
+  if (norm1.includes(norm2) || norm2.includes(norm1)) {
+    return Math.min(norm1.length, norm2.length) / Math.max(norm1.length, norm2.length);
+  }
+
+  // Otherwise word overlap (Jaccard), ignoring short words like "de" or "of"
+  const words1 = new Set(norm1.split(' ').filter((w) => w.length > 2));
+  const words2 = new Set(norm2.split(' ').filter((w) => w.length > 2));
+  if (words1.size === 0 || words2.size === 0) return 0;
+  const intersection = [...words1].filter((w) => words2.has(w)).length;
+  return intersection / new Set([...words1, ...words2]).size;
+};
+
+// 0..1 similarity of two names, using the better of the full and base names
+export const nameSimilarity = (name1, name2) =>
+  Math.max(
+    compareNormalized(normalizeName(name1), normalizeName(name2)),
+    compareNormalized(baseName(name1), baseName(name2))
+  );
+
+// Haversine distance in meters
+const distanceMeters = (a, b) => {
+  const R = 6371e3;
+  const φ1 = (a.lat * Math.PI) / 180;
+  const φ2 = (b.lat * Math.PI) / 180;
+  const Δφ = ((b.lat - a.lat) * Math.PI) / 180;
+  const Δλ = ((b.lng - a.lng) * Math.PI) / 180;
+  const h = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+const cleanPlaceId = (placeId) => (isPresent(placeId) ? String(placeId).replace(/^places\//, '').trim() : null);
+
+const validCoordinates = (lat, lng) => {
+  const latNum = typeof lat === 'number' ? lat : parseFloat(lat || '');
+  const lngNum = typeof lng === 'number' ? lng : parseFloat(lng || '');
+  if (isNaN(latNum) || isNaN(lngNum) || (latNum === 0 && lngNum === 0)) return null;
+  return { lat: latNum, lng: lngNum };
+};
+
+// Adapters for the two shapes we match: app Buildings and Baserow rows
+export const matchableFromBuilding = (building) => ({
+  name: building.name || '',
+  coordinates: building.coordinates ? validCoordinates(building.coordinates.lat, building.coordinates.lng) : null,
+  placeId: cleanPlaceId(building.googlePlaceId),
+  city: building.city || '',
+  country: building.country || '',
+});
+
+export const matchableFromRow = (row) => ({
+  name: row.name || '',
+  coordinates: validCoordinates(row.lat, row.lng),
+  placeId: cleanPlaceId(row.google_place_id),
+  city: row.city || '',
+  country: row.country || '',
+});
+
+const includesAny = (value, candidates) => {
+  const normalized = String(value || '').toLowerCase();
+  return candidates.some((candidate) => normalized.includes(candidate.toLowerCase()));
+};
+
+/**
+ * Create a matcher. Options override the default exception list and thresholds.
+ * @param {{ exceptions?: object[], thresholds?: object }} [options]
+ */
+export const createDuplicateMatcher = (options = {}) => {
+  const exceptions = options.exceptions ?? DEFAULT_DUPLICATE_EXCEPTIONS;
+  const thresholds = { ...DEFAULT_MATCH_THRESHOLDS, ...(options.thresholds || {}) };
+
+  const findException = (item) =>
+    exceptions.find(
+      (rule) =>
+        (!rule.countries?.length || includesAny(item.country, rule.countries)) &&
+        (!rule.cities?.length || includesAny(item.city, rule.cities)) &&
+        includesAny(item.name, rule.keywords)
+    ) || null;
+
+  // Full explanation of a decision (used for logging and the dedupe review)
+  const compare = (a, b) => {
+    const samePlace = !!a.placeId && a.placeId === b.placeId;
+    const distance = a.coordinates && b.coordinates ? distanceMeters(a.coordinates, b.coordinates) : Infinity;
+    const nameScore = nameSimilarity(a.name, b.name);
+    const result = (isDuplicate, reason) => ({ isDuplicate, reason, nameScore, distance });
+
+    const exception = findException(a) || findException(b);
+    if (exception && !samePlace) return result(false, `exception:${exception.id}`);
+    if (samePlace) return result(true, 'same-place-id');
+    if (a.placeId && b.placeId) return result(false, 'different-place-id');
+
+    if (distance <= thresholds.nearbyMeters && nameScore >= thresholds.nearbyNameScore) {
+      return result(true, 'similar-name-nearby');
+    }
+    if (distance <= thresholds.sameAreaMeters && nameScore >= thresholds.sameAreaNameScore) {
+      return result(true, 'same-name-same-area');
+    }
+    return result(false, 'no-match');
+  };
+
+  return {
+    thresholds,
+    exceptions,
+    findException,
+    compare,
+    isDuplicate: (a, b) => compare(a, b).isDuplicate,
+  };
+};
+
+/**
+ * Group items into duplicate clusters (each item in at most one group, groups of 2+ only).
+ * Items are compared against the first item of each group, in input order.
+ */
+export const groupDuplicates = (items, toMatchable, matcher = createDuplicateMatcher()) => {
+  const matchables = items.map(toMatchable);
+  const assigned = new Set();
+  const groups = [];
+
+  for (let i = 0; i < items.length; i++) {
+    if (assigned.has(i)) continue;
+    const group = [items[i]];
+    assigned.add(i);
+
+    for (let j = i + 1; j < items.length; j++) {
+      if (assigned.has(j)) continue;
+      if (matcher.isDuplicate(matchables[i], matchables[j])) {
+        group.push(items[j]);
+        assigned.add(j);
+      }
+    }
+
+    if (group.length > 1) groups.push(group);
+  }
+
+  return groups;
+};
@@ -0,0 +1,42 @@
+import { formatResetCountdown, getKnownResetAt } from "../services/aiBudgetService";
+import { toServiceError } from "../services/serviceErrors";
+
+// The one place service errors (services/serviceErrors.ts) become the text in App's error banner.
+// `fallback` is what the caller was trying to do, e.g. "Failed to save comment"; it's shown for
+// failures the user can't do anything about, and reasons are added to it for the ones they can.
+
+const withReason = (fallback: string, reason: string) => `${fallback.replace(/[.!]$/, "")} - ${reason}`;
+
+const formatClockTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export const presentError = (error: unknown, fallback: string): string => {
+  const serviceError = toServiceError(error);
+
+  switch (serviceError.kind) {
+    case "rate_limited": {
+      const resetAt = serviceError.retry.at || getKnownResetAt();
+      const until = resetAt
+        ? `Searching resumes in ${formatResetCountdown(resetAt)} (at ${formatClockTime(resetAt)})`
+        : "Wait until midnight Pacific time to search some more";
+      return `SYSTEM ALERT\nToo many new searches a day will alert the authorities! ${until}, or browse buildings already visible`;
+    }
+    case "overloaded": {
+      const seconds = Math.ceil((serviceError.retry.afterMs ?? 30000) / 1000);
+      return `SYSTEM ALERT\nThe archives are overloaded. Try again in ${seconds} seconds, or browse buildings already visible`;
+    }
+    case "config":
+      return serviceError.service === "gemini"
+        ? "API configuration error. Please check your Gemini API key."
+        : withReason(fallback, serviceError.message);
+    case "auth":
+      return withReason(fallback, serviceError.reason === "signed_out" ? "sign in and try again." : "your role doesn't allow that.");
+    case "not_found":
+      return withReason(fallback, "it no longer exists.");
+    case "validation":
+      return withReason(fallback, serviceError.message);
+    case "network":
+      return withReason(fallback, serviceError.offline ? "you're offline." : "couldn't reach the server. Check your connection and try again.");
+    default:
+      return fallback;
+  }
+};
@@ -0,0 +1,25 @@
+import { Coordinates, GeoBounds } from '../types';
+
+// Helper to calculate distance in meters (Haversine formula)
+export const getDistance = (coord1: Coordinates, coord2: Coordinates): number => {
+  const R = 6371e3; // Earth radius in meters
+  const φ1 = (coord1.lat * Math.PI) / 180;
+  const φ2 = (coord2.lat * Math.PI) / 180;
+  const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
+  const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+};
+
+// Check whether a point lies inside bounds (west > east means the box crosses the antimeridian)
+export const isWithinBounds = (coords: Coordinates, bounds: GeoBounds): boolean => {
+  if (coords.lat < bounds.south || coords.lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? coords.lng >= bounds.west && coords.lng <= bounds.east
+    : coords.lng >= bounds.west || coords.lng <= bounds.east;
+};
@@ -1,8 +1,36 @@
-import { Building } from '../types';
+import { AiCacheEntry, Building, OfflineRegion, OutboxEntry } from '../types';
 
 const DB_NAME = 'evil-atlas';
-const DB_VERSION = 1;
 const STORE_NAME = 'buildings';
+const META_STORE_NAME = 'meta'; // Key/value store for the delta-sync cursor
+const OUTBOX_STORE_NAME = 'outbox'; // Mutations made offline, waiting to be replayed
+const REGIONS_STORE_NAME = 'offlineRegions'; // Map areas saved for offline use
+const AI_CACHE_STORE_NAME = 'aiCache'; // Local mirror of the Gemini response cache
+const SYNC_STATE_KEY = 'sync';
+
+// Schema history - each step upgrades the database from the version before it,
+// so a browser that skipped versions runs every step it missed, in order.
+// Add new steps to the end; never edit one that has shipped.
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  // 1: buildings cache
+  (db) => db.createObjectStore(STORE_NAME, { keyPath: 'id' }),
+  // 2: delta-sync cursor
+  (db) => db.createObjectStore(META_STORE_NAME),
+  // 3: offline outbox (auto-increment ids keep entries in the order they were made)
+  (db) => db.createObjectStore(OUTBOX_STORE_NAME, { keyPath: 'id', autoIncrement: true }),
+  // 4: saved offline regions
+  (db) => db.createObjectStore(REGIONS_STORE_NAME, { keyPath: 'id' }),
+  // 5: Gemini response cache
+  (db) => db.createObjectStore(AI_CACHE_STORE_NAME, { keyPath: 'key' }),
+];
+const DB_VERSION = MIGRATIONS.length;
+
+// Where the cached buildings are up to: `cursor` is the newest Baserow updated_on seen,
+// `lastFullSyncAt` when the whole table was last downloaded (deltas can miss rows deleted in Baserow itself)
+export interface SyncState {
+  cursor: string;
+  lastFullSyncAt: string;
+}
 
 // Open IndexedDB database
 const openDB = (): Promise<IDBDatabase> => {
@@ -15,12 +43,17 @@ const openDB = (): Promise<IDBDatabase> => {
     const request = window.indexedDB.open(DB_NAME, DB_VERSION);
     
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app (e.g. in another tab) upgrade the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
     
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db);
       }
     };
   });
@@ -56,6 +89,59 @@ export const saveBuildingsToIndexedDB = async (buildings: Building[]): Promise<v
   }
 };
 
+// Merge a delta sync into the cache without rewriting the whole store
+export const applyBuildingChangesToIndexedDB = async (updated: Building[], removedIds: string[]): Promise<void> => {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+
+    await Promise.all([
+      ...updated.map(b => store.put(b)),
+      ...removedIds.map(id => store.delete(id)),
+    ].map(request =>
+      new Promise<void>((resolve, reject) => {
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      })
+    ));
+
+    console.log(`💾 Merged ${updated.length} changed and ${removedIds.length} removed buildings into IndexedDB`);
+  } catch (error) {
+    console.error('Error merging building changes into IndexedDB:', error);
+  }
+};
+
+export const loadSyncState = async (): Promise<SyncState | null> => {
+  try {
+    const db = await openDB();
+    const request = db.transaction(META_STORE_NAME, 'readonly').objectStore(META_STORE_NAME).get(SYNC_STATE_KEY);
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+    return (request.result as SyncState | undefined) || null;
+  } catch (error) {
+    console.error('Error loading sync state from IndexedDB:', error);
+    return null;
+  }
+};
+
+// Pass null to forget the cursor (the next visit then does a full reload)
+export const saveSyncState = async (state: SyncState | null): Promise<void> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(META_STORE_NAME, 'readwrite').objectStore(META_STORE_NAME);
+    const request = state ? store.put(state, SYNC_STATE_KEY) : store.delete(SYNC_STATE_KEY);
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error saving sync state to IndexedDB:', error);
+  }
+};
+
 // Load buildings from IndexedDB
 export const loadBuildingsFromIndexedDB = async (): Promise<Building[]> => {
   try {
@@ -82,15 +168,115 @@ export const loadBuildingsFromIndexedDB = async (): Promise<Building[]> => {
 export const clearIndexedDBCache = async (): Promise<void> => {
   try {
     const db = await openDB();
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const clearRequest = tx.objectStore(STORE_NAME).clear();
-    await new Promise<void>((resolve, reject) => {
-      clearRequest.onsuccess = () => resolve();
-      clearRequest.onerror = () => reject(clearRequest.error);
-    });
+    const tx = db.transaction([STORE_NAME, META_STORE_NAME, AI_CACHE_STORE_NAME], 'readwrite');
+    // The sync cursor is meaningless without the cached rows
+    const clearRequests = [
+      tx.objectStore(STORE_NAME).clear(),
+      tx.objectStore(META_STORE_NAME).clear(),
+      tx.objectStore(AI_CACHE_STORE_NAME).clear(),
+    ];
+    await Promise.all(clearRequests.map(clearRequest =>
+      new Promise<void>((resolve, reject) => {
+        clearRequest.onsuccess = () => resolve();
+        clearRequest.onerror = () => reject(clearRequest.error);
+      })
+    ));
     console.log('🗑️ Cleared IndexedDB cache');
   } catch (error) {
     console.error('Error clearing IndexedDB cache:', error);
   }
 };
 
+
+// Outbox - unlike the cache helpers above these throw, since a lost entry is a lost edit
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const addOutboxEntry = async (entry: Omit<OutboxEntry, 'id'>): Promise<OutboxEntry> => {
+  const db = await openDB();
+  const store = db.transaction(OUTBOX_STORE_NAME, 'readwrite').objectStore(OUTBOX_STORE_NAME);
+  const id = await runRequest(store.add(entry));
+  return { ...entry, id: id as number };
+};
+
+// Oldest first (the order they have to be replayed in)
+export const loadOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const db = await openDB();
+  const store = db.transaction(OUTBOX_STORE_NAME, 'readonly').objectStore(OUTBOX_STORE_NAME);
+  return runRequest(store.getAll() as IDBRequest<OutboxEntry[]>);
+};
+
+export const putOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  const db = await openDB();
+  const store = db.transaction(OUTBOX_STORE_NAME, 'readwrite').objectStore(OUTBOX_STORE_NAME);
+  await runRequest(store.put(entry));
+};
+
+export const deleteOutboxEntry = async (id: number): Promise<void> => {
+  const db = await openDB();
+  const store = db.transaction(OUTBOX_STORE_NAME, 'readwrite').objectStore(OUTBOX_STORE_NAME);
+  await runRequest(store.delete(id));
+};
+
+// Offline regions (the tiles and images themselves are in Cache Storage)
+
+export const loadOfflineRegions = async (): Promise<OfflineRegion[]> => {
+  const db = await openDB();
+  const store = db.transaction(REGIONS_STORE_NAME, 'readonly').objectStore(REGIONS_STORE_NAME);
+  return runRequest(store.getAll() as IDBRequest<OfflineRegion[]>);
+};
+
+export const putOfflineRegion = async (region: OfflineRegion): Promise<void> => {
+  const db = await openDB();
+  const store = db.transaction(REGIONS_STORE_NAME, 'readwrite').objectStore(REGIONS_STORE_NAME);
+  await runRequest(store.put(region));
+};
+
+export const deleteOfflineRegionRecord = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const store = db.transaction(REGIONS_STORE_NAME, 'readwrite').objectStore(REGIONS_STORE_NAME);
+  await runRequest(store.delete(id));
+};
+
+// Gemini response cache (a miss or an IndexedDB failure just means asking the server or the model)
+
+export const loadAiCacheEntry = async (key: string): Promise<AiCacheEntry | null> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(AI_CACHE_STORE_NAME, 'readonly').objectStore(AI_CACHE_STORE_NAME);
+    return (await runRequest(store.get(key) as IDBRequest<AiCacheEntry | undefined>)) || null;
+  } catch (error) {
+    console.warn('Error reading AI cache from IndexedDB:', error);
+    return null;
+  }
+};
+
+export const putAiCacheEntry = async (entry: AiCacheEntry): Promise<void> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(AI_CACHE_STORE_NAME, 'readwrite').objectStore(AI_CACHE_STORE_NAME);
+    await runRequest(store.put(entry));
+  } catch (error) {
+    console.warn('Error saving AI cache to IndexedDB:', error);
+  }
+};
+
+// Drop expired entries so the store doesn't grow forever
+export const pruneAiCache = async (now = Date.now()): Promise<void> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(AI_CACHE_STORE_NAME, 'readwrite').objectStore(AI_CACHE_STORE_NAME);
+    const entries = await runRequest(store.getAll() as IDBRequest<AiCacheEntry[]>);
+    await Promise.all(
+      entries
+        .filter((entry) => new Date(entry.expiresAt).getTime() <= now)
+        .map((entry) => runRequest(store.delete(entry.key)))
+    );
+  } catch (error) {
+    console.warn('Error pruning AI cache in IndexedDB:', error);
+  }
+};
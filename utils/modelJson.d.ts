@@ -0,0 +1,4 @@
+// Types for modelJson.js (kept as plain JS so the Node scripts can import it)
+
+export function parseModelJsonArray(text: string | null | undefined): unknown[] | null;
+export function parseModelJsonObject(text: string | null | undefined): Record<string, unknown> | null;
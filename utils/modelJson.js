@@ -0,0 +1,62 @@
+// Finding the JSON in a model's free-text answer, shared by the app (geminiService) and
+// scripts/eval-prompts.js. Answers may be wrapped in markdown fences or prose (sometimes with
+// citations like "[1]" before the real JSON), so each opening bracket is tried in turn.
+//
+// Plain ES module so the scripts can import it without a build step;
+// types live in modelJson.d.ts.
+
+// Find the first bracketed value starting at `start` that closes, skipping brackets inside strings
+const balancedSlice = (text, start) => {
+  const open = text[start];
+  const close = open === '[' ? ']' : '}';
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null; // Cut off part way through (e.g. the model hit its output limit)
+};
+
+const parseLenient = (json) => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    // Trailing commas are the model's most common slip
+    try {
+      return JSON.parse(json.replace(/,\s*([\]}])/g, '$1'));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+// Try each opening bracket in `text` in turn until one parses into what `accept` wants
+const findJson = (text, open, accept) => {
+  for (let start = text.indexOf(open); start !== -1; start = text.indexOf(open, start + 1)) {
+    const slice = balancedSlice(text, start);
+    if (!slice) continue;
+    const value = parseLenient(slice);
+    if (accept(value)) return value;
+  }
+  return null;
+};
+
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The first JSON array that is empty or holds objects (so not a citation like [1]), or null
+export const parseModelJsonArray = (text) =>
+  findJson(text || '', '[', (value) => Array.isArray(value) && (value.length === 0 || value.some(isObject)));
+
+// The first JSON object, or null
+export const parseModelJsonObject = (text) => findJson(text || '', '{', isObject);
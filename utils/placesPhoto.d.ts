@@ -0,0 +1,11 @@
+// Types for placesPhoto.js (kept as plain JS so server/lib and scripts can import it)
+
+export const PLACES_PHOTO_PATH: string;
+export const DEFAULT_PLACES_PHOTO_WIDTH: number;
+
+export function placesPhotoUrl(photoReference: string, width?: number): string;
+export function isGooglePlacesPhotoUrl(url: unknown): boolean;
+export function isPlacesPhotoUrl(url: unknown): boolean;
+export function toPlacesPhotoProxyUrl<T extends string | null | undefined>(url: T): T;
+export function parsePlacesAttributions(htmlAttributions: unknown): { name: string; url?: string }[];
+export function keylessImageFields(fields: { image_url?: unknown; images?: unknown }): { image_url?: string; images?: string };
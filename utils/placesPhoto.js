@@ -0,0 +1,84 @@
+// Google Places photo URLs, shared by the app, the API server (on write) and the back-office scripts.
+//
+// Plain ES module so server/lib and scripts can import it without a build step;
+// types live in placesPhoto.d.ts.
+//
+// Google's photo endpoint needs the Maps API key in the URL, so those URLs must never be shown
+// to the browser or stored. Everything references the keyless proxy instead
+// (/api/places/photo, see server/lib/placesPhoto.js), which adds the key server-side.
+
+import { decodeEntities } from './richText.js';
+
+export const PLACES_PHOTO_PATH = '/api/places/photo';
+export const DEFAULT_PLACES_PHOTO_WIDTH = 1200;
+
+const GOOGLE_PHOTO_PATTERN = /^https?:\/\/maps\.googleapis\.com\/maps\/api\/place\/photo\?/;
+
+/** Keyless proxy URL for a Places photo reference (relative, so it works on any host). */
+export const placesPhotoUrl = (photoReference, width = DEFAULT_PLACES_PHOTO_WIDTH) =>
+  `${PLACES_PHOTO_PATH}?ref=${encodeURIComponent(photoReference)}&w=${width}`;
+
+/** True for a URL pointing straight at Google's photo endpoint (these usually carry the key). */
+export const isGooglePlacesPhotoUrl = (url) => typeof url === 'string' && GOOGLE_PHOTO_PATTERN.test(url);
+
+/** True for any Places photo URL, direct or through the proxy. */
+export const isPlacesPhotoUrl = (url) =>
+  isGooglePlacesPhotoUrl(url) || (typeof url === 'string' && url.includes(`${PLACES_PHOTO_PATH}?`));
+
+/**
+ * Rewrite a direct Google Places photo URL to the proxy URL. Absolute proxy URLs
+ * (e.g. http://localhost:3001/api/places/photo?...) become relative too. Anything else is returned as is.
+ */
+export const toPlacesPhotoProxyUrl = (url) => {
+  if (typeof url !== 'string' || !url) return url;
+  if (isGooglePlacesPhotoUrl(url)) {
+    const params = new URL(url).searchParams;
+    const reference = params.get('photo_reference') || params.get('photoreference');
+    if (!reference) return url;
+    const width = Number(params.get('maxwidth') || params.get('maxheight')) || DEFAULT_PLACES_PHOTO_WIDTH;
+    return placesPhotoUrl(reference, width);
+  }
+  const proxyIndex = url.indexOf(`${PLACES_PHOTO_PATH}?`);
+  return proxyIndex > 0 && /^https?:\/\//.test(url) ? url.slice(proxyIndex) : url;
+};
+
+/**
+ * Turn a Places photo's html_attributions (e.g. '<a href="https://maps.google.com/maps/contrib/1">Jane</a>')
+ * into plain { name, url } credits, so no Google-supplied HTML is ever stored or rendered.
+ */
+export const parsePlacesAttributions = (htmlAttributions) => {
+  if (!Array.isArray(htmlAttributions)) return [];
+  return htmlAttributions
+    .filter((html) => typeof html === 'string')
+    .map((html) => {
+      const href = html.match(/href\s*=\s*"([^"]*)"/i)?.[1];
+      const url = href ? decodeEntities(href) : undefined;
+      const name = decodeEntities(html.replace(/<[^>]*>/g, '')).trim();
+      return url && /^https:\/\//.test(url) ? { name, url } : { name };
+    })
+    .filter((attribution) => attribution.name);
+};
+
+/**
+ * Rewrite the image URLs in a set of row fields (`image_url` and the `images` JSON collection).
+ * Returns only the fields that changed, so an empty object means nothing to do.
+ */
+export const keylessImageFields = (fields) => {
+  const changed = {};
+  if (typeof fields.image_url === 'string' && toPlacesPhotoProxyUrl(fields.image_url) !== fields.image_url) {
+    changed.image_url = toPlacesPhotoProxyUrl(fields.image_url);
+  }
+  if (typeof fields.images === 'string' && fields.images.includes('/place/photo')) {
+    try {
+      const images = JSON.parse(fields.images);
+      if (Array.isArray(images)) {
+        changed.images = JSON.stringify(
+          images.map((image) => (image && typeof image === 'object' ? { ...image, url: toPlacesPhotoProxyUrl(image.url) } : image))
+        );
+      }
+    } catch {
+      // Not valid JSON - leave it for the app's own parser to ignore
+    }
+  }
+  return changed;
+};
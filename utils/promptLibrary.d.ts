@@ -0,0 +1,23 @@
+// Types for promptLibrary.js (kept as plain JS so the Node scripts can import it)
+import type { AITask } from '../services/aiProvider';
+
+// What each task's template is filled in with
+export interface PromptVariables {
+  geocode: { locationName: string };
+  discover: { locationQuery: string };
+  evaluate_poi: { name: string; location: string };
+}
+
+export interface PromptTemplate<T extends AITask = AITask> {
+  id: string; // "<task>@<version>" - stored on buildings as prompt_version
+  task: T;
+  model: string; // The Gemini model the version was written and evaluated for
+  description: string;
+  systemInstruction: string | undefined;
+  render(variables: PromptVariables[T]): string;
+}
+
+export const PROMPTS: Record<string, PromptTemplate>;
+export const ACTIVE_PROMPTS: { [T in AITask]: string };
+
+export function getPrompt<T extends AITask>(task: T, id?: string): PromptTemplate<T>;
@@ -0,0 +1,30 @@
+import { BuildingImage, ImageFormat } from '../types';
+
+// Helpers for images with server-made variants (see server/lib/imagePipeline.js).
+// Images without variants (Places photos, web images, older uploads) just use their URL.
+
+// Preferred formats first - the browser takes the first <source> it supports
+export const PICTURE_FORMATS: { format: ImageFormat; type: string }[] = [
+  { format: 'avif', type: 'image/avif' },
+  { format: 'webp', type: 'image/webp' },
+];
+
+// "url 400w, url 800w" for one format, or undefined when the image has no variants in it
+export const buildSrcSet = (image: BuildingImage, format: ImageFormat): string | undefined => {
+  const variants = (image.variants || [])
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width);
+  return variants.length > 0 ? variants.map((variant) => `${variant.url} ${variant.width}w`).join(', ') : undefined;
+};
+
+// Smallest JPEG at least `minWidth` wide (for thumbnails), or the image's own URL
+export const pickImageUrl = (image: BuildingImage, minWidth: number): string => {
+  const jpegs = (image.variants || [])
+    .filter((variant) => variant.format === 'jpeg')
+    .sort((a, b) => a.width - b.width);
+  return (jpegs.find((variant) => variant.width >= minWidth) || jpegs[jpegs.length - 1])?.url || image.url;
+};
+
+// Every stored URL of an image (e.g. to cache all sizes for offline use)
+export const allImageUrls = (image: BuildingImage): string[] =>
+  Array.from(new Set([image.url, ...(image.variants || []).map((variant) => variant.url)]));
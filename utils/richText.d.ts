@@ -0,0 +1,13 @@
+// Types for richText.js (kept as plain JS so server/lib can import it)
+
+export const MENTION_PATTERN: RegExp;
+
+export function sanitizeRichText(html: string | null | undefined): string;
+export function richTextToPlainText(html: string | null | undefined): string;
+export function linkMentions(html: string, usernames: string[]): string;
+export function extractMentions(html: string): string[];
+export function extractBuildingLinks(html: string): number[];
+export function buildingLinkHtml(rowId: number, name: string): string;
+export function mentionHtml(username: string): string;
+export function decodeEntities(text: string): string;
+export function escapeHtml(text: string): string;
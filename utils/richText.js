@@ -0,0 +1,229 @@
+// Comment rich text: a small allow-listed HTML format, shared by the app (on save and on
+// render) and the comments API (on write), so nothing outside the format is ever stored or shown.
+//
+// Plain ES module so server/lib can import it without a build step;
+// types live in richText.d.ts.
+//
+// The format:
+//   <p>, <br>                        paragraphs and line breaks (<div> from contentEditable becomes <p>)
+//   <strong>, <em>, <u>, <s>         inline formatting (<b> / <i> / <strike> are normalised)
+//   <ul>, <ol>, <li>, <blockquote>   lists and quotes
+//   <a href="https://...">           external links (http, https, mailto), opened in a new tab
+//   <a data-building="123">          link to another building (Baserow row id)
+//   <span data-mention="username">   @-mention of a collaborator
+//
+// Everything else is dropped: unknown tags are unwrapped (their text is kept), script-like
+// tags are removed with their content, and every attribute not listed above is stripped.
+// The parser is a plain tokenizer so it behaves the same in the browser and in Node.
+
+const INLINE_ALIASES = { b: 'strong', i: 'em', strike: 's', del: 's', div: 'p' };
+const ALLOWED_TAGS = new Set(['p', 'br', 'strong', 'em', 'u', 's', 'ul', 'ol', 'li', 'blockquote', 'a', 'span']);
+const VOID_TAGS = new Set(['br']);
+// Dropped together with everything inside them
+const DROPPED_CONTENT_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'svg', 'math', 'textarea', 'select', 'head', 'title']);
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+export const MENTION_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+const NAMED_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export const decodeEntities = (text) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+export const escapeHtml = (text) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const parseAttributes = (source) => {
+  const attributes = {};
+  const pattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match;
+  while ((match = pattern.exec(source))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+// Split HTML into text and tag tokens (comments, doctypes and processing instructions are skipped)
+const tokenize = (html) => {
+  const tokens = [];
+  const pattern = /<!--[\s\S]*?(?:-->|$)|<![^>]*>?|<\?[^>]*>?|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+  let lastIndex = 0;
+  let match;
+  while ((match = pattern.exec(html))) {
+    if (match.index > lastIndex) tokens.push({ type: 'text', value: html.slice(lastIndex, match.index) });
+    if (match[2]) {
+      tokens.push({
+        type: match[1] ? 'close' : 'open',
+        name: match[2].toLowerCase(),
+        attributes: match[1] ? {} : parseAttributes(match[3]),
+        selfClosing: /\/\s*$/.test(match[3]),
+      });
+    }
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < html.length) tokens.push({ type: 'text', value: html.slice(lastIndex) });
+  return tokens;
+};
+
+const parseBuildingId = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+// The allowed form of an opening tag, or null to unwrap it (keep its text, drop the tag)
+const renderOpenTag = (name, attributes) => {
+  if (name === 'a') {
+    const buildingId = parseBuildingId(attributes['data-building']);
+    if (buildingId) return `<a href="#building-${buildingId}" data-building="${buildingId}">`;
+    const href = (attributes.href || '').trim();
+    if (SAFE_URL.test(href)) return `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer nofollow">`;
+    return null;
+  }
+  if (name === 'span') {
+    const username = attributes['data-mention'];
+    return username && MENTION_PATTERN.test(username) ? `<span data-mention="${escapeHtml(username)}">` : null;
+  }
+  return `<${name}>`;
+};
+
+/**
+ * Reduce any HTML to the comment format. Safe to run repeatedly (the output is stable).
+ * @param {string} html
+ * @returns {string}
+ */
+export const sanitizeRichText = (html) => {
+  if (!html) return '';
+  const output = [];
+  const stack = []; // Open allowed tags ({ name } or null for unwrapped tags, so closes pair up)
+  let dropDepth = 0;
+  let dropTag = null;
+
+  for (const token of tokenize(String(html))) {
+    if (dropDepth > 0) {
+      // Inside <script> etc.: skip until the matching close tag
+      if (token.type === 'open' && token.name === dropTag && !token.selfClosing) dropDepth += 1;
+      if (token.type === 'close' && token.name === dropTag) dropDepth -= 1;
+      continue;
+    }
+
+    if (token.type === 'text') {
+      output.push(escapeHtml(decodeEntities(token.value)));
+      continue;
+    }
+
+    const name = INLINE_ALIASES[token.name] || token.name;
+
+    if (token.type === 'open') {
+      if (DROPPED_CONTENT_TAGS.has(token.name)) {
+        if (!token.selfClosing) {
+          dropDepth = 1;
+          dropTag = token.name;
+        }
+        continue;
+      }
+      if (!ALLOWED_TAGS.has(name)) continue;
+      // Paragraphs don't nest (contentEditable can produce <div><div>): close the open one first
+      if (name === 'p') {
+        const openParagraph = stack.findIndex((open) => open.name === 'p' && !open.unwrapped);
+        while (openParagraph !== -1 && stack.length > openParagraph) {
+          const open = stack.pop();
+          if (!open.unwrapped) output.push(`</${open.name}>`);
+        }
+      }
+      if (VOID_TAGS.has(name)) {
+        output.push(`<${name}>`);
+        continue;
+      }
+      // No links inside links
+      const tag = name === 'a' && stack.some((open) => open && open.name === 'a') ? null : renderOpenTag(name, token.attributes);
+      stack.push(tag ? { name } : { name, unwrapped: true });
+      if (tag) output.push(tag);
+      continue;
+    }
+
+    // Close tag: close everything opened since the matching open tag
+    if (!ALLOWED_TAGS.has(name) || VOID_TAGS.has(name)) continue;
+    const index = stack.map((open) => open.name).lastIndexOf(name);
+    if (index === -1) continue;
+    while (stack.length > index) {
+      const open = stack.pop();
+      if (!open.unwrapped) output.push(`</${open.name}>`);
+    }
+  }
+
+  while (stack.length > 0) {
+    const open = stack.pop();
+    if (!open.unwrapped) output.push(`</${open.name}>`);
+  }
+
+  return output
+    .join('')
+    .replace(/<p><\/p>/g, '')
+    .trim();
+};
+
+// Plain text of a comment (for previews, quotes and length checks)
+export const richTextToPlainText = (html) =>
+  decodeEntities(
+    sanitizeRichText(html)
+      .replace(/<br>|<\/p>|<\/li>/g, ' ')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Turn typed "@username" into mention spans for the given collaborators (case-insensitive,
+ * written with the collaborator's own casing). Text already inside a link or mention is left alone.
+ * @param {string} html
+ * @param {string[]} usernames
+ * @returns {string}
+ */
+export const linkMentions = (html, usernames) => {
+  const known = new Map(usernames.filter((u) => MENTION_PATTERN.test(u)).map((u) => [u.toLowerCase(), u]));
+  const clean = sanitizeRichText(html);
+  if (known.size === 0) return clean;
+
+  let insideLink = 0;
+  return clean.replace(/(<[^>]+>)|([^<]+)/g, (match, tag, text) => {
+    if (tag) {
+      if (/^<(a|span)\b/.test(tag)) insideLink += 1;
+      if (/^<\/(a|span)>/.test(tag)) insideLink -= 1;
+      return tag;
+    }
+    if (insideLink > 0) return text;
+    return text.replace(/(^|[^A-Za-z0-9_.-])@([A-Za-z0-9_.-]{1,64})/g, (whole, before, name) => {
+      const username = known.get(name.toLowerCase().replace(/\.+$/, ''));
+      if (!username) return whole;
+      const trailing = name.slice(username.length); // e.g. the full stop in "thanks @nick."
+      return `${before}<span data-mention="${username}">@${username}</span>${trailing}`;
+    });
+  });
+};
+
+// Usernames mentioned in a comment (for notifications and filtering)
+export const extractMentions = (html) => {
+  const mentions = new Set();
+  for (const match of sanitizeRichText(html).matchAll(/data-mention="([^"]+)"/g)) mentions.add(match[1]);
+  return [...mentions];
+};
+
+// Building row ids linked from a comment
+export const extractBuildingLinks = (html) => {
+  const ids = new Set();
+  for (const match of sanitizeRichText(html).matchAll(/data-building="(\d+)"/g)) ids.add(Number(match[1]));
+  return [...ids];
+};
+
+// Markup for a building link / mention inserted by the comment editor
+export const buildingLinkHtml = (rowId, name) =>
+  `<a href="#building-${rowId}" data-building="${rowId}">${escapeHtml(name)}</a>`;
+
+export const mentionHtml = (username) =>
+  MENTION_PATTERN.test(username) ? `<span data-mention="${username}">@${escapeHtml(username)}</span>` : '';
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Coordinates } from '../types';
+import { getDistance } from './geo';
+import { createSpatialIndex } from './spatialIndex';
+
+interface Point {
+  id: string;
+  coords: Coordinates;
+}
+
+const buildIndex = (points: Point[]) => createSpatialIndex(points, (point) => point.id, (point) => point.coords);
+
+// The answer findNearest must match: the closest point by a plain scan
+const bruteForceNearest = (points: Point[], center: Coordinates, filter?: (point: Point) => boolean) => {
+  let best: Point | null = null;
+  let bestDistance = Infinity;
+  for (const point of points) {
+    if (filter && !filter(point)) continue;
+    const distance = getDistance(center, point.coords);
+    if (distance < bestDistance) {
+      best = point;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Small seeded generator so a failing case can be reproduced
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+describe('findNearest', () => {
+  it('finds a closer building east-west beyond the ring search at high latitudes', () => {
+    const points = [
+      { id: 'north', coords: { lat: 63.6, lng: 10 } }, // ~400km away
+      { id: 'east', coords: { lat: 60, lng: 15.5 } }, // ~306km away, more than 50 longitude cells
+    ];
+    expect(buildIndex(points).findNearest({ lat: 60, lng: 10 })?.id).toBe('east');
+  });
+
+  it('returns null for an empty index or when nothing passes the filter', () => {
+    expect(buildIndex([]).findNearest({ lat: 0, lng: 1 })).toBeNull();
+    const index = buildIndex([{ id: 'a', coords: { lat: 10, lng: 10 } }]);
+    expect(index.findNearest({ lat: 0, lng: 1 }, () => false)).toBeNull();
+  });
+
+  it('matches a brute-force scan', () => {
+    const random = createRandom(42);
+    for (let run = 0; run < 300; run++) {
+      // Mix tight clusters with points spread over the globe
+      const spread = run % 3 === 0 ? 180 : run % 3 === 1 ? 20 : 2;
+      const origin = { lat: random() * 160 - 80, lng: random() * 360 - 180 };
+      const points: Point[] = Array.from({ length: 1 + Math.floor(random() * 40) }, (_, i) => ({
+        id: `p${i}`,
+        coords: {
+          lat: Math.max(-89.9, Math.min(89.9, origin.lat + (random() - 0.5) * spread)),
+          lng: ((origin.lng + (random() - 0.5) * spread * 2 + 540) % 360) - 180,
+        },
+      }));
+      const center = { lat: origin.lat + (random() - 0.5) * 4, lng: origin.lng + (random() - 0.5) * 4 };
+      const filter = run % 5 === 0 ? (point: Point) => Number(point.id.slice(1)) % 2 === 0 : undefined;
+
+      const expected = bruteForceNearest(points, center, filter);
+      const actual = buildIndex(points).findNearest(center, filter);
+      expect(actual && getDistance(center, actual.coords)).toBe(expected && getDistance(center, expected.coords));
+    }
+  });
+});
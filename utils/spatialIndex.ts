@@ -0,0 +1,196 @@
+import { Building, Coordinates, GeoBounds } from '../types';
+import { getDistance, isWithinBounds } from './geo';
+
+// In-memory grid index for building lookups (radius, bounding box, nearest).
+// Buildings are bucketed into fixed-size lat/lng cells so lookups only touch the
+// cells around the query point instead of scanning every loaded building.
+
+const CELL_SIZE_DEG = 0.1; // ~11km of latitude per cell
+const LAT_CELLS = Math.round(180 / CELL_SIZE_DEG);
+const LNG_CELLS = Math.round(360 / CELL_SIZE_DEG);
+const METERS_PER_DEG_LAT = 111000;
+const MAX_NEAREST_RINGS = 50; // Beyond ~5° from the query point, fall back to a full scan
+
+export interface SpatialIndex<T> {
+  readonly size: number;
+  insert(item: T): void;
+  remove(item: T): void;
+  queryRadius(center: Coordinates, radiusMeters: number): T[];
+  queryBounds(bounds: GeoBounds): T[];
+  findNearest(center: Coordinates, filter?: (item: T) => boolean): T | null;
+}
+
+interface IndexEntry<T> {
+  item: T;
+  coords: Coordinates;
+  cell: string;
+}
+
+// Buildings without usable coordinates (NaN or the 0,0 placeholder) are never indexed
+export const hasValidCoordinates = (coords: Coordinates | undefined): coords is Coordinates => {
+  return !!coords &&
+    !isNaN(coords.lat) &&
+    !isNaN(coords.lng) &&
+    !(coords.lat === 0 && coords.lng === 0);
+};
+
+// Check if a point is inside the bounding box around a radius (faster than distance calculation)
+export const isInBoundingBox = (center: Coordinates, radiusMeters: number, coords: Coordinates | undefined): boolean => {
+  if (!hasValidCoordinates(coords)) return false;
+
+  // Approximate bounding box: ~111km per degree latitude
+  const latRange = radiusMeters / METERS_PER_DEG_LAT;
+  // Longitude range varies by latitude
+  const lngRange = radiusMeters / (METERS_PER_DEG_LAT * Math.cos(center.lat * Math.PI / 180));
+
+  return coords.lat >= center.lat - latRange &&
+         coords.lat <= center.lat + latRange &&
+         coords.lng >= center.lng - lngRange &&
+         coords.lng <= center.lng + lngRange;
+};
+
+const latCell = (lat: number) => Math.min(LAT_CELLS - 1, Math.max(0, Math.floor((lat + 90) / CELL_SIZE_DEG)));
+// Wrap longitude cells so queries across the antimeridian still line up
+const lngCell = (lng: number) => ((Math.floor((lng + 180) / CELL_SIZE_DEG) % LNG_CELLS) + LNG_CELLS) % LNG_CELLS;
+const cellKey = (latIdx: number, lngIdx: number) => `${latIdx}:${lngIdx}`;
+
+export const createSpatialIndex = <T>(
+  items: T[],
+  getKey: (item: T) => string,
+  getCoordinates: (item: T) => Coordinates | undefined
+): SpatialIndex<T> => {
+  const entries = new Map<string, IndexEntry<T>>();
+  const cells = new Map<string, Set<string>>();
+
+  const insert = (item: T) => {
+    const key = getKey(item);
+    remove(item);
+    const coords = getCoordinates(item);
+    if (!hasValidCoordinates(coords)) return;
+
+    const cell = cellKey(latCell(coords.lat), lngCell(coords.lng));
+    entries.set(key, { item, coords, cell });
+    if (!cells.has(cell)) cells.set(cell, new Set());
+    cells.get(cell)!.add(key);
+  };
+
+  const remove = (item: T) => {
+    const key = getKey(item);
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    const bucket = cells.get(entry.cell);
+    bucket?.delete(key);
+    if (bucket && bucket.size === 0) cells.delete(entry.cell);
+  };
+
+  // Collect entries from a block of cells (longitude indices wrap, latitude indices are clamped)
+  const collectCells = (minLat: number, maxLat: number, minLng: number, maxLng: number): IndexEntry<T>[] => {
+    const latCount = maxLat - minLat + 1;
+    const lngCount = Math.min(maxLng - minLng + 1, LNG_CELLS);
+
+    // Very large areas: scanning every entry is cheaper than probing every cell
+    if (latCount * lngCount > entries.size) {
+      return Array.from(entries.values());
+    }
+
+    const found: IndexEntry<T>[] = [];
+    for (let latIdx = Math.max(0, minLat); latIdx <= Math.min(LAT_CELLS - 1, maxLat); latIdx++) {
+      for (let offset = 0; offset < lngCount; offset++) {
+        const lngIdx = (((minLng + offset) % LNG_CELLS) + LNG_CELLS) % LNG_CELLS;
+        const bucket = cells.get(cellKey(latIdx, lngIdx));
+        if (!bucket) continue;
+        bucket.forEach((key) => found.push(entries.get(key)!));
+      }
+    }
+    return found;
+  };
+
+  const radiusCandidates = (center: Coordinates, radiusMeters: number): IndexEntry<T>[] => {
+    const latRange = radiusMeters / METERS_PER_DEG_LAT;
+    const cosLat = Math.cos(center.lat * Math.PI / 180);
+    const lngRange = cosLat > 0.01 ? radiusMeters / (METERS_PER_DEG_LAT * cosLat) : 360;
+
+    const centerLng = lngCell(center.lng);
+    const lngSpan = lngRange >= 180 ? LNG_CELLS : Math.ceil(lngRange / CELL_SIZE_DEG);
+    return collectCells(
+      latCell(center.lat - latRange),
+      latCell(center.lat + latRange),
+      centerLng - lngSpan,
+      centerLng + lngSpan
+    );
+  };
+
+  const queryRadius = (center: Coordinates, radiusMeters: number): T[] => {
+    return radiusCandidates(center, radiusMeters)
+      .filter((entry) => getDistance(center, entry.coords) <= radiusMeters)
+      .map((entry) => entry.item);
+  };
+
+  const queryBounds = (bounds: GeoBounds): T[] => {
+    const west = lngCell(bounds.west);
+    let east = lngCell(bounds.east);
+    if (bounds.west > bounds.east || east < west) east += LNG_CELLS; // Crosses the antimeridian
+    return collectCells(latCell(bounds.south), latCell(bounds.north), west, east)
+      .filter((entry) => isWithinBounds(entry.coords, bounds))
+      .map((entry) => entry.item);
+  };
+
+  const findNearest = (center: Coordinates, filter?: (item: T) => boolean): T | null => {
+    let best: IndexEntry<T> | null = null;
+    let bestDistance = Infinity;
+    const consider = (entry: IndexEntry<T>) => {
+      if (filter && !filter(entry.item)) return;
+      const distance = getDistance(center, entry.coords);
+      if (distance < bestDistance) {
+        best = entry;
+        bestDistance = distance;
+      }
+    };
+
+    // Closest any point in a ring of cells can be (longitude cells narrow towards the poles)
+    const ringMinDistance = (ring: number) => Math.max(0, ring - 1) * CELL_SIZE_DEG * METERS_PER_DEG_LAT *
+      Math.max(0.01, Math.cos(Math.min(89, Math.abs(center.lat) + ring * CELL_SIZE_DEG) * Math.PI / 180));
+
+    // Search outward one ring of cells at a time; stop once the closest possible
+    // point in the next ring is further away than the best match so far
+    const centerLat = latCell(center.lat);
+    const centerLng = lngCell(center.lng);
+    for (let ring = 0; ring <= MAX_NEAREST_RINGS; ring++) {
+      if (best && ringMinDistance(ring) > bestDistance) return (best as IndexEntry<T>).item;
+
+      for (let latIdx = centerLat - ring; latIdx <= centerLat + ring; latIdx++) {
+        if (latIdx < 0 || latIdx >= LAT_CELLS) continue;
+        const onEdge = latIdx === centerLat - ring || latIdx === centerLat + ring;
+        const step = onEdge ? 1 : ring * 2 || 1;
+        for (let lngIdx = centerLng - ring; lngIdx <= centerLng + ring; lngIdx += step) {
+          const bucket = cells.get(cellKey(latIdx, ((lngIdx % LNG_CELLS) + LNG_CELLS) % LNG_CELLS));
+          bucket?.forEach((key) => consider(entries.get(key)!));
+        }
+      }
+    }
+
+    // Nothing close by, or a match that something beyond the searched rings could still beat
+    // (away from the equator the rings cover far less distance east-west) - fall back to a full scan
+    if (!best || bestDistance > ringMinDistance(MAX_NEAREST_RINGS + 1)) entries.forEach(consider);
+    return best ? (best as IndexEntry<T>).item : null;
+  };
+
+  items.forEach(insert);
+
+  return {
+    get size() {
+      return entries.size;
+    },
+    insert,
+    remove,
+    queryRadius,
+    queryBounds,
+    findNearest,
+  };
+};
+
+// Index buildings by id
+export const createBuildingIndex = (buildings: Building[]): SpatialIndex<Building> => {
+  return createSpatialIndex(buildings, (b) => b.id, (b) => b.coordinates);
+};
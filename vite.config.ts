@@ -13,14 +13,15 @@ export default defineConfig(({ mode }) => {
       process.env.VITE_GEMINI_API_KEY || 
       process.env.GEMINI_API_KEY;
     
-    // Support both VITE_GOOGLE_MAPS_API_KEY and GOOGLE_MAPS_API_KEY for flexibility
-    const googleMapsApiKey = 
-      env.VITE_GOOGLE_MAPS_API_KEY || 
-      env.GOOGLE_MAPS_API_KEY || 
-      process.env.VITE_GOOGLE_MAPS_API_KEY || 
-      process.env.GOOGLE_MAPS_API_KEY;
+    // VITE_* variables are exposed to the browser - the Baserow token must never use that prefix
+    if (env.VITE_BASEROW_API_TOKEN || process.env.VITE_BASEROW_API_TOKEN) {
+      console.warn('⚠️  WARNING: VITE_BASEROW_API_TOKEN is set and would be exposed in the client bundle. Rename it to BASEROW_API_TOKEN (server-side only).');
+    }
+    
+    const aiProvider = env.VITE_AI_PROVIDER || process.env.VITE_AI_PROVIDER || 'gemini';
+    const geminiViaApi = (env.VITE_GEMINI_VIA_API || process.env.VITE_GEMINI_VIA_API) === 'true';
     
-    if (!geminiApiKey && mode === 'production') {
+    if (!geminiApiKey && mode === 'production' && aiProvider === 'gemini' && !geminiViaApi) {
       console.warn('⚠️  WARNING: GEMINI_API_KEY is missing. The app may not work correctly in production.');
     }
     
@@ -28,6 +29,10 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Stored Places photo URLs are relative (/api/places/photo?...), so send them to the API server
+        proxy: {
+          '/api/places/photo': `http://localhost:${env.VITE_API_PORT || '3001'}`,
+        },
       },
       plugins: [
         react(),
@@ -42,10 +47,16 @@ export default defineConfig(({ mode }) => {
       define: {
         'process.env.API_KEY': JSON.stringify(geminiApiKey),
         'process.env.GEMINI_API_KEY': JSON.stringify(geminiApiKey),
-        'process.env.GOOGLE_MAPS_API_KEY': JSON.stringify(googleMapsApiKey),
-        'process.env.REACT_APP_GOOGLE_MAPS_API_KEY': JSON.stringify(googleMapsApiKey),
-        'process.env.REACT_APP_BASEROW_API_TOKEN': JSON.stringify(env.VITE_BASEROW_API_TOKEN || env.REACT_APP_BASEROW_API_TOKEN || process.env.VITE_BASEROW_API_TOKEN || process.env.REACT_APP_BASEROW_API_TOKEN),
-        'process.env.REACT_APP_BASEROW_TABLE_ID': JSON.stringify(env.VITE_BASEROW_TABLE_ID || env.REACT_APP_BASEROW_TABLE_ID || process.env.VITE_BASEROW_TABLE_ID || process.env.REACT_APP_BASEROW_TABLE_ID)
+        // The Google Maps key is server-side only - Places calls and photos go through /api/places/*
+        // Baserow token and table ID are server-side only (see server/lib/baserow.js)
+        // Storage backend: 'baserow' (default) or 'local' (in-memory, seeded from a JSON fixture)
+        'process.env.DATA_BACKEND': JSON.stringify(env.VITE_DATA_BACKEND || process.env.VITE_DATA_BACKEND || 'baserow'),
+        'process.env.LOCAL_FIXTURE_URL': JSON.stringify(env.VITE_LOCAL_FIXTURE_URL || process.env.VITE_LOCAL_FIXTURE_URL || ''),
+        // AI provider: 'gemini' (default) or 'mock' (canned answers from a JSON fixture, no key needed)
+        'process.env.AI_PROVIDER': JSON.stringify(aiProvider),
+        'process.env.AI_FIXTURE_URL': JSON.stringify(env.VITE_AI_FIXTURE_URL || process.env.VITE_AI_FIXTURE_URL || ''),
+        // Send Gemini calls through the dev API server's /api/gemini so they can be recorded/replayed
+        'process.env.GEMINI_VIA_API': JSON.stringify(geminiViaApi ? 'true' : '')
       },
       resolve: {
         alias: {